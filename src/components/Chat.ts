@@ -0,0 +1,53 @@
+/**
+ * Chat Primitives
+ *
+ * The pieces HustleChat is built from, for custom layouts:
+ *
+ * - Chat.Root - chat state for the pieces inside it (renders no markup)
+ * - Chat.Messages - message list with branching, edit and regenerate
+ * - Chat.Composer - input bar with attachments and Send/Stop
+ * - Chat.SettingsPanel - model, system prompt and plugin settings
+ * - Chat.PluginManager - install, update and remove plugins
+ * - Chat.ExportMenu - export the conversation or import one
+ * - Chat.PromptPicker - apply a saved system prompt or use a template
+ * - Chat.PromptLibrary - save, apply and share prompts
+ * - Chat.Profiles - switch and manage settings profiles
+ *
+ * Messages, Composer, ExportMenu and PromptPicker must be inside a Chat.Root;
+ * SettingsPanel, PluginManager, PromptLibrary and Profiles only need
+ * HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * <Chat.Root>
+ *   <div className="layout">
+ *     <Chat.Messages className="thread" />
+ *     <Chat.Composer placeholder="Ask anything..." />
+ *   </div>
+ * </Chat.Root>
+ * ```
+ */
+
+import { ChatRoot } from './ChatRoot';
+import { ChatMessages } from './ChatMessages';
+import { ChatComposer } from './ChatComposer';
+import { ChatSettingsPanel } from './ChatSettingsPanel';
+import { PluginManager } from './PluginManager';
+import { ChatExportMenu } from './ChatExportMenu';
+import { ChatPromptPicker } from './ChatPromptPicker';
+import { PromptLibraryManager } from './PromptLibraryManager';
+import { ProfileManager } from './ProfileManager';
+
+export const Chat = {
+  Root: ChatRoot,
+  Messages: ChatMessages,
+  Composer: ChatComposer,
+  SettingsPanel: ChatSettingsPanel,
+  PluginManager,
+  ExportMenu: ChatExportMenu,
+  PromptPicker: ChatPromptPicker,
+  PromptLibrary: PromptLibraryManager,
+  Profiles: ProfileManager,
+};
+
+export default Chat;
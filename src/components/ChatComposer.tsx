@@ -0,0 +1,461 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { usePlugins } from '../hooks/usePlugins';
+import { useChatContext } from './ChatRoot';
+import { styles } from './chatStyles';
+import {
+  collectSlashCommands,
+  matchSlashCommands,
+  parseSlashCommand,
+  runSlashCommand,
+} from '../utils/slashCommands';
+import type { Attachment, SlashCommand } from '../types';
+
+/**
+ * Composer state passed to ChatComposer render props
+ */
+export interface ChatComposerRenderProps {
+  /** Text in the composer */
+  input: string;
+  /** Replace the text in the composer */
+  setInput: (value: string) => void;
+  /** Send the text (and pending attachments), or run it as a slash command, and clear the composer */
+  submit: () => Promise<void>;
+  /** Stop the reply being generated */
+  stop: () => void;
+  /** Whether a reply is being generated */
+  isStreaming: boolean;
+  /** Whether the composer can't be typed in (not ready, loading or streaming) */
+  disabled: boolean;
+  /** Whether there is text to send and a message can be sent now */
+  canSubmit: boolean;
+  /** Attachments uploaded for the next message */
+  attachments: Attachment[];
+  /** Upload files and add them to the next message */
+  addAttachments: (files: File[] | FileList) => Promise<void>;
+  /** Remove a pending attachment by index */
+  removeAttachment: (index: number) => void;
+  /** Slash commands available (empty when commands are off) */
+  commands: SlashCommand[];
+  /** Last note from a slash command */
+  notice: string | null;
+}
+
+/**
+ * Props for ChatComposer component
+ */
+export interface ChatComposerProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+  /** Placeholder text for input */
+  placeholder?: string;
+  /** Show the attach button and pending attachments (default: true) */
+  showAttachments?: boolean;
+  /** Show the client error below the input (default: true) */
+  showError?: boolean;
+  /** Run `/command` input as slash commands, with autocomplete (default: true) */
+  enableCommands?: boolean;
+  /** More slash commands - these replace built-in and plugin commands with the same name */
+  commands?: SlashCommand[];
+  /** Replace the pending attachments list */
+  renderAttachments?: (attachments: Attachment[], removeAttachment: (index: number) => void) => React.ReactNode;
+  /** Replace the Send/Stop button */
+  renderActions?: (composer: ChatComposerRenderProps) => React.ReactNode;
+  /** Replace the whole composer, keeping its state */
+  children?: (composer: ChatComposerRenderProps) => React.ReactNode;
+}
+
+/**
+ * ChatComposer - The input bar of a Chat.Root
+ *
+ * Text input with file attachments and a Send button that becomes Stop
+ * while a reply is streaming. Enter sends, Shift+Enter adds a line.
+ *
+ * Input starting with `/` runs a slash command locally instead of being
+ * sent: the built-ins (/model, /system, /clear, /export, /plugins, /retry),
+ * enabled plugins' `commands` and any passed in. A popup suggests commands
+ * while the name is typed; `//` sends a message starting with a slash.
+ *
+ * @example Custom send button
+ * ```tsx
+ * <Chat.Composer
+ *   placeholder="Ask anything..."
+ *   renderActions={({ submit, stop, isStreaming, canSubmit }) =>
+ *     isStreaming
+ *       ? <MyButton onClick={stop}>Stop</MyButton>
+ *       : <MyButton disabled={!canSubmit} onClick={submit}>Ask</MyButton>
+ *   }
+ * />
+ * ```
+ *
+ * @example Extra slash command
+ * ```tsx
+ * <Chat.Composer
+ *   commands={[{
+ *     name: 'clip',
+ *     description: 'Copy the last reply',
+ *     run: ({ messages, notify }) => {
+ *       copyToClipboard(messages[messages.length - 1]?.content ?? '');
+ *       notify('Copied');
+ *     },
+ *   }]}
+ * />
+ * ```
+ *
+ * @example Fully custom markup
+ * ```tsx
+ * <Chat.Composer>
+ *   {({ input, setInput, submit, disabled }) => (
+ *     <form onSubmit={e => { e.preventDefault(); submit(); }}>
+ *       <input value={input} disabled={disabled} onChange={e => setInput(e.target.value)} />
+ *     </form>
+ *   )}
+ * </Chat.Composer>
+ * ```
+ */
+export function ChatComposer({
+  className = '',
+  style,
+  placeholder = 'Type a message...',
+  showAttachments = true,
+  showError = true,
+  enableCommands = true,
+  commands: extraCommands,
+  renderAttachments,
+  renderActions,
+  children,
+}: ChatComposerProps) {
+  const {
+    instanceId,
+    isLoading,
+    error,
+    models,
+    selectedModel,
+    setSelectedModel,
+    systemPrompt,
+    setSystemPrompt,
+  } = useHustle();
+  const { plugins, enabledPlugins, enablePlugin, disablePlugin } = usePlugins(instanceId);
+  const {
+    input,
+    setInput,
+    send,
+    stop,
+    regenerate,
+    clear,
+    messages,
+    getConversation,
+    isStreaming,
+    canSend,
+    canChat,
+    attachments,
+    addAttachments,
+    removeAttachment,
+  } = useChatContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [menuDismissed, setMenuDismissed] = useState(false);
+
+  // Built-ins < enabled plugins' commands < commands passed in
+  const commands = useMemo(
+    () => (enableCommands ? collectSlashCommands(enabledPlugins, extraCommands) : []),
+    [enableCommands, enabledPlugins, extraCommands]
+  );
+  const suggestions = menuDismissed ? [] : matchSlashCommands(commands, input);
+
+  /**
+   * Run composer text as a slash command
+   */
+  const runCommand = useCallback(async (text: string) => {
+    setInput('');
+    setNotice(null);
+    await runSlashCommand(commands, text, {
+      instanceId,
+      notify: setNotice,
+      send,
+      setInput,
+      messages,
+      getConversation,
+      clear,
+      regenerate,
+      models,
+      selectedModel,
+      setSelectedModel,
+      systemPrompt,
+      setSystemPrompt,
+      plugins,
+      enablePlugin,
+      disablePlugin,
+    });
+  }, [
+    commands, instanceId, send, setInput, messages, getConversation, clear, regenerate,
+    models, selectedModel, setSelectedModel, systemPrompt, setSystemPrompt, plugins, enablePlugin, disablePlugin,
+  ]);
+
+  /**
+   * Send the input as a message, or run it as a slash command
+   */
+  const submit = useCallback(async () => {
+    const content = input.trim();
+    if (!content) return;
+
+    if (enableCommands && parseSlashCommand(content)) {
+      await runCommand(content);
+      return;
+    }
+    if (!canSend) return;
+
+    setInput('');
+    setNotice(null);
+    // "//text" sends "/text"
+    await send(enableCommands && content.startsWith('//') ? content.slice(1) : content);
+  }, [input, enableCommands, runCommand, canSend, setInput, send]);
+
+  /**
+   * Pick a suggested command: run it if it takes no arguments, otherwise complete it
+   */
+  const chooseCommand = useCallback((command: SlashCommand) => {
+    if (command.usage) {
+      setInput(`/${command.name} `);
+    } else {
+      runCommand(`/${command.name}`);
+    }
+  }, [setInput, runCommand]);
+
+  /**
+   * Update the input, reopening the suggestions
+   */
+  const handleInputChange = useCallback((value: string) => {
+    setInput(value);
+    setHighlighted(0);
+    setMenuDismissed(false);
+  }, [setInput]);
+
+  /**
+   * Handle file upload
+   */
+  const handleFileSelect = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (!files || files.length === 0) return;
+
+      await addAttachments(files);
+
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    },
+    [addAttachments]
+  );
+
+  /**
+   * Handle key press - arrows, Tab and Escape drive the command suggestions
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (suggestions.length > 0) {
+        const command = suggestions[Math.min(highlighted, suggestions.length - 1)];
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if (e.key === 'Tab') {
+          e.preventDefault();
+          setInput(`/${command.name}${command.usage ? ' ' : ''}`);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          setMenuDismissed(true);
+          return;
+        }
+        if (e.key === 'Enter' && !e.shiftKey) {
+          e.preventDefault();
+          chooseCommand(command);
+          return;
+        }
+      }
+
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        submit();
+      }
+    },
+    [suggestions, highlighted, setInput, chooseCommand, submit]
+  );
+
+  const disabled = !canChat || isStreaming || isLoading;
+  const composer: ChatComposerRenderProps = {
+    input,
+    setInput,
+    submit,
+    stop,
+    isStreaming,
+    disabled,
+    canSubmit: canChat && canSend && !isLoading && input.trim().length > 0,
+    attachments,
+    addAttachments,
+    removeAttachment,
+    commands,
+    notice,
+  };
+
+  if (children) {
+    return <>{children(composer)}</>;
+  }
+
+  return (
+    <div className={className} style={style}>
+      {/* Attachments preview */}
+      {showAttachments && attachments.length > 0 && (
+        renderAttachments ? renderAttachments(attachments, removeAttachment) : (
+          <div style={styles.attachmentsPreview}>
+            {attachments.map((att, index) => (
+              <div key={index} style={styles.attachmentItem}>
+                <span style={styles.attachmentName}>{att.name}</span>
+                <button
+                  type="button"
+                  onClick={() => removeAttachment(index)}
+                  style={styles.attachmentRemove}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {/* Input area */}
+      <div style={styles.inputArea}>
+        {/* Slash command suggestions */}
+        {suggestions.length > 0 && (
+          <div role="listbox" aria-label="Commands" style={styles.commandMenu}>
+            {suggestions.map((command, index) => (
+              <div
+                key={command.name}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={e => {
+                  // Keep focus in the textarea
+                  e.preventDefault();
+                  chooseCommand(command);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                style={{
+                  ...styles.commandMenuItem,
+                  ...(index === highlighted ? styles.commandMenuItemActive : {}),
+                }}
+              >
+                <span style={styles.commandName}>/{command.name}</span>
+                {command.usage && <span style={styles.commandUsage}>{command.usage}</span>}
+                <span style={styles.commandDescription}>{command.description}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div style={styles.inputRow}>
+          {/* Input container with attached file button */}
+          <div style={styles.inputContainer}>
+            {showAttachments && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  style={styles.attachBtn}
+                  title="Attach file"
+                >
+                  <AttachIcon />
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={handleFileSelect}
+                  style={{ display: 'none' }}
+                />
+              </>
+            )}
+            <div style={styles.inputWrapper}>
+              <textarea
+                value={input}
+                onChange={e => handleInputChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder={placeholder}
+                disabled={disabled}
+                rows={1}
+                style={{
+                  ...styles.input,
+                  ...(disabled ? styles.inputDisabled : {}),
+                }}
+              />
+            </div>
+          </div>
+
+          {/* Send button - Stop while a response is streaming */}
+          {renderActions ? renderActions(composer) : isStreaming ? (
+            <button
+              type="button"
+              onClick={stop}
+              style={styles.stopBtn}
+              title="Stop generating"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={submit}
+              disabled={!canChat || !input.trim() || isLoading}
+              style={{
+                ...styles.sendBtn,
+                ...(!canChat || !input.trim() || isLoading
+                  ? styles.sendBtnDisabled
+                  : {}),
+              }}
+            >
+              Send
+            </button>
+          )}
+        </div>
+
+        {/* Slash command notes */}
+        {notice && (
+          <div role="status" style={styles.commandNotice}>
+            {notice}
+          </div>
+        )}
+
+        {/* Error display */}
+        {showError && error && (
+          <div style={styles.errorBox}>
+            {error.message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Attach icon
+ */
+function AttachIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48" />
+    </svg>
+  );
+}
+
+export default ChatComposer;
@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useState, useRef, useCallback } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { useChatContext } from './ChatRoot';
+import { styles } from './chatStyles';
+import { copyToClipboard } from '../utils';
+import { downloadConversationExport, readConversationExport } from '../utils/conversationExport';
+import { createShareLink } from '../utils/conversationShare';
+import type { ConversationExportFormat } from '../types';
+
+const FORMAT_LABELS: Record<ConversationExportFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+  html: 'HTML',
+};
+
+/**
+ * Props for ChatExportMenu component
+ */
+export interface ChatExportMenuProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+  /** Formats offered for export (default: markdown, json, html) */
+  formats?: ConversationExportFormat[];
+  /** Offer importing a JSON export (default: true) */
+  showImport?: boolean;
+  /** Called with the conversation ID after an import */
+  onImport?: (conversationId: string) => void;
+  /** Offer copying a share link, plain or with PII redacted (default: true) */
+  showShareLink?: boolean;
+  /** Page share links open, e.g. one rendering HustleTranscriptViewer (default: the current page) */
+  shareBaseUrl?: string;
+}
+
+/**
+ * ChatExportMenu - Export the conversation, or import one
+ *
+ * Downloads the conversation of the enclosing Chat.Root as Markdown,
+ * lossless JSON or a standalone HTML page, copies a share link that opens
+ * a read-only snapshot in HustleTranscriptViewer, and imports a JSON
+ * export so it can be continued. Must be inside a Chat.Root.
+ *
+ * @example
+ * ```tsx
+ * <Chat.Root>
+ *   <header>
+ *     <Chat.ExportMenu formats={['markdown', 'json']} />
+ *   </header>
+ *   <Chat.Messages />
+ * </Chat.Root>
+ * ```
+ */
+export function ChatExportMenu({
+  className,
+  style,
+  formats = ['markdown', 'json', 'html'],
+  showImport = true,
+  onImport,
+  showShareLink = true,
+  shareBaseUrl,
+}: ChatExportMenuProps) {
+  const { selectedModel, systemPrompt } = useHustle();
+  const { messages, isStreaming, getConversation, importConversation } = useChatContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportAs = useCallback((format: ConversationExportFormat) => {
+    downloadConversationExport(getConversation(), format, { model: selectedModel, systemPrompt });
+    setIsOpen(false);
+  }, [getConversation, selectedModel, systemPrompt]);
+
+  const copyShareLink = useCallback(async (redact: boolean) => {
+    try {
+      const link = await createShareLink(getConversation(), {
+        model: selectedModel,
+        systemPrompt,
+        redact,
+        baseUrl: shareBaseUrl,
+      });
+      setShareNotice(await copyToClipboard(link) ? 'Link copied' : 'Could not copy the link');
+    } catch (err) {
+      console.error('[Hustle] Failed to create share link:', err);
+      setShareNotice('Could not create the link');
+    }
+  }, [getConversation, selectedModel, systemPrompt, shareBaseUrl]);
+
+  const importFile = useCallback(async (file?: File) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      const { conversation } = await readConversationExport(file);
+      const id = await importConversation(conversation);
+      setIsOpen(false);
+      onImport?.(id);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  }, [importConversation, onImport]);
+
+  return (
+    <div className={className} style={{ ...styles.exportMenu, ...style }}>
+      <button
+        type="button"
+        onClick={() => {
+          setIsOpen(!isOpen);
+          setShareNotice(null);
+        }}
+        style={{
+          ...styles.settingsBtn,
+          ...(isOpen ? styles.settingsBtnActive : styles.settingsBtnInactive),
+        }}
+        title="Export"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <ExportIcon />
+      </button>
+
+      {isOpen && (
+        <div role="menu" style={styles.exportMenuList}>
+          {formats.map(format => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              disabled={messages.length === 0}
+              onClick={() => exportAs(format)}
+              style={styles.exportMenuItem}
+            >
+              Export as {FORMAT_LABELS[format]}
+            </button>
+          ))}
+          {showShareLink && (
+            <>
+              <div style={styles.exportMenuDivider} />
+              <button
+                type="button"
+                role="menuitem"
+                disabled={messages.length === 0}
+                onClick={() => copyShareLink(false)}
+                style={styles.exportMenuItem}
+              >
+                Copy share link
+              </button>
+              <button
+                type="button"
+                role="menuitem"
+                disabled={messages.length === 0}
+                onClick={() => copyShareLink(true)}
+                style={styles.exportMenuItem}
+              >
+                Copy redacted share link
+              </button>
+              {shareNotice && <p role="status" style={styles.exportMenuNotice}>{shareNotice}</p>}
+            </>
+          )}
+          {showImport && (
+            <>
+              <div style={styles.exportMenuDivider} />
+              <button
+                type="button"
+                role="menuitem"
+                disabled={isStreaming}
+                onClick={() => fileInputRef.current?.click()}
+                style={styles.exportMenuItem}
+              >
+                Import JSON…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={e => importFile(e.target.files?.[0])}
+              />
+              {importError && <p style={styles.bundleError}>{importError}</p>}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Export icon
+ */
+function ExportIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="7 10 12 15 17 10" />
+      <line x1="12" y1="15" x2="12" y2="3" />
+    </svg>
+  );
+}
+
+export default ChatExportMenu;
@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useEmblemAuth } from '../providers/EmblemAuthProvider';
+import { useHustle } from '../providers/HustleProvider';
+import { usePlugins } from '../hooks/usePlugins';
+import { useChatContext } from './ChatRoot';
+import { MessageBubble } from './MessageBubble';
+import type { MessageBubbleProps } from './MessageBubble';
+import { defaultToolRenderers } from './ToolResults';
+import { styles } from './chatStyles';
+import type { DisplayMessage, ToolCall, ToolResultRenderer } from '../types';
+import type { SanitizePolicy } from '../utils/sanitizeHtml';
+
+/**
+ * Props for ChatMessages component
+ */
+export interface ChatMessagesProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+  /** Show each message's tool calls and their arguments */
+  showDebug?: boolean;
+  /** Show replies' thinking and usage footers (default: true) */
+  showMetadata?: boolean;
+  /** HTML allowlist for rendered assistant messages (defaults to DEFAULT_SANITIZE_POLICY) */
+  sanitizePolicy?: SanitizePolicy;
+  /**
+   * Components for tool results, by tool name. These take precedence over
+   * enabled plugins' renderToolResult and the built-in renderers; tools
+   * without one show as collapsible JSON.
+   */
+  toolRenderers?: Record<string, ToolResultRenderer>;
+  /** Keep the newest message in view as messages change (default: true) */
+  autoScroll?: boolean;
+  /** Shown instead of the default status line when there are no messages */
+  emptyState?: React.ReactNode;
+  /**
+   * Render a message yourself. `props` are what the default MessageBubble
+   * would get (branch pager, edit and regenerate callbacks included).
+   */
+  renderMessage?: (message: DisplayMessage, props: MessageBubbleProps) => React.ReactNode;
+  /** Render the tool calls of the reply being generated yourself */
+  renderToolCalls?: (toolCalls: ToolCall[]) => React.ReactNode;
+}
+
+/**
+ * ChatMessages - The scrolling message list of a Chat.Root
+ *
+ * Shows the messages on the selected branch with their tool results and usage, the
+ * branch pager, Edit on user messages and Regenerate on the last reply,
+ * plus the tool calls of the reply being generated.
+ *
+ * @example Default bubbles
+ * ```tsx
+ * <Chat.Messages showDebug />
+ * ```
+ *
+ * @example Custom rendering
+ * ```tsx
+ * <Chat.Messages
+ *   emptyState={<Welcome />}
+ *   renderMessage={(message, props) =>
+ *     message.role === 'system' ? <Notice text={message.content} /> : <MessageBubble {...props} />
+ *   }
+ * />
+ * ```
+ */
+export function ChatMessages({
+  className = '',
+  style,
+  showDebug = false,
+  showMetadata = true,
+  sanitizePolicy,
+  toolRenderers,
+  autoScroll = true,
+  emptyState,
+  renderMessage,
+  renderToolCalls,
+}: ChatMessagesProps) {
+  const { isAuthenticated } = useEmblemAuth();
+  const { instanceId, isReady, models } = useHustle();
+  const { enabledPlugins } = usePlugins(instanceId);
+  const {
+    messages,
+    toolCalls,
+    isStreaming,
+    canChat,
+    regenerate,
+    editAndResend,
+    switchBranch,
+    getBranchInfo,
+  } = useChatContext();
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Built-in renderers < plugin renderers < renderers passed in
+  const resolvedToolRenderers = useMemo(() => {
+    const renderers: Record<string, ToolResultRenderer> = { ...defaultToolRenderers };
+    for (const plugin of enabledPlugins) {
+      if (!plugin.renderToolResult) continue;
+      for (const tool of plugin.tools ?? []) {
+        renderers[tool.name] = plugin.renderToolResult;
+      }
+    }
+    return { ...renderers, ...toolRenderers };
+  }, [enabledPlugins, toolRenderers]);
+
+  // Scroll to bottom when messages change
+  useEffect(() => {
+    if (autoScroll) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, autoScroll]);
+
+  // Determine placeholder message for messages area
+  const getPlaceholderMessage = () => {
+    if (!isAuthenticated) {
+      return 'Connect to start chatting...';
+    }
+    if (!isReady) {
+      return 'Initializing...';
+    }
+    return 'Start a conversation...';
+  };
+
+  return (
+    <div className={className} style={{ ...styles.messagesArea, ...style }}>
+      {messages.length === 0 && (
+        emptyState ?? (
+          <div style={styles.messagesEmpty}>
+            <p>{getPlaceholderMessage()}</p>
+          </div>
+        )
+      )}
+
+      <div style={styles.messagesContainer}>
+        {messages.map((message, index) => {
+          const bubbleProps: MessageBubbleProps = {
+            message,
+            showDebug,
+            showMetadata,
+            model: message.model ? models.find(m => m.id === message.model) : undefined,
+            sanitizePolicy,
+            toolRenderers: resolvedToolRenderers,
+            branch: getBranchInfo(message.id),
+            onSwitchBranch: isStreaming ? undefined : (direction) => switchBranch(message.id, direction),
+            onRegenerate:
+              canChat && !isStreaming && message.role === 'assistant' && index === messages.length - 1
+                ? regenerate
+                : undefined,
+            onEdit:
+              canChat && !isStreaming && message.role === 'user'
+                ? (content) => editAndResend(message.id, content)
+                : undefined,
+          };
+
+          return (
+            <React.Fragment key={message.id}>
+              {renderMessage ? renderMessage(message, bubbleProps) : <MessageBubble {...bubbleProps} />}
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {/* Current tool calls indicator */}
+      {toolCalls.length > 0 && (
+        renderToolCalls ? renderToolCalls(toolCalls) : (
+          <div style={styles.toolCallsIndicator}>
+            {toolCalls.map(tool => (
+              <span key={tool.toolCallId} style={styles.toolCallBadge}>
+                <span style={styles.toolCallDot} />
+                {tool.toolName}
+              </span>
+            ))}
+          </div>
+        )
+      )}
+
+      <div ref={messagesEndRef} />
+    </div>
+  );
+}
+
+export default ChatMessages;
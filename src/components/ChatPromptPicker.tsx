@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { usePromptLibrary } from '../hooks/usePromptLibrary';
+import { useChatContext } from './ChatRoot';
+import { PromptTemplateForm } from './PromptTemplateForm';
+import { styles } from './chatStyles';
+import { extractPromptVariables } from '../utils/promptLibrary';
+import type { PluginPrompt } from '../types';
+
+/** A saved prompt, or one recommended by a plugin */
+type PromptChoice = PluginPrompt & { pluginName?: string };
+
+/**
+ * Props for ChatPromptPicker component
+ */
+export interface ChatPromptPickerProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+  /** Offer prompts recommended by enabled plugins (default: true) */
+  showRecommended?: boolean;
+  /** Send a filled-in template right away instead of putting it in the composer (default: true) */
+  sendTemplates?: boolean;
+}
+
+/**
+ * ChatPromptPicker - Apply a saved system prompt or use a template
+ *
+ * Lists the prompt library of the enclosing HustleProvider and the prompts
+ * recommended by enabled plugins. System prompts apply immediately;
+ * templates with {{variables}} open a fill-in form and are sent, and
+ * templates without variables go into the composer. Must be inside a
+ * Chat.Root.
+ *
+ * @example
+ * ```tsx
+ * <Chat.Root>
+ *   <header>
+ *     <Chat.PromptPicker sendTemplates={false} />
+ *   </header>
+ *   <Chat.Messages />
+ *   <Chat.Composer />
+ * </Chat.Root>
+ * ```
+ */
+export function ChatPromptPicker({
+  className,
+  style,
+  showRecommended = true,
+  sendTemplates = true,
+}: ChatPromptPickerProps) {
+  const { systemPrompt, setSystemPrompt } = useHustle();
+  const { send, setInput, canSend } = useChatContext();
+  const { systemPrompts, templates, recommended, applySystemPrompt } = usePromptLibrary();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeTemplate, setActiveTemplate] = useState<PluginPrompt | null>(null);
+
+  const suggested = showRecommended ? recommended : [];
+  const systemChoices: PromptChoice[] = [...systemPrompts, ...suggested.filter(p => p.kind === 'system')];
+  const templateChoices: PromptChoice[] = [...templates, ...suggested.filter(p => p.kind === 'template')];
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setActiveTemplate(null);
+  }, []);
+
+  const chooseSystemPrompt = useCallback((prompt: PluginPrompt | null) => {
+    if (prompt) {
+      applySystemPrompt(prompt);
+    } else {
+      setSystemPrompt('');
+    }
+    close();
+  }, [applySystemPrompt, setSystemPrompt, close]);
+
+  const submitText = useCallback((text: string) => {
+    if (sendTemplates && canSend) {
+      send(text).catch(err => {
+        console.error('[Hustle] Failed to send template:', err);
+      });
+    } else {
+      setInput(text);
+    }
+    close();
+  }, [sendTemplates, canSend, send, setInput, close]);
+
+  const chooseTemplate = useCallback((prompt: PluginPrompt) => {
+    if (extractPromptVariables(prompt.content).length > 0) {
+      setActiveTemplate(prompt);
+    } else {
+      setInput(prompt.content);
+      close();
+    }
+  }, [setInput, close]);
+
+  const renderItem = (prompt: PromptChoice, key: string, onClick: () => void, checked?: boolean) => (
+    <button
+      key={key}
+      type="button"
+      role={checked === undefined ? 'menuitem' : 'menuitemradio'}
+      aria-checked={checked}
+      onClick={onClick}
+      style={{ ...styles.exportMenuItem, ...(checked ? styles.settingsBtnActive : {}) }}
+      title={prompt.description}
+    >
+      {prompt.name}
+      {prompt.pluginName && <span style={styles.pluginMeta}>From {prompt.pluginName}</span>}
+    </button>
+  );
+
+  return (
+    <div className={className} style={{ ...styles.exportMenu, ...style }}>
+      <button
+        type="button"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        style={{
+          ...styles.settingsBtn,
+          ...(isOpen ? styles.settingsBtnActive : styles.settingsBtnInactive),
+        }}
+        title="Prompts"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <PromptIcon />
+      </button>
+
+      {isOpen && activeTemplate && (
+        <div style={{ ...styles.exportMenuList, ...styles.promptMenuList }}>
+          <PromptTemplateForm
+            template={activeTemplate}
+            submitLabel={sendTemplates ? 'Send' : 'Insert'}
+            onSubmit={submitText}
+            onCancel={() => setActiveTemplate(null)}
+          />
+        </div>
+      )}
+
+      {isOpen && !activeTemplate && (
+        <div role="menu" style={{ ...styles.exportMenuList, ...styles.promptMenuList }}>
+          <span style={styles.promptMenuHeading}>System prompts</span>
+          <button
+            type="button"
+            role="menuitemradio"
+            aria-checked={!systemPrompt}
+            onClick={() => chooseSystemPrompt(null)}
+            style={{ ...styles.exportMenuItem, ...(!systemPrompt ? styles.settingsBtnActive : {}) }}
+          >
+            None
+          </button>
+          {systemChoices.map((prompt, index) => renderItem(
+            prompt,
+            `system-${index}`,
+            () => chooseSystemPrompt(prompt),
+            prompt.content === systemPrompt
+          ))}
+
+          <div style={styles.exportMenuDivider} />
+          <span style={styles.promptMenuHeading}>Templates</span>
+          {templateChoices.length === 0 ? (
+            <p style={styles.exportMenuNotice}>No templates yet - add them in settings</p>
+          ) : (
+            templateChoices.map((prompt, index) => renderItem(
+              prompt,
+              `template-${index}`,
+              () => chooseTemplate(prompt)
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Prompt library icon
+ */
+function PromptIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20" />
+      <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z" />
+    </svg>
+  );
+}
+
+export default ChatPromptPicker;
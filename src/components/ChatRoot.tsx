@@ -0,0 +1,96 @@
+'use client';
+
+import React, { createContext, useContext, useState } from 'react';
+import { useEmblemAuth } from '../providers/EmblemAuthProvider';
+import { useHustle } from '../providers/HustleProvider';
+import { useChat } from '../hooks/useChat';
+import type { UseChatOptions, UseChatReturn } from '../hooks/useChat';
+import { animations } from '../styles';
+
+/**
+ * Chat state shared by the primitives inside a Chat.Root
+ */
+export interface ChatContextValue extends UseChatReturn {
+  /** Text in the composer */
+  input: string;
+  /** Replace the text in the composer */
+  setInput: (value: string) => void;
+  /** Whether the user is authenticated and the client is ready */
+  canChat: boolean;
+}
+
+const ChatContext = createContext<ChatContextValue | undefined>(undefined);
+
+/**
+ * Props for ChatRoot component
+ */
+export interface ChatRootProps extends UseChatOptions {
+  /** Chat primitives and any other layout */
+  children?: React.ReactNode;
+}
+
+/**
+ * ChatRoot - Owns the chat state for the primitives inside it
+ *
+ * Runs useChat and shares it (plus the composer text) with Chat.Messages,
+ * Chat.Composer and anything calling useChatContext(). It renders no markup
+ * of its own, so the primitives can be laid out however you like.
+ *
+ * Must be used within HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * <Chat.Root onResponse={(content) => console.log(content)}>
+ *   <main className="thread">
+ *     <Chat.Messages />
+ *   </main>
+ *   <footer className="dock">
+ *     <Chat.Composer placeholder="Ask anything..." />
+ *   </footer>
+ * </Chat.Root>
+ * ```
+ */
+export function ChatRoot({ children, ...options }: ChatRootProps) {
+  const { isAuthenticated } = useEmblemAuth();
+  const { isReady } = useHustle();
+  const chat = useChat(options);
+  const [input, setInput] = useState('');
+
+  const value: ChatContextValue = {
+    ...chat,
+    input,
+    setInput,
+    canChat: isAuthenticated && isReady,
+  };
+
+  return (
+    <ChatContext.Provider value={value}>
+      <style>{animations}</style>
+      {children}
+    </ChatContext.Provider>
+  );
+}
+
+/**
+ * Read the chat state of the enclosing Chat.Root
+ *
+ * Use it to build your own pieces alongside (or instead of) the built-in
+ * primitives.
+ *
+ * @example
+ * ```tsx
+ * function StreamingBadge() {
+ *   const { isStreaming, stop } = useChatContext();
+ *   return isStreaming ? <button onClick={stop}>Stop</button> : null;
+ * }
+ * ```
+ */
+export function useChatContext(): ChatContextValue {
+  const context = useContext(ChatContext);
+  if (context === undefined) {
+    throw new Error('useChatContext must be used within Chat.Root');
+  }
+  return context;
+}
+
+export default ChatRoot;
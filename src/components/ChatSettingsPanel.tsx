@@ -0,0 +1,209 @@
+'use client';
+
+import React from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { PluginManager } from './PluginManager';
+import type { PluginManagerProps } from './PluginManager';
+import { PromptLibraryManager } from './PromptLibraryManager';
+import type { PromptLibraryManagerProps } from './PromptLibraryManager';
+import { ProfileManager } from './ProfileManager';
+import { styles } from './chatStyles';
+
+/**
+ * Props for ChatSettingsPanel component
+ */
+export interface ChatSettingsPanelProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+  /** Show the settings profile switcher above the chat settings (default: true) */
+  showProfiles?: boolean;
+  /** Show the plugin manager below the chat settings (default: true) */
+  showPlugins?: boolean;
+  /** Props for the embedded plugin manager */
+  pluginManagerProps?: PluginManagerProps;
+  /** Show the prompt library below the system prompt (default: true) */
+  showPromptLibrary?: boolean;
+  /** Props for the embedded prompt library */
+  promptLibraryProps?: PromptLibraryManagerProps;
+  /** Extra settings, shown after the built-in ones */
+  children?: React.ReactNode;
+}
+
+/**
+ * ChatSettingsPanel - Profile, model, system prompt, prompt library and plugin settings
+ *
+ * The body of HustleChat's settings modal: the settings profile switcher,
+ * model selection and temperature, the server system prompt toggle, the custom system prompt and (optionally) the
+ * prompt library and plugin manager. It edits the enclosing HustleProvider's settings, so it
+ * can be shown in a modal, a sidebar or a page of its own.
+ *
+ * @example
+ * ```tsx
+ * <aside>
+ *   <Chat.SettingsPanel showPlugins={false}>
+ *     <MyMaxTokensInput />
+ *   </Chat.SettingsPanel>
+ * </aside>
+ * ```
+ */
+export function ChatSettingsPanel({
+  className = '',
+  style,
+  showProfiles = true,
+  showPlugins = true,
+  pluginManagerProps,
+  showPromptLibrary = true,
+  promptLibraryProps,
+  children,
+}: ChatSettingsPanelProps) {
+  const {
+    models,
+    selectedModel,
+    setSelectedModel,
+    systemPrompt,
+    setSystemPrompt,
+    skipServerPrompt,
+    setSkipServerPrompt,
+    modelOptions,
+    setModelOptions,
+  } = useHustle();
+
+  return (
+    <div className={className} style={{ ...styles.modalBody, ...style }}>
+      {/* Settings Profile */}
+      {showProfiles && (
+        <div style={styles.settingGroup}>
+          <label style={styles.settingLabel}>Profile</label>
+          <p style={styles.settingDescription}>
+            Each profile keeps its own model, prompts, temperature and enabled plugins
+          </p>
+          <ProfileManager />
+        </div>
+      )}
+
+      {/* Model Selection */}
+      <div style={styles.settingGroup}>
+        <label style={styles.settingLabel}>Model</label>
+        <p style={styles.settingDescription}>Select the AI model to use for chat responses</p>
+        <select
+          value={selectedModel}
+          onChange={e => setSelectedModel(e.target.value)}
+          style={styles.settingSelect}
+        >
+          <option value="">Default (server decides)</option>
+          {(() => {
+            // Group models by provider
+            const grouped: Record<string, typeof models> = {};
+            models.forEach(model => {
+              const [provider] = model.id.split('/');
+              if (!grouped[provider]) grouped[provider] = [];
+              grouped[provider].push(model);
+            });
+            return Object.entries(grouped).map(([provider, providerModels]) => (
+              <optgroup key={provider} label={provider.charAt(0).toUpperCase() + provider.slice(1)}>
+                {providerModels.map(model => (
+                  <option key={model.id} value={model.id}>
+                    {model.name}
+                  </option>
+                ))}
+              </optgroup>
+            ));
+          })()}
+        </select>
+        {selectedModel && (() => {
+          const model = models.find(m => m.id === selectedModel);
+          if (!model) return null;
+          const contextK = Math.round(model.context_length / 1000);
+          const promptCost = parseFloat(model.pricing?.prompt || '0') * 1000000;
+          const completionCost = parseFloat(model.pricing?.completion || '0') * 1000000;
+          return (
+            <div style={styles.modelInfo}>
+              Context: {contextK}K tokens | Cost: ${promptCost.toFixed(2)}/${completionCost.toFixed(2)} per 1M tokens
+            </div>
+          );
+        })()}
+        <label style={styles.modelOptionLabel}>
+          Temperature (blank for the model's default)
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={modelOptions.temperature ?? ''}
+            onChange={e => setModelOptions({
+              ...modelOptions,
+              temperature: e.target.value === '' ? undefined : Number(e.target.value),
+            })}
+            style={{ ...styles.catalogSearch, marginBottom: 0 }}
+          />
+        </label>
+      </div>
+
+      {/* Server System Prompt */}
+      <div style={styles.settingGroup}>
+        <label style={styles.settingLabel}>Server System Prompt</label>
+        <div
+          style={styles.toggleRow}
+          onClick={() => setSkipServerPrompt(!skipServerPrompt)}
+        >
+          <span style={styles.toggleLabel}>Skip server-provided system prompt</span>
+          <div style={{
+            ...styles.toggleSwitch,
+            ...(skipServerPrompt ? styles.toggleSwitchActive : {}),
+          }}>
+            <div style={{
+              ...styles.toggleKnob,
+              ...(skipServerPrompt ? styles.toggleKnobActive : {}),
+            }} />
+          </div>
+        </div>
+        <p style={styles.settingDescription}>
+          When enabled, the server's default system prompt will not be used
+        </p>
+      </div>
+
+      {/* Custom System Prompt */}
+      <div style={styles.settingGroup}>
+        <label style={styles.settingLabel}>Custom System Prompt</label>
+        <p style={styles.settingDescription}>Provide instructions for how the AI should behave</p>
+        <textarea
+          value={systemPrompt}
+          onChange={e => setSystemPrompt(e.target.value)}
+          placeholder="You are a helpful assistant..."
+          style={styles.settingTextarea}
+        />
+      </div>
+
+      {/* Prompt Library */}
+      {showPromptLibrary && (
+        <div style={styles.settingGroup}>
+          <label style={styles.settingLabel}>Prompt Library</label>
+          <p style={styles.settingDescription}>
+            Saved system prompts and templates - use {'{{name}}'} in a template for a value to fill in
+          </p>
+          <PromptLibraryManager {...promptLibraryProps} />
+        </div>
+      )}
+
+      {children}
+
+      {showPlugins && (
+        <>
+          {/* Divider */}
+          <div style={styles.settingDivider} />
+
+          {/* Plugins Section */}
+          <div style={{ ...styles.settingGroup, marginBottom: 0 }}>
+            <label style={styles.settingLabel}>Plugins</label>
+            <p style={styles.settingDescription}>Extend the AI with custom tools</p>
+            <PluginManager {...pluginManagerProps} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ChatSettingsPanel;
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { styles } from './chatStyles';
+import { getContextUsage, formatTokenCount, DEFAULT_CONTEXT_WARNING_RATIO } from '../utils/usage';
+import type { ChatResponse } from '../types';
+
+/**
+ * Props for ContextMeter component
+ */
+export interface ContextMeterProps {
+  /** pathInfo of the latest reply (see getLatestPathInfo) */
+  pathInfo?: ChatResponse['pathInfo'];
+  /** Share of the threshold at which to warn (default: 0.8) */
+  warningRatio?: number;
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * ContextMeter - How full the context window is before summarization
+ *
+ * The server summarizes older messages once the conversation reaches
+ * `pathInfo.threshold` tokens. The meter warns when it gets close, and
+ * renders nothing until a reply has reported its context size.
+ *
+ * @example
+ * ```tsx
+ * const { messages } = useChatContext();
+ * <ContextMeter pathInfo={getLatestPathInfo(messages)} />
+ * ```
+ */
+export function ContextMeter({
+  pathInfo,
+  warningRatio = DEFAULT_CONTEXT_WARNING_RATIO,
+  className,
+  style,
+}: ContextMeterProps) {
+  const usage = getContextUsage(pathInfo, warningRatio);
+  if (!usage) return null;
+
+  const percent = Math.min(100, Math.round(usage.ratio * 100));
+  const warning = usage.level !== 'ok';
+
+  return (
+    <div className={className} style={{ ...styles.contextMeter, ...(warning ? styles.contextMeterWarning : {}), ...style }}>
+      <span>
+        Context {formatTokenCount(usage.totalTokens)} / {formatTokenCount(usage.threshold)}
+      </span>
+      <div
+        role="meter"
+        aria-label="Context window"
+        aria-valuemin={0}
+        aria-valuemax={usage.threshold}
+        aria-valuenow={usage.totalTokens}
+        style={styles.contextMeterBar}
+      >
+        <div
+          style={{
+            ...styles.contextMeterFill,
+            ...(warning ? { background: styles.contextMeterWarning.color } : {}),
+            width: `${percent}%`,
+          }}
+        />
+      </div>
+      {usage.level === 'warning' && <span>Older messages will be summarized soon</span>}
+      {usage.level === 'summarizing' && <span>Older messages are being summarized</span>}
+    </div>
+  );
+}
+
+export default ContextMeter;
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { MessageBubble } from './MessageBubble';
+import { defaultToolRenderers } from './ToolResults';
+import { styles } from './chatStyles';
+import { readShareLink } from '../utils/conversationShare';
+import { createMessageTree, getActivePath } from '../utils/messageTree';
+import type { ConversationExport, ToolResultRenderer } from '../types';
+import type { SanitizePolicy } from '../utils/sanitizeHtml';
+
+/**
+ * Props for HustleTranscriptViewer component
+ */
+export interface HustleTranscriptViewerProps {
+  /** Snapshot to show (e.g. from readShareLink or readConversationExport) */
+  snapshot?: ConversationExport;
+  /** Share link or fragment to read when no snapshot is given (default: the page's fragment, updated on hashchange) */
+  link?: string;
+  /** Show replies' thinking and usage footers (default: true) */
+  showMetadata?: boolean;
+  /** HTML allowlist for rendered assistant messages (defaults to DEFAULT_SANITIZE_POLICY) */
+  sanitizePolicy?: SanitizePolicy;
+  /** Components for tool results, by tool name (on top of the built-in renderers) */
+  toolRenderers?: Record<string, ToolResultRenderer>;
+  /** Shown when there is no snapshot to read */
+  emptyState?: React.ReactNode;
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * HustleTranscriptViewer - Read-only view of a shared conversation
+ *
+ * Renders a snapshot made by createShareLink (or any conversation export)
+ * with the same bubbles, markdown and tool timelines as the chat, without
+ * composer or actions. Needs no HustleProvider or sign-in, so a share link
+ * can be opened by anyone, offline.
+ *
+ * @example
+ * ```tsx
+ * // On the page share links point to
+ * <HustleTranscriptViewer toolRenderers={{ get_quote: QuoteCard }} />
+ * ```
+ */
+export function HustleTranscriptViewer({
+  snapshot,
+  link,
+  showMetadata = true,
+  sanitizePolicy,
+  toolRenderers,
+  emptyState,
+  className,
+  style,
+}: HustleTranscriptViewerProps) {
+  const [linked, setLinked] = useState<ConversationExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the link (or the page's fragment) when no snapshot is passed in
+  useEffect(() => {
+    if (snapshot) return;
+    let cancelled = false;
+
+    const read = () => {
+      readShareLink(link)
+        .then(result => {
+          if (cancelled) return;
+          setLinked(result);
+          setError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setLinked(null);
+          setError(err instanceof Error ? err.message : String(err));
+        });
+    };
+
+    read();
+    if (link !== undefined) {
+      return () => { cancelled = true; };
+    }
+
+    window.addEventListener('hashchange', read);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', read);
+    };
+  }, [snapshot, link]);
+
+  const shown = snapshot ?? linked;
+
+  const messages = useMemo(() => {
+    if (!shown) return [];
+    const { messages: all, selectedBranches } = shown.conversation;
+    return getActivePath(createMessageTree(all, selectedBranches));
+  }, [shown]);
+
+  const renderers = useMemo(
+    () => ({ ...defaultToolRenderers, ...toolRenderers }),
+    [toolRenderers]
+  );
+
+  if (!shown) {
+    return (
+      <div className={className} style={{ ...styles.placeholder, ...style }}>
+        {error ? (
+          <div style={styles.placeholderContent}>
+            <div style={styles.placeholderTitle}>Can't open this transcript</div>
+            <div style={styles.placeholderText}>{error}</div>
+          </div>
+        ) : (
+          emptyState ?? (
+            <div style={styles.placeholderContent}>
+              <div style={styles.placeholderText}>No shared conversation</div>
+            </div>
+          )
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={className} style={{ ...styles.container, ...style }}>
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>{shown.conversation.title || 'Conversation'}</span>
+        <span style={styles.transcriptBadge}>Read-only</span>
+      </div>
+
+      <div style={styles.transcriptMeta}>
+        {shown.model && <span>Model: {shown.model}</span>}
+        <span>Shared {new Date(shown.exportedAt).toLocaleString()}</span>
+        <span>{messages.length} messages</span>
+      </div>
+
+      {shown.systemPrompt && (
+        <details style={styles.transcriptSystemPrompt}>
+          <summary style={styles.thinkingSummary}>System prompt</summary>
+          <div style={styles.thinkingText}>{shown.systemPrompt}</div>
+        </details>
+      )}
+
+      <div style={styles.messagesArea}>
+        <div style={styles.messagesContainer}>
+          {messages.map(message => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              showMetadata={showMetadata}
+              sanitizePolicy={sanitizePolicy}
+              toolRenderers={renderers}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HustleTranscriptViewer;
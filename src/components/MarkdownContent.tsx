@@ -25,6 +25,8 @@ import ruby from 'highlight.js/lib/languages/ruby';
 import swift from 'highlight.js/lib/languages/swift';
 import kotlin from 'highlight.js/lib/languages/kotlin';
 import { tokens } from '../styles';
+import { sanitizeHtml, DEFAULT_SANITIZE_POLICY } from '../utils/sanitizeHtml';
+import type { SanitizePolicy } from '../utils/sanitizeHtml';
 
 // Register languages
 hljs.registerLanguage('javascript', javascript);
@@ -65,10 +67,13 @@ hljs.registerLanguage('kt', kotlin);
  * Uses marked for markdown parsing (lightweight, reliable)
  * Uses highlight.js for code block syntax highlighting
  * Adds copy and "Open in Emblem AI" buttons to code blocks
+ * Sanitizes parsed HTML against an allowlist before rendering
  */
 export interface MarkdownContentProps {
   content: string;
   className?: string;
+  /** Sanitizer allowlist (defaults to DEFAULT_SANITIZE_POLICY) */
+  sanitizePolicy?: SanitizePolicy;
 }
 
 /**
@@ -305,10 +310,13 @@ function generateCodeBlockId(): string {
 /**
  * Process markdown and highlight code blocks
  * Returns HTML with data attributes for code block content
+ *
+ * Untrusted HTML is sanitized right after parsing; the code-block markup
+ * added below is generated here (with escaped content), so it is trusted.
  */
-function renderMarkdown(content: string): string {
-  // Parse markdown to HTML
-  const html = marked.parse(content, { async: false }) as string;
+export function renderMarkdown(content: string, policy: SanitizePolicy = DEFAULT_SANITIZE_POLICY): string {
+  // Parse markdown to HTML and strip anything outside the allowlist
+  const html = sanitizeHtml(marked.parse(content, { async: false }) as string, policy);
 
   // Find and highlight code blocks with language
   const codeBlockRegex = /<pre><code class="language-(\w+)">([\s\S]*?)<\/code><\/pre>/g;
@@ -341,13 +349,13 @@ function renderMarkdown(content: string): string {
   return result;
 }
 
-export function MarkdownContent({ content, className }: MarkdownContentProps) {
+export function MarkdownContent({ content, className, sanitizePolicy = DEFAULT_SANITIZE_POLICY }: MarkdownContentProps) {
   const [rendered, setRendered] = useState<string>('');
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     try {
-      const html = renderMarkdown(content);
+      const html = renderMarkdown(content, sanitizePolicy);
       setRendered(html);
     } catch (err) {
       console.error('[MarkdownContent] Render error:', err);
@@ -360,7 +368,7 @@ export function MarkdownContent({ content, className }: MarkdownContentProps) {
           .replace(/\n/g, '<br>')
       );
     }
-  }, [content]);
+  }, [content, sanitizePolicy]);
 
   // Attach event handlers after render
   useEffect(() => {
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState } from 'react';
+import { MarkdownContent } from './MarkdownContent';
+import { ToolTimeline } from './ToolTimeline';
+import { MessageFooter, ThinkingSection } from './MessageMetadata';
+import { styles } from './chatStyles';
+import type { DisplayMessage, MessageBranchInfo, Model, ToolResultRenderer } from '../types';
+import type { SanitizePolicy } from '../utils/sanitizeHtml';
+
+/**
+ * Props for MessageBubble component
+ */
+export interface MessageBubbleProps {
+  /** The message to show */
+  message: DisplayMessage;
+  /** Show the message's tool calls and their arguments */
+  showDebug?: boolean;
+  /** Show the model's thinking and the usage footer (default: true) */
+  showMetadata?: boolean;
+  /** Model that produced the message, for the cost estimate */
+  model?: Model | null;
+  /** HTML allowlist for rendered assistant messages (defaults to DEFAULT_SANITIZE_POLICY) */
+  sanitizePolicy?: SanitizePolicy;
+  /** Components for tool results, by tool name (others show as JSON in the tool timeline) */
+  toolRenderers?: Record<string, ToolResultRenderer>;
+  /** Position among sibling branches - shows a pager when there is more than one */
+  branch?: MessageBranchInfo | null;
+  /** Show the previous (-1) or next (1) branch */
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  /** Regenerate this reply (shown on the last assistant message) */
+  onRegenerate?: () => void;
+  /** Resend this user message with new content */
+  onEdit?: (content: string) => void;
+}
+
+/**
+ * MessageBubble - A single chat message
+ *
+ * Renders user and system messages as text and assistant replies as
+ * markdown, with the model's thinking, a timeline of the reply's tool calls
+ * (status, duration and output through `toolRenderers`, or as JSON), a
+ * usage footer, and the branch pager and Edit/Regenerate actions when their callbacks are given. Chat.Messages renders one per message; use it from
+ * `renderMessage` to wrap or decorate the default bubble.
+ *
+ * @example
+ * ```tsx
+ * <Chat.Messages
+ *   renderMessage={(message, props) => (
+ *     <div className="my-message">
+ *       <MessageBubble {...props} />
+ *     </div>
+ *   )}
+ * />
+ * ```
+ */
+export function MessageBubble({
+  message,
+  showDebug,
+  showMetadata = true,
+  model,
+  sanitizePolicy,
+  toolRenderers,
+  branch,
+  onSwitchBranch,
+  onRegenerate,
+  onEdit,
+}: MessageBubbleProps) {
+  const isUser = message.role === 'user';
+  const isSystem = message.role === 'system';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const hasBranches = branch !== null && branch !== undefined && branch.count > 1;
+
+  const containerStyle = {
+    ...styles.messageBubbleContainer,
+    ...(isUser ? styles.messageBubbleUser : styles.messageBubbleAssistant),
+  };
+
+  const bubbleStyle = {
+    ...styles.messageBubble,
+    ...(isUser
+      ? styles.messageBubbleUserStyle
+      : isSystem
+        ? styles.messageBubbleSystemStyle
+        : styles.messageBubbleAssistantStyle),
+  };
+
+  return (
+    <div style={containerStyle}>
+      <div style={bubbleStyle}>
+        {/* Thinking */}
+        {showMetadata && message.reasoning?.thinking && (
+          <ThinkingSection thinking={message.reasoning.thinking} />
+        )}
+
+        {/* Tool timeline */}
+        <ToolTimeline message={message} toolRenderers={toolRenderers} />
+
+        {/* Message content */}
+        <div style={styles.messageContent}>
+          {isUser || isSystem ? (
+            // User and system messages: plain text
+            message.content
+          ) : (
+            // Assistant messages: render markdown
+            <MarkdownContent content={message.content} sanitizePolicy={sanitizePolicy} />
+          )}
+          {message.isStreaming && (
+            <span style={styles.streamingCursor} />
+          )}
+        </div>
+
+        {message.aborted && (
+          <div style={styles.stoppedNote}>Stopped</div>
+        )}
+
+        {/* Tokens, cost and tool categories */}
+        {showMetadata && !message.isStreaming && (
+          <MessageFooter message={message} model={model} />
+        )}
+
+        {/* Inline edit of a user message */}
+        {isEditing && onEdit && (
+          <div style={styles.editBox}>
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              rows={3}
+              style={styles.editTextarea}
+              autoFocus
+            />
+            <div style={styles.messageActions}>
+              <button type="button" style={styles.messageActionBtn} onClick={() => setIsEditing(false)}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                style={styles.messageActionBtn}
+                disabled={!draft.trim()}
+                onClick={() => {
+                  setIsEditing(false);
+                  onEdit(draft);
+                }}
+              >
+                Save &amp; Send
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Branch pager, edit and regenerate */}
+        {!message.isStreaming && !isEditing && (hasBranches || onEdit || onRegenerate) && (
+          <div style={styles.messageActions}>
+            {hasBranches && (
+              <span style={styles.branchPager}>
+                <button
+                  type="button"
+                  style={styles.branchPagerBtn}
+                  disabled={!onSwitchBranch || branch.index === 0}
+                  onClick={() => onSwitchBranch?.(-1)}
+                  title="Previous version"
+                >
+                  ‹
+                </button>
+                {branch.index + 1}/{branch.count}
+                <button
+                  type="button"
+                  style={styles.branchPagerBtn}
+                  disabled={!onSwitchBranch || branch.index === branch.count - 1}
+                  onClick={() => onSwitchBranch?.(1)}
+                  title="Next version"
+                >
+                  ›
+                </button>
+              </span>
+            )}
+            {onEdit && (
+              <button
+                type="button"
+                style={styles.messageActionBtn}
+                onClick={() => {
+                  setDraft(message.content);
+                  setIsEditing(true);
+                }}
+              >
+                Edit
+              </button>
+            )}
+            {onRegenerate && (
+              <button type="button" style={styles.messageActionBtn} onClick={onRegenerate}>
+                Regenerate
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Tool calls (debug mode) */}
+        {showDebug && message.toolCalls && message.toolCalls.length > 0 && (
+          <div style={styles.toolCallsDebug}>
+            <div style={styles.toolCallsDebugTitle}>Tool calls:</div>
+            {message.toolCalls.map(tool => (
+              <div key={tool.toolCallId} style={styles.toolCallDebugItem}>
+                <span style={styles.toolCallDebugName}>{tool.toolName}</span>
+                {tool.args && (
+                  <pre style={styles.toolCallDebugArgs}>
+                    {JSON.stringify(tool.args, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MessageBubble;
@@ -0,0 +1,95 @@
+'use client';
+
+import React from 'react';
+import { styles } from './chatStyles';
+import { estimateCost, formatCost, formatTokenCount, getToolCategories } from '../utils/usage';
+import type { ConversationMessage, Model } from '../types';
+
+/**
+ * Props for MessageFooter component
+ */
+export interface MessageFooterProps {
+  /** Assistant message whose metadata to show */
+  message: ConversationMessage;
+  /** The message's model, for the cost estimate */
+  model?: Model | null;
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * MessageFooter - Tokens in/out, estimated cost and tool categories of a reply
+ *
+ * Renders nothing when the response reported none of them.
+ *
+ * @example
+ * ```tsx
+ * <MessageFooter message={message} model={models.find(m => m.id === message.model)} />
+ * ```
+ */
+export function MessageFooter({ message, model, className, style }: MessageFooterProps) {
+  const { usage } = message;
+  const cost = estimateCost(usage, model);
+  const categories = getToolCategories(message);
+
+  const hasTokens = usage?.prompt_tokens !== undefined || usage?.completion_tokens !== undefined;
+  if (!hasTokens && cost === null && categories.length === 0) return null;
+
+  const items: React.ReactNode[] = [];
+  if (usage?.prompt_tokens !== undefined) {
+    items.push(<span key="in" title="Prompt tokens">{formatTokenCount(usage.prompt_tokens)} in</span>);
+  }
+  if (usage?.completion_tokens !== undefined) {
+    items.push(<span key="out" title="Completion tokens">{formatTokenCount(usage.completion_tokens)} out</span>);
+  }
+  if (cost !== null) {
+    items.push(<span key="cost" title={`Estimated at ${model?.name ?? 'model'} pricing`}>~{formatCost(cost)}</span>);
+  }
+
+  return (
+    <div className={className} style={{ ...styles.messageFooter, ...style }}>
+      {items.map((item, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && <span>·</span>}
+          {item}
+        </React.Fragment>
+      ))}
+      {categories.map(category => (
+        <span key={category} style={styles.categoryChip}>{category}</span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Props for ThinkingSection component
+ */
+export interface ThinkingSectionProps {
+  /** The model's thinking (ChatResponse.reasoning.thinking) */
+  thinking: string;
+  /** Start expanded (default: false) */
+  defaultOpen?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * ThinkingSection - Collapsible view of the model's thinking for a reply
+ *
+ * @example
+ * ```tsx
+ * {message.reasoning?.thinking && <ThinkingSection thinking={message.reasoning.thinking} />}
+ * ```
+ */
+export function ThinkingSection({ thinking, defaultOpen = false, className, style }: ThinkingSectionProps) {
+  return (
+    <details open={defaultOpen} className={className} style={{ ...styles.thinking, ...style }}>
+      <summary style={styles.thinkingSummary}>Thinking</summary>
+      <div style={styles.thinkingText}>{thinking}</div>
+    </details>
+  );
+}
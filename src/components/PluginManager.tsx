@@ -0,0 +1,483 @@
+'use client';
+
+import React, { useState, useRef, useCallback } from 'react';
+import { usePlugins } from '../hooks/usePlugins';
+import { usePluginCatalog } from '../hooks/usePluginCatalog';
+import { useHustle } from '../providers/HustleProvider';
+import { tokens } from '../styles';
+import { styles } from './chatStyles';
+import type {
+  StoredPlugin,
+  HydratedPlugin,
+  PluginVerification,
+  PluginUpdate,
+  PluginCatalogEntry,
+  PluginBundlePreview,
+} from '../types';
+import { describePluginPermissions } from '../utils/pluginPermissions';
+import { readPluginBundle, downloadPluginBundle } from '../utils/pluginBundle';
+
+/**
+ * An installed plugin and its actions, passed to PluginManager's renderPlugin
+ */
+export interface PluginManagerItem {
+  /** The installed plugin */
+  plugin: StoredPlugin;
+  /** Set when the trust policy refused the plugin's code */
+  quarantined?: HydratedPlugin;
+  /** Signature verification result (when a trust policy is configured) */
+  verification?: PluginVerification;
+  /** Newer catalog version, if any */
+  update?: PluginUpdate;
+  /** Enable or disable the plugin */
+  toggle: () => void;
+  /** Install the catalog update */
+  upgrade: () => void;
+  /** Go back to the previously installed version */
+  rollback: () => void;
+  /** Download the plugin as a bundle */
+  exportBundle: () => void;
+  /** Uninstall the plugin */
+  remove: () => void;
+}
+
+/**
+ * Props for PluginManager component
+ */
+export interface PluginManagerProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+  /** Show the bundle drop zone for importing plugins (default: true) */
+  showImport?: boolean;
+  /** Show the searchable list of catalog plugins to install (default: true) */
+  showCatalog?: boolean;
+  /** Replace the row of an installed plugin */
+  renderPlugin?: (item: PluginManagerItem) => React.ReactNode;
+}
+
+/**
+ * PluginManager - Install, update and remove plugins
+ *
+ * Lists the installed plugins with enable toggles, update/roll back,
+ * export and remove, plus bundle import and the plugin catalog (each with
+ * its permission consent dialog). It only needs HustleProvider, so it can
+ * live on a settings or admin page away from the chat.
+ *
+ * @example Admin page
+ * ```tsx
+ * <HustleProvider>
+ *   <h1>Plugins</h1>
+ *   <Chat.PluginManager />
+ * </HustleProvider>
+ * ```
+ *
+ * @example Custom rows
+ * ```tsx
+ * <Chat.PluginManager
+ *   showCatalog={false}
+ *   renderPlugin={({ plugin, toggle, remove }) => (
+ *     <label>
+ *       <input type="checkbox" checked={plugin.enabled} onChange={toggle} />
+ *       {plugin.name} <button onClick={remove}>Remove</button>
+ *     </label>
+ *   )}
+ * />
+ * ```
+ */
+export function PluginManager({
+  className = '',
+  style,
+  showImport = true,
+  showCatalog = true,
+  renderPlugin,
+}: PluginManagerProps) {
+  const { instanceId } = useHustle();
+  const {
+    plugins,
+    quarantinedPlugins,
+    verifications,
+    unregisterPlugin,
+    enablePlugin,
+    disablePlugin,
+    updates,
+    upgradePlugin,
+    rollbackPlugin,
+    exportPlugin,
+    importPlugin,
+  } = usePlugins(instanceId);
+  const {
+    entries: catalogEntries,
+    results: catalogResults,
+    query: catalogQuery,
+    setQuery: setCatalogQuery,
+    error: catalogError,
+    install: installFromCatalog,
+  } = usePluginCatalog();
+
+  const [pendingInstall, setPendingInstall] = useState<PluginCatalogEntry | null>(null);
+  const [pendingImport, setPendingImport] = useState<PluginBundlePreview | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDraggingBundle, setIsDraggingBundle] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Validate a dropped or chosen plugin bundle and show its preview
+   */
+  const previewBundle = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      setPendingImport(await readPluginBundle(file));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+
+    if (bundleInputRef.current) {
+      bundleInputRef.current.value = '';
+    }
+  }, []);
+
+  /**
+   * Install the previewed bundle
+   */
+  const confirmImport = useCallback(async () => {
+    if (!pendingImport) return;
+    try {
+      await importPlugin(pendingImport.bundle);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+    setPendingImport(null);
+  }, [pendingImport, importPlugin]);
+
+  /**
+   * Download an installed plugin as a bundle
+   */
+  const handleExportPlugin = useCallback((name: string) => {
+    exportPlugin(name)
+      .then(downloadPluginBundle)
+      .catch(err => console.error('[Hustle] Plugin export failed:', err));
+  }, [exportPlugin]);
+
+  return (
+    <div className={className} style={style}>
+      {/* Installed plugins */}
+      {plugins.length > 0 ? (
+        <div style={styles.pluginList}>
+          {plugins.map(plugin => {
+            const quarantined = quarantinedPlugins.find(q => q.name === plugin.name);
+            if (renderPlugin) {
+              return (
+                <React.Fragment key={plugin.name}>
+                  {renderPlugin({
+                    plugin,
+                    quarantined,
+                    verification: verifications[plugin.name],
+                    update: updates[plugin.name],
+                    toggle: () => plugin.enabled ? disablePlugin(plugin.name) : enablePlugin(plugin.name),
+                    upgrade: () => {
+                      upgradePlugin(plugin.name).catch(err => {
+                        console.error('[Hustle] Plugin upgrade failed:', err);
+                      });
+                    },
+                    rollback: () => rollbackPlugin(plugin.name),
+                    exportBundle: () => handleExportPlugin(plugin.name),
+                    remove: () => unregisterPlugin(plugin.name),
+                  })}
+                </React.Fragment>
+              );
+            }
+            return (
+              <div
+                key={plugin.name}
+                style={{ ...styles.pluginRow, ...(quarantined ? styles.pluginRowQuarantined : {}) }}
+              >
+                <div style={styles.pluginInfo}>
+                  <span style={styles.pluginIcon}>{quarantined ? '⚠️' : plugin.enabled ? '🔌' : '⚪'}</span>
+                  <div style={styles.pluginDetails}>
+                    <span style={styles.pluginName}>
+                      {plugin.name}
+                      {verifications[plugin.name]?.status === 'verified' && (
+                        <span style={styles.pluginSignedBadge} title={`Signed by ${verifications[plugin.name].publicKeyId}`}>✓</span>
+                      )}
+                    </span>
+                    <span style={styles.pluginMeta}>
+                      v{plugin.version} • {plugin.tools?.length || 0} tools
+                      {updates[plugin.name] && (
+                        <span style={styles.pluginUpdateBadge}> • v{updates[plugin.name].latestVersion} available</span>
+                      )}
+                    </span>
+                    {quarantined && (
+                      <span style={styles.pluginQuarantineReason}>
+                        Quarantined: {quarantined.verification?.reason || 'signature not verified'}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: tokens.spacing.sm }}>
+                  <div
+                    style={{
+                      ...styles.toggleSwitch,
+                      ...(plugin.enabled ? styles.toggleSwitchActive : {}),
+                    }}
+                    onClick={() => plugin.enabled
+                      ? disablePlugin(plugin.name)
+                      : enablePlugin(plugin.name)
+                    }
+                  >
+                    <div style={{
+                      ...styles.toggleKnob,
+                      ...(plugin.enabled ? styles.toggleKnobActive : {}),
+                    }} />
+                  </div>
+                  {updates[plugin.name] ? (
+                    <button
+                      type="button"
+                      style={styles.installBtn}
+                      title={`Update from v${plugin.version} to v${updates[plugin.name].latestVersion}`}
+                      onClick={() => {
+                        upgradePlugin(plugin.name).catch(err => {
+                          console.error('[Hustle] Plugin upgrade failed:', err);
+                        });
+                      }}
+                    >
+                      Update
+                    </button>
+                  ) : plugin.previousVersion && (
+                    <button
+                      type="button"
+                      style={styles.rollbackBtn}
+                      title={`Roll back to v${plugin.previousVersion.version}`}
+                      onClick={() => rollbackPlugin(plugin.name)}
+                    >
+                      Roll back
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    style={styles.rollbackBtn}
+                    title="Download as a plugin bundle to share"
+                    onClick={() => handleExportPlugin(plugin.name)}
+                  >
+                    Export
+                  </button>
+                  <button
+                    type="button"
+                    style={styles.uninstallBtn}
+                    onClick={() => unregisterPlugin(plugin.name)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div style={styles.pluginEmpty}>
+          No plugins installed
+        </div>
+      )}
+
+      {/* Import a plugin bundle (drag and drop or browse) */}
+      {showImport && (
+        <>
+          <div
+            role="button"
+            tabIndex={0}
+            style={{ ...styles.bundleDropZone, ...(isDraggingBundle ? styles.bundleDropZoneActive : {}) }}
+            onClick={() => bundleInputRef.current?.click()}
+            onKeyDown={e => {
+              if (e.key === 'Enter' || e.key === ' ') bundleInputRef.current?.click();
+            }}
+            onDragOver={e => {
+              e.preventDefault();
+              setIsDraggingBundle(true);
+            }}
+            onDragLeave={() => setIsDraggingBundle(false)}
+            onDrop={e => {
+              e.preventDefault();
+              setIsDraggingBundle(false);
+              previewBundle(e.dataTransfer.files[0]);
+            }}
+          >
+            Drop a plugin bundle here, or click to browse
+            <input
+              ref={bundleInputRef}
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={e => previewBundle(e.target.files?.[0])}
+            />
+          </div>
+          {importError && <p style={styles.bundleError}>{importError}</p>}
+        </>
+      )}
+
+      {/* Available plugins (from the plugin catalog) */}
+      {showCatalog && catalogEntries.some(p => !plugins.some(installed => installed.name === p.name)) && (
+        <>
+          <div style={styles.availablePluginsHeader}>Available</div>
+          <input
+            type="search"
+            value={catalogQuery}
+            onChange={e => setCatalogQuery(e.target.value)}
+            placeholder="Search plugins by name, tag or description"
+            style={styles.catalogSearch}
+          />
+          {catalogError && (
+            <p style={styles.catalogNotice}>Plugin catalog unavailable - showing bundled plugins</p>
+          )}
+          <div style={styles.pluginList}>
+            {catalogResults
+              .filter(p => !plugins.some(installed => installed.name === p.name))
+              .map(plugin => (
+                <div key={plugin.name} style={styles.pluginRow}>
+                  <div style={styles.pluginInfo}>
+                    <span style={styles.pluginIcon}>📦</span>
+                    <div style={styles.pluginDetails}>
+                      <span style={styles.pluginName}>{plugin.name}</span>
+                      <span style={styles.pluginMeta}>
+                        v{plugin.version}
+                        {plugin.publisher && <> • by {plugin.publisher.name}</>}
+                      </span>
+                      <span style={styles.pluginMeta}>{plugin.description}</span>
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    style={styles.installBtn}
+                    onClick={() => setPendingInstall(plugin)}
+                  >
+                    + Install
+                  </button>
+                </div>
+              ))}
+            {catalogQuery && catalogResults.every(p => plugins.some(installed => installed.name === p.name)) && (
+              <div style={styles.pluginEmpty}>No plugins match "{catalogQuery}"</div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Install consent dialog */}
+      {pendingInstall && (
+        <div style={styles.consentOverlay} onClick={() => setPendingInstall(null)}>
+          <div
+            style={styles.modal}
+            role="dialog"
+            aria-label={`Install ${pendingInstall.name}`}
+            onClick={e => e.stopPropagation()}
+          >
+            <div style={styles.modalHeader}>
+              <span style={styles.modalTitle}>Install {pendingInstall.name}?</span>
+              <button
+                type="button"
+                style={styles.modalClose}
+                onClick={() => setPendingInstall(null)}
+              >
+                ×
+              </button>
+            </div>
+            <div style={styles.modalBody}>
+              <p style={styles.settingDescription}>This plugin is requesting:</p>
+              <ul style={styles.consentList}>
+                {describePluginPermissions(pendingInstall).map(permission => (
+                  <li
+                    key={permission.id}
+                    style={{ ...styles.consentItem, ...(permission.sensitive ? styles.consentItemSensitive : {}) }}
+                  >
+                    {permission.label}
+                    {permission.detail && <span style={styles.consentDetail}>{permission.detail}</span>}
+                  </li>
+                ))}
+              </ul>
+              <div style={styles.consentActions}>
+                <button type="button" style={styles.consentCancelBtn} onClick={() => setPendingInstall(null)}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  style={styles.consentAllowBtn}
+                  onClick={() => {
+                    installFromCatalog(pendingInstall);
+                    setPendingInstall(null);
+                  }}
+                >
+                  Allow &amp; Install
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Plugin bundle import preview */}
+      {pendingImport && (
+        <div style={styles.consentOverlay} onClick={() => setPendingImport(null)}>
+          <div
+            style={styles.modal}
+            role="dialog"
+            aria-label={`Import ${pendingImport.name}`}
+            onClick={e => e.stopPropagation()}
+          >
+            <div style={styles.modalHeader}>
+              <span style={styles.modalTitle}>Import {pendingImport.name} v{pendingImport.version}?</span>
+              <button
+                type="button"
+                style={styles.modalClose}
+                onClick={() => setPendingImport(null)}
+              >
+                ×
+              </button>
+            </div>
+            <div style={styles.modalBody}>
+              {pendingImport.description && (
+                <p style={styles.settingDescription}>{pendingImport.description}</p>
+              )}
+              <p style={styles.settingDescription}>
+                Integrity verified{pendingImport.signed ? ' • signed by publisher' : ' • unsigned'}
+                {plugins.some(p => p.name === pendingImport.name) && ' • replaces the installed version'}
+              </p>
+              <p style={styles.settingDescription}>Adds {pendingImport.tools.length} tools:</p>
+              <ul style={styles.consentList}>
+                {pendingImport.tools.map(tool => (
+                  <li key={tool.name} style={styles.consentItem}>
+                    {tool.name}
+                    {!tool.hasExecutor && ' (no executor)'}
+                    <span style={styles.consentDetail}>{tool.description}</span>
+                  </li>
+                ))}
+              </ul>
+              <p style={styles.settingDescription}>This plugin is requesting:</p>
+              <ul style={styles.consentList}>
+                {describePluginPermissions(pendingImport).map(permission => (
+                  <li
+                    key={permission.id}
+                    style={{ ...styles.consentItem, ...(permission.sensitive ? styles.consentItemSensitive : {}) }}
+                  >
+                    {permission.label}
+                    {permission.detail && <span style={styles.consentDetail}>{permission.detail}</span>}
+                  </li>
+                ))}
+              </ul>
+              <div style={styles.consentActions}>
+                <button type="button" style={styles.consentCancelBtn} onClick={() => setPendingImport(null)}>
+                  Cancel
+                </button>
+                <button type="button" style={styles.consentAllowBtn} onClick={confirmImport}>
+                  Allow &amp; Install
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+    </div>
+  );
+}
+
+export default PluginManager;
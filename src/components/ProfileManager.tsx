@@ -0,0 +1,105 @@
+'use client';
+
+import React from 'react';
+import { useProfiles } from '../hooks/useProfiles';
+import { tokens } from '../styles';
+import { styles } from './chatStyles';
+
+/**
+ * Props for ProfileManager component
+ */
+export interface ProfileManagerProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * ProfileManager - Switch, rename, duplicate, reset and delete settings profiles
+ *
+ * A profile bundles the model, system prompts, generation options and
+ * enabled plugins of the enclosing HustleProvider; switching one applies
+ * all of them. Duplicate first to try changes without losing a profile.
+ * It only needs HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * <HustleProvider
+ *   instanceId="desk"
+ *   defaultProfiles={[{ name: 'Trading analyst', systemPrompt: 'Be terse.' }]}
+ * >
+ *   <Chat.Profiles />
+ * </HustleProvider>
+ * ```
+ */
+export function ProfileManager({ className = '', style }: ProfileManagerProps) {
+  const {
+    profiles,
+    activeProfile,
+    switchProfile,
+    duplicateProfile,
+    renameProfile,
+    resetProfile,
+    deleteProfile,
+  } = useProfiles();
+
+  return (
+    <div className={className} style={style}>
+      <select
+        value={activeProfile.id}
+        onChange={e => switchProfile(e.target.value)}
+        aria-label="Profile"
+        style={styles.settingSelect}
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+
+      <div style={{ ...styles.promptSaveRow, marginTop: tokens.spacing.sm }}>
+        {/* Renamed on blur or Enter; keyed so changes from elsewhere show */}
+        <input
+          key={`${activeProfile.id}-${activeProfile.name}`}
+          defaultValue={activeProfile.name}
+          onBlur={e => renameProfile(activeProfile.id, e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          aria-label="Profile name"
+          style={{ ...styles.catalogSearch, marginBottom: 0 }}
+        />
+        <button
+          type="button"
+          style={styles.rollbackBtn}
+          onClick={() => {
+            const copy = duplicateProfile(activeProfile.id);
+            if (copy) switchProfile(copy.id);
+          }}
+        >
+          Duplicate
+        </button>
+        <button
+          type="button"
+          style={styles.rollbackBtn}
+          title="Restore this profile's default settings"
+          onClick={() => resetProfile(activeProfile.id)}
+        >
+          Reset
+        </button>
+        <button
+          type="button"
+          style={styles.uninstallBtn}
+          disabled={profiles.length < 2}
+          onClick={() => deleteProfile(activeProfile.id)}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ProfileManager;
@@ -0,0 +1,256 @@
+'use client';
+
+import React, { useState, useRef, useCallback } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { usePromptLibrary } from '../hooks/usePromptLibrary';
+import { tokens } from '../styles';
+import { styles } from './chatStyles';
+import { extractPromptVariables } from '../utils/promptLibrary';
+import type { PluginPrompt } from '../types';
+
+/**
+ * Props for PromptLibraryManager component
+ */
+export interface PromptLibraryManagerProps {
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+  /** Show prompts recommended by enabled plugins (default: true) */
+  showRecommended?: boolean;
+  /** Show library import and export (default: true) */
+  showImport?: boolean;
+}
+
+/**
+ * Meta line of a prompt row
+ */
+function describePrompt(prompt: PluginPrompt): string {
+  if (prompt.kind === 'system') return 'System prompt';
+  const count = extractPromptVariables(prompt.content).length;
+  return count ? `Template • ${count} ${count === 1 ? 'variable' : 'variables'}` : 'Template';
+}
+
+/**
+ * PromptLibraryManager - Save, apply and share prompts
+ *
+ * Saves the current system prompt under a name, adds prompt templates
+ * (with {{variables}} to fill in when used), applies saved and
+ * plugin-recommended system prompts, and imports or exports the library
+ * as a JSON file. It only needs HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * <HustleProvider instanceId="support">
+ *   <h1>Prompts</h1>
+ *   <Chat.PromptLibrary showRecommended={false} />
+ * </HustleProvider>
+ * ```
+ */
+export function PromptLibraryManager({
+  className = '',
+  style,
+  showRecommended = true,
+  showImport = true,
+}: PromptLibraryManagerProps) {
+  const { systemPrompt } = useHustle();
+  const {
+    prompts,
+    recommended,
+    savePrompt,
+    deletePrompt,
+    applySystemPrompt,
+    downloadLibrary,
+    importLibrary,
+  } = usePromptLibrary();
+
+  const [systemPromptName, setSystemPromptName] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [templateContent, setTemplateContent] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isSaved = (prompt: PluginPrompt) => prompts.some(p => p.kind === prompt.kind && p.name === prompt.name);
+
+  const saveSystemPrompt = useCallback(() => {
+    savePrompt({ kind: 'system', name: systemPromptName, content: systemPrompt });
+    setSystemPromptName('');
+  }, [savePrompt, systemPromptName, systemPrompt]);
+
+  const saveTemplate = useCallback(() => {
+    savePrompt({ kind: 'template', name: templateName, content: templateContent });
+    setTemplateName('');
+    setTemplateContent('');
+  }, [savePrompt, templateName, templateContent]);
+
+  const importFile = useCallback(async (file?: File) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      await importLibrary(file);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  }, [importLibrary]);
+
+  const renderRow = (prompt: PluginPrompt, key: string, actions: React.ReactNode, source?: string) => (
+    <div key={key} style={styles.pluginRow}>
+      <div style={styles.pluginInfo}>
+        <span style={styles.pluginIcon}>{prompt.kind === 'system' ? '💬' : '📝'}</span>
+        <div style={styles.pluginDetails}>
+          <span style={styles.pluginName}>{prompt.name}</span>
+          <span style={styles.pluginMeta}>
+            {describePrompt(prompt)}
+            {source && <> • from {source}</>}
+          </span>
+          {prompt.description && <span style={styles.pluginMeta}>{prompt.description}</span>}
+        </div>
+      </div>
+      <div style={{ display: 'flex', gap: tokens.spacing.sm }}>{actions}</div>
+    </div>
+  );
+
+  const renderUseButton = (prompt: PluginPrompt) => prompt.kind === 'system' && (
+    <button
+      type="button"
+      style={styles.installBtn}
+      disabled={prompt.content === systemPrompt}
+      onClick={() => applySystemPrompt(prompt)}
+    >
+      {prompt.content === systemPrompt ? 'In use' : 'Use'}
+    </button>
+  );
+
+  const suggested = showRecommended ? recommended.filter(p => !isSaved(p)) : [];
+
+  return (
+    <div className={className} style={style}>
+      {/* Saved prompts */}
+      {prompts.length > 0 ? (
+        <div style={styles.pluginList}>
+          {prompts.map(prompt => renderRow(prompt, prompt.id, (
+            <>
+              {renderUseButton(prompt)}
+              <button
+                type="button"
+                style={styles.uninstallBtn}
+                aria-label={`Delete ${prompt.name}`}
+                onClick={() => deletePrompt(prompt.id)}
+              >
+                Delete
+              </button>
+            </>
+          )))}
+        </div>
+      ) : (
+        <div style={styles.pluginEmpty}>
+          No saved prompts
+        </div>
+      )}
+
+      {/* Save the current system prompt */}
+      <div style={styles.availablePluginsHeader}>Save current system prompt</div>
+      <div style={styles.promptSaveRow}>
+        <input
+          value={systemPromptName}
+          onChange={e => setSystemPromptName(e.target.value)}
+          placeholder="Name, e.g. Trading analyst"
+          aria-label="System prompt name"
+          style={{ ...styles.catalogSearch, marginBottom: 0 }}
+        />
+        <button
+          type="button"
+          style={styles.installBtn}
+          disabled={!systemPrompt.trim() || !systemPromptName.trim()}
+          onClick={saveSystemPrompt}
+        >
+          Save
+        </button>
+      </div>
+
+      {/* New template */}
+      <div style={styles.availablePluginsHeader}>New template</div>
+      <input
+        value={templateName}
+        onChange={e => setTemplateName(e.target.value)}
+        placeholder="Name, e.g. Market odds"
+        aria-label="Template name"
+        style={styles.catalogSearch}
+      />
+      <textarea
+        value={templateContent}
+        onChange={e => setTemplateContent(e.target.value)}
+        placeholder="What are the odds of {{event}} by {{date}}?"
+        aria-label="Template text"
+        style={{ ...styles.settingTextarea, minHeight: '60px' }}
+      />
+      <div style={styles.consentActions}>
+        <button
+          type="button"
+          style={styles.installBtn}
+          disabled={!templateName.trim() || !templateContent.trim()}
+          onClick={saveTemplate}
+        >
+          Save template
+        </button>
+      </div>
+
+      {/* Recommended by enabled plugins */}
+      {suggested.length > 0 && (
+        <>
+          <div style={styles.availablePluginsHeader}>Recommended by plugins</div>
+          <div style={styles.pluginList}>
+            {suggested.map(prompt => renderRow(prompt, `${prompt.pluginName}-${prompt.name}`, (
+              <>
+                {renderUseButton(prompt)}
+                <button
+                  type="button"
+                  style={styles.rollbackBtn}
+                  aria-label={`Save ${prompt.name}`}
+                  onClick={() => savePrompt(prompt)}
+                >
+                  Save
+                </button>
+              </>
+            ), prompt.pluginName))}
+          </div>
+        </>
+      )}
+
+      {/* Import and export */}
+      {showImport && (
+        <>
+          <div style={{ ...styles.consentActions, marginTop: tokens.spacing.lg }}>
+            <button
+              type="button"
+              style={styles.rollbackBtn}
+              disabled={prompts.length === 0}
+              onClick={() => downloadLibrary()}
+            >
+              Export library
+            </button>
+            <button
+              type="button"
+              style={styles.rollbackBtn}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Import library…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={e => importFile(e.target.files?.[0])}
+            />
+          </div>
+          {importError && <p style={styles.bundleError}>{importError}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default PromptLibraryManager;
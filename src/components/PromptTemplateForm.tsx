@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { styles } from './chatStyles';
+import { extractPromptVariables, fillPromptTemplate } from '../utils/promptLibrary';
+import type { PluginPrompt } from '../types';
+
+/**
+ * Props for PromptTemplateForm component
+ */
+export interface PromptTemplateFormProps {
+  /** Template to fill in */
+  template: PluginPrompt;
+  /** Called with the filled-in text */
+  onSubmit: (text: string) => void;
+  /** Called when the form is dismissed (shows a Cancel button) */
+  onCancel?: () => void;
+  /** Submit button label (default: "Send") */
+  submitLabel?: string;
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+/**
+ * PromptTemplateForm - Fill in a template's {{variables}}
+ *
+ * One field per variable, with a preview of the resulting message. Submit
+ * is enabled once every field has a value.
+ *
+ * @example
+ * ```tsx
+ * <PromptTemplateForm
+ *   template={{ kind: 'template', name: 'Odds', content: 'What are the odds of {{event}}?' }}
+ *   onSubmit={text => send(text)}
+ * />
+ * ```
+ */
+export function PromptTemplateForm({
+  template,
+  onSubmit,
+  onCancel,
+  submitLabel = 'Send',
+  className,
+  style,
+}: PromptTemplateFormProps) {
+  const variables = useMemo(() => extractPromptVariables(template.content), [template.content]);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const preview = fillPromptTemplate(template.content, values);
+  const isComplete = variables.every(name => values[name]?.trim());
+
+  return (
+    <form
+      className={className}
+      style={{ ...styles.promptForm, ...style }}
+      aria-label={template.name}
+      onSubmit={e => {
+        e.preventDefault();
+        if (isComplete) onSubmit(preview);
+      }}
+    >
+      <span style={styles.pluginName}>{template.name}</span>
+      {template.description && <span style={styles.pluginMeta}>{template.description}</span>}
+      {variables.map((name, index) => (
+        <label key={name} style={styles.promptField}>
+          {name}
+          <input
+            value={values[name] ?? ''}
+            onChange={e => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+            style={styles.catalogSearch}
+            autoFocus={index === 0}
+          />
+        </label>
+      ))}
+      <p style={styles.promptPreview}>{preview}</p>
+      <div style={styles.consentActions}>
+        {onCancel && (
+          <button type="button" onClick={onCancel} style={styles.consentCancelBtn}>
+            Cancel
+          </button>
+        )}
+        <button type="submit" disabled={!isComplete} style={styles.consentAllowBtn}>
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default PromptTemplateForm;
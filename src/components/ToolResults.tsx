@@ -0,0 +1,249 @@
+'use client';
+
+import React from 'react';
+import { styles } from './chatStyles';
+import type { ToolResultRenderer, ToolResultRendererProps } from '../types';
+
+/**
+ * Pretty-print a value as JSON (falls back to String() for values JSON can't represent)
+ */
+export function formatJson(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Compact number for volumes (12.3K, 1.2M)
+ */
+function formatCompact(value: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * ToolResultJson - Collapsible JSON view of a tool result
+ *
+ * The fallback for tools without a renderer.
+ */
+export function ToolResultJson({ toolCall, result, hasResult }: ToolResultRendererProps) {
+  return (
+    <details style={styles.toolResultJson}>
+      <summary style={styles.toolResultSummary}>
+        {toolCall.toolName}
+        {!hasResult && <span style={styles.toolResultPending}>running...</span>}
+      </summary>
+      <pre style={styles.toolResultPre}>
+        {hasResult ? formatJson(result) : formatJson(toolCall.args ?? {})}
+      </pre>
+    </details>
+  );
+}
+
+/** One outcome's probability (0-1) for the odds bars */
+interface MarketOdds {
+  label: string;
+  probability: number;
+}
+
+/** A market row, normalized across platforms */
+interface MarketRow {
+  id: string;
+  title: string;
+  subtitle?: string;
+  status?: string;
+  volume?: number;
+  odds: MarketOdds[];
+  outcomes: string[];
+}
+
+/**
+ * Normalize a search_prediction_markets market (Polymarket or Kalshi shape)
+ */
+function toMarketRow(market: Record<string, unknown>, index: number): MarketRow {
+  const odds: MarketOdds[] = [];
+  const outcomes: string[] = [];
+
+  // Polymarket: outcomes with labels, priced (0-1, number or numeric string) when known
+  if (Array.isArray(market.outcomes)) {
+    for (const outcome of market.outcomes) {
+      if (!isRecord(outcome) || typeof outcome.label !== 'string') continue;
+      const price = typeof outcome.price === 'string' ? Number(outcome.price) : outcome.price;
+      if (typeof price === 'number' && Number.isFinite(price)) {
+        odds.push({ label: outcome.label, probability: price });
+      } else {
+        outcomes.push(outcome.label);
+      }
+    }
+
+    // A two-outcome market priced on one side: the other side is the rest
+    if (odds.length === 1 && outcomes.length === 1) {
+      odds.push({ label: outcomes.pop()!, probability: 1 - odds[0].probability });
+    }
+  }
+
+  // Kalshi: yes bid/ask in cents - show the midpoint
+  const yesPrices = [market.yesBid, market.yesAsk].filter((p): p is number => typeof p === 'number');
+  if (yesPrices.length > 0) {
+    const yes = yesPrices.reduce((sum, p) => sum + p, 0) / yesPrices.length / 100;
+    odds.push({ label: 'Yes', probability: yes }, { label: 'No', probability: 1 - yes });
+  }
+
+  return {
+    id: String(market.slug ?? market.ticker ?? index),
+    title: String(market.title ?? market.slug ?? market.ticker ?? 'Untitled market'),
+    subtitle: typeof market.subtitle === 'string' ? market.subtitle : undefined,
+    status: typeof market.status === 'string' ? market.status : undefined,
+    volume: typeof market.volume === 'number' ? market.volume : undefined,
+    odds,
+    outcomes,
+  };
+}
+
+/**
+ * PredictionMarketResults - Market table for search_prediction_markets
+ *
+ * Shows each market with odds bars (when prices are known) and volume.
+ * Unrecognized results fall back to the JSON view.
+ */
+export function PredictionMarketResults(props: ToolResultRendererProps) {
+  const { result, hasResult } = props;
+  if (!hasResult || !isRecord(result) || !Array.isArray(result.markets)) {
+    return <ToolResultJson {...props} />;
+  }
+
+  const markets = result.markets.filter(isRecord).map(toMarketRow);
+  const platform = typeof result.platform === 'string' ? result.platform : 'prediction';
+  const total = typeof result.total === 'number' ? result.total : markets.length;
+
+  if (markets.length === 0) {
+    return <div style={styles.marketMeta}>No {platform} markets found</div>;
+  }
+
+  return (
+    <table style={styles.marketTable}>
+      <thead>
+        <tr>
+          <th style={styles.marketHeaderCell}>Market</th>
+          <th style={styles.marketHeaderCell}>Odds</th>
+          <th style={styles.marketHeaderCell}>Volume</th>
+        </tr>
+      </thead>
+      <tbody>
+        {markets.map(market => (
+          <tr key={market.id}>
+            <td style={styles.marketCell}>
+              <div>{market.title}</div>
+              <div style={styles.marketMeta}>
+                {[market.subtitle, market.status].filter(Boolean).join(' • ')}
+              </div>
+            </td>
+            <td style={styles.marketCell}>
+              {market.odds.map(odds => (
+                <div key={odds.label} style={styles.oddsRow}>
+                  <span style={styles.oddsLabel}>{odds.label}</span>
+                  <div style={styles.oddsBar}>
+                    <div style={{ ...styles.oddsBarFill, width: `${Math.round(odds.probability * 100)}%` }} />
+                  </div>
+                  <span>{Math.round(odds.probability * 100)}%</span>
+                </div>
+              ))}
+              {market.outcomes.length > 0 && (
+                <div style={styles.marketMeta}>{market.outcomes.join(' / ')}</div>
+              )}
+            </td>
+            <td style={styles.marketCell}>
+              {market.volume !== undefined ? formatCompact(market.volume) : '-'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+      {total > markets.length && (
+        <tfoot>
+          <tr>
+            <td colSpan={3} style={{ ...styles.marketCell, ...styles.marketMeta }}>
+              Showing {markets.length} of {total} {platform} markets
+            </td>
+          </tr>
+        </tfoot>
+      )}
+    </table>
+  );
+}
+
+/**
+ * AskUserResultChip - Summary chip for ask_user answers
+ *
+ * Shows the selected choices, with the question as a tooltip.
+ */
+export function AskUserResultChip(props: ToolResultRendererProps) {
+  const { toolCall, result, hasResult } = props;
+  const question = typeof toolCall.args?.question === 'string' ? toolCall.args.question : undefined;
+
+  if (!hasResult) {
+    return (
+      <span style={{ ...styles.askUserChip, ...styles.askUserChipUnanswered }} title={question}>
+        Waiting for your answer...
+      </span>
+    );
+  }
+
+  if (!isRecord(result) || !Array.isArray(result.selectedChoices)) {
+    return <ToolResultJson {...props} />;
+  }
+
+  const answered = result.answered === true && result.selectedChoices.length > 0;
+  return (
+    <span
+      style={{ ...styles.askUserChip, ...(answered ? {} : styles.askUserChipUnanswered) }}
+      title={typeof result.question === 'string' ? result.question : question}
+    >
+      {answered ? `✓ ${result.selectedChoices.join(', ')}` : 'No answer'}
+    </span>
+  );
+}
+
+/**
+ * Renderers for the bundled plugins' tools, by tool name
+ */
+export const defaultToolRenderers: Record<string, ToolResultRenderer> = {
+  search_prediction_markets: PredictionMarketResults,
+  ask_user: AskUserResultChip,
+};
+
+interface ToolResultBoundaryProps extends ToolResultRendererProps {
+  children: React.ReactNode;
+}
+
+interface ToolResultBoundaryState {
+  failed: boolean;
+}
+
+/**
+ * Shows the JSON view instead when a custom renderer throws,
+ * so a broken plugin renderer can't take the chat down with it
+ */
+export class ToolResultBoundary extends React.Component<ToolResultBoundaryProps, ToolResultBoundaryState> {
+  state: ToolResultBoundaryState = { failed: false };
+
+  static getDerivedStateFromError(): ToolResultBoundaryState {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error(`[Hustle] Tool result renderer for "${this.props.toolCall.toolName}" failed:`, error);
+  }
+
+  render() {
+    if (this.state.failed) {
+      const { toolCall, result, hasResult } = this.props;
+      return <ToolResultJson toolCall={toolCall} result={result} hasResult={hasResult} />;
+    }
+    return this.props.children;
+  }
+}
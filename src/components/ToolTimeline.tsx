@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { tokens } from '../styles';
+import { styles } from './chatStyles';
+import { formatJson, ToolResultBoundary } from './ToolResults';
+import { getToolTimeline, formatDuration } from '../utils/toolTimeline';
+import type { DisplayMessage, ToolCallStatus, ToolResultRenderer } from '../types';
+
+/**
+ * Props for ToolTimeline component
+ */
+export interface ToolTimelineProps {
+  /** Assistant message whose tool calls to show */
+  message: DisplayMessage;
+  /** Components for tool results, by tool name (others show as JSON) */
+  toolRenderers?: Record<string, ToolResultRenderer>;
+  /** Start expanded (default: true) */
+  defaultOpen?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+  /** Additional inline styles */
+  style?: React.CSSProperties;
+}
+
+const statusLabels: Record<ToolCallStatus, string> = {
+  pending: 'pending',
+  running: 'running...',
+  succeeded: 'succeeded',
+  failed: 'failed',
+};
+
+const statusColors: Record<ToolCallStatus, string> = {
+  pending: tokens.colors.textTertiary,
+  running: tokens.colors.accentWarning,
+  succeeded: tokens.colors.accentSuccess,
+  failed: tokens.colors.accentError,
+};
+
+/**
+ * ToolTimeline - Collapsible list of a reply's tool calls
+ *
+ * Shows each call's status (pending, running, succeeded, failed), how
+ * long it took and its output. Output goes through `toolRenderers`, or is
+ * shown as JSON (collapsed) for tools without a renderer. MessageBubble
+ * renders one above each assistant reply that called tools.
+ *
+ * @example
+ * ```tsx
+ * <ToolTimeline message={message} toolRenderers={defaultToolRenderers} />
+ * ```
+ */
+export function ToolTimeline({
+  message,
+  toolRenderers,
+  defaultOpen = true,
+  className,
+  style,
+}: ToolTimelineProps) {
+  const entries = getToolTimeline(message);
+  if (entries.length === 0) return null;
+
+  const inFlight = entries.filter(e => e.status === 'pending' || e.status === 'running').length;
+  const failed = entries.filter(e => e.status === 'failed').length;
+
+  return (
+    <details open={defaultOpen} className={className} style={{ ...styles.toolTimeline, ...style }}>
+      <summary style={styles.toolTimelineSummary}>
+        {entries.length} tool {entries.length === 1 ? 'call' : 'calls'}
+        {inFlight > 0 && ` · ${inFlight} running`}
+        {failed > 0 && ` · ${failed} failed`}
+      </summary>
+      <ol style={styles.toolTimelineList}>
+        {entries.map(entry => {
+          const { toolCall, status, result, hasResult, durationMs, error } = entry;
+          const Renderer = toolRenderers?.[toolCall.toolName];
+          const rendererProps = { toolCall, result, hasResult };
+
+          return (
+            <li key={toolCall.toolCallId}>
+              <details open={Renderer !== undefined}>
+                <summary style={styles.toolTimelineHeader}>
+                  <span style={{ ...styles.toolStatusDot, background: statusColors[status] }} />
+                  <span style={styles.toolTimelineName}>{toolCall.toolName}</span>
+                  <span style={styles.toolTimelineMeta}>{statusLabels[status]}</span>
+                  {durationMs !== undefined && (
+                    <span style={styles.toolTimelineMeta}>{formatDuration(durationMs)}</span>
+                  )}
+                </summary>
+                {error && <div style={styles.toolTimelineError}>{error}</div>}
+                {Renderer ? (
+                  // A failed call with no result has nothing for the renderer to show
+                  (hasResult || status !== 'failed') && (
+                    <div style={styles.toolTimelineOutput}>
+                      <ToolResultBoundary {...rendererProps}>
+                        <Renderer {...rendererProps} />
+                      </ToolResultBoundary>
+                    </div>
+                  )
+                ) : (
+                  <pre style={styles.toolResultPre}>
+                    {formatJson(hasResult ? result : toolCall.args ?? {})}
+                  </pre>
+                )}
+              </details>
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+}
+
+export default ToolTimeline;
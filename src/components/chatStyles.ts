@@ -0,0 +1,1188 @@
+/**
+ * Chat Styles
+ *
+ * Inline style objects built from the design tokens, shared by HustleChat
+ * and the Chat primitives it is composed from.
+ */
+
+import type React from 'react';
+import { tokens, presets } from '../styles';
+
+export const styles = {
+  // Container
+  container: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    height: '100%',
+    background: tokens.colors.bgSecondary,
+    borderRadius: tokens.radius.xl,
+    border: `1px solid ${tokens.colors.borderPrimary}`,
+    fontFamily: tokens.typography.fontFamily,
+    color: tokens.colors.textPrimary,
+    position: 'relative' as const,
+  },
+
+  // Not ready / auth required states
+  placeholder: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: tokens.spacing.xxl,
+    background: tokens.colors.bgSecondary,
+    borderRadius: tokens.radius.xl,
+    border: `1px solid ${tokens.colors.borderPrimary}`,
+  },
+  placeholderContent: {
+    textAlign: 'center' as const,
+    color: tokens.colors.textSecondary,
+  },
+  placeholderTitle: {
+    fontSize: tokens.typography.fontSizeLg,
+    fontWeight: tokens.typography.fontWeightMedium,
+    marginBottom: tokens.spacing.xs,
+  },
+  placeholderText: {
+    fontSize: tokens.typography.fontSizeSm,
+    color: tokens.colors.textTertiary,
+  },
+  loadingSpinner: {
+    display: 'inline-block',
+    width: '24px',
+    height: '24px',
+    border: `2px solid ${tokens.colors.textTertiary}`,
+    borderTopColor: 'transparent',
+    borderRadius: tokens.radius.full,
+    animation: 'hustle-spin 0.8s linear infinite',
+    marginBottom: tokens.spacing.sm,
+  },
+
+  // Header - darker shade
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: `${tokens.spacing.md} ${tokens.spacing.lg}`,
+    background: tokens.colors.bgPrimary,
+    borderBottom: `1px solid ${tokens.colors.borderPrimary}`,
+    borderRadius: `${tokens.radius.xl} ${tokens.radius.xl} 0 0`,
+  },
+  headerTitle: {
+    fontWeight: tokens.typography.fontWeightSemibold,
+    color: tokens.colors.textPrimary,
+    fontSize: tokens.typography.fontSizeMd,
+  },
+  headerActions: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+  },
+
+  // Model selector
+  select: {
+    fontSize: tokens.typography.fontSizeSm,
+    padding: `${tokens.spacing.xs} ${tokens.spacing.sm}`,
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.md,
+    background: tokens.colors.bgTertiary,
+    color: tokens.colors.textPrimary,
+    outline: 'none',
+  },
+
+  // Settings button
+  settingsBtn: {
+    ...presets.buttonIcon,
+    borderRadius: tokens.radius.md,
+  } as React.CSSProperties,
+  settingsBtnActive: {
+    background: tokens.colors.accentPrimaryBg,
+    color: tokens.colors.accentPrimary,
+  },
+  settingsBtnInactive: {
+    color: tokens.colors.textSecondary,
+  },
+
+  // Export menu
+  exportMenu: {
+    position: 'relative' as const,
+  },
+  exportMenuList: {
+    position: 'absolute' as const,
+    top: '100%',
+    right: 0,
+    marginTop: tokens.spacing.xs,
+    minWidth: '180px',
+    padding: tokens.spacing.xs,
+    display: 'flex',
+    flexDirection: 'column' as const,
+    background: tokens.colors.bgSecondary,
+    border: `1px solid ${tokens.colors.borderPrimary}`,
+    borderRadius: tokens.radius.lg,
+    boxShadow: tokens.shadows.md,
+    zIndex: tokens.zIndex.dropdown,
+  },
+  exportMenuItem: {
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    background: 'none',
+    border: 'none',
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.textPrimary,
+    fontSize: tokens.typography.fontSizeSm,
+    textAlign: 'left' as const,
+    cursor: 'pointer',
+  } as React.CSSProperties,
+  exportMenuDivider: {
+    height: '1px',
+    margin: `${tokens.spacing.xs} 0`,
+    background: tokens.colors.borderPrimary,
+  },
+  exportMenuNotice: {
+    padding: `${tokens.spacing.xs} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+  },
+
+  // Prompt picker and template form
+  promptMenuList: {
+    minWidth: '240px',
+    maxHeight: '360px',
+    overflowY: 'auto' as const,
+  },
+  promptMenuHeading: {
+    padding: `${tokens.spacing.xs} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeXs,
+    fontWeight: tokens.typography.fontWeightSemibold,
+    color: tokens.colors.textSecondary,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.5px',
+  },
+  promptForm: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing.sm,
+    padding: tokens.spacing.sm,
+  },
+  promptField: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing.xs,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textSecondary,
+  },
+  promptPreview: {
+    margin: 0,
+    padding: tokens.spacing.sm,
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.md,
+    fontSize: tokens.typography.fontSizeSm,
+    color: tokens.colors.textPrimary,
+    whiteSpace: 'pre-wrap' as const,
+  },
+  promptSaveRow: {
+    display: 'flex',
+    gap: tokens.spacing.sm,
+  },
+
+  // Generation options (settings panel)
+  modelOptionLabel: {
+    display: 'block',
+    marginTop: tokens.spacing.md,
+    fontSize: tokens.typography.fontSizeSm,
+    color: tokens.colors.textSecondary,
+  },
+
+  // Transcript viewer (read-only share links)
+  transcriptMeta: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: tokens.spacing.md,
+    padding: `${tokens.spacing.sm} ${tokens.spacing.lg}`,
+    borderBottom: `1px solid ${tokens.colors.borderPrimary}`,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+  },
+  transcriptBadge: {
+    padding: `0 ${tokens.spacing.sm}`,
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.pill,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textSecondary,
+  },
+  transcriptSystemPrompt: {
+    padding: `${tokens.spacing.sm} ${tokens.spacing.lg}`,
+    borderBottom: `1px solid ${tokens.colors.borderPrimary}`,
+    fontSize: tokens.typography.fontSizeSm,
+    color: tokens.colors.textSecondary,
+  },
+
+  // Settings Modal
+  modalOverlay: {
+    position: 'fixed' as const,
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: tokens.colors.bgOverlay,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: tokens.zIndex.modal,
+  },
+  modal: {
+    background: tokens.colors.bgSecondary,
+    borderRadius: tokens.radius.xl,
+    border: `1px solid ${tokens.colors.borderPrimary}`,
+    width: '100%',
+    maxWidth: '440px',
+    maxHeight: '90vh',
+    overflow: 'auto',
+    boxShadow: tokens.shadows.xl,
+  },
+  modalHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: `${tokens.spacing.lg} ${tokens.spacing.xl}`,
+    borderBottom: `1px solid ${tokens.colors.borderPrimary}`,
+  },
+  modalTitle: {
+    fontSize: tokens.typography.fontSizeLg,
+    fontWeight: tokens.typography.fontWeightSemibold,
+    color: tokens.colors.textPrimary,
+  },
+  modalClose: {
+    background: 'transparent',
+    border: 'none',
+    color: tokens.colors.textTertiary,
+    fontSize: '20px',
+    cursor: 'pointer',
+    padding: tokens.spacing.xs,
+    lineHeight: 1,
+    transition: `color ${tokens.transitions.fast}`,
+  },
+  modalBody: {
+    padding: tokens.spacing.xl,
+  },
+
+  // Settings sections
+  settingGroup: {
+    marginBottom: tokens.spacing.xl,
+  },
+  settingLabel: {
+    display: 'block',
+    fontSize: tokens.typography.fontSizeMd,
+    fontWeight: tokens.typography.fontWeightMedium,
+    color: tokens.colors.textPrimary,
+    marginBottom: tokens.spacing.xs,
+  },
+  settingDescription: {
+    fontSize: tokens.typography.fontSizeSm,
+    color: tokens.colors.textTertiary,
+    marginBottom: tokens.spacing.md,
+  },
+  settingSelect: {
+    width: '100%',
+    padding: `${tokens.spacing.md} ${tokens.spacing.lg}`,
+    fontSize: tokens.typography.fontSizeMd,
+    background: tokens.colors.bgTertiary,
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.lg,
+    color: tokens.colors.textPrimary,
+    outline: 'none',
+    cursor: 'pointer',
+    appearance: 'none' as const,
+    backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='12' height='12' viewBox='0 0 12 12'%3E%3Cpath fill='%238892a4' d='M6 8L1 3h10z'/%3E%3C/svg%3E")`,
+    backgroundRepeat: 'no-repeat',
+    backgroundPosition: 'right 12px center',
+    paddingRight: '36px',
+  },
+  modelInfo: {
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+    marginTop: tokens.spacing.sm,
+  },
+
+  // Toggle switch row
+  toggleRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: `${tokens.spacing.md} ${tokens.spacing.lg}`,
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.lg,
+    marginBottom: tokens.spacing.sm,
+  },
+  toggleLabel: {
+    fontSize: tokens.typography.fontSizeMd,
+    color: tokens.colors.textPrimary,
+  },
+  toggleSwitch: {
+    position: 'relative' as const,
+    width: '44px',
+    height: '24px',
+    background: tokens.colors.borderSecondary,
+    borderRadius: '12px',
+    cursor: 'pointer',
+    transition: `background ${tokens.transitions.fast}`,
+  },
+  toggleSwitchActive: {
+    background: tokens.colors.accentPrimary,
+  },
+  toggleKnob: {
+    position: 'absolute' as const,
+    top: '2px',
+    left: '2px',
+    width: '20px',
+    height: '20px',
+    background: tokens.colors.textPrimary,
+    borderRadius: tokens.radius.full,
+    transition: `transform ${tokens.transitions.fast}`,
+  },
+  toggleKnobActive: {
+    transform: 'translateX(20px)',
+  },
+
+  // Settings textarea
+  settingTextarea: {
+    width: '100%',
+    minHeight: '100px',
+    padding: tokens.spacing.lg,
+    fontSize: tokens.typography.fontSizeMd,
+    background: tokens.colors.bgTertiary,
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.lg,
+    color: tokens.colors.textPrimary,
+    outline: 'none',
+    resize: 'vertical' as const,
+    fontFamily: tokens.typography.fontFamily,
+  },
+
+  // Conversations drawer
+  drawer: {
+    position: 'absolute' as const,
+    top: 0,
+    left: 0,
+    bottom: 0,
+    width: '260px',
+    maxWidth: '80%',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    background: tokens.colors.bgPrimary,
+    borderRight: `1px solid ${tokens.colors.borderPrimary}`,
+    borderRadius: `${tokens.radius.xl} 0 0 ${tokens.radius.xl}`,
+    boxShadow: tokens.shadows.lg,
+    zIndex: tokens.zIndex.dropdown,
+  },
+  drawerHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: `${tokens.spacing.md} ${tokens.spacing.lg}`,
+    borderBottom: `1px solid ${tokens.colors.borderPrimary}`,
+  },
+  drawerList: {
+    flex: 1,
+    overflowY: 'auto' as const,
+    padding: tokens.spacing.sm,
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing.xs,
+  },
+  newConversationBtn: {
+    margin: tokens.spacing.sm,
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeSm,
+  } as React.CSSProperties,
+  conversationItem: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    borderRadius: tokens.radius.md,
+    cursor: 'pointer',
+    color: tokens.colors.textSecondary,
+    fontSize: tokens.typography.fontSizeSm,
+  },
+  conversationItemActive: {
+    background: tokens.colors.accentPrimaryBg,
+    color: tokens.colors.textPrimary,
+  },
+  conversationTitle: {
+    flex: 1,
+    minWidth: 0,
+    whiteSpace: 'nowrap' as const,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  },
+  conversationAction: {
+    background: 'none',
+    border: 'none',
+    color: tokens.colors.textTertiary,
+    cursor: 'pointer',
+    fontSize: tokens.typography.fontSizeXs,
+    padding: `0 ${tokens.spacing.xs}`,
+    lineHeight: 1,
+  } as React.CSSProperties,
+  conversationRenameInput: {
+    flex: 1,
+    minWidth: 0,
+    padding: `${tokens.spacing.xs} ${tokens.spacing.sm}`,
+    fontSize: tokens.typography.fontSizeSm,
+    background: tokens.colors.bgTertiary,
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.sm,
+    color: tokens.colors.textPrimary,
+    outline: 'none',
+  },
+
+  // Messages area
+  messagesArea: {
+    flex: 1,
+    overflowY: 'auto' as const,
+    padding: tokens.spacing.lg,
+    background: tokens.colors.bgSecondary,
+  },
+  messagesEmpty: {
+    textAlign: 'center' as const,
+    color: tokens.colors.textTertiary,
+    padding: tokens.spacing.xxl,
+  },
+  messagesContainer: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing.lg,
+  },
+
+  // Tool calls indicator
+  toolCallsIndicator: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: tokens.spacing.sm,
+    padding: `0 ${tokens.spacing.lg}`,
+  },
+  toolCallBadge: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    padding: `${tokens.spacing.xs} ${tokens.spacing.sm}`,
+    fontSize: tokens.typography.fontSizeXs,
+    background: tokens.colors.accentWarningBg,
+    color: tokens.colors.accentWarning,
+    borderRadius: tokens.radius.pill,
+  },
+  toolCallDot: {
+    width: '8px',
+    height: '8px',
+    background: tokens.colors.accentWarning,
+    borderRadius: tokens.radius.full,
+    animation: 'hustle-pulse 1s ease-in-out infinite',
+  },
+
+  // Attachments preview
+  attachmentsPreview: {
+    padding: `${tokens.spacing.sm} ${tokens.spacing.lg}`,
+    borderTop: `1px solid ${tokens.colors.borderPrimary}`,
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: tokens.spacing.sm,
+  },
+  attachmentItem: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    padding: `${tokens.spacing.xs} ${tokens.spacing.sm}`,
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.md,
+    fontSize: tokens.typography.fontSizeSm,
+  },
+  attachmentName: {
+    maxWidth: '100px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+  attachmentRemove: {
+    background: 'none',
+    border: 'none',
+    color: tokens.colors.textTertiary,
+    cursor: 'pointer',
+    fontSize: '14px',
+    padding: 0,
+    lineHeight: 1,
+  },
+
+  // Input area - slightly darker than messages
+  inputArea: {
+    position: 'relative' as const,
+    padding: tokens.spacing.lg,
+    background: tokens.colors.bgPrimary,
+    borderTop: `1px solid ${tokens.colors.borderPrimary}`,
+    borderRadius: `0 0 ${tokens.radius.xl} ${tokens.radius.xl}`,
+  },
+  inputRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+  },
+  inputContainer: {
+    flex: 1,
+    display: 'flex',
+    alignItems: 'center',
+    background: tokens.colors.bgTertiary,
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.lg,
+    overflow: 'hidden',
+  },
+  attachBtn: {
+    width: '40px',
+    height: '40px',
+    padding: 0,
+    background: 'transparent',
+    border: 'none',
+    borderRadius: 0,
+    color: tokens.colors.textTertiary,
+    flexShrink: 0,
+  } as React.CSSProperties,
+  inputWrapper: {
+    flex: 1,
+  },
+  input: {
+    width: '100%',
+    padding: `${tokens.spacing.md} ${tokens.spacing.sm}`,
+    background: 'transparent',
+    border: 'none',
+    color: tokens.colors.textPrimary,
+    fontSize: tokens.typography.fontSizeMd,
+    outline: 'none',
+    resize: 'none' as const,
+  } as React.CSSProperties,
+  inputDisabled: {
+    background: tokens.colors.bgTertiary,
+    cursor: 'not-allowed',
+  },
+  sendBtn: {
+    // Inherits global button styles from CSS
+    height: '40px',
+    padding: `0 ${tokens.spacing.lg}`,
+    fontWeight: tokens.typography.fontWeightMedium,
+  } as React.CSSProperties,
+  sendBtnDisabled: {
+    opacity: 0.5,
+    cursor: 'not-allowed',
+  },
+  stopBtn: {
+    height: '40px',
+    padding: `0 ${tokens.spacing.lg}`,
+    fontWeight: tokens.typography.fontWeightMedium,
+    background: tokens.colors.accentErrorBg,
+    color: tokens.colors.accentError,
+  } as React.CSSProperties,
+
+  // Error display
+  errorBox: {
+    marginTop: tokens.spacing.sm,
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    background: tokens.colors.accentErrorBg,
+    color: tokens.colors.accentError,
+    fontSize: tokens.typography.fontSizeSm,
+    borderRadius: tokens.radius.md,
+  },
+
+  // Slash commands
+  commandMenu: {
+    position: 'absolute' as const,
+    bottom: '100%',
+    left: tokens.spacing.lg,
+    right: tokens.spacing.lg,
+    maxHeight: '240px',
+    overflowY: 'auto' as const,
+    padding: tokens.spacing.xs,
+    background: tokens.colors.bgSecondary,
+    border: `1px solid ${tokens.colors.borderPrimary}`,
+    borderRadius: tokens.radius.lg,
+    boxShadow: tokens.shadows.md,
+    zIndex: tokens.zIndex.dropdown,
+  } as React.CSSProperties,
+  commandMenuItem: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: tokens.spacing.sm,
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    borderRadius: tokens.radius.md,
+    fontSize: tokens.typography.fontSizeSm,
+    cursor: 'pointer',
+  },
+  commandMenuItemActive: {
+    background: tokens.colors.bgTertiary,
+  },
+  commandName: {
+    fontFamily: tokens.typography.fontFamilyMono,
+    color: tokens.colors.textPrimary,
+  },
+  commandUsage: {
+    fontFamily: tokens.typography.fontFamilyMono,
+    color: tokens.colors.textTertiary,
+  },
+  commandDescription: {
+    marginLeft: 'auto',
+    color: tokens.colors.textSecondary,
+  },
+  commandNotice: {
+    marginTop: tokens.spacing.sm,
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    background: tokens.colors.bgTertiary,
+    color: tokens.colors.textSecondary,
+    fontSize: tokens.typography.fontSizeSm,
+    borderRadius: tokens.radius.md,
+    whiteSpace: 'pre-wrap' as const,
+  },
+
+  // Message bubbles
+  messageBubbleContainer: {
+    display: 'flex',
+  },
+  messageBubbleUser: {
+    justifyContent: 'flex-end',
+  },
+  messageBubbleAssistant: {
+    justifyContent: 'flex-start',
+  },
+  messageBubble: {
+    maxWidth: '80%',
+    padding: `${tokens.spacing.sm} ${tokens.spacing.lg}`,
+    borderRadius: tokens.radius.lg,
+  },
+  messageBubbleUserStyle: {
+    background: tokens.colors.msgUser,
+    color: tokens.colors.textPrimary,
+  },
+  messageBubbleAssistantStyle: {
+    background: tokens.colors.msgAssistant,
+    color: tokens.colors.textPrimary,
+  },
+  messageBubbleSystemStyle: {
+    background: tokens.colors.bgTertiary,
+    color: tokens.colors.textSecondary,
+    fontSize: tokens.typography.fontSizeSm,
+    fontStyle: 'italic' as const,
+  },
+  messageContent: {
+    whiteSpace: 'pre-wrap' as const,
+    wordBreak: 'break-word' as const,
+    lineHeight: tokens.typography.lineHeightRelaxed,
+  },
+  streamingCursor: {
+    display: 'inline-block',
+    width: '2px',
+    height: '16px',
+    marginLeft: tokens.spacing.xs,
+    background: 'currentColor',
+    animation: 'hustle-pulse 0.8s ease-in-out infinite',
+  },
+
+  stoppedNote: {
+    marginTop: tokens.spacing.xs,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+    fontStyle: 'italic' as const,
+  },
+
+  // Message actions (branch pager, edit, regenerate)
+  messageActions: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: tokens.spacing.xs,
+    marginTop: tokens.spacing.xs,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+  },
+  messageActionBtn: {
+    padding: `2px ${tokens.spacing.sm}`,
+    fontSize: tokens.typography.fontSizeXs,
+    background: 'transparent',
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.sm,
+    color: tokens.colors.textSecondary,
+    cursor: 'pointer',
+  } as React.CSSProperties,
+  branchPager: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '2px',
+    marginRight: 'auto',
+  },
+  branchPagerBtn: {
+    padding: `0 ${tokens.spacing.xs}`,
+    background: 'transparent',
+    border: 'none',
+    color: tokens.colors.textSecondary,
+    cursor: 'pointer',
+    fontSize: tokens.typography.fontSizeSm,
+  } as React.CSSProperties,
+  editBox: {
+    marginTop: tokens.spacing.sm,
+  },
+  editTextarea: {
+    width: '100%',
+    padding: tokens.spacing.sm,
+    background: tokens.colors.bgPrimary,
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.textPrimary,
+    fontSize: tokens.typography.fontSizeMd,
+    fontFamily: 'inherit',
+    resize: 'vertical' as const,
+    boxSizing: 'border-box' as const,
+  } as React.CSSProperties,
+
+  // Tool results
+  toolResultJson: {
+    fontSize: tokens.typography.fontSizeXs,
+    background: 'rgba(255,255,255,0.05)',
+    borderRadius: tokens.radius.sm,
+    padding: tokens.spacing.xs,
+  },
+  toolResultSummary: {
+    cursor: 'pointer',
+    color: tokens.colors.textSecondary,
+  },
+  toolResultPending: {
+    marginLeft: tokens.spacing.xs,
+    color: tokens.colors.textTertiary,
+  },
+  toolResultPre: {
+    ...presets.mono,
+    margin: `${tokens.spacing.xs} 0 0`,
+    fontSize: '10px',
+    overflow: 'auto',
+    whiteSpace: 'pre-wrap' as const,
+    wordBreak: 'break-all' as const,
+  } as React.CSSProperties,
+  marketTable: {
+    width: '100%',
+    borderCollapse: 'collapse' as const,
+    fontSize: tokens.typography.fontSizeSm,
+  },
+  marketHeaderCell: {
+    textAlign: 'left' as const,
+    padding: tokens.spacing.xs,
+    color: tokens.colors.textTertiary,
+    fontSize: tokens.typography.fontSizeXs,
+    fontWeight: tokens.typography.fontWeightMedium,
+    borderBottom: `1px solid ${tokens.colors.borderSecondary}`,
+  },
+  marketCell: {
+    padding: tokens.spacing.xs,
+    verticalAlign: 'top' as const,
+    borderBottom: `1px solid ${tokens.colors.borderPrimary}`,
+  },
+  marketMeta: {
+    color: tokens.colors.textTertiary,
+    fontSize: tokens.typography.fontSizeXs,
+  },
+  oddsRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    fontSize: tokens.typography.fontSizeXs,
+  },
+  oddsLabel: {
+    minWidth: '48px',
+    color: tokens.colors.textSecondary,
+  },
+  oddsBar: {
+    flex: 1,
+    minWidth: '60px',
+    height: '6px',
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.pill,
+    overflow: 'hidden',
+  },
+  oddsBarFill: {
+    height: '100%',
+    background: tokens.colors.accentPrimary,
+  },
+  askUserChip: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    padding: `${tokens.spacing.xs} ${tokens.spacing.sm}`,
+    fontSize: tokens.typography.fontSizeXs,
+    background: tokens.colors.accentPrimaryBg,
+    color: tokens.colors.accentPrimary,
+    borderRadius: tokens.radius.pill,
+    alignSelf: 'flex-start' as const,
+  },
+  askUserChipUnanswered: {
+    background: tokens.colors.bgTertiary,
+    color: tokens.colors.textTertiary,
+  },
+
+  // Tool timeline
+  toolTimeline: {
+    marginTop: tokens.spacing.sm,
+    fontSize: tokens.typography.fontSizeXs,
+  },
+  toolTimelineSummary: {
+    cursor: 'pointer',
+    color: tokens.colors.textSecondary,
+  },
+  toolTimelineList: {
+    listStyle: 'none',
+    margin: `${tokens.spacing.xs} 0 0`,
+    padding: `0 0 0 ${tokens.spacing.sm}`,
+    borderLeft: `1px solid ${tokens.colors.borderSecondary}`,
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing.xs,
+  },
+  toolTimelineHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    cursor: 'pointer',
+  },
+  toolTimelineName: {
+    ...presets.mono,
+    color: tokens.colors.textPrimary,
+  } as React.CSSProperties,
+  toolTimelineMeta: {
+    color: tokens.colors.textTertiary,
+  },
+  toolTimelineError: {
+    color: tokens.colors.accentError,
+    margin: `${tokens.spacing.xs} 0`,
+  },
+  toolTimelineOutput: {
+    marginTop: tokens.spacing.xs,
+  },
+  toolStatusDot: {
+    width: '8px',
+    height: '8px',
+    borderRadius: '50%',
+    flexShrink: 0,
+  },
+
+  // Message metadata (thinking, usage footer)
+  thinking: {
+    marginBottom: tokens.spacing.sm,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textSecondary,
+  },
+  thinkingSummary: {
+    cursor: 'pointer',
+    color: tokens.colors.textTertiary,
+  },
+  thinkingText: {
+    marginTop: tokens.spacing.xs,
+    paddingLeft: tokens.spacing.sm,
+    borderLeft: `2px solid ${tokens.colors.borderSecondary}`,
+    whiteSpace: 'pre-wrap' as const,
+    fontStyle: 'italic' as const,
+  },
+  messageFooter: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    marginTop: tokens.spacing.xs,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+  },
+  categoryChip: {
+    padding: `0 ${tokens.spacing.xs}`,
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.pill,
+  },
+
+  // Context window meter
+  contextMeter: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    padding: `${tokens.spacing.xs} ${tokens.spacing.lg}`,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+  },
+  contextMeterBar: {
+    flex: 1,
+    height: '4px',
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.pill,
+    overflow: 'hidden',
+  },
+  contextMeterFill: {
+    height: '100%',
+    background: tokens.colors.accentPrimary,
+  },
+  contextMeterWarning: {
+    color: tokens.colors.accentWarning,
+  },
+
+  // Tool calls debug
+  toolCallsDebug: {
+    marginTop: tokens.spacing.sm,
+    paddingTop: tokens.spacing.sm,
+    borderTop: `1px solid ${tokens.colors.borderSecondary}`,
+    fontSize: tokens.typography.fontSizeXs,
+  },
+  toolCallsDebugTitle: {
+    fontWeight: tokens.typography.fontWeightMedium,
+    color: tokens.colors.textSecondary,
+    marginBottom: tokens.spacing.xs,
+  },
+  toolCallDebugItem: {
+    background: 'rgba(255,255,255,0.05)',
+    borderRadius: tokens.radius.sm,
+    padding: tokens.spacing.xs,
+    marginTop: tokens.spacing.xs,
+  },
+  toolCallDebugName: {
+    ...presets.mono,
+  } as React.CSSProperties,
+  toolCallDebugArgs: {
+    ...presets.mono,
+    marginTop: tokens.spacing.xs,
+    fontSize: '10px',
+    overflow: 'auto',
+  } as React.CSSProperties,
+
+  // Plugin management styles
+  settingDivider: {
+    height: '1px',
+    background: tokens.colors.borderPrimary,
+    margin: `${tokens.spacing.xl} 0`,
+  },
+
+  pluginList: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing.sm,
+  },
+
+  pluginRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: `${tokens.spacing.md} ${tokens.spacing.lg}`,
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.lg,
+  },
+
+  pluginInfo: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacing.md,
+    flex: 1,
+    minWidth: 0,
+  },
+
+  pluginIcon: {
+    fontSize: '20px',
+    flexShrink: 0,
+  },
+
+  pluginDetails: {
+    flex: 1,
+    minWidth: 0,
+  },
+
+  pluginName: {
+    display: 'block',
+    fontWeight: tokens.typography.fontWeightMedium,
+    color: tokens.colors.textPrimary,
+    whiteSpace: 'nowrap' as const,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+  },
+
+  pluginMeta: {
+    display: 'block',
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+  },
+
+  pluginRowQuarantined: {
+    border: `1px solid ${tokens.colors.accentError}`,
+    background: tokens.colors.accentErrorBg,
+  },
+
+  pluginQuarantineReason: {
+    display: 'block',
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.accentError,
+  },
+
+  pluginUpdateBadge: {
+    color: tokens.colors.accentPrimary,
+  },
+
+  pluginSignedBadge: {
+    marginLeft: tokens.spacing.xs,
+    color: tokens.colors.accentSuccess,
+  },
+
+  pluginEmpty: {
+    padding: tokens.spacing.lg,
+    textAlign: 'center' as const,
+    color: tokens.colors.textTertiary,
+    fontSize: tokens.typography.fontSizeSm,
+  },
+
+  availablePluginsHeader: {
+    fontSize: tokens.typography.fontSizeXs,
+    fontWeight: tokens.typography.fontWeightSemibold,
+    color: tokens.colors.textSecondary,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.5px',
+    marginTop: tokens.spacing.lg,
+    marginBottom: tokens.spacing.sm,
+  },
+
+  catalogSearch: {
+    width: '100%',
+    boxSizing: 'border-box' as const,
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    marginBottom: tokens.spacing.sm,
+    fontSize: tokens.typography.fontSizeSm,
+    background: tokens.colors.bgTertiary,
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.textPrimary,
+    outline: 'none',
+  },
+
+  catalogNotice: {
+    margin: `0 0 ${tokens.spacing.sm} 0`,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.accentWarning,
+  },
+
+  bundleDropZone: {
+    marginTop: tokens.spacing.lg,
+    padding: tokens.spacing.lg,
+    border: `1px dashed ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.lg,
+    textAlign: 'center' as const,
+    fontSize: tokens.typography.fontSizeSm,
+    color: tokens.colors.textTertiary,
+    cursor: 'pointer',
+    transition: `all ${tokens.transitions.fast}`,
+  },
+
+  bundleDropZoneActive: {
+    borderColor: tokens.colors.accentPrimary,
+    color: tokens.colors.accentPrimary,
+    background: tokens.colors.bgTertiary,
+  },
+
+  bundleError: {
+    margin: `${tokens.spacing.sm} 0 0 0`,
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.accentError,
+  },
+
+  installBtn: {
+    padding: `${tokens.spacing.xs} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeSm,
+    background: 'transparent',
+    border: `1px solid ${tokens.colors.accentPrimary}`,
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.accentPrimary,
+    cursor: 'pointer',
+    transition: `all ${tokens.transitions.fast}`,
+    whiteSpace: 'nowrap' as const,
+  } as React.CSSProperties,
+
+  // Install consent dialog
+  consentOverlay: {
+    position: 'fixed' as const,
+    inset: 0,
+    background: tokens.colors.bgOverlay,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: tokens.zIndex.modalOverFullscreen,
+  },
+
+  consentList: {
+    listStyle: 'none',
+    margin: `0 0 ${tokens.spacing.xl} 0`,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: tokens.spacing.sm,
+  },
+
+  consentItem: {
+    padding: `${tokens.spacing.sm} ${tokens.spacing.md}`,
+    background: tokens.colors.bgTertiary,
+    borderRadius: tokens.radius.md,
+    fontSize: tokens.typography.fontSizeSm,
+    color: tokens.colors.textPrimary,
+  },
+
+  consentItemSensitive: {
+    border: `1px solid ${tokens.colors.accentWarning}`,
+    background: tokens.colors.accentWarningBg,
+  },
+
+  consentDetail: {
+    display: 'block',
+    fontSize: tokens.typography.fontSizeXs,
+    color: tokens.colors.textTertiary,
+    wordBreak: 'break-word' as const,
+  },
+
+  consentActions: {
+    display: 'flex',
+    justifyContent: 'flex-end',
+    gap: tokens.spacing.sm,
+  },
+
+  consentAllowBtn: {
+    padding: `${tokens.spacing.xs} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeSm,
+    background: tokens.colors.accentPrimary,
+    border: `1px solid ${tokens.colors.accentPrimary}`,
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.textInverse,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap' as const,
+  } as React.CSSProperties,
+
+  consentCancelBtn: {
+    padding: `${tokens.spacing.xs} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeSm,
+    background: 'transparent',
+    border: `1px solid ${tokens.colors.borderPrimary}`,
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.textSecondary,
+    cursor: 'pointer',
+    whiteSpace: 'nowrap' as const,
+  } as React.CSSProperties,
+
+  rollbackBtn: {
+    padding: `${tokens.spacing.xs} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeSm,
+    background: 'transparent',
+    border: `1px solid ${tokens.colors.borderSecondary}`,
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.textSecondary,
+    cursor: 'pointer',
+    transition: `all ${tokens.transitions.fast}`,
+    whiteSpace: 'nowrap' as const,
+  } as React.CSSProperties,
+
+  uninstallBtn: {
+    padding: `${tokens.spacing.xs} ${tokens.spacing.md}`,
+    fontSize: tokens.typography.fontSizeSm,
+    background: 'transparent',
+    border: `1px solid ${tokens.colors.accentError}`,
+    borderRadius: tokens.radius.md,
+    color: tokens.colors.accentError,
+    cursor: 'pointer',
+    transition: `all ${tokens.transitions.fast}`,
+    whiteSpace: 'nowrap' as const,
+  } as React.CSSProperties,
+};
@@ -13,3 +13,44 @@ export type { HustleChatProps } from './HustleChat';
 
 export { MarkdownContent } from './MarkdownContent';
 export type { MarkdownContentProps } from './MarkdownContent';
+
+export { Chat } from './Chat';
+
+export { ChatRoot, useChatContext } from './ChatRoot';
+export type { ChatRootProps, ChatContextValue } from './ChatRoot';
+
+export { ChatMessages } from './ChatMessages';
+export type { ChatMessagesProps } from './ChatMessages';
+
+export { ChatComposer } from './ChatComposer';
+export type { ChatComposerProps, ChatComposerRenderProps } from './ChatComposer';
+
+export { ChatSettingsPanel } from './ChatSettingsPanel';
+export type { ChatSettingsPanelProps } from './ChatSettingsPanel';
+
+export { ChatExportMenu } from './ChatExportMenu';
+export type { ChatExportMenuProps } from './ChatExportMenu';
+export { ChatPromptPicker } from './ChatPromptPicker';
+export type { ChatPromptPickerProps } from './ChatPromptPicker';
+export { PromptLibraryManager } from './PromptLibraryManager';
+export type { PromptLibraryManagerProps } from './PromptLibraryManager';
+export { PromptTemplateForm } from './PromptTemplateForm';
+export type { PromptTemplateFormProps } from './PromptTemplateForm';
+export { ProfileManager } from './ProfileManager';
+export type { ProfileManagerProps } from './ProfileManager';
+
+export { PluginManager } from './PluginManager';
+export type { PluginManagerProps, PluginManagerItem } from './PluginManager';
+
+export { MessageBubble } from './MessageBubble';
+export type { MessageBubbleProps } from './MessageBubble';
+
+export { ToolResultJson, PredictionMarketResults, AskUserResultChip, defaultToolRenderers } from './ToolResults';
+export { ToolTimeline } from './ToolTimeline';
+export type { ToolTimelineProps } from './ToolTimeline';
+export { MessageFooter, ThinkingSection } from './MessageMetadata';
+export type { MessageFooterProps, ThinkingSectionProps } from './MessageMetadata';
+export { ContextMeter } from './ContextMeter';
+export type { ContextMeterProps } from './ContextMeter';
+export { HustleTranscriptViewer } from './HustleTranscriptViewer';
+export type { HustleTranscriptViewerProps } from './HustleTranscriptViewer';
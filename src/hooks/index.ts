@@ -5,6 +5,13 @@
 export { useEmblemAuth, EmblemAuthProvider, resetAuthSDK } from './useEmblemAuth';
 export { useHustle, HustleProvider } from './useHustle';
 export { usePlugins } from './usePlugins';
+export { useConversations } from './useConversations';
+export { usePluginCatalog } from './usePluginCatalog';
+export { useMessageTree } from './useMessageTree';
+export { useChat } from './useChat';
+export { useUsage } from './useUsage';
+export { usePromptLibrary } from './usePromptLibrary';
+export { useProfiles } from './useProfiles';
 
 // Re-export types for convenience
 export type {
@@ -38,3 +45,10 @@ export type {
 } from '../types';
 
 export type { UsePluginsReturn } from './usePlugins';
+export type { UseConversationsReturn } from './useConversations';
+export type { UsePluginCatalogReturn, UsePluginCatalogOptions } from './usePluginCatalog';
+export type { UseMessageTreeReturn } from './useMessageTree';
+export type { UseChatReturn, UseChatOptions } from './useChat';
+export type { UseUsageReturn } from './useUsage';
+export type { UsePromptLibraryReturn } from './usePromptLibrary';
+export type { UseProfilesReturn } from './useProfiles';
@@ -0,0 +1,463 @@
+'use client';
+
+/**
+ * useChat Hook
+ *
+ * Headless chat state on top of useHustle().chatStream: messages (as a
+ * branching MessageTree, with tool calls, results and response metadata), sending, stopping,
+ * regenerating, editing, attachments and in-flight tool calls. The active conversation is restored
+ * and saved through useConversations. HustleChat is built on this hook;
+ * custom chat UIs can use it to get the same behaviour with their own markup.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { useConversations } from './useConversations';
+import { useMessageTree } from './useMessageTree';
+import { generateId } from '../utils';
+import { flattenMessageTree } from '../utils/messageTree';
+import { generateConversationTitle } from '../utils/conversationStore';
+import { onToolCallStart } from '../utils/toolTimeout';
+import type {
+  ChatMessage,
+  ToolCall,
+  ToolResult,
+  ToolCallTiming,
+  Attachment,
+  StreamWithResponse,
+  Conversation,
+  ConversationMessage,
+  DisplayMessage,
+  MessageTree,
+  MessageBranchInfo,
+} from '../types';
+
+/**
+ * Options for useChat
+ */
+export interface UseChatOptions {
+  /** Instance ID (defaults to the enclosing HustleProvider's) */
+  instanceId?: string;
+  /** Restore and save the active conversation (default: true) */
+  persist?: boolean;
+  /** Called with each user message as it is sent */
+  onMessage?: (message: ChatMessage) => void;
+  /** Called for each tool call the model makes */
+  onToolCall?: (toolCall: ToolCall) => void;
+  /** Called with the final content of each reply */
+  onResponse?: (content: string) => void;
+}
+
+/**
+ * Return type for useChat hook
+ */
+export interface UseChatReturn {
+  /** Messages on the selected branch, root first */
+  messages: DisplayMessage[];
+  /** Every branch of the conversation */
+  tree: MessageTree<DisplayMessage>;
+  /** Send a user message with the pending attachments */
+  send: (content: string) => Promise<void>;
+  /** Stop the reply being generated, keeping what has streamed */
+  stop: () => void;
+  /** Regenerate the last assistant reply as a new branch */
+  regenerate: () => Promise<void>;
+  /** Resend an earlier user message with new content as a new branch */
+  editAndResend: (messageId: string, content: string) => Promise<void>;
+  /** Show the previous (-1) or next (1) sibling of a message */
+  switchBranch: (id: string, direction: -1 | 1) => void;
+  /** Position of a message among its siblings */
+  getBranchInfo: (id: string) => MessageBranchInfo | null;
+  /** Attachments uploaded for the next message */
+  attachments: Attachment[];
+  /** Upload files and add them to the next message */
+  addAttachments: (files: File[] | FileList) => Promise<void>;
+  /** Remove a pending attachment by index */
+  removeAttachment: (index: number) => void;
+  /** Tool calls made so far in the reply being generated */
+  toolCalls: ToolCall[];
+  /** Whether a reply is being generated */
+  isStreaming: boolean;
+  /** Whether a message can be sent now (ready, conversation restored and not streaming) */
+  canSend: boolean;
+  /** The conversation as shown, every branch included, e.g. for exportConversation() */
+  getConversation: () => Conversation;
+  /** Save a conversation (e.g. from readConversationExport) and continue it here; returns its ID */
+  importConversation: (conversation: Conversation) => Promise<string>;
+  /** Start a new, empty conversation (the current one stays saved) */
+  clear: () => void;
+}
+
+/**
+ * Strip display-only fields before persisting
+ */
+function toConversationMessage({ isStreaming: _isStreaming, ...message }: DisplayMessage): ConversationMessage {
+  return message;
+}
+
+/**
+ * Hook for building a chat UI
+ *
+ * Must be used within HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * function MyChat() {
+ *   const { messages, send, stop, isStreaming, canSend } = useChat();
+ *   const [input, setInput] = useState('');
+ *
+ *   return (
+ *     <div>
+ *       {messages.map(m => <p key={m.id}><b>{m.role}:</b> {m.content}</p>)}
+ *       <input value={input} onChange={e => setInput(e.target.value)} />
+ *       {isStreaming
+ *         ? <button onClick={stop}>Stop</button>
+ *         : <button disabled={!canSend} onClick={() => { send(input); setInput(''); }}>Send</button>}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useChat(options: UseChatOptions = {}): UseChatReturn {
+  const { persist = true, onMessage, onToolCall, onResponse } = options;
+  const { instanceId: contextInstanceId, isReady, chatStream, uploadFile, selectedModel } = useHustle();
+  const instanceId = options.instanceId ?? contextInstanceId;
+
+  const {
+    tree,
+    messages,
+    append,
+    update,
+    switchBranch,
+    getBranchInfo,
+    getHistory,
+    reset,
+  } = useMessageTree<DisplayMessage>();
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [toolCalls, setToolCalls] = useState<ToolCall[]>([]);
+  const streamRef = useRef<StreamWithResponse | null>(null);
+
+  // Conversation threads - persisted per instance and vault identifier, so
+  // auth refreshes that replace the session object don't reset history
+  const {
+    activeConversation,
+    activeConversationId,
+    isLoaded: conversationsLoaded,
+    createConversation,
+    saveMessages,
+    importConversation: importStoredConversation,
+  } = useConversations(instanceId);
+  const loadedConversationIdRef = useRef<string | null | undefined>(undefined);
+  const restoredTreeRef = useRef<MessageTree<DisplayMessage> | null>(null);
+  const activeConversationRef = useRef(activeConversation);
+  activeConversationRef.current = activeConversation;
+
+  // Sending before the restore would have the new messages replaced by it
+  const canSend = isReady && !isStreaming && (!persist || conversationsLoaded);
+
+  // Show the active conversation's messages (restore on mount, switch, new chat)
+  useEffect(() => {
+    if (!persist || !conversationsLoaded) return;
+    if (loadedConversationIdRef.current === activeConversationId) return;
+
+    loadedConversationIdRef.current = activeConversationId;
+    restoredTreeRef.current = reset(
+      activeConversationRef.current?.messages ?? [],
+      activeConversationRef.current?.selectedBranches
+    );
+    setAttachments([]);
+  }, [persist, conversationsLoaded, activeConversationId, reset]);
+
+  // Persist the conversation (every branch) once a turn has finished streaming
+  useEffect(() => {
+    if (!persist || !conversationsLoaded || isStreaming || messages.length === 0) return;
+    // Nothing changed since the restore - don't bump updatedAt
+    if (tree === restoredTreeRef.current) return;
+
+    if (!loadedConversationIdRef.current) {
+      loadedConversationIdRef.current = createConversation();
+    }
+
+    const { messages: allMessages, selected } = flattenMessageTree(tree);
+    saveMessages(allMessages.map(toConversationMessage), selected).catch(err => {
+      console.error('[Hustle] Failed to save conversation:', err);
+    });
+  }, [persist, tree, messages.length, isStreaming, conversationsLoaded, createConversation, saveMessages]);
+
+  /**
+   * Stream an assistant reply to the last message of `history`
+   * The reply is added as a child of that message, so replying to a message
+   * that already has a reply starts a new branch.
+   */
+  const streamReply = useCallback(async (history: DisplayMessage[], replyAttachments?: Attachment[]) => {
+    const parent = history[history.length - 1];
+
+    // Create assistant message placeholder
+    const assistantMessage: DisplayMessage = {
+      id: generateId('msg'),
+      role: 'assistant',
+      content: '',
+      createdAt: new Date().toISOString(),
+      isStreaming: true,
+      toolCalls: [],
+      ...(selectedModel ? { model: selectedModel } : {}),
+    };
+
+    append(assistantMessage, parent.id);
+    setIsStreaming(true);
+    setToolCalls([]);
+
+    let fullContent = '';
+    const toolCallsAccumulated: ToolCall[] = [];
+    const toolResultsAccumulated: ToolResult[] = [];
+    const toolTimings: Record<string, ToolCallTiming> = {};
+    // Executors that started before their tool_call chunk arrived
+    const earlyStarts: { toolName: string; at: number }[] = [];
+
+    // Mark a call as running when its executor starts
+    const stopWatchingTools = onToolCallStart(toolName => {
+      const at = Date.now();
+      const waiting = toolCallsAccumulated.find(call =>
+        call.toolName === toolName &&
+        toolTimings[call.toolCallId]?.startedAt === undefined &&
+        !toolResultsAccumulated.some(r => r.toolCallId === call.toolCallId)
+      );
+      if (!waiting) {
+        earlyStarts.push({ toolName, at });
+        return;
+      }
+      toolTimings[waiting.toolCallId] = { ...toolTimings[waiting.toolCallId], startedAt: at };
+      update(assistantMessage.id, { toolTimings: { ...toolTimings } });
+    }, instanceId);
+
+    try {
+      // Build messages array
+      const chatMessages: ChatMessage[] = history
+        .filter(m => !m.isStreaming)
+        .map(m => ({ role: m.role, content: m.content }));
+
+      // Start the conversation now (it's saved after streaming) so usage is attributed to it
+      if (persist && conversationsLoaded && !loadedConversationIdRef.current) {
+        loadedConversationIdRef.current = createConversation();
+      }
+
+      // Stream the response
+      const stream = chatStream({
+        messages: chatMessages,
+        attachments: replyAttachments,
+        processChunks: true,
+        conversationId: loadedConversationIdRef.current ?? undefined,
+        messageId: assistantMessage.id,
+      });
+      streamRef.current = stream;
+
+      for await (const chunk of stream) {
+        if (chunk.type === 'text') {
+          fullContent += chunk.value;
+          update(assistantMessage.id, { content: fullContent });
+        } else if (chunk.type === 'tool_call') {
+          const toolCall = chunk.value;
+          const earlyStart = earlyStarts.findIndex(start => start.toolName === toolCall.toolName);
+          toolCallsAccumulated.push(toolCall);
+          toolTimings[toolCall.toolCallId] = {
+            calledAt: Date.now(),
+            ...(earlyStart >= 0 ? { startedAt: earlyStarts.splice(earlyStart, 1)[0].at } : {}),
+          };
+          setToolCalls([...toolCallsAccumulated]);
+          update(assistantMessage.id, { toolCalls: [...toolCallsAccumulated], toolTimings: { ...toolTimings } });
+          onToolCall?.(toolCall);
+        } else if (chunk.type === 'tool_result') {
+          const { toolCallId } = chunk.value;
+          const now = Date.now();
+          toolResultsAccumulated.push(chunk.value);
+          toolTimings[toolCallId] = { ...(toolTimings[toolCallId] ?? { calledAt: now }), completedAt: now };
+          update(assistantMessage.id, { toolResults: [...toolResultsAccumulated], toolTimings: { ...toolTimings } });
+        } else if (chunk.type === 'error') {
+          console.error('[Hustle] Stream error:', chunk.value);
+        }
+      }
+
+      // Get the processed response (includes afterResponse hook modifications)
+      const processedResponse = await stream.response;
+
+      // Use hook-processed content if available, fallback to streamed content
+      // (a stopped response keeps whatever had streamed, even if empty)
+      const wasAborted = processedResponse?.aborted === true;
+      const finalContent = wasAborted
+        ? processedResponse.content || fullContent
+        : processedResponse?.content || fullContent || '(No response)';
+
+      // Finalize the message with hook-processed content and the response's metadata
+      const { usage, reasoning, devToolsInfo, pathInfo } = processedResponse ?? {};
+      update(assistantMessage.id, {
+        isStreaming: false,
+        content: finalContent,
+        ...(wasAborted ? { aborted: true } : {}),
+        ...(usage ? { usage } : {}),
+        ...(reasoning ? { reasoning } : {}),
+        ...(devToolsInfo ? { devToolsInfo } : {}),
+        ...(pathInfo ? { pathInfo } : {}),
+      });
+
+      onResponse?.(finalContent);
+    } catch (err) {
+      console.error('[Hustle] Chat error:', err);
+      update(assistantMessage.id, {
+        isStreaming: false,
+        content: `Error: ${err instanceof Error ? err.message : 'Unknown error'}`,
+      });
+    } finally {
+      stopWatchingTools();
+      streamRef.current = null;
+      setIsStreaming(false);
+      setToolCalls([]);
+    }
+  }, [
+    chatStream,
+    selectedModel,
+    instanceId,
+    persist,
+    conversationsLoaded,
+    createConversation,
+    append,
+    update,
+    onToolCall,
+    onResponse,
+  ]);
+
+  // Send a user message after the last message on the current branch
+  const send = useCallback(async (content: string) => {
+    const trimmed = content.trim();
+    if (!trimmed || !canSend) return;
+
+    const userMessage: DisplayMessage = {
+      id: generateId('msg'),
+      role: 'user',
+      content: trimmed,
+      createdAt: new Date().toISOString(),
+    };
+
+    append(userMessage, messages.length > 0 ? messages[messages.length - 1].id : null);
+    onMessage?.(userMessage);
+
+    // Clear attachments once they're sent
+    const sentAttachments = attachments.length > 0 ? attachments : undefined;
+    setAttachments([]);
+
+    await streamReply([...messages, userMessage], sentAttachments);
+  }, [canSend, messages, attachments, append, streamReply, onMessage]);
+
+  // Stop the reply being generated
+  const stop = useCallback(() => {
+    streamRef.current?.abort();
+  }, []);
+
+  // Regenerate the last assistant reply - the previous reply is kept as a sibling branch
+  const regenerate = useCallback(async () => {
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== 'assistant' || !canSend) return;
+
+    const history = getHistory(last.id).slice(0, -1);
+    if (history.length === 0) return;
+
+    await streamReply(history);
+  }, [messages, canSend, getHistory, streamReply]);
+
+  // Replace an earlier user message and resend from that point
+  const editAndResend = useCallback(async (messageId: string, content: string) => {
+    const trimmed = content.trim();
+    const original = tree.nodes[messageId];
+    if (!trimmed || !original || original.role !== 'user' || !canSend) return;
+
+    const editedMessage: DisplayMessage = {
+      id: generateId('msg'),
+      role: 'user',
+      content: trimmed,
+      createdAt: new Date().toISOString(),
+    };
+
+    append(editedMessage, original.parentId ?? null);
+    onMessage?.(editedMessage);
+
+    await streamReply([...getHistory(messageId).slice(0, -1), editedMessage]);
+  }, [tree, canSend, append, getHistory, streamReply, onMessage]);
+
+  // Upload files for the next message
+  const addAttachments = useCallback(async (files: File[] | FileList) => {
+    for (const file of Array.from(files)) {
+      try {
+        const attachment = await uploadFile(file);
+        setAttachments(prev => [...prev, attachment]);
+      } catch (err) {
+        console.error('[Hustle] Upload failed:', err);
+      }
+    }
+  }, [uploadFile]);
+
+  // Remove a pending attachment
+  const removeAttachment = useCallback((index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  // The conversation as shown, including a reply still streaming
+  const getConversation = useCallback((): Conversation => {
+    const { messages: allMessages, selected } = flattenMessageTree(tree);
+    const now = new Date().toISOString();
+    const firstUserMessage = allMessages.find(m => m.role === 'user');
+
+    return {
+      id: activeConversation?.id ?? activeConversationId ?? generateId('conv'),
+      title: activeConversation?.title || (firstUserMessage ? generateConversationTitle(firstUserMessage.content) : undefined),
+      messages: allMessages.map(toConversationMessage),
+      ...(Object.keys(selected).length > 0 ? { selectedBranches: selected } : {}),
+      createdAt: activeConversation?.createdAt ?? allMessages[0]?.createdAt ?? now,
+      updatedAt: activeConversation?.updatedAt ?? now,
+    };
+  }, [tree, activeConversation, activeConversationId]);
+
+  // Save an imported conversation and show it
+  const importConversation = useCallback(async (conversation: Conversation) => {
+    if (isStreaming) {
+      throw new Error('Cannot import a conversation while a reply is streaming');
+    }
+    if (!persist) {
+      reset(conversation.messages, conversation.selectedBranches);
+      return conversation.id;
+    }
+    return importStoredConversation(conversation);
+  }, [isStreaming, persist, reset, importStoredConversation]);
+
+  // Start over with an empty conversation
+  const clear = useCallback(() => {
+    if (isStreaming) return;
+    if (persist) {
+      createConversation();
+    } else {
+      reset([]);
+    }
+    setAttachments([]);
+  }, [isStreaming, persist, createConversation, reset]);
+
+  return {
+    messages,
+    tree,
+    send,
+    stop,
+    regenerate,
+    editAndResend,
+    switchBranch,
+    getBranchInfo,
+    attachments,
+    addAttachments,
+    removeAttachment,
+    toolCalls,
+    isStreaming,
+    canSend,
+    getConversation,
+    importConversation,
+    clear,
+  };
+}
+
+export default useChat;
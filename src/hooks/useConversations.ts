@@ -0,0 +1,291 @@
+'use client';
+
+/**
+ * useConversations Hook
+ *
+ * Manages the list of persisted conversations for a HustleProvider instance
+ * (scoped to the authenticated vault) and which one is currently active.
+ * HustleChat uses this internally; custom UIs can drive the same thread list.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { useEmblemAuth } from '../providers/EmblemAuthProvider';
+import { generateId } from '../utils';
+import { generateConversationTitle, getConversationScopeKey } from '../utils/conversationStore';
+import type { Conversation, ConversationMessage, ConversationScope } from '../types';
+
+/**
+ * Get the storage key for the active conversation of a scope
+ */
+function getActiveKey(scope: ConversationScope): string {
+  return `hustle-active-conversation-${getConversationScopeKey(scope)}`;
+}
+
+type ActiveListener = (id: string | null) => void;
+
+/**
+ * Active conversation listeners, shared by every hook mounted for a scope
+ * so a custom thread list and HustleChat stay in sync.
+ */
+const activeListeners: Map<string, Set<ActiveListener>> = new Map();
+
+function loadActiveId(scope: ConversationScope): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(getActiveKey(scope));
+  } catch {
+    return null;
+  }
+}
+
+function setActiveId(scope: ConversationScope, id: string | null): void {
+  if (typeof window !== 'undefined') {
+    try {
+      if (id) {
+        localStorage.setItem(getActiveKey(scope), id);
+      } else {
+        localStorage.removeItem(getActiveKey(scope));
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  }
+  activeListeners.get(getConversationScopeKey(scope))?.forEach((cb) => cb(id));
+}
+
+/**
+ * Return type for useConversations hook
+ */
+export interface UseConversationsReturn {
+  /** Persisted conversations, most recently updated first */
+  conversations: Conversation[];
+  /** The active conversation (null for a new, unsaved conversation) */
+  activeConversation: Conversation | null;
+  /** ID of the active conversation (may not be persisted yet) */
+  activeConversationId: string | null;
+  /** Whether the initial list has loaded for the current scope */
+  isLoaded: boolean;
+  /** Start a new empty conversation and make it active; returns its ID */
+  createConversation: () => string;
+  /** Make an existing conversation active */
+  switchConversation: (id: string) => void;
+  /** Rename a conversation */
+  renameConversation: (id: string, title: string) => Promise<void>;
+  /** Delete a conversation (switches to the next most recent if it was active) */
+  deleteConversation: (id: string) => Promise<void>;
+  /**
+   * Save messages into the active conversation, creating it if needed.
+   * Pass every branch's messages plus the selected branches for a MessageTree.
+   */
+  saveMessages: (messages: ConversationMessage[], selectedBranches?: Record<string, string>) => Promise<void>;
+  /**
+   * Save a conversation (e.g. from readConversationExport) and make it active;
+   * returns its ID, which is a new one if the ID is already taken
+   */
+  importConversation: (conversation: Conversation) => Promise<string>;
+}
+
+/**
+ * Hook for managing conversation threads
+ *
+ * Must be used within HustleProvider. Conversations are only available
+ * while authenticated, since they are scoped to the vault identifier.
+ *
+ * @param instanceId - Optional instance ID (defaults to the enclosing HustleProvider's)
+ *
+ * @example
+ * ```tsx
+ * const { conversations, activeConversationId, switchConversation, createConversation } = useConversations();
+ *
+ * return (
+ *   <ul>
+ *     <li><button onClick={createConversation}>New chat</button></li>
+ *     {conversations.map(c => (
+ *       <li key={c.id} onClick={() => switchConversation(c.id)}>
+ *         {c.id === activeConversationId ? <b>{c.title}</b> : c.title}
+ *       </li>
+ *     ))}
+ *   </ul>
+ * );
+ * ```
+ */
+export function useConversations(instanceId?: string): UseConversationsReturn {
+  const { instanceId: contextInstanceId, conversationStore } = useHustle();
+  const { session } = useEmblemAuth();
+
+  const resolvedInstanceId = instanceId ?? contextInstanceId;
+  const ownerId = session?.user?.identifier ?? null;
+
+  const scope = useMemo<ConversationScope>(
+    () => ({ instanceId: resolvedInstanceId, ownerId }),
+    [resolvedInstanceId, ownerId]
+  );
+  const scopeKey = getConversationScopeKey(scope);
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [loadedScopeKey, setLoadedScopeKey] = useState<string | null>(null);
+
+  // Latest list, for callbacks that shouldn't re-create on every save
+  const conversationsRef = useRef<Conversation[]>([]);
+  conversationsRef.current = conversations;
+  const activeIdRef = useRef<string | null>(null);
+  activeIdRef.current = activeConversationId;
+
+  // Load the list and active ID, and subscribe to changes
+  useEffect(() => {
+    if (!ownerId) {
+      setConversations([]);
+      setActiveConversationId(null);
+      setLoadedScopeKey(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const list = await conversationStore.list(scope);
+        if (!cancelled) setConversations(list);
+        return list;
+      } catch (err) {
+        console.error('[Hustle] Failed to load conversations:', err);
+        return [];
+      }
+    };
+
+    refresh().then((list) => {
+      if (cancelled) return;
+      const storedActive = loadActiveId(scope);
+      const active = list.some((c) => c.id === storedActive) ? storedActive : list[0]?.id ?? null;
+      setActiveConversationId(active);
+      setLoadedScopeKey(scopeKey);
+    });
+
+    const unsubscribe = conversationStore.subscribe?.(scope, () => {
+      refresh();
+    });
+
+    // Keep active ID in sync with other hooks for this scope
+    if (!activeListeners.has(scopeKey)) {
+      activeListeners.set(scopeKey, new Set());
+    }
+    const listeners = activeListeners.get(scopeKey)!;
+    listeners.add(setActiveConversationId);
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      listeners.delete(setActiveConversationId);
+    };
+  }, [conversationStore, scope, scopeKey, ownerId]);
+
+  const activeConversation = useMemo(
+    () => conversations.find((c) => c.id === activeConversationId) ?? null,
+    [conversations, activeConversationId]
+  );
+
+  // Start a new conversation (persisted on first save)
+  const createConversation = useCallback(() => {
+    const id = generateId('conv');
+    // Update the ref immediately so a save in the same tick targets the new thread
+    activeIdRef.current = id;
+    setActiveId(scope, id);
+    return id;
+  }, [scope]);
+
+  // Switch to an existing conversation
+  const switchConversation = useCallback((id: string) => {
+    activeIdRef.current = id;
+    setActiveId(scope, id);
+  }, [scope]);
+
+  // Rename a conversation
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    const existing = await conversationStore.get(scope, id);
+    if (!existing) return;
+    await conversationStore.save(scope, {
+      ...existing,
+      title: title.trim() || existing.title,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [conversationStore, scope]);
+
+  // Delete a conversation
+  const deleteConversation = useCallback(async (id: string) => {
+    await conversationStore.delete(scope, id);
+    if (activeIdRef.current === id) {
+      const next = conversationsRef.current.find((c) => c.id !== id);
+      setActiveId(scope, next?.id ?? null);
+    }
+  }, [conversationStore, scope]);
+
+  // Save messages into the active conversation
+  const saveMessages = useCallback(async (
+    messages: ConversationMessage[],
+    selectedBranches?: Record<string, string>
+  ) => {
+    if (!ownerId || messages.length === 0) return;
+
+    let id = activeIdRef.current;
+    if (!id) {
+      id = generateId('conv');
+      activeIdRef.current = id;
+      setActiveId(scope, id);
+    }
+
+    const now = new Date().toISOString();
+    const existing = conversationsRef.current.find((c) => c.id === id)
+      ?? await conversationStore.get(scope, id);
+    const firstUserMessage = messages.find((m) => m.role === 'user');
+
+    await conversationStore.save(scope, {
+      id,
+      title: existing?.title || (firstUserMessage ? generateConversationTitle(firstUserMessage.content) : undefined),
+      messages,
+      ...(selectedBranches && Object.keys(selectedBranches).length > 0 ? { selectedBranches } : {}),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }, [conversationStore, scope, ownerId]);
+
+  // Save an imported conversation and switch to it
+  const importConversation = useCallback(async (conversation: Conversation) => {
+    if (!ownerId) {
+      throw new Error('Sign in to import conversations');
+    }
+
+    const taken = conversationsRef.current.some((c) => c.id === conversation.id)
+      || (await conversationStore.get(scope, conversation.id)) !== null;
+    const imported: Conversation = {
+      ...conversation,
+      id: taken ? generateId('conv') : conversation.id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await conversationStore.save(scope, imported);
+
+    // List it before activating so the chat restores its messages, not an empty thread
+    conversationsRef.current = [imported, ...conversationsRef.current];
+    setConversations(conversationsRef.current);
+    activeIdRef.current = imported.id;
+    setActiveId(scope, imported.id);
+    return imported.id;
+  }, [conversationStore, scope, ownerId]);
+
+  return {
+    conversations,
+    activeConversation,
+    activeConversationId,
+    isLoaded: loadedScopeKey === scopeKey,
+    createConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+    saveMessages,
+    importConversation,
+  };
+}
+
+export default useConversations;
@@ -0,0 +1,128 @@
+'use client';
+
+/**
+ * useMessageTree Hook
+ *
+ * Holds a conversation as a MessageTree so replies can be regenerated and
+ * user messages edited without losing what came before - each attempt is a
+ * sibling branch the user can page through. HustleChat uses this for its
+ * messages; custom UIs can use it to render the same branches.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import {
+  createMessageTree,
+  getActivePath,
+  getActiveLeafId,
+  getMessageHistory,
+  addMessage,
+  updateMessage,
+  selectBranch as selectTreeBranch,
+  getBranchInfo as getTreeBranchInfo,
+} from '../utils/messageTree';
+import type { ConversationMessage, DisplayMessage, MessageTree, MessageBranchInfo } from '../types';
+
+/**
+ * Return type for useMessageTree hook
+ */
+export interface UseMessageTreeReturn<M extends ConversationMessage = DisplayMessage> {
+  /** The full tree, every branch included */
+  tree: MessageTree<M>;
+  /** Messages on the selected branch, root first */
+  messages: M[];
+  /**
+   * Add a message and select it. It follows `parentId`, or the last
+   * message on the selected branch when omitted (null for a first message).
+   */
+  append: (message: M, parentId?: string | null) => void;
+  /** Update a message by ID */
+  update: (id: string, update: Partial<M> | ((message: M) => M)) => void;
+  /** Show the branch containing a message */
+  selectBranch: (id: string) => void;
+  /** Show the previous (-1) or next (1) sibling of a message */
+  switchBranch: (id: string, direction: -1 | 1) => void;
+  /** Position of a message among its siblings */
+  getBranchInfo: (id: string) => MessageBranchInfo | null;
+  /** Messages from the root to a message, inclusive */
+  getHistory: (id: string) => M[];
+  /** Replace the tree (e.g. when switching conversations); returns the new tree */
+  reset: (messages?: M[], selected?: Record<string, string>) => MessageTree<M>;
+}
+
+/**
+ * Hook for a branching conversation
+ *
+ * @param initialMessages - Messages in creation order (flat histories become one branch)
+ *
+ * @example
+ * ```tsx
+ * const { messages, getBranchInfo, switchBranch } = useMessageTree();
+ *
+ * return messages.map(message => {
+ *   const branch = getBranchInfo(message.id);
+ *   return (
+ *     <div key={message.id}>
+ *       {message.content}
+ *       {branch && branch.count > 1 && (
+ *         <span>
+ *           <button onClick={() => switchBranch(message.id, -1)}>‹</button>
+ *           {branch.index + 1}/{branch.count}
+ *           <button onClick={() => switchBranch(message.id, 1)}>›</button>
+ *         </span>
+ *       )}
+ *     </div>
+ *   );
+ * });
+ * ```
+ */
+export function useMessageTree<M extends ConversationMessage = DisplayMessage>(
+  initialMessages?: M[]
+): UseMessageTreeReturn<M> {
+  const [tree, setTree] = useState<MessageTree<M>>(() => createMessageTree(initialMessages));
+
+  const messages = useMemo(() => getActivePath(tree), [tree]);
+
+  const append = useCallback((message: M, parentId?: string | null) => {
+    setTree(prev => addMessage(prev, message, parentId === undefined ? getActiveLeafId(prev) : parentId));
+  }, []);
+
+  const update = useCallback((id: string, change: Partial<M> | ((message: M) => M)) => {
+    setTree(prev => updateMessage(prev, id, change));
+  }, []);
+
+  const selectBranch = useCallback((id: string) => {
+    setTree(prev => selectTreeBranch(prev, id));
+  }, []);
+
+  const switchBranch = useCallback((id: string, direction: -1 | 1) => {
+    setTree(prev => {
+      const branch = getTreeBranchInfo(prev, id);
+      const siblingId = branch?.siblingIds[branch.index + direction];
+      return siblingId ? selectTreeBranch(prev, siblingId) : prev;
+    });
+  }, []);
+
+  const getBranchInfo = useCallback((id: string) => getTreeBranchInfo(tree, id), [tree]);
+
+  const getHistory = useCallback((id: string) => getMessageHistory(tree, id), [tree]);
+
+  const reset = useCallback((nextMessages?: M[], selected?: Record<string, string>) => {
+    const next = createMessageTree(nextMessages, selected);
+    setTree(next);
+    return next;
+  }, []);
+
+  return {
+    tree,
+    messages,
+    append,
+    update,
+    selectBranch,
+    switchBranch,
+    getBranchInfo,
+    getHistory,
+    reset,
+  };
+}
+
+export default useMessageTree;
@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * usePluginCatalog Hook
+ *
+ * Browse and install plugins from the catalog configured on HustleProvider
+ * (pluginCatalogUrl), or from the bundled catalog when none is set.
+ * HustleChat uses this for its "Available" plugin list.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { pluginRegistry } from '../utils/pluginRegistry';
+import {
+  getPluginCatalog,
+  searchCatalog,
+  getCatalogTags,
+  catalogEntryToStoredPlugin,
+} from '../utils/pluginCatalog';
+import type { PluginCatalogEntry, PluginCatalogSource } from '../types';
+
+/**
+ * Options for usePluginCatalog
+ */
+export interface UsePluginCatalogOptions {
+  /** Catalog URL (defaults to HustleProvider's pluginCatalogUrl) */
+  url?: string;
+}
+
+/**
+ * Return type for usePluginCatalog hook
+ */
+export interface UsePluginCatalogReturn {
+  /** Every catalog entry */
+  entries: PluginCatalogEntry[];
+  /** Entries matching the current query and tag */
+  results: PluginCatalogEntry[];
+  /** Current search query */
+  query: string;
+  /** Search by name, tag or description */
+  setQuery: (query: string) => void;
+  /** Current tag filter */
+  tag: string | null;
+  /** Filter by tag (null for all) */
+  setTag: (tag: string | null) => void;
+  /** All tags in the catalog */
+  tags: string[];
+  /** Where the entries came from */
+  source: PluginCatalogSource;
+  /** Why the remote catalog could not be used */
+  error: Error | null;
+  /** Whether the catalog is being fetched */
+  isLoading: boolean;
+  /** Fetch the catalog again */
+  refresh: () => Promise<void>;
+  /** Install a catalog entry for this instance */
+  install: (entry: PluginCatalogEntry) => void;
+}
+
+/**
+ * Hook for browsing the plugin catalog
+ *
+ * @example
+ * ```tsx
+ * const { results, setQuery, install } = usePluginCatalog();
+ *
+ * <input onChange={e => setQuery(e.target.value)} />
+ * {results.map(entry => (
+ *   <button key={entry.name} onClick={() => install(entry)}>
+ *     {entry.name} v{entry.version} by {entry.publisher?.name}
+ *   </button>
+ * ))}
+ * ```
+ */
+export function usePluginCatalog(options: UsePluginCatalogOptions = {}): UsePluginCatalogReturn {
+  const { instanceId, pluginCatalogUrl } = useHustle();
+  const catalog = getPluginCatalog(options.url ?? pluginCatalogUrl);
+
+  const [, setVersion] = useState(0);
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+
+  // Load once per catalog and re-render on changes
+  useEffect(() => {
+    const unsubscribe = catalog.subscribe(() => setVersion(v => v + 1));
+    catalog.load();
+    return unsubscribe;
+  }, [catalog]);
+
+  const entries = catalog.getEntries();
+
+  const results = useMemo(
+    () => searchCatalog(entries, query, { tag: tag ?? undefined }),
+    [entries, query, tag]
+  );
+
+  const tags = useMemo(() => getCatalogTags(entries), [entries]);
+
+  const refresh = useCallback(async () => {
+    await catalog.refresh();
+  }, [catalog]);
+
+  const install = useCallback((entry: PluginCatalogEntry) => {
+    pluginRegistry.registerSerialized(catalogEntryToStoredPlugin(entry), true, instanceId);
+  }, [instanceId]);
+
+  return {
+    entries,
+    results,
+    query,
+    setQuery,
+    tag,
+    setTag,
+    tags,
+    source: catalog.source,
+    error: catalog.error,
+    isLoading: catalog.isLoading,
+    refresh,
+    install,
+  };
+}
+
+export default usePluginCatalog;
@@ -5,11 +5,34 @@
  *
  * Manages plugin state with localStorage persistence and cross-tab sync.
  * Supports instance-scoped storage for multiple HustleProviders.
+ *
+ * When the instance has a trust policy, plugin signatures are verified
+ * asynchronously; plugins are only hydrated (and their code evaluated) once
+ * verified, and failures are reported through quarantinedPlugins.
+ *
+ * Installed versions are compared with the instance's plugin catalog;
+ * newer catalog versions show up in `updates` and can be installed with
+ * upgradePlugin (enabled state is kept) and undone with rollbackPlugin.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { pluginRegistry, hydratePlugin } from '../utils/pluginRegistry';
-import type { StoredPlugin, HustlePlugin, HydratedPlugin } from '../types';
+import { shouldQuarantine } from '../utils/pluginSignature';
+import {
+  getPluginCatalog,
+  findPluginUpdates,
+  catalogEntryToStoredPlugin,
+} from '../utils/pluginCatalog';
+import type {
+  StoredPlugin,
+  HustlePlugin,
+  HydratedPlugin,
+  PluginTrustPolicy,
+  PluginVerification,
+  PluginUpdate,
+  PluginBundle,
+} from '../types';
+import type { PluginBundleInput } from '../utils/pluginBundle';
 
 // Re-export hydratePlugin for convenience
 export { hydratePlugin };
@@ -21,14 +44,31 @@ function getStorageKey(instanceId: string): string {
   return `hustle-plugins-${instanceId}`;
 }
 
+/**
+ * Cache key for a verification result - changes when the plugin is reinstalled
+ */
+function getVerificationKey(plugin: StoredPlugin): string {
+  return `${plugin.name}:${plugin.installedAt ?? ''}:${plugin.signature ?? ''}`;
+}
+
+/** Verification results for the policy they were computed under */
+interface VerificationState {
+  policy?: PluginTrustPolicy;
+  results: Record<string, PluginVerification>;
+}
+
 /**
  * Return type for usePlugins hook
  */
 export interface UsePluginsReturn {
   /** All registered plugins (with enabled state) */
   plugins: StoredPlugin[];
-  /** Only enabled plugins (hydrated with executors) */
+  /** Only enabled plugins (hydrated with executors) - excludes quarantined and unverified plugins */
   enabledPlugins: HydratedPlugin[];
+  /** Installed plugins whose code was refused by the trust policy */
+  quarantinedPlugins: HydratedPlugin[];
+  /** Signature verification results by plugin name (empty when no trust policy is configured) */
+  verifications: Record<string, PluginVerification>;
   /** Register a new plugin */
   registerPlugin: (plugin: HustlePlugin) => void;
   /** Unregister a plugin by name */
@@ -41,6 +81,16 @@ export interface UsePluginsReturn {
   isRegistered: (name: string) => boolean;
   /** Check if a plugin is enabled */
   isEnabled: (name: string) => boolean;
+  /** Installed plugins with a newer version in the catalog, by name */
+  updates: Record<string, PluginUpdate>;
+  /** Install the latest catalog version (keeps enabled state, runs its migrate hook) */
+  upgradePlugin: (name: string) => Promise<void>;
+  /** Restore the version a plugin was upgraded from */
+  rollbackPlugin: (name: string) => void;
+  /** Export an installed plugin as a JSON bundle */
+  exportPlugin: (name: string) => Promise<PluginBundle>;
+  /** Install a plugin from a bundle file or JSON (validated and integrity-checked) */
+  importPlugin: (fileOrJson: PluginBundleInput) => Promise<StoredPlugin>;
 }
 
 /**
@@ -61,6 +111,14 @@ export interface UsePluginsReturn {
  */
 export function usePlugins(instanceId: string = 'default'): UsePluginsReturn {
   const [plugins, setPlugins] = useState<StoredPlugin[]>([]);
+  const [verificationState, setVerificationState] = useState<VerificationState>({ results: {} });
+  const reportedRef = useRef<Set<string>>(new Set());
+
+  // Trust and execution policies are set by HustleProvider; changes notify our registry listener
+  const trustPolicy = pluginRegistry.getTrustPolicy(instanceId);
+  const execution = pluginRegistry.getExecutionPolicy(instanceId);
+  const catalog = getPluginCatalog(pluginRegistry.getCatalogUrl(instanceId));
+  const [catalogEntries, setCatalogEntries] = useState(() => catalog.getEntries());
 
   // Load initial plugins and subscribe to changes
   useEffect(() => {
@@ -85,6 +143,46 @@ export function usePlugins(instanceId: string = 'default'): UsePluginsReturn {
     };
   }, [instanceId]);
 
+  // Load the catalog to check for updates
+  useEffect(() => {
+    setCatalogEntries(catalog.getEntries());
+    const unsubscribe = catalog.subscribe(() => setCatalogEntries(catalog.getEntries()));
+    catalog.load();
+    return unsubscribe;
+  }, [catalog]);
+
+  // Verify signatures whenever plugins or the trust policy change
+  useEffect(() => {
+    if (!trustPolicy) return;
+
+    let cancelled = false;
+
+    Promise.all(
+      plugins.map(async (plugin) => {
+        const verification = await pluginRegistry.verifyPlugin(plugin, instanceId);
+        return [plugin, verification] as const;
+      })
+    ).then((entries) => {
+      if (cancelled) return;
+
+      const results: Record<string, PluginVerification> = {};
+      for (const [plugin, verification] of entries) {
+        const key = getVerificationKey(plugin);
+        results[key] = verification;
+
+        if (shouldQuarantine(verification, trustPolicy.requireSignatures) && !reportedRef.current.has(key)) {
+          reportedRef.current.add(key);
+          console.error(`[Hustle] Plugin "${plugin.name}" quarantined:`, verification.reason);
+        }
+      }
+      setVerificationState({ policy: trustPolicy, results });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [plugins, trustPolicy, instanceId]);
+
   // Register a new plugin
   const registerPlugin = useCallback((plugin: HustlePlugin) => {
     pluginRegistry.register(plugin, true, instanceId);
@@ -105,6 +203,32 @@ export function usePlugins(instanceId: string = 'default'): UsePluginsReturn {
     pluginRegistry.setEnabled(name, false, instanceId);
   }, [instanceId]);
 
+  // Upgrade a plugin to its latest catalog version
+  const upgradePlugin = useCallback(async (name: string) => {
+    const entry = catalogEntries.find(e => e.name === name);
+    if (!entry) {
+      throw new Error(`Plugin "${name}" is not in the catalog`);
+    }
+    await pluginRegistry.upgrade(catalogEntryToStoredPlugin(entry), instanceId);
+  }, [catalogEntries, instanceId]);
+
+  // Roll a plugin back to its previous version
+  const rollbackPlugin = useCallback((name: string) => {
+    pluginRegistry.rollback(name, instanceId);
+  }, [instanceId]);
+
+  // Export a plugin as a bundle
+  const exportPlugin = useCallback(
+    (name: string) => pluginRegistry.exportPlugin(name),
+    []
+  );
+
+  // Import a plugin bundle
+  const importPlugin = useCallback(
+    (fileOrJson: PluginBundleInput) => pluginRegistry.importPlugin(fileOrJson, instanceId),
+    [instanceId]
+  );
+
   // Check if plugin is registered
   const isRegistered = useCallback(
     (name: string) => plugins.some(p => p.name === name),
@@ -117,18 +241,54 @@ export function usePlugins(instanceId: string = 'default'): UsePluginsReturn {
     [plugins]
   );
 
-  // Get enabled plugins with hydrated executors
-  const enabledPlugins = plugins.filter(p => p.enabled).map(hydratePlugin);
+  // Hydrate when the plugins or policies change, not on every render -
+  // hydrating evaluates plugin code
+  const { verifications, enabledPlugins, quarantinedPlugins } = useMemo(() => {
+    // Results only count for the policy they were computed under
+    const results = trustPolicy && verificationState.policy === trustPolicy
+      ? verificationState.results
+      : {};
+    const requireSignature = Boolean(trustPolicy?.requireSignatures);
+
+    const verifications: Record<string, PluginVerification> = {};
+    for (const plugin of plugins) {
+      const verification = results[getVerificationKey(plugin)];
+      if (verification) verifications[plugin.name] = verification;
+    }
+
+    // Get enabled plugins with hydrated executors
+    // With a trust policy, plugins still being verified are left out entirely
+    const enabledPlugins = plugins
+      .filter(p => p.enabled && (!trustPolicy || verifications[p.name]))
+      .map(p => hydratePlugin(p, { verification: verifications[p.name], requireSignature, execution, instanceId }))
+      .filter(p => !p.quarantined);
+
+    // Quarantined plugins are hydrated without evaluating any code
+    const quarantinedPlugins = plugins
+      .filter(p => verifications[p.name] && shouldQuarantine(verifications[p.name], requireSignature))
+      .map(p => hydratePlugin(p, { verification: verifications[p.name], requireSignature }));
+
+    return { verifications, enabledPlugins, quarantinedPlugins };
+  }, [plugins, trustPolicy, verificationState, execution, instanceId]);
+
+  const updates = useMemo(() => findPluginUpdates(plugins, catalogEntries), [plugins, catalogEntries]);
 
   return {
     plugins,
     enabledPlugins,
+    quarantinedPlugins,
+    verifications,
     registerPlugin,
     unregisterPlugin,
     enablePlugin,
     disablePlugin,
     isRegistered,
     isEnabled,
+    updates,
+    upgradePlugin,
+    rollbackPlugin,
+    exportPlugin,
+    importPlugin,
   };
 }
 
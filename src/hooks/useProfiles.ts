@@ -0,0 +1,129 @@
+'use client';
+
+/**
+ * useProfiles Hook
+ *
+ * The instance's named settings profiles. Switching a profile changes the
+ * model, system prompts, generation options and enabled plugins that
+ * HustleProvider uses; profiles can also be added, duplicated, renamed,
+ * reset and deleted. Updates when profiles change, including from other
+ * tabs.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { settingsProfiles, getProfilesStorageKey } from '../utils/settingsProfiles';
+import type { ProfileSettings, ProfilesState, SettingsProfile } from '../types';
+
+/**
+ * Return type for useProfiles hook
+ */
+export interface UseProfilesReturn {
+  /** All profiles, in the order they were created */
+  profiles: SettingsProfile[];
+  /** The profile in use */
+  activeProfile: SettingsProfile;
+  /** ID of the profile in use */
+  activeProfileId: string;
+  /** Make a profile active (and enable its plugins) */
+  switchProfile: (id: string) => void;
+  /** Add a profile - unset settings get the defaults (not activated) */
+  createProfile: (name: string, settings?: Partial<ProfileSettings>) => SettingsProfile;
+  /** Copy a profile, named "{name} copy" unless given a name (not activated) */
+  duplicateProfile: (id: string, name?: string) => SettingsProfile | undefined;
+  /** Rename a profile */
+  renameProfile: (id: string, name: string) => void;
+  /** Restore a profile's settings from the app's default profile of the same name, or the defaults */
+  resetProfile: (id: string) => void;
+  /** Delete a profile (the last one is kept) */
+  deleteProfile: (id: string) => void;
+}
+
+/**
+ * Hook for settings profiles
+ *
+ * Must be used within HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * function ProfileSwitcher() {
+ *   const { profiles, activeProfileId, switchProfile } = useProfiles();
+ *
+ *   return (
+ *     <select value={activeProfileId} onChange={e => switchProfile(e.target.value)}>
+ *       {profiles.map(profile => (
+ *         <option key={profile.id} value={profile.id}>{profile.name}</option>
+ *       ))}
+ *     </select>
+ *   );
+ * }
+ * ```
+ */
+export function useProfiles(instanceId?: string): UseProfilesReturn {
+  const { instanceId: contextInstanceId } = useHustle();
+  const resolvedInstanceId = instanceId ?? contextInstanceId;
+
+  const [state, setState] = useState<ProfilesState>(() => settingsProfiles.getState(resolvedInstanceId));
+
+  // Load the instance's profiles and follow changes
+  useEffect(() => {
+    const refresh = () => setState(settingsProfiles.getState(resolvedInstanceId));
+    refresh();
+    const unsubscribe = settingsProfiles.onChange(refresh, resolvedInstanceId);
+
+    // Cross-tab sync
+    const storageKey = getProfilesStorageKey(resolvedInstanceId);
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === storageKey) refresh();
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [resolvedInstanceId]);
+
+  const activeProfile = useMemo(
+    () => state.profiles.find(p => p.id === state.activeProfileId) ?? state.profiles[0],
+    [state]
+  );
+
+  const switchProfile = useCallback((id: string) => {
+    settingsProfiles.switchProfile(id, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const createProfile = useCallback((name: string, settings?: Partial<ProfileSettings>) => {
+    return settingsProfiles.createProfile(name, settings, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const duplicateProfile = useCallback((id: string, name?: string) => {
+    return settingsProfiles.duplicateProfile(id, name, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    settingsProfiles.updateProfile(id, { name }, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const resetProfile = useCallback((id: string) => {
+    settingsProfiles.resetProfile(id, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const deleteProfile = useCallback((id: string) => {
+    settingsProfiles.deleteProfile(id, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  return {
+    profiles: state.profiles,
+    activeProfile,
+    activeProfileId: activeProfile.id,
+    switchProfile,
+    createProfile,
+    duplicateProfile,
+    renameProfile,
+    resetProfile,
+    deleteProfile,
+  };
+}
+
+export default useProfiles;
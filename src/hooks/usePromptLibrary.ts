@@ -0,0 +1,143 @@
+'use client';
+
+/**
+ * usePromptLibrary Hook
+ *
+ * The instance's saved system prompts and prompt templates, plus the
+ * prompts recommended by its enabled plugins. Applies system prompts to
+ * HustleProvider, fills in templates, and imports and exports the library
+ * as a file. Updates when prompts change, including from other tabs.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { usePlugins } from './usePlugins';
+import {
+  promptLibrary,
+  getPromptLibraryStorageKey,
+  getRecommendedPrompts,
+  createPromptLibraryExport,
+  readPromptLibraryExport,
+  downloadPromptLibrary,
+} from '../utils/promptLibrary';
+import type { PromptLibraryInput } from '../utils/promptLibrary';
+import type { PluginPrompt, SavedPrompt, RecommendedPrompt } from '../types';
+
+/**
+ * Return type for usePromptLibrary hook
+ */
+export interface UsePromptLibraryReturn {
+  /** Saved prompts, in the order they were added */
+  prompts: SavedPrompt[];
+  /** Saved system prompts */
+  systemPrompts: SavedPrompt[];
+  /** Saved prompt templates */
+  templates: SavedPrompt[];
+  /** Prompts recommended by the enabled plugins */
+  recommended: RecommendedPrompt[];
+  /** Save a prompt, or update the saved prompt with the same id */
+  savePrompt: (prompt: PluginPrompt & { id?: string }) => SavedPrompt;
+  /** Delete a saved prompt */
+  deletePrompt: (id: string) => void;
+  /** Make a prompt (or text) the provider's system prompt */
+  applySystemPrompt: (prompt: PluginPrompt | string) => void;
+  /** The library as a JSON file's contents */
+  exportLibrary: () => string;
+  /** Save the library as a JSON file */
+  downloadLibrary: (fileName?: string) => void;
+  /** Add the prompts of a library file - same kind and name replaces (returns the imported prompts) */
+  importLibrary: (input: PromptLibraryInput) => Promise<SavedPrompt[]>;
+}
+
+/**
+ * Hook for the prompt library
+ *
+ * Must be used within HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * function PromptList() {
+ *   const { systemPrompts, recommended, applySystemPrompt } = usePromptLibrary();
+ *
+ *   return (
+ *     <ul>
+ *       {[...systemPrompts, ...recommended].map(prompt => (
+ *         <li key={prompt.name}>
+ *           <button onClick={() => applySystemPrompt(prompt)}>{prompt.name}</button>
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ */
+export function usePromptLibrary(instanceId?: string): UsePromptLibraryReturn {
+  const { instanceId: contextInstanceId, setSystemPrompt } = useHustle();
+  const resolvedInstanceId = instanceId ?? contextInstanceId;
+  const { plugins } = usePlugins(resolvedInstanceId);
+
+  const [prompts, setPrompts] = useState<SavedPrompt[]>(() => promptLibrary.getPrompts(resolvedInstanceId));
+
+  // Load the instance's prompts and follow changes
+  useEffect(() => {
+    const refresh = () => setPrompts(promptLibrary.getPrompts(resolvedInstanceId));
+    refresh();
+    const unsubscribe = promptLibrary.onChange(refresh, resolvedInstanceId);
+
+    // Cross-tab sync
+    const storageKey = getPromptLibraryStorageKey(resolvedInstanceId);
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === storageKey) refresh();
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [resolvedInstanceId]);
+
+  const systemPrompts = useMemo(() => prompts.filter(p => p.kind === 'system'), [prompts]);
+  const templates = useMemo(() => prompts.filter(p => p.kind === 'template'), [prompts]);
+  const recommended = useMemo(() => getRecommendedPrompts(plugins), [plugins]);
+
+  const savePrompt = useCallback((prompt: PluginPrompt & { id?: string }) => {
+    return promptLibrary.savePrompt(prompt, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const deletePrompt = useCallback((id: string) => {
+    promptLibrary.deletePrompt(id, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const applySystemPrompt = useCallback((prompt: PluginPrompt | string) => {
+    setSystemPrompt(typeof prompt === 'string' ? prompt : prompt.content);
+  }, [setSystemPrompt]);
+
+  const exportLibrary = useCallback(() => {
+    return JSON.stringify(createPromptLibraryExport(prompts), null, 2);
+  }, [prompts]);
+
+  const downloadLibrary = useCallback((fileName?: string) => {
+    downloadPromptLibrary(prompts, fileName);
+  }, [prompts]);
+
+  const importLibrary = useCallback(async (input: PromptLibraryInput) => {
+    const library = await readPromptLibraryExport(input);
+    return promptLibrary.importPrompts(library.prompts, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  return {
+    prompts,
+    systemPrompts,
+    templates,
+    recommended,
+    savePrompt,
+    deletePrompt,
+    applySystemPrompt,
+    exportLibrary,
+    downloadLibrary,
+    importLibrary,
+  };
+}
+
+export default usePromptLibrary;
@@ -0,0 +1,137 @@
+'use client';
+
+/**
+ * useUsage Hook
+ *
+ * Token usage and estimated cost that HustleProvider has recorded for an
+ * instance and the authenticated vault, summed per message, conversation,
+ * model and day, with the instance's soft budget and CSV export. Updates
+ * as responses come in, including from other tabs.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useHustle } from '../providers/HustleProvider';
+import { useEmblemAuth } from '../providers/EmblemAuthProvider';
+import {
+  usageTracker,
+  summarizeUsage,
+  usageToCsv,
+  downloadUsageCsv,
+  getUsageStorageKey,
+} from '../utils/usageTracker';
+import type {
+  ConversationScope,
+  UsageRecord,
+  UsageSummary,
+  UsageBudget,
+  UsageBudgetStatus,
+} from '../types';
+
+/**
+ * Return type for useUsage hook
+ */
+export interface UseUsageReturn {
+  /** Usage of every recorded response, oldest first */
+  records: UsageRecord[];
+  /** Totals overall and by message, conversation, model and day */
+  summary: UsageSummary;
+  /** The instance's soft budget, if any */
+  budget?: UsageBudget;
+  /** Usage against the budget in the current period (null without a budget) */
+  budgetStatus: UsageBudgetStatus | null;
+  /** Replace or remove the budget (until the provider's usageBudget prop changes) */
+  setBudget: (budget?: UsageBudget) => void;
+  /** Delete the recorded usage */
+  clear: () => void;
+  /** The records as CSV */
+  exportCsv: () => string;
+  /** Save the records as a CSV file */
+  downloadCsv: (fileName?: string) => void;
+}
+
+/**
+ * Hook for usage accounting
+ *
+ * Must be used within HustleProvider.
+ *
+ * @example
+ * ```tsx
+ * function UsagePanel() {
+ *   const { summary, budgetStatus, downloadCsv } = useUsage();
+ *
+ *   return (
+ *     <div>
+ *       <p>{summary.total.totalTokens} tokens, ${summary.total.costUsd.toFixed(2)}</p>
+ *       {budgetStatus?.exceeded && <p>Daily budget reached</p>}
+ *       <button onClick={() => downloadCsv()}>Export CSV</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useUsage(instanceId?: string): UseUsageReturn {
+  const { instanceId: contextInstanceId } = useHustle();
+  const { session } = useEmblemAuth();
+
+  const resolvedInstanceId = instanceId ?? contextInstanceId;
+  const ownerId = session?.user?.identifier ?? null;
+
+  const scope = useMemo<ConversationScope>(
+    () => ({ instanceId: resolvedInstanceId, ownerId }),
+    [resolvedInstanceId, ownerId]
+  );
+
+  const [records, setRecords] = useState<UsageRecord[]>(() => usageTracker.getRecords(scope));
+  const [budgetStatus, setBudgetStatus] = useState<UsageBudgetStatus | null>(() => usageTracker.getBudgetStatus(scope));
+
+  // Load the scope's records and follow changes
+  useEffect(() => {
+    const refresh = () => {
+      setRecords(usageTracker.getRecords(scope));
+      setBudgetStatus(usageTracker.getBudgetStatus(scope));
+    };
+    refresh();
+    const unsubscribe = usageTracker.onChange(refresh, resolvedInstanceId);
+
+    // Cross-tab sync
+    const storageKey = getUsageStorageKey(scope);
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === storageKey) refresh();
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [scope, resolvedInstanceId]);
+
+  const summary = useMemo(() => summarizeUsage(records), [records]);
+
+  const setBudget = useCallback((next?: UsageBudget) => {
+    usageTracker.setBudget(next, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const clear = useCallback(() => {
+    usageTracker.clear(scope);
+  }, [scope]);
+
+  const exportCsv = useCallback(() => usageToCsv(records), [records]);
+
+  const downloadCsv = useCallback((fileName?: string) => {
+    downloadUsageCsv(records, fileName);
+  }, [records]);
+
+  return {
+    records,
+    summary,
+    budget: budgetStatus?.budget,
+    budgetStatus,
+    setBudget,
+    clear,
+    exportCsv,
+    downloadCsv,
+  };
+}
+
+export default useUsage;
@@ -54,6 +54,44 @@ export type { AuthStatusProps } from './components/AuthStatus';
 export { HustleChat } from './components/HustleChat';
 export type { HustleChatProps } from './components/HustleChat';
 
+export { Chat } from './components/Chat';
+export { ChatRoot, useChatContext } from './components/ChatRoot';
+export type { ChatRootProps, ChatContextValue } from './components/ChatRoot';
+export { ChatMessages } from './components/ChatMessages';
+export type { ChatMessagesProps } from './components/ChatMessages';
+export { ChatComposer } from './components/ChatComposer';
+export type { ChatComposerProps, ChatComposerRenderProps } from './components/ChatComposer';
+export { ChatSettingsPanel } from './components/ChatSettingsPanel';
+export type { ChatSettingsPanelProps } from './components/ChatSettingsPanel';
+export { ChatExportMenu } from './components/ChatExportMenu';
+export type { ChatExportMenuProps } from './components/ChatExportMenu';
+export { ChatPromptPicker } from './components/ChatPromptPicker';
+export type { ChatPromptPickerProps } from './components/ChatPromptPicker';
+export { PromptLibraryManager } from './components/PromptLibraryManager';
+export type { PromptLibraryManagerProps } from './components/PromptLibraryManager';
+export { PromptTemplateForm } from './components/PromptTemplateForm';
+export type { PromptTemplateFormProps } from './components/PromptTemplateForm';
+export { ProfileManager } from './components/ProfileManager';
+export type { ProfileManagerProps } from './components/ProfileManager';
+export { PluginManager } from './components/PluginManager';
+export type { PluginManagerProps, PluginManagerItem } from './components/PluginManager';
+export { MessageBubble } from './components/MessageBubble';
+export type { MessageBubbleProps } from './components/MessageBubble';
+export {
+  ToolResultJson,
+  PredictionMarketResults,
+  AskUserResultChip,
+  defaultToolRenderers,
+} from './components/ToolResults';
+export { ToolTimeline } from './components/ToolTimeline';
+export type { ToolTimelineProps } from './components/ToolTimeline';
+export { MessageFooter, ThinkingSection } from './components/MessageMetadata';
+export type { MessageFooterProps, ThinkingSectionProps } from './components/MessageMetadata';
+export { ContextMeter } from './components/ContextMeter';
+export type { ContextMeterProps } from './components/ContextMeter';
+export { HustleTranscriptViewer } from './components/HustleTranscriptViewer';
+export type { HustleTranscriptViewerProps } from './components/HustleTranscriptViewer';
+
 // ============================================================================
 // Hooks (re-exports for convenience)
 // ============================================================================
@@ -63,6 +101,20 @@ export * from './hooks/useEmblemAuth';
 export * from './hooks/useHustle';
 export { usePlugins } from './hooks/usePlugins';
 export type { UsePluginsReturn } from './hooks/usePlugins';
+export { useConversations } from './hooks/useConversations';
+export type { UseConversationsReturn } from './hooks/useConversations';
+export { useMessageTree } from './hooks/useMessageTree';
+export type { UseMessageTreeReturn } from './hooks/useMessageTree';
+export { useChat } from './hooks/useChat';
+export type { UseChatReturn, UseChatOptions } from './hooks/useChat';
+export { useUsage } from './hooks/useUsage';
+export type { UseUsageReturn } from './hooks/useUsage';
+export { usePromptLibrary } from './hooks/usePromptLibrary';
+export type { UsePromptLibraryReturn } from './hooks/usePromptLibrary';
+export { useProfiles } from './hooks/useProfiles';
+export type { UseProfilesReturn } from './hooks/useProfiles';
+export { usePluginCatalog } from './hooks/usePluginCatalog';
+export type { UsePluginCatalogReturn, UsePluginCatalogOptions } from './hooks/usePluginCatalog';
 
 // ============================================================================
 // Types
@@ -100,14 +152,81 @@ export type {
   ClientToolDefinition,
   SerializedToolDefinition,
   ToolExecutor,
+  ToolExecutionContext,
+  ToolInterruptedError,
   HustleRequest,
   ProcessedResponse,
   ErrorContext,
   PluginHooks,
+  PluginHookName,
+  PluginPermissions,
   SerializedHooks,
   HustlePlugin,
   StoredPlugin,
   HydratedPlugin,
+  ToolResultRenderer,
+  ToolResultRendererProps,
+  PreviousPluginVersion,
+  PluginUpdate,
+  PluginBundle,
+  PluginBundlePreview,
+  InferSchemaType,
+  ToolArgumentIssue,
+  ToolArgumentError,
+  PluginKeyring,
+  PluginVerificationStatus,
+  PluginVerification,
+  PluginTrustPolicy,
+  PluginExecutionMode,
+  PluginSandboxOptions,
+  PluginExecutionPolicy,
+  HydratePluginOptions,
+
+  // Plugin catalog types
+  PluginPublisher,
+  PluginCatalogEntry,
+  PluginCatalogManifest,
+  PluginCatalogSource,
+
+  // Conversation types
+  ConversationMessage,
+  Conversation,
+  ConversationScope,
+  ConversationStore,
+  DisplayMessage,
+  MessageTree,
+  MessageBranchInfo,
+  ToolCallTiming,
+  ToolCallStatus,
+  ToolTimelineEntry,
+  ConversationExport,
+  ConversationExportFormat,
+  ConversationExportSettings,
+
+  // Usage types
+  UsageRecord,
+  UsageTotals,
+  UsageSummary,
+  UsageBudget,
+  UsageBudgetStatus,
+
+  // Settings profile types
+  ModelOptions,
+  ProfileSettings,
+  SettingsProfile,
+  ProfilePreset,
+  ProfilesState,
+
+  // Prompt library types
+  PromptKind,
+  PluginPrompt,
+  SavedPrompt,
+  RecommendedPrompt,
+  PromptLibraryExport,
+
+  // Slash command types
+  SlashCommand,
+  SlashCommandContext,
 } from './types';
 
 // ============================================================================
@@ -127,7 +246,104 @@ export {
   // Plugin utilities
   pluginRegistry,
   hydratePlugin,
+  serializePlugin,
+  // Plugin authoring
+  definePlugin,
+  defineTool,
+  validateToolArgs,
+  prepareToolArgs,
+  isToolArgumentError,
+  // Tool timeouts and cancellation
+  cancelToolCalls,
+  isToolInterrupted,
+  onToolCallStart,
+  // Tool timelines
+  getToolTimeline,
+  getToolResultError,
+  formatDuration,
+  // Usage, cost and context window
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  getToolCategories,
+  getLatestPathInfo,
+  getContextUsage,
+  // Usage accounting
+  usageTracker,
+  BudgetExceededError,
+  isBudgetExceededError,
+  summarizeUsage,
+  getBudgetStatus,
+  usageToCsv,
+  downloadUsageCsv,
+  // Plugin signatures
+  signPlugin,
+  verifyPluginSignature,
+  exportPublicKey,
+  // Plugin sandbox
+  PluginSandbox,
+  disposePluginSandboxes,
+  // Plugin permissions
+  describePluginPermissions,
+  // Plugin catalog
+  PluginCatalog,
+  getPluginCatalog,
+  searchCatalog,
+  parseCatalog,
+  // Plugin bundles
+  readPluginBundle,
+  downloadPluginBundle,
+  // Version comparison
+  compareVersions,
+  isNewerVersion,
+  // Conversation stores
+  LocalStorageConversationStore,
+  IndexedDBConversationStore,
+  MemoryConversationStore,
+  // Conversation export and import
+  exportConversation,
+  exportConversationJson,
+  exportConversationMarkdown,
+  exportConversationHtml,
+  readConversationExport,
+  downloadConversationExport,
+  // Share links
+  createShareLink,
+  readShareLink,
+  redactConversation,
+  // Prompt library
+  promptLibrary,
+  extractPromptVariables,
+  fillPromptTemplate,
+  getRecommendedPrompts,
+  readPromptLibraryExport,
+  downloadPromptLibrary,
+  // Settings profiles
+  settingsProfiles,
+  getPresetSettings,
+  // Slash commands
+  builtInSlashCommands,
+  runSlashCommand,
+  // Message trees
+  createMessageTree,
+  getActivePath,
+  getMessageHistory,
+  getBranchInfo,
+  MESSAGE_TREE_ROOT,
+  // HTML sanitizer
+  sanitizeHtml,
+  createSanitizePolicy,
+  DEFAULT_SANITIZE_POLICY,
 } from './utils';
+export type { SanitizePolicy } from './utils';
+export type { ContextUsage } from './utils';
+export type { PermissionSummary } from './utils';
+export type { PluginCatalogOptions, PluginCatalogSearchOptions } from './utils';
+export type { PluginBundleInput } from './utils';
+export type { ConversationExportInput } from './utils';
+export type { ShareLinkOptions } from './utils';
+export type { PromptLibraryInput } from './utils';
+export type { DefinedTool, DefinePluginOptions, ToolExecutorsFor, TypedToolExecutor } from './utils';
 
 // ============================================================================
 // Plugins
@@ -135,8 +351,11 @@ export {
 
 export {
   availablePlugins,
+  bundledPluginCatalog,
   getAvailablePlugin,
   predictionMarketPlugin,
   migrateFunPlugin,
+  tokenizePii,
+  createPiiTokenMap,
 } from './plugins';
-export type { AvailablePlugin } from './plugins';
+export type { AvailablePlugin, PiiTokenMap } from './plugins';
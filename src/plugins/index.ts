@@ -2,8 +2,9 @@
  * Plugin Registry
  *
  * Available plugins that can be installed by users.
- * This is a hardcoded registry for the PoC - in the future
- * this could be fetched from a remote plugin marketplace.
+ * These built-in plugins also make up the bundled plugin catalog, used
+ * when no remote catalog URL is configured or the remote fetch fails
+ * (see PluginCatalog).
  *
  * NOTE: Plugins no longer need to be pre-registered. Executor code
  * is now serialized to localStorage as executorCode strings and
@@ -14,7 +15,8 @@ import { predictionMarketPlugin } from './predictionMarket';
 import { migrateFunPlugin } from './migrateFun';
 import { piiProtectionPlugin } from './piiProtection';
 import { userQuestionPlugin } from './userQuestion';
-import type { HustlePlugin } from '../types';
+import { serializePlugin } from '../utils/pluginRegistry';
+import type { HustlePlugin, PluginCatalogEntry, PluginPublisher } from '../types';
 
 /**
  * Available plugin with display metadata
@@ -22,8 +24,18 @@ import type { HustlePlugin } from '../types';
 export interface AvailablePlugin extends HustlePlugin {
   /** Short description for UI display */
   description: string;
+  /** Search tags */
+  tags?: string[];
+  /** Publisher shown in the catalog */
+  publisher?: PluginPublisher;
 }
 
+/** Publisher of the built-in plugins */
+const BUILT_IN_PUBLISHER: PluginPublisher = {
+  name: 'Emblem Vault',
+  url: 'https://emblemvault.ai',
+};
+
 /**
  * All available plugins that can be installed
  */
@@ -31,18 +43,26 @@ export const availablePlugins: AvailablePlugin[] = [
   {
     ...predictionMarketPlugin,
     description: 'Search and analyze Polymarket and Kalshi prediction markets',
+    tags: ['markets', 'polymarket', 'kalshi', 'trading'],
+    publisher: BUILT_IN_PUBLISHER,
   },
   {
     ...migrateFunPlugin,
     description: 'Search Migrate.fun knowledge base for token migration answers',
+    tags: ['docs', 'migration', 'solana'],
+    publisher: BUILT_IN_PUBLISHER,
   },
   {
     ...piiProtectionPlugin,
     description: 'Tokenizes PII before sending to AI, restores in responses',
+    tags: ['privacy', 'security'],
+    publisher: BUILT_IN_PUBLISHER,
   },
   {
     ...userQuestionPlugin,
     description: 'Allows AI to ask users multiple choice questions via modal',
+    tags: ['ui', 'input'],
+    publisher: BUILT_IN_PUBLISHER,
   },
 ];
 
@@ -53,8 +73,25 @@ export function getAvailablePlugin(name: string): AvailablePlugin | undefined {
   return availablePlugins.find(p => p.name === name);
 }
 
+/**
+ * Bundled catalog - the available plugins in serialized (catalog) form
+ */
+export const bundledPluginCatalog: PluginCatalogEntry[] = availablePlugins.map(
+  ({ tags, publisher, ...plugin }) => ({
+    ...serializePlugin(plugin),
+    description: plugin.description,
+    tags,
+    publisher,
+    versions: [plugin.version],
+  })
+);
+
 // Re-export individual plugins
 export { predictionMarketPlugin };
 export { migrateFunPlugin };
 export { piiProtectionPlugin };
 export { userQuestionPlugin };
+
+// PII tokenizer (also used to redact share links)
+export { tokenizePii, createPiiTokenMap } from './piiProtection';
+export type { PiiTokenMap } from './piiProtection';
@@ -19,39 +19,82 @@
 import type { HustlePlugin, HustleRequest, ProcessedResponse } from '../types';
 
 /**
- * Storage keys for cross-hook communication
+ * Where the hooks keep the persistent map (on window)
  */
-const TOKEN_MAP_KEY = '__piiTokenMaps';
 const PERSISTENT_MAP_KEY = '__piiPersistentMap';
 
 /**
- * Get the request-specific token maps (for cleanup)
+ * PII <-> token mapping; the same value always gets the same token
  */
-function getTokenMaps(): Map<string, Map<string, string>> {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const storage: Record<string, unknown> = typeof window !== 'undefined' ? (window as any) : (global as any);
+export interface PiiTokenMap {
+  piiToToken: Map<string, string>;
+  tokenToPii: Map<string, string>;
+  counter: { value: number };
+}
 
-  if (!storage[TOKEN_MAP_KEY]) {
-    storage[TOKEN_MAP_KEY] = new Map();
-  }
-  return storage[TOKEN_MAP_KEY] as Map<string, Map<string, string>>;
+/**
+ * Create an empty token map (e.g. to redact a transcript without touching the plugin's)
+ */
+export function createPiiTokenMap(): PiiTokenMap {
+  return {
+    piiToToken: new Map<string, string>(),
+    tokenToPii: new Map<string, string>(),
+    counter: { value: 0 },
+  };
 }
 
 /**
- * Get the persistent PII -> token map (reuses tokens for same PII)
+ * Get the persistent PII -> token map the hooks use (reuses tokens for same PII)
  */
-function getPersistentMap(): { piiToToken: Map<string, string>; tokenToPii: Map<string, string>; counter: { value: number } } {
+function getPersistentMap(): PiiTokenMap {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const storage: Record<string, unknown> = typeof window !== 'undefined' ? (window as any) : (global as any);
 
   if (!storage[PERSISTENT_MAP_KEY]) {
-    storage[PERSISTENT_MAP_KEY] = {
-      piiToToken: new Map<string, string>(),
-      tokenToPii: new Map<string, string>(),
-      counter: { value: 0 },
-    };
+    storage[PERSISTENT_MAP_KEY] = createPiiTokenMap();
   }
-  return storage[PERSISTENT_MAP_KEY] as { piiToToken: Map<string, string>; tokenToPii: Map<string, string>; counter: { value: number } };
+  return storage[PERSISTENT_MAP_KEY] as PiiTokenMap;
+}
+
+/**
+ * PII patterns, in the order they are replaced, with their token labels
+ * (beforeRequest carries its own copy - keep the two in step)
+ */
+const PII_PATTERNS: Array<{ label: string; pattern: RegExp }> = [
+  // SSNs: 123-45-6789
+  { label: 'SSN', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  // Email addresses
+  { label: 'EMAIL', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/gi },
+  // Phone numbers
+  { label: 'PHONE', pattern: /\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g },
+  // Credit card numbers
+  { label: 'CARD', pattern: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g },
+];
+
+/**
+ * Replace PII in text with tokens like {{EMAIL_1}}
+ *
+ * Uses the plugin's persistent map unless another is given, and reports
+ * each token used (new or reused) through onToken.
+ */
+export function tokenizePii(
+  text: string,
+  map: PiiTokenMap = getPersistentMap(),
+  onToken?: (token: string, original: string) => void
+): string {
+  if (typeof text !== 'string') return text;
+
+  return PII_PATTERNS.reduce((result, { label, pattern }) => result.replace(pattern, (match) => {
+    // Check if we already have a token for this PII
+    let token = map.piiToToken.get(match);
+    if (!token) {
+      token = `{{${label}_${++map.counter.value}}}`;
+      map.piiToToken.set(match, token);
+      map.tokenToPii.set(token, match);
+    }
+    onToken?.(token, match);
+    return token;
+  }), text);
 }
 
 /**
@@ -65,6 +108,12 @@ export const piiProtectionPlugin: HustlePlugin = {
   version: '1.0.0',
   description: 'Tokenizes PII before sending to AI, restores in responses',
 
+  permissions: {
+    // Token maps are kept on window so both hooks share them
+    dom: true,
+    hooks: ['onRegister', 'beforeRequest', 'afterResponse'],
+  },
+
   tools: [],
   executors: {},
 
@@ -73,70 +122,46 @@ export const piiProtectionPlugin: HustlePlugin = {
       console.log('[PII Protection] Plugin registered - PII will be tokenized in requests');
     },
 
+    // The hooks are stored as source and revived without this module's
+    // scope, so they can't call the helpers above; they find the shared
+    // maps on window by key instead.
     beforeRequest: (request: HustleRequest): HustleRequest => {
-      const maps = getTokenMaps();
-      const persistent = getPersistentMap();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const storage: Record<string, any> = typeof window !== 'undefined' ? window : global;
+      if (!storage.__piiTokenMaps) {
+        storage.__piiTokenMaps = new Map();
+      }
+      if (!storage.__piiPersistentMap) {
+        storage.__piiPersistentMap = {
+          piiToToken: new Map<string, string>(),
+          tokenToPii: new Map<string, string>(),
+          counter: { value: 0 },
+        };
+      }
+      const maps: Map<string, Map<string, string>> = storage.__piiTokenMaps;
+      const persistent: PiiTokenMap = storage.__piiPersistentMap;
       const requestId = Date.now().toString();
       const requestTokenMap = new Map<string, string>();
 
-      const tokenize = (text: string): string => {
-        if (typeof text !== 'string') return text;
-
-        return text
-          // SSNs: 123-45-6789
-          .replace(/\b\d{3}-\d{2}-\d{4}\b/g, (match) => {
-            // Check if we already have a token for this PII
-            if (persistent.piiToToken.has(match)) {
-              const existingToken = persistent.piiToToken.get(match)!;
-              requestTokenMap.set(existingToken, match);
-              return existingToken;
-            }
-            const token = `{{SSN_${++persistent.counter.value}}}`;
-            persistent.piiToToken.set(match, token);
-            persistent.tokenToPii.set(token, match);
-            requestTokenMap.set(token, match);
-            return token;
-          })
-          // Email addresses
-          .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/gi, (match) => {
-            if (persistent.piiToToken.has(match)) {
-              const existingToken = persistent.piiToToken.get(match)!;
-              requestTokenMap.set(existingToken, match);
-              return existingToken;
-            }
-            const token = `{{EMAIL_${++persistent.counter.value}}}`;
-            persistent.piiToToken.set(match, token);
-            persistent.tokenToPii.set(token, match);
-            requestTokenMap.set(token, match);
-            return token;
-          })
-          // Phone numbers
-          .replace(/\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g, (match) => {
-            if (persistent.piiToToken.has(match)) {
-              const existingToken = persistent.piiToToken.get(match)!;
-              requestTokenMap.set(existingToken, match);
-              return existingToken;
-            }
-            const token = `{{PHONE_${++persistent.counter.value}}}`;
+      const patterns: Array<[string, RegExp]> = [
+        ['SSN', /\b\d{3}-\d{2}-\d{4}\b/g],
+        ['EMAIL', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/gi],
+        ['PHONE', /\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g],
+        ['CARD', /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g],
+      ];
+
+      const tokenize = (text: string): string =>
+        patterns.reduce((result, [label, pattern]) => result.replace(pattern, (match) => {
+          // Check if we already have a token for this PII
+          let token = persistent.piiToToken.get(match);
+          if (!token) {
+            token = `{{${label}_${++persistent.counter.value}}}`;
             persistent.piiToToken.set(match, token);
             persistent.tokenToPii.set(token, match);
-            requestTokenMap.set(token, match);
-            return token;
-          })
-          // Credit card numbers
-          .replace(/\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, (match) => {
-            if (persistent.piiToToken.has(match)) {
-              const existingToken = persistent.piiToToken.get(match)!;
-              requestTokenMap.set(existingToken, match);
-              return existingToken;
-            }
-            const token = `{{CARD_${++persistent.counter.value}}}`;
-            persistent.piiToToken.set(match, token);
-            persistent.tokenToPii.set(token, match);
-            requestTokenMap.set(token, match);
-            return token;
-          });
-      };
+          }
+          requestTokenMap.set(token, match);
+          return token;
+        }), text);
 
       // Tokenize PII in each message
       const anonymizedMessages = request.messages.map(msg => ({
@@ -154,10 +179,12 @@ export const piiProtectionPlugin: HustlePlugin = {
     },
 
     afterResponse: (response: ProcessedResponse): void => {
-      const persistent = getPersistentMap();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const storage: Record<string, any> = typeof window !== 'undefined' ? window : global;
+      const persistent: PiiTokenMap | undefined = storage.__piiPersistentMap;
 
       // Restore tokens using the persistent map
-      if (typeof response.content === 'string') {
+      if (persistent && typeof response.content === 'string') {
         let restored = response.content;
         let restoredCount = 0;
 
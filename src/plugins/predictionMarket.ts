@@ -23,14 +23,10 @@
 * - "Get details on [ticker] from Kalshi" 
  */
 
-import type { HustlePlugin } from '../types';
+import { definePlugin } from '../utils/definePlugin';
 
-const DOME_API_BASE = 'https://api.domeapi.io/v1';
-
-/**
- * Supported prediction market platforms
- */
-type Platform = 'polymarket' | 'kalshi';
+// Executors are serialized with fn.toString() and can't close over module
+// constants, so each executor declares the Dome API base URL itself.
 
 /**
  * Prediction Market Alpha Plugin
@@ -42,11 +38,25 @@ type Platform = 'polymarket' | 'kalshi';
  * - get_market_prices: Get current prices/odds for a market
  * - get_market_trades: Get recent trading activity
  */
-export const predictionMarketPlugin: HustlePlugin = {
+export const predictionMarketPlugin = definePlugin({
   name: 'prediction-market-alpha',
   version: '1.1.0',
   description: 'Search and analyze prediction markets on Polymarket and Kalshi',
 
+  permissions: {
+    network: ['https://api.domeapi.io'],
+    hooks: ['onRegister'],
+  },
+
+  prompts: [
+    {
+      kind: 'template',
+      name: 'Market odds',
+      description: 'Current odds and recent trading for a topic',
+      content: 'Find the most active {{platform}} markets about {{topic}} and summarize their current odds and recent trading.',
+    },
+  ],
+
   tools: [
     {
       name: 'get_supported_platforms',
@@ -174,45 +184,69 @@ export const predictionMarketPlugin: HustlePlugin = {
       };
     },
 
-    search_prediction_markets: async (args) => {
-      const platform = (args.platform as Platform) || 'polymarket';
+    search_prediction_markets: async (args, context) => {
+      const DOME_API_BASE = 'https://api.domeapi.io/v1';
+      const platform = args.platform || 'polymarket';
       const params = new URLSearchParams();
 
       if (args.limit) params.append('limit', String(args.limit));
 
       if (platform === 'polymarket') {
-        if (args.tags) params.append('tags', (args.tags as string[]).join(','));
-        if (args.status) params.append('status', args.status as string);
+        if (args.tags) params.append('tags', args.tags.join(','));
+        if (args.status) params.append('status', args.status);
 
-        const response = await fetch(`${DOME_API_BASE}/polymarket/markets?${params}`);
+        const response = await fetch(`${DOME_API_BASE}/polymarket/markets?${params}`, { signal: context?.signal });
 
         if (!response.ok) {
           throw new Error(`Dome API error: ${response.status} ${response.statusText}`);
         }
 
         const data = await response.json();
+        const markets: Record<string, unknown>[] = data.markets || [];
+
+        // Price of each market's first outcome (its probability); the other side is the rest.
+        // A price that can't be fetched is left out rather than failing the search.
+        const prices = await Promise.all(markets.map(async (m) => {
+          const tokenId = (m.side_a as Record<string, unknown>)?.id;
+          if (!tokenId) return undefined;
+          try {
+            const priceResponse = await fetch(
+              `${DOME_API_BASE}/polymarket/market-price/${tokenId}`,
+              { signal: context?.signal }
+            );
+            if (!priceResponse.ok) return undefined;
+            const { price } = await priceResponse.json();
+            return typeof price === 'number' ? price : undefined;
+          } catch {
+            return undefined;
+          }
+        }));
 
         return {
           platform: 'polymarket',
-          markets: data.markets?.map((m: Record<string, unknown>) => ({
+          markets: markets.map((m, i) => ({
             slug: m.market_slug,
             title: m.title,
             status: m.status,
             volume: m.volume_total,
             tags: m.tags,
             outcomes: [
-              { label: (m.side_a as Record<string, unknown>)?.label, id: (m.side_a as Record<string, unknown>)?.id },
+              {
+                label: (m.side_a as Record<string, unknown>)?.label,
+                id: (m.side_a as Record<string, unknown>)?.id,
+                ...(prices[i] !== undefined ? { price: prices[i] } : {}),
+              },
               { label: (m.side_b as Record<string, unknown>)?.label, id: (m.side_b as Record<string, unknown>)?.id },
             ],
             winner: m.winning_side,
-          })) || [],
+          })),
           total: data.pagination?.total || 0,
           hasMore: data.pagination?.has_more || false,
         };
       } else if (platform === 'kalshi') {
-        if (args.status) params.append('status', args.status as string);
+        if (args.status) params.append('status', args.status);
 
-        const response = await fetch(`${DOME_API_BASE}/kalshi/markets?${params}`);
+        const response = await fetch(`${DOME_API_BASE}/kalshi/markets?${params}`, { signal: context?.signal });
 
         if (!response.ok) {
           throw new Error(`Dome API error: ${response.status} ${response.statusText}`);
@@ -240,12 +274,14 @@ export const predictionMarketPlugin: HustlePlugin = {
       throw new Error(`Unsupported platform: ${platform}`);
     },
 
-    get_market_details: async (args) => {
-      const platform = (args.platform as Platform) || 'polymarket';
+    get_market_details: async (args, context) => {
+      const DOME_API_BASE = 'https://api.domeapi.io/v1';
+      const platform = args.platform || 'polymarket';
 
       if (platform === 'polymarket') {
         const response = await fetch(
-          `${DOME_API_BASE}/polymarket/markets?market_slug=${args.market_slug}`
+          `${DOME_API_BASE}/polymarket/markets?market_slug=${args.market_slug}`,
+          { signal: context?.signal }
         );
 
         if (!response.ok) {
@@ -285,7 +321,8 @@ export const predictionMarketPlugin: HustlePlugin = {
         };
       } else if (platform === 'kalshi') {
         const response = await fetch(
-          `${DOME_API_BASE}/kalshi/markets?ticker=${args.market_slug}`
+          `${DOME_API_BASE}/kalshi/markets?ticker=${args.market_slug}`,
+          { signal: context?.signal }
         );
 
         if (!response.ok) {
@@ -316,12 +353,14 @@ export const predictionMarketPlugin: HustlePlugin = {
       throw new Error(`Unsupported platform: ${platform}`);
     },
 
-    get_market_prices: async (args) => {
-      const platform = (args.platform as Platform) || 'polymarket';
+    get_market_prices: async (args, context) => {
+      const DOME_API_BASE = 'https://api.domeapi.io/v1';
+      const platform = args.platform || 'polymarket';
 
       if (platform === 'polymarket') {
         const response = await fetch(
-          `${DOME_API_BASE}/polymarket/market-price?market_slug=${args.market_slug}`
+          `${DOME_API_BASE}/polymarket/market-price?market_slug=${args.market_slug}`,
+          { signal: context?.signal }
         );
 
         if (!response.ok) {
@@ -333,7 +372,8 @@ export const predictionMarketPlugin: HustlePlugin = {
       } else if (platform === 'kalshi') {
         // Kalshi prices are included in the market details
         const response = await fetch(
-          `${DOME_API_BASE}/kalshi/markets?ticker=${args.market_slug}`
+          `${DOME_API_BASE}/kalshi/markets?ticker=${args.market_slug}`,
+          { signal: context?.signal }
         );
 
         if (!response.ok) {
@@ -359,18 +399,20 @@ export const predictionMarketPlugin: HustlePlugin = {
       throw new Error(`Unsupported platform: ${platform}`);
     },
 
-    get_market_trades: async (args) => {
-      const platform = (args.platform as Platform) || 'polymarket';
+    get_market_trades: async (args, context) => {
+      const DOME_API_BASE = 'https://api.domeapi.io/v1';
+      const platform = args.platform || 'polymarket';
       const limit = String(args.limit || 20);
 
       if (platform === 'polymarket') {
         const params = new URLSearchParams({
-          market_slug: args.market_slug as string,
+          market_slug: args.market_slug,
           limit,
         });
 
         const response = await fetch(
-          `${DOME_API_BASE}/polymarket/orders?${params}`
+          `${DOME_API_BASE}/polymarket/orders?${params}`,
+          { signal: context?.signal }
         );
 
         if (!response.ok) {
@@ -381,12 +423,13 @@ export const predictionMarketPlugin: HustlePlugin = {
         return { platform: 'polymarket', ...data };
       } else if (platform === 'kalshi') {
         const params = new URLSearchParams({
-          ticker: args.market_slug as string,
+          ticker: args.market_slug,
           limit,
         });
 
         const response = await fetch(
-          `${DOME_API_BASE}/kalshi/trades?${params}`
+          `${DOME_API_BASE}/kalshi/trades?${params}`,
+          { signal: context?.signal }
         );
 
         if (!response.ok) {
@@ -406,6 +449,6 @@ export const predictionMarketPlugin: HustlePlugin = {
       console.log('[Plugin] Prediction Market Alpha v1.1.0 registered (Polymarket + Kalshi)');
     },
   },
-};
+});
 
 export default predictionMarketPlugin;
@@ -179,6 +179,8 @@ const askUserTool: ClientToolDefinition = {
     },
     required: ['question', 'choices'],
   },
+  // Waiting on a person - allow longer than the default before giving up
+  timeoutMs: 5 * 60 * 1000,
 };
 
 /**
@@ -203,7 +205,7 @@ interface AskUserResult {
  * Executor for ask_user tool
  * Creates a modal and returns a Promise that resolves when user responds
  */
-const askUserExecutor: ToolExecutor = async (args: Record<string, unknown>): Promise<AskUserResult> => {
+const askUserExecutor: ToolExecutor = async (args, context): Promise<AskUserResult> => {
   const { question, choices, allowMultiple = false } = args as unknown as AskUserArgs;
 
   // Validate inputs
@@ -359,6 +361,17 @@ const askUserExecutor: ToolExecutor = async (args: Record<string, unknown>): Pro
       }
     };
     document.addEventListener('keydown', handleEscape);
+
+    // Close when the call times out or the response is stopped
+    context?.signal.addEventListener('abort', () => {
+      document.removeEventListener('keydown', handleEscape);
+      cleanup();
+      resolve({
+        question,
+        selectedChoices: [],
+        answered: false,
+      });
+    });
   });
 };
 
@@ -372,6 +385,12 @@ export const userQuestionPlugin: HustlePlugin = {
   version: '1.0.0',
   description: 'Allows AI to ask users multiple choice questions via modal',
 
+  permissions: {
+    // The question modal is rendered into the page
+    dom: true,
+    hooks: ['onRegister'],
+  },
+
   tools: [askUserTool],
   executors: {
     ask_user: askUserExecutor,
@@ -12,6 +12,12 @@ import React, {
 import { HustleIncognitoClient } from 'hustle-incognito';
 import { useEmblemAuth } from './EmblemAuthProvider';
 import { usePlugins } from '../hooks/usePlugins';
+import { defaultConversationStore } from '../utils/conversationStore';
+import { pluginRegistry } from '../utils/pluginRegistry';
+import { cancelToolCalls } from '../utils/toolTimeout';
+import { usageTracker } from '../utils/usageTracker';
+import { settingsProfiles, getProfilesStorageKey } from '../utils/settingsProfiles';
+import { estimateCost } from '../utils/usage';
 import type {
   Model,
   ChatOptions,
@@ -23,9 +29,24 @@ import type {
   HustleContextValue,
   HustleProviderProps,
   ChatMessage,
+  ToolCall,
+  ToolResult,
   HydratedPlugin,
+  ConversationScope,
+  ModelOptions,
 } from '../types';
 
+/**
+ * Copy the set generation options onto SDK options (later ones win)
+ */
+function applyModelOptions(sdkOptions: Record<string, unknown>, ...optionSets: (ModelOptions | undefined)[]): void {
+  for (const options of optionSets) {
+    for (const [key, value] of Object.entries(options ?? {})) {
+      if (value !== undefined) sdkOptions[key] = value;
+    }
+  }
+}
+
 /**
  * Hustle context - undefined when not within provider
  */
@@ -68,6 +89,14 @@ export function HustleProvider({
   hustleApiUrl = DEFAULT_HUSTLE_API_URL,
   debug = false,
   instanceId: explicitInstanceId,
+  conversationStore = defaultConversationStore,
+  trustedPublishers,
+  requirePluginSignatures = false,
+  pluginExecution = 'auto',
+  pluginSandbox,
+  pluginCatalogUrl,
+  usageBudget,
+  defaultProfiles,
 }: HustleProviderProps) {
   // Generate stable instance ID - explicit or auto-generated based on mount order
   const [resolvedInstanceId] = useState(() => {
@@ -102,7 +131,41 @@ export function HustleProvider({
   }, [isAutoInstance, resolvedInstanceId]);
 
   // Get auth context - this provider REQUIRES EmblemAuthProvider
-  const { authSDK, isAuthenticated } = useEmblemAuth();
+  const { authSDK, isAuthenticated, session } = useEmblemAuth();
+
+  // Usage is recorded per instance and vault, like conversations
+  const ownerId = session?.user?.identifier ?? null;
+  const usageScope = useMemo<ConversationScope>(
+    () => ({ instanceId: resolvedInstanceId, ownerId }),
+    [resolvedInstanceId, ownerId]
+  );
+
+  // Configure plugin signature verification for this instance
+  // (setTrustPolicy is a no-op when the policy hasn't changed)
+  useEffect(() => {
+    pluginRegistry.setTrustPolicy(
+      { trustedPublishers, requireSignatures: requirePluginSignatures },
+      resolvedInstanceId
+    );
+  }, [trustedPublishers, requirePluginSignatures, resolvedInstanceId]);
+
+  // Configure where plugin executors run for this instance
+  useEffect(() => {
+    pluginRegistry.setExecutionPolicy(
+      { mode: pluginExecution, ...pluginSandbox },
+      resolvedInstanceId
+    );
+  }, [pluginExecution, pluginSandbox, resolvedInstanceId]);
+
+  // Catalog that installed plugins are checked against for updates
+  useEffect(() => {
+    pluginRegistry.setCatalogUrl(pluginCatalogUrl, resolvedInstanceId);
+  }, [pluginCatalogUrl, resolvedInstanceId]);
+
+  // Soft usage budget for this instance (setBudget is a no-op when it hasn't changed)
+  useEffect(() => {
+    usageTracker.setBudget(usageBudget, resolvedInstanceId);
+  }, [usageBudget, resolvedInstanceId]);
 
   // Get plugins with instance scoping
   const { enabledPlugins } = usePlugins(resolvedInstanceId);
@@ -115,55 +178,47 @@ export function HustleProvider({
   // Track registered plugins to avoid re-registering
   const registeredPluginsRef = useRef<Set<string>>(new Set());
 
-  // Settings storage key - scoped to instance
-  const SETTINGS_KEY = `hustle-settings-${resolvedInstanceId}`;
-
-  // Load initial settings from localStorage
-  const loadSettings = () => {
-    if (typeof window === 'undefined') return { selectedModel: '', systemPrompt: '', skipServerPrompt: false };
-    try {
-      const stored = localStorage.getItem(SETTINGS_KEY);
-      if (stored) {
-        return JSON.parse(stored);
-      }
-    } catch {
-      // Ignore parse errors
-    }
-    return { selectedModel: '', systemPrompt: '', skipServerPrompt: false };
-  };
+  // Settings come from the instance's active profile
+  const [activeProfile, setActiveProfile] = useState(() => settingsProfiles.getActiveProfile(resolvedInstanceId));
+  const { selectedModel, systemPrompt, skipServerPrompt, modelOptions } = activeProfile;
 
-  const initialSettings = loadSettings();
+  // Follow profile changes, here and in other tabs
+  useEffect(() => {
+    const refresh = () => setActiveProfile(settingsProfiles.getActiveProfile(resolvedInstanceId));
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === getProfilesStorageKey(resolvedInstanceId)) refresh();
+    };
 
-  // Settings state (initialized from localStorage)
-  const [selectedModel, setSelectedModelState] = useState<string>(initialSettings.selectedModel);
-  const [systemPrompt, setSystemPromptState] = useState<string>(initialSettings.systemPrompt);
-  const [skipServerPrompt, setSkipServerPromptState] = useState<boolean>(initialSettings.skipServerPrompt);
+    refresh();
+    const unsubscribe = settingsProfiles.onChange(refresh, resolvedInstanceId);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [resolvedInstanceId]);
 
-  // Persist settings to localStorage
-  const saveSettings = useCallback((settings: { selectedModel: string; systemPrompt: string; skipServerPrompt: boolean }) => {
-    if (typeof window === 'undefined') return;
-    try {
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-    } catch {
-      // Ignore storage errors
-    }
-  }, []);
+  // Profiles the app ships (added once; setPresets is a no-op after that)
+  useEffect(() => {
+    settingsProfiles.setPresets(defaultProfiles, resolvedInstanceId);
+  }, [defaultProfiles, resolvedInstanceId]);
 
-  // Wrapped setters that also persist
+  // Setters update the active profile, which persists them
   const setSelectedModel = useCallback((value: string) => {
-    setSelectedModelState(value);
-    saveSettings({ selectedModel: value, systemPrompt, skipServerPrompt });
-  }, [systemPrompt, skipServerPrompt, saveSettings]);
+    settingsProfiles.updateActiveProfile({ selectedModel: value }, resolvedInstanceId);
+  }, [resolvedInstanceId]);
 
   const setSystemPrompt = useCallback((value: string) => {
-    setSystemPromptState(value);
-    saveSettings({ selectedModel, systemPrompt: value, skipServerPrompt });
-  }, [selectedModel, skipServerPrompt, saveSettings]);
+    settingsProfiles.updateActiveProfile({ systemPrompt: value }, resolvedInstanceId);
+  }, [resolvedInstanceId]);
 
   const setSkipServerPrompt = useCallback((value: boolean) => {
-    setSkipServerPromptState(value);
-    saveSettings({ selectedModel, systemPrompt, skipServerPrompt: value });
-  }, [selectedModel, systemPrompt, saveSettings]);
+    settingsProfiles.updateActiveProfile({ skipServerPrompt: value }, resolvedInstanceId);
+  }, [resolvedInstanceId]);
+
+  const setModelOptions = useCallback((value: ModelOptions) => {
+    settingsProfiles.updateActiveProfile({ modelOptions: value }, resolvedInstanceId);
+  }, [resolvedInstanceId]);
 
   // Debug logger
   const log = useCallback(
@@ -307,6 +362,40 @@ export function HustleProvider({
     }
   }, [client, loadModels]);
 
+  /**
+   * Refuse requests once the usage budget is used up
+   */
+  const assertWithinBudget = useCallback(() => {
+    try {
+      usageTracker.assertWithinBudget(usageScope);
+    } catch (err) {
+      log('Usage budget exceeded');
+      setError(err as Error);
+      throw err;
+    }
+  }, [usageScope, log]);
+
+  /**
+   * Record the token usage and estimated cost of a response
+   */
+  const recordUsage = useCallback((options: ChatOptions, response: ChatResponse) => {
+    const { usage } = response;
+    if (!usage) return;
+
+    const modelId = options.model || selectedModel || undefined;
+    const promptTokens = usage.prompt_tokens ?? 0;
+    const completionTokens = usage.completion_tokens ?? 0;
+    usageTracker.record(usageScope, {
+      conversationId: options.conversationId,
+      messageId: options.messageId ?? response.messageId,
+      model: modelId,
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+      costUsd: estimateCost(usage, models.find(m => m.id === modelId)),
+    });
+  }, [usageScope, selectedModel, models]);
+
   /**
    * Send a chat message (non-streaming)
    */
@@ -321,6 +410,8 @@ export function HustleProvider({
       setError(null);
 
       try {
+        assertWithinBudget();
+
         // Build the messages array, prepending system prompt if provided
         const effectiveSystemPrompt = options.systemPrompt || systemPrompt;
         const messagesWithSystem: ChatMessage[] = [];
@@ -336,6 +427,7 @@ export function HustleProvider({
           processChunks: true,
         };
 
+        applyModelOptions(sdkOptions, modelOptions, options.modelOptions);
         if (options.model || selectedModel) {
           sdkOptions.model = options.model || selectedModel;
         }
@@ -349,6 +441,7 @@ export function HustleProvider({
         // Call the SDK - it accepts an options object
         const response = await (client as unknown as { chat: (opts: Record<string, unknown>) => Promise<unknown> }).chat(sdkOptions);
         log('Chat response received');
+        recordUsage(options, response as ChatResponse);
         return response as ChatResponse;
       } catch (err) {
         log('Chat error:', err);
@@ -359,11 +452,12 @@ export function HustleProvider({
         setIsLoading(false);
       }
     },
-    [client, selectedModel, systemPrompt, skipServerPrompt, log]
+    [client, selectedModel, systemPrompt, skipServerPrompt, modelOptions, assertWithinBudget, recordUsage, log]
   );
 
   /**
    * Send a chat message with streaming response
+   * Throws a BudgetExceededError when the usage budget is used up.
    */
   const chatStreamImpl = useCallback(
     (options: StreamOptions): StreamWithResponse => {
@@ -374,11 +468,13 @@ export function HustleProvider({
             yield { type: 'error', value: { message: 'Hustle client not ready. Please authenticate first.' } } as StreamChunk;
           },
           response: Promise.resolve({ content: '', messageId: undefined }),
+          abort: () => {},
         };
       }
 
       log('Chat stream request:', options.messages.length, 'messages');
       setError(null);
+      assertWithinBudget();
 
       // Build the messages array, prepending system prompt if provided
       const effectiveSystemPrompt = options.systemPrompt || systemPrompt;
@@ -395,6 +491,7 @@ export function HustleProvider({
         processChunks: options.processChunks ?? true,
       };
 
+      applyModelOptions(sdkOptions, modelOptions, options.modelOptions);
       if (options.model || selectedModel) {
         sdkOptions.model = options.model || selectedModel;
       }
@@ -405,26 +502,94 @@ export function HustleProvider({
         sdkOptions.attachments = options.attachments;
       }
 
+      // Stopping aborts the request, cancels tool calls and ends iteration
+      const controller = new AbortController();
+      sdkOptions.signal = controller.signal;
+
+      const abort = () => {
+        if (controller.signal.aborted) return;
+        log('Stream aborted');
+        controller.abort();
+        cancelToolCalls(resolvedInstanceId);
+      };
+
+      if (options.signal?.aborted) {
+        abort();
+      } else {
+        options.signal?.addEventListener('abort', abort, { once: true });
+      }
+
+      const aborted = new Promise<null>((resolve) => {
+        if (controller.signal.aborted) resolve(null);
+        controller.signal.addEventListener('abort', () => resolve(null), { once: true });
+      });
+
+      // What has streamed so far - the response when stopped early
+      const partial: ChatResponse = { content: '', toolCalls: [], toolResults: [] };
+
+      // Resolves when the wrapped stream below finishes, however it ends
+      let endStream: () => void = () => {};
+      const ended = new Promise<void>((resolve) => {
+        endStream = resolve;
+      });
+
       // Get the stream from the client (cast through unknown for SDK compatibility)
       const stream = client.chatStream(sdkOptions as unknown as Parameters<typeof client.chatStream>[0]);
 
+      // Resolve with the hook-processed response, or the partial one if stopped first
+      // or if the SDK stream has no response
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const streamResponse = (stream as any).response as Promise<ChatResponse | undefined> | undefined;
+      const response = new Promise<ChatResponse>((resolve, reject) => {
+        aborted.then(() => resolve({ ...partial, aborted: true }));
+        Promise.resolve(streamResponse).then((completed) => {
+          if (completed) {
+            resolve(completed);
+          } else {
+            ended.then(() => resolve({ ...partial, aborted: true }));
+          }
+        }, (err) => {
+          // The SDK rejects when its request is aborted - response already resolved
+          if (!controller.signal.aborted) reject(err);
+        });
+      });
+      response
+        .then((completed) => recordUsage(options, completed), () => {})
+        .catch((err) => log('Failed to record usage:', err));
+
       // Wrap to add logging and type conversion, preserving .response property
       return {
         [Symbol.asyncIterator]: async function* () {
+          const iterator = (stream as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+
           try {
-            for await (const chunk of stream) {
+            while (true) {
+              const next = await Promise.race([iterator.next(), aborted]);
+
+              if (next === null) {
+                // Close the SDK stream so it stops reading from the network
+                Promise.resolve(iterator.return?.()).catch(() => {});
+                break;
+              }
+              if (next.done) break;
+
+              const chunk = next.value;
+
               // Type guard for chunk with type property
               const typedChunk = chunk as { type?: string; value?: unknown };
 
               if (typedChunk.type === 'text') {
                 const textValue = typedChunk.value as string;
                 log('Stream text chunk:', textValue?.substring(0, 50));
+                partial.content += textValue ?? '';
                 yield { type: 'text', value: textValue } as StreamChunk;
               } else if (typedChunk.type === 'tool_call') {
                 log('Stream tool call:', typedChunk.value);
+                partial.toolCalls!.push(typedChunk.value as ToolCall);
                 yield { type: 'tool_call', value: typedChunk.value } as StreamChunk;
               } else if (typedChunk.type === 'tool_result') {
                 log('Stream tool result');
+                partial.toolResults!.push(typedChunk.value as ToolResult);
                 yield { type: 'tool_result', value: typedChunk.value } as StreamChunk;
               } else if (typedChunk.type === 'error') {
                 const errorValue = typedChunk.value as { message?: string };
@@ -437,18 +602,23 @@ export function HustleProvider({
               }
             }
           } catch (err) {
+            // Stopping is not an error - the SDK may throw an AbortError
+            if (controller.signal.aborted) return;
             log('Stream error:', err);
             const error = err instanceof Error ? err : new Error('Stream failed');
             setError(error);
             yield { type: 'error', value: { message: error.message } } as StreamChunk;
+          } finally {
+            options.signal?.removeEventListener('abort', abort);
+            endStream();
           }
         },
         // Forward the response promise from the SDK stream (includes afterResponse hook modifications)
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        response: (stream as any).response as Promise<ChatResponse>,
+        response,
+        abort,
       };
     },
-    [client, selectedModel, systemPrompt, skipServerPrompt, log]
+    [client, selectedModel, systemPrompt, skipServerPrompt, modelOptions, resolvedInstanceId, assertWithinBudget, recordUsage, log]
   );
 
   /**
@@ -510,6 +680,15 @@ export function HustleProvider({
     setSystemPrompt,
     skipServerPrompt,
     setSkipServerPrompt,
+    modelOptions,
+    setModelOptions,
+    activeProfileId: activeProfile.id,
+
+    // Conversation persistence
+    conversationStore,
+
+    // Plugin catalog
+    pluginCatalogUrl,
   };
 
   return (
@@ -0,0 +1,62 @@
+/**
+ * Plugin Catalog Types
+ *
+ * A catalog is a JSON document listing installable plugins in their
+ * serialized (stored) form, plus display metadata such as publisher and
+ * tags. Catalogs are fetched from a configurable URL; the SDK ships a
+ * bundled catalog of the built-in plugins as the fallback.
+ */
+
+import type { StoredPlugin } from './plugin';
+
+/**
+ * Who published a catalog plugin
+ */
+export interface PluginPublisher {
+  /** Display name */
+  name: string;
+  /** Publisher homepage */
+  url?: string;
+}
+
+/**
+ * A plugin listed in the catalog
+ * Executors and hooks are serialized (executorCode / hooksCode), exactly
+ * as they are stored once installed.
+ */
+export interface PluginCatalogEntry extends Omit<StoredPlugin, 'enabled' | 'installedAt'> {
+  /** Short description for UI display */
+  description: string;
+  /** Publisher shown next to the version */
+  publisher?: PluginPublisher;
+  /** Search tags (e.g. 'markets', 'privacy') */
+  tags?: string[];
+  /** Documentation or source link */
+  homepage?: string;
+  /** All published versions, newest first (the entry itself is the latest) */
+  versions?: string[];
+}
+
+/**
+ * Catalog document served at the catalog URL
+ *
+ * @example
+ * ```json
+ * { "schemaVersion": 1, "plugins": [{ "name": "weather", "version": "1.0.0", "description": "...", "tools": [] }] }
+ * ```
+ */
+export interface PluginCatalogManifest {
+  /** Catalog format version (currently 1) */
+  schemaVersion: number;
+  /** ISO timestamp of the last catalog update */
+  updatedAt?: string;
+  /** Listed plugins */
+  plugins: PluginCatalogEntry[];
+}
+
+/**
+ * Where the current catalog entries came from
+ * - remote: fetched from the catalog URL
+ * - bundled: the fallback shipped with the SDK (no URL, or the fetch failed)
+ */
+export type PluginCatalogSource = 'remote' | 'bundled';
@@ -0,0 +1,66 @@
+/**
+ * Slash Command Types
+ *
+ * Commands typed in the chat composer (`/model gpt-4o`, `/clear`). They run
+ * in the page and send nothing to the model unless they call `send`.
+ * Built-in commands ship with the SDK; plugins add their own through
+ * `HustlePlugin.commands`.
+ */
+
+import type { Model } from './hustle';
+import type { Conversation, DisplayMessage } from './conversation';
+import type { StoredPlugin } from './plugin';
+
+/**
+ * What a command can see and do when it runs
+ */
+export interface SlashCommandContext {
+  /** Text after the command name, trimmed ('' when there is none) */
+  args: string;
+  /** Instance the command runs in */
+  instanceId: string;
+  /** Show a note under the composer - nothing is sent to the model */
+  notify: (message: string) => void;
+  /** Send a message to the model as if the user had typed it */
+  send: (content: string) => Promise<void>;
+  /** Replace the text in the composer */
+  setInput: (value: string) => void;
+  /** Messages on the selected branch */
+  messages: DisplayMessage[];
+  /** The conversation as shown, every branch included */
+  getConversation: () => Conversation;
+  /** Start a new, empty conversation */
+  clear: () => void;
+  /** Regenerate the last assistant reply */
+  regenerate: () => Promise<void>;
+  /** Available models */
+  models: Model[];
+  /** Selected model ID ('' for the server default) */
+  selectedModel: string;
+  /** Select a model ('' for the server default) */
+  setSelectedModel: (model: string) => void;
+  /** Current system prompt */
+  systemPrompt: string;
+  /** Replace the system prompt */
+  setSystemPrompt: (prompt: string) => void;
+  /** Installed plugins with their enabled state for this instance */
+  plugins: StoredPlugin[];
+  /** Enable a plugin for this instance */
+  enablePlugin: (name: string) => void;
+  /** Disable a plugin for this instance */
+  disablePlugin: (name: string) => void;
+}
+
+/**
+ * A command run from the composer by typing `/name args`
+ */
+export interface SlashCommand {
+  /** Name typed after the slash (e.g. 'model' for /model) */
+  name: string;
+  /** One line shown in the autocomplete popup */
+  description: string;
+  /** Argument hint shown after the name (e.g. '<model id>') */
+  usage?: string;
+  /** Runs locally when the command is submitted; call `send` to involve the model */
+  run: (context: SlashCommandContext) => void | Promise<void>;
+}
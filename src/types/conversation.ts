@@ -0,0 +1,201 @@
+/**
+ * Conversation Types for persisted chat history
+ *
+ * Conversations are scoped per HustleProvider instance AND per
+ * authenticated vault, so two users on the same browser (or two chat
+ * instances in the same app) never see each other's history.
+ */
+
+import type { ChatMessage, ChatResponse, ToolCall, ToolResult } from './hustle';
+
+/**
+ * A single persisted chat message
+ */
+export interface ConversationMessage extends ChatMessage {
+  /** Stable message identifier */
+  id: string;
+  /** ISO timestamp when the message was created */
+  createdAt?: string;
+  /** Tool calls made while producing this message (assistant only) */
+  toolCalls?: ToolCall[];
+  /** Results of those tool calls, matched by toolCallId (assistant only) */
+  toolResults?: ToolResult[];
+  /** When each tool call was made, started and finished, by toolCallId (assistant only) */
+  toolTimings?: Record<string, ToolCallTiming>;
+  /** True when generation was stopped before the response finished (assistant only) */
+  aborted?: boolean;
+  /** Model selected when the reply was requested - unset for the server default (assistant only) */
+  model?: string;
+  /** Token counts reported for the reply (assistant only) */
+  usage?: ChatResponse['usage'];
+  /** The model's thinking and the tool categories it picked (assistant only) */
+  reasoning?: ChatResponse['reasoning'];
+  /** Tools made available for the reply (assistant only) */
+  devToolsInfo?: ChatResponse['devToolsInfo'];
+  /** Context size and summarization state after the reply (assistant only) */
+  pathInfo?: ChatResponse['pathInfo'];
+  /**
+   * ID of the message this one replies to (null for the first message).
+   * Messages saved before branching have none and follow the previous message.
+   */
+  parentId?: string | null;
+}
+
+/**
+ * Timestamps (epoch ms) of a tool call
+ */
+export interface ToolCallTiming {
+  /** When the model's tool_call arrived */
+  calledAt: number;
+  /** When a client executor started running it (unset for server-side tools) */
+  startedAt?: number;
+  /** When its tool_result arrived */
+  completedAt?: number;
+}
+
+/**
+ * Where a tool call is in its lifecycle
+ *
+ * - pending: called by the model, not running on the client yet
+ * - running: its executor has started
+ * - succeeded: a result came back
+ * - failed: an error result came back, or the reply ended without one
+ */
+export type ToolCallStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * A tool call with its status and result, as shown in a tool timeline
+ */
+export interface ToolTimelineEntry {
+  toolCall: ToolCall;
+  status: ToolCallStatus;
+  /** Whether a tool_result arrived */
+  hasResult: boolean;
+  /** The result, when one arrived */
+  result?: unknown;
+  /** Time from the call starting (or being made) to its result */
+  durationMs?: number;
+  /** Why the call failed */
+  error?: string;
+}
+
+/**
+ * A persisted conversation
+ */
+export interface Conversation {
+  /** Unique conversation identifier */
+  id: string;
+  /** Optional display title */
+  title?: string;
+  /** Messages on every branch, in the order they were created */
+  messages: ConversationMessage[];
+  /** Selected child message per parent message ID (see MessageTree.selected) */
+  selectedBranches?: Record<string, string>;
+  /** ISO timestamp when the conversation was created */
+  createdAt: string;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+}
+
+/**
+ * A message shown in a chat UI - may still be streaming
+ */
+export interface DisplayMessage extends ConversationMessage {
+  isStreaming?: boolean;
+}
+
+/**
+ * A conversation as a tree of messages
+ *
+ * Regenerating a reply or editing an earlier user message adds a sibling
+ * instead of replacing the original, so abandoned replies stay available
+ * as branches. The conversation shown is the path from the root that
+ * follows the selected child of each message.
+ */
+export interface MessageTree<M extends ConversationMessage = DisplayMessage> {
+  /** Messages by ID, in the order they were added */
+  nodes: Record<string, M>;
+  /** Child IDs per parent ID in creation order (MESSAGE_TREE_ROOT for first messages) */
+  children: Record<string, string[]>;
+  /** Selected child ID per parent ID - the newest child when unset */
+  selected: Record<string, string>;
+}
+
+/**
+ * Position of a message among its siblings, e.g. for a "2/3" pager
+ */
+export interface MessageBranchInfo {
+  /** Zero-based index of the message among its siblings */
+  index: number;
+  /** Number of siblings, including the message */
+  count: number;
+  /** Sibling IDs in creation order */
+  siblingIds: string[];
+}
+
+/**
+ * Storage scope for conversations
+ */
+export interface ConversationScope {
+  /** HustleProvider instance ID */
+  instanceId: string;
+  /** Owner identifier (AuthUser.identifier) - null when not authenticated */
+  ownerId?: string | null;
+}
+
+/**
+ * Pluggable conversation storage adapter
+ *
+ * All methods are async so adapters can be backed by IndexedDB,
+ * a remote API, or anything else.
+ */
+export interface ConversationStore {
+  /** List conversations for a scope, most recently updated first */
+  list(scope: ConversationScope): Promise<Conversation[]>;
+  /** Get a single conversation by ID */
+  get(scope: ConversationScope, id: string): Promise<Conversation | null>;
+  /** Create or replace a conversation */
+  save(scope: ConversationScope, conversation: Conversation): Promise<void>;
+  /** Delete a conversation */
+  delete(scope: ConversationScope, id: string): Promise<void>;
+  /** Delete every conversation in a scope */
+  clear(scope: ConversationScope): Promise<void>;
+  /** Subscribe to changes for a scope (optional) */
+  subscribe?(scope: ConversationScope, listener: () => void): () => void;
+}
+
+/**
+ * File formats a conversation can be exported to
+ *
+ * - markdown: readable transcript of the selected branch
+ * - json: lossless ConversationExport that can be imported again
+ * - html: standalone, styled transcript of the selected branch
+ */
+export type ConversationExportFormat = 'markdown' | 'json' | 'html';
+
+/**
+ * Settings recorded alongside an exported conversation
+ */
+export interface ConversationExportSettings {
+  /** Model selected when exporting - unset for the server default */
+  model?: string;
+  /** System prompt in effect when exporting */
+  systemPrompt?: string;
+}
+
+/**
+ * A conversation as a self-contained JSON file
+ *
+ * Lossless: every branch with its tool calls, results, timings, usage and
+ * other response metadata, plus the settings it was held under.
+ */
+export interface ConversationExport extends ConversationExportSettings {
+  /** Always 'hustle-conversation' */
+  format: 'hustle-conversation';
+  /** Export format version */
+  version: number;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  /** The conversation, as persisted */
+  conversation: Conversation;
+}
@@ -4,6 +4,10 @@
  */
 
 import type { HustleIncognitoClient } from 'hustle-incognito';
+import type { ConversationStore } from './conversation';
+import type { PluginKeyring, PluginExecutionMode, PluginSandboxOptions } from './plugin';
+import type { UsageBudget } from './usage';
+import type { ModelOptions, ProfilePreset } from './profiles';
 
 /**
  * Chat message structure
@@ -72,6 +76,12 @@ export interface ChatOptions {
   systemPrompt?: string;
   overrideSystemPrompt?: boolean;
   attachments?: Attachment[];
+  /** Generation options for this request, over the active profile's */
+  modelOptions?: ModelOptions;
+  /** Conversation the request belongs to, for usage accounting */
+  conversationId?: string;
+  /** ID of the reply message, for usage accounting (defaults to the response's messageId) */
+  messageId?: string;
 }
 
 /**
@@ -79,6 +89,8 @@ export interface ChatOptions {
  */
 export interface StreamOptions extends ChatOptions {
   processChunks?: boolean;
+  /** Stops the stream when aborted (same as calling abort() on the returned stream) */
+  signal?: AbortSignal;
 }
 
 /**
@@ -96,6 +108,11 @@ export type StreamChunk =
 export interface StreamWithResponse extends AsyncIterable<StreamChunk> {
   /** Promise that resolves to the complete response after streaming (includes afterResponse hook modifications) */
   response: Promise<ChatResponse>;
+  /**
+   * Stop generating: closes the network stream, cancels in-flight tool calls
+   * and resolves `response` with the content received so far (`aborted: true`)
+   */
+  abort: () => void;
 }
 
 /**
@@ -106,6 +123,8 @@ export interface ChatResponse {
   messageId?: string;
   toolCalls?: ToolCall[];
   toolResults?: ToolResult[];
+  /** True when the stream was stopped early - content is partial */
+  aborted?: boolean;
   usage?: {
     total_tokens?: number;
     prompt_tokens?: number;
@@ -196,6 +215,17 @@ export interface HustleContextValue {
   setSystemPrompt: (prompt: string) => void;
   skipServerPrompt: boolean;
   setSkipServerPrompt: (skip: boolean) => void;
+  modelOptions: ModelOptions;
+  setModelOptions: (options: ModelOptions) => void;
+
+  // Settings profile in use (see useProfiles)
+  activeProfileId: string;
+
+  // Conversation persistence
+  conversationStore: ConversationStore;
+
+  // Plugin catalog URL (undefined = bundled catalog)
+  pluginCatalogUrl?: string;
 }
 
 /**
@@ -222,4 +252,92 @@ export interface HustleProviderProps extends HustleConfig {
    * ```
    */
   instanceId?: string;
+  /**
+   * Storage adapter for conversation history.
+   * Defaults to localStorage, scoped by instanceId and vault identifier.
+   *
+   * @example
+   * ```tsx
+   * <HustleProvider conversationStore={new IndexedDBConversationStore()}>
+   *   <HustleChat />
+   * </HustleProvider>
+   * ```
+   */
+  conversationStore?: ConversationStore;
+  /**
+   * Trusted plugin publishers: publicKeyId -> base64 raw Ed25519 public key.
+   * Signed plugins are verified against this keyring before their code runs;
+   * plugins with a tampered signature are quarantined.
+   *
+   * @example
+   * ```tsx
+   * <HustleProvider
+   *   trustedPublishers={{ 'emblem-2025': 'q0Yk3...=' }}
+   *   requirePluginSignatures
+   * >
+   * ```
+   */
+  trustedPublishers?: PluginKeyring;
+  /**
+   * Quarantine every plugin that is not signed by a trusted publisher
+   * (default: false - unsigned plugins still run)
+   */
+  requirePluginSignatures?: boolean;
+  /**
+   * Where plugin executors run (default: 'auto').
+   * 'worker' evaluates executors inside a sandboxed Web Worker with no access
+   * to the page, storage or auth session; 'auto' does so for plugins whose
+   * manifest grants no dom, storage or wallet access. Hooks always run in the page.
+   */
+  pluginExecution?: PluginExecutionMode;
+  /**
+   * Capabilities and limits for 'worker' execution
+   *
+   * @example
+   * ```tsx
+   * <HustleProvider
+   *   pluginExecution="worker"
+   *   pluginSandbox={{ allowedOrigins: ['https://api.domeapi.io'], timeoutMs: 15000 }}
+   * >
+   * ```
+   */
+  pluginSandbox?: PluginSandboxOptions;
+  /**
+   * URL of a JSON plugin catalog for the "Available" plugin list and
+   * usePluginCatalog(). Falls back to the bundled plugins when unset or
+   * when the fetch fails.
+   *
+   * @example
+   * ```tsx
+   * <HustleProvider pluginCatalogUrl="https://plugins.example.com/catalog.json">
+   * ```
+   */
+  pluginCatalogUrl?: string;
+  /**
+   * Soft usage limit for this instance. Once the usage recorded in the
+   * period reaches it, chat() and chatStream() throw a BudgetExceededError
+   * (the request that crosses it still completes).
+   *
+   * @example
+   * ```tsx
+   * <HustleProvider usageBudget={{ maxCostUsd: 5, period: 'day' }}>
+   * ```
+   */
+  usageBudget?: UsageBudget;
+  /**
+   * Settings profiles the app ships. Each is added the first time the
+   * instance loads (users can then change it), and resetting a profile
+   * of the same name restores these settings.
+   *
+   * @example
+   * ```tsx
+   * <HustleProvider
+   *   defaultProfiles={[
+   *     { name: 'Trading analyst', systemPrompt: 'You are a trading analyst.', enabledPlugins: ['prediction-market-alpha'] },
+   *     { name: 'Support agent', selectedModel: 'openai/gpt-4o', modelOptions: { temperature: 0.2 } },
+   *   ]}
+   * >
+   * ```
+   */
+  defaultProfiles?: ProfilePreset[];
 }
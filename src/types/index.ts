@@ -39,12 +39,91 @@ export type {
   ClientToolDefinition,
   SerializedToolDefinition,
   ToolExecutor,
+  ToolExecutionContext,
+  ToolInterruptedError,
   HustleRequest,
   ProcessedResponse,
   ErrorContext,
   PluginHooks,
+  PluginHookName,
+  PluginPermissions,
   SerializedHooks,
   HustlePlugin,
   StoredPlugin,
   HydratedPlugin,
+  ToolResultRenderer,
+  ToolResultRendererProps,
+  PreviousPluginVersion,
+  PluginUpdate,
+  PluginBundle,
+  PluginBundlePreview,
+  InferSchemaType,
+  ToolArgumentIssue,
+  ToolArgumentError,
+  PluginKeyring,
+  PluginVerificationStatus,
+  PluginVerification,
+  PluginTrustPolicy,
+  PluginExecutionMode,
+  PluginSandboxOptions,
+  PluginExecutionPolicy,
+  HydratePluginOptions,
 } from './plugin';
+
+// Plugin catalog types
+export type {
+  PluginPublisher,
+  PluginCatalogEntry,
+  PluginCatalogManifest,
+  PluginCatalogSource,
+} from './catalog';
+
+// Conversation types
+export type {
+  ConversationMessage,
+  Conversation,
+  ConversationScope,
+  ConversationStore,
+  DisplayMessage,
+  MessageTree,
+  MessageBranchInfo,
+  ToolCallTiming,
+  ToolCallStatus,
+  ToolTimelineEntry,
+  ConversationExport,
+  ConversationExportFormat,
+  ConversationExportSettings,
+} from './conversation';
+
+// Usage types
+export type {
+  UsageRecord,
+  UsageTotals,
+  UsageSummary,
+  UsageBudget,
+  UsageBudgetStatus,
+} from './usage';
+
+// Settings profile types
+export type {
+  ModelOptions,
+  ProfileSettings,
+  SettingsProfile,
+  ProfilePreset,
+  ProfilesState,
+} from './profiles';
+
+// Prompt library types
+export type {
+  PromptKind,
+  PluginPrompt,
+  SavedPrompt,
+  RecommendedPrompt,
+  PromptLibraryExport,
+} from './prompts';
+
+// Slash command types
+export type {
+  SlashCommand,
+  SlashCommandContext,
+} from './commands';
@@ -7,13 +7,20 @@
  * Executor functions are serialized as strings (executorCode) for localStorage
  * persistence and reconstituted at runtime via new Function().
  *
- * SECURITY TODO: Add `signature` field to SerializedPlugin for cryptographic
- * verification of plugin code before execution. This should use asymmetric
- * signing (e.g., Ed25519) where plugins are signed by trusted publishers
- * and verified before eval/Function execution.
+ * Stored plugins may carry an Ed25519 `signature` from a trusted publisher,
+ * which is verified (WebCrypto) before any stored code is evaluated.
+ *
+ * Plugins may also declare a `permissions` manifest (network origins, DOM,
+ * storage, wallet, hooks). Users consent to it at install time and the
+ * registry enforces it when the stored code is evaluated.
  * @see https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto/verify
  */
 
+import type { ComponentType } from 'react';
+import type { ToolCall } from './hustle';
+import type { SlashCommand } from './commands';
+import type { PluginPrompt } from './prompts';
+
 /**
  * JSON Schema type for tool parameters
  */
@@ -34,6 +41,73 @@ export interface JSONSchemaProperty {
   required?: string[];
 }
 
+/** Flatten an intersection for readable hover types */
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Keys listed in a schema's `required` array, plus keys with a `default` (always filled in) */
+type RequiredKeys<S> =
+  | (S extends { required: readonly (infer K)[] } ? K : never)
+  | (S extends { properties: infer Props }
+    ? { [K in keyof Props]: Props[K] extends { default: unknown } ? K : never }[keyof Props]
+    : never);
+
+/** Object type for a schema's `properties` (keys that aren't required or defaulted are optional) */
+type InferProperties<Props, Required> = Simplify<
+  { -readonly [K in keyof Props as K extends Required ? K : never]-?: InferSchemaType<Props[K]> } &
+  { -readonly [K in keyof Props as K extends Required ? never : K]?: InferSchemaType<Props[K]> }
+>;
+
+/**
+ * TypeScript type of the values a JSON Schema accepts
+ *
+ * Used by definePlugin/defineTool to type executor args from `parameters`.
+ * Schemas must be literal (inline, or `as const`) for enums and required
+ * keys to be inferred.
+ *
+ * @example
+ * InferSchemaType<{ type: 'object'; properties: { platform: { type: 'string'; enum: ['polymarket', 'kalshi'] } } }>
+ * // => { platform?: 'polymarket' | 'kalshi' }
+ */
+export type InferSchemaType<S> =
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: 'string' } ? string :
+  S extends { type: 'number' } ? number :
+  S extends { type: 'boolean' } ? boolean :
+  S extends { type: 'array'; items: infer Items } ? InferSchemaType<Items>[] :
+  S extends { type: 'array' } ? unknown[] :
+  S extends { type: 'object'; properties: infer Props } ? InferProperties<Props, RequiredKeys<S>> :
+  S extends { type: 'object' } ? Record<string, unknown> :
+  unknown;
+
+/**
+ * One problem found in a tool call's arguments
+ */
+export interface ToolArgumentIssue {
+  /** Location of the bad value ('platform', 'tags[1]', 'filter.status'; '' for the args object itself) */
+  path: string;
+  /** What is wrong */
+  code: 'required' | 'type' | 'enum';
+  /** Human-readable description */
+  message: string;
+  /** Expected type, or the allowed values for enum issues */
+  expected?: string | string[];
+  /** Type of the value that was received */
+  received?: string;
+}
+
+/**
+ * Tool result returned to the model when its arguments don't match the schema
+ * The executor is not run; the model can correct the call and retry.
+ */
+export interface ToolArgumentError {
+  error: 'invalid_arguments';
+  /** Tool that was called */
+  tool: string;
+  /** Summary of every issue */
+  message: string;
+  issues: ToolArgumentIssue[];
+}
+
 /**
  * Tool definition sent to server for AI registration
  */
@@ -44,6 +118,11 @@ export interface ClientToolDefinition {
   description: string;
   /** JSON Schema for tool arguments */
   parameters: JSONSchema;
+  /**
+   * Maximum time a call may run in milliseconds (default 30000, 0 = no limit).
+   * A call that runs longer is aborted and reported to the model as { error: 'timeout' }.
+   */
+  timeoutMs?: number;
 }
 
 /**
@@ -54,16 +133,39 @@ export interface SerializedToolDefinition extends ClientToolDefinition {
   /**
    * Stringified executor function body for persistence.
    * Reconstituted at runtime via new Function().
-   *
-   * FIXME: Add signature verification before execution
+   * Covered by the plugin signature when one is present.
    */
   executorCode?: string;
 }
 
+/**
+ * Per-call context passed to executors
+ */
+export interface ToolExecutionContext {
+  /** Aborted when the call times out or is cancelled - pass it to fetch() */
+  signal: AbortSignal;
+  /** Epoch milliseconds after which the call times out (Infinity without a limit) */
+  deadline: number;
+}
+
 /**
  * Function that executes the tool client-side
+ * Executors that ignore the context keep working; they just can't stop early.
+ */
+export type ToolExecutor = (args: Record<string, unknown>, context?: ToolExecutionContext) => Promise<unknown>;
+
+/**
+ * Tool result returned to the model when a call timed out or was cancelled
  */
-export type ToolExecutor = (args: Record<string, unknown>) => Promise<unknown>;
+export interface ToolInterruptedError {
+  error: 'timeout' | 'cancelled';
+  /** Tool that was called */
+  tool: string;
+  /** Human-readable description */
+  message: string;
+  /** The limit that was exceeded (timeouts only) */
+  timeoutMs?: number;
+}
 
 /**
  * Request object passed to beforeRequest hook
@@ -109,13 +211,17 @@ export interface PluginHooks {
   afterResponse?: (res: ProcessedResponse) => void | Promise<void>;
   /** Called when an error occurs */
   onError?: (error: Error, context: ErrorContext) => void | Promise<void>;
+  /**
+   * Called once after an upgrade, before the new version is used, to migrate
+   * plugin-owned data. Throwing rolls the upgrade back.
+   */
+  migrate?: (fromVersion: string) => void | Promise<void>;
 }
 
 /**
  * Serialized plugin hooks (stored in localStorage)
  * Contains hook function bodies as strings for persistence
- *
- * FIXME: Add signature verification before execution
+ * Covered by the plugin signature when one is present
  */
 export interface SerializedHooks {
   /** Stringified onRegister function */
@@ -126,6 +232,32 @@ export interface SerializedHooks {
   afterResponseCode?: string;
   /** Stringified onError function */
   onErrorCode?: string;
+  /** Stringified migrate function */
+  migrateCode?: string;
+}
+
+/**
+ * Name of a lifecycle hook
+ */
+export type PluginHookName = keyof PluginHooks;
+
+/**
+ * Capabilities a plugin asks for (shown to the user before install)
+ *
+ * Plugins without a manifest are treated as legacy and run unrestricted.
+ * Once a manifest is present, anything not declared is denied.
+ */
+export interface PluginPermissions {
+  /** Origins executors may fetch (e.g. 'https://api.domeapi.io'); XHR/WebSocket are always denied */
+  network?: string[];
+  /** Access to window and document (modals, page state) */
+  dom?: boolean;
+  /** Access to localStorage, sessionStorage and IndexedDB */
+  storage?: boolean;
+  /** Access to injected wallet providers (window.ethereum, window.solana) */
+  wallet?: boolean;
+  /** Lifecycle hooks the plugin installs; undeclared hooks are not restored */
+  hooks?: PluginHookName[];
 }
 
 /**
@@ -144,13 +276,47 @@ export interface HustlePlugin {
   executors?: Record<string, ToolExecutor>;
   /** Lifecycle hooks */
   hooks?: PluginHooks;
+  /** Declared capabilities (enforced at runtime) */
+  permissions?: PluginPermissions;
+  /** System prompts and templates offered in the prompt library while the plugin is enabled */
+  prompts?: PluginPrompt[];
+  /** Base64 Ed25519 signature over the serialized plugin (see signPlugin) */
+  signature?: string;
+  /** ID of the publisher key that produced the signature */
+  publicKeyId?: string;
+  /**
+   * Shows results of this plugin's tools in the chat instead of raw JSON.
+   * Kept in memory only (components aren't serialized) - register the
+   * plugin again on page load to restore it.
+   */
+  renderToolResult?: ToolResultRenderer;
+  /**
+   * Slash commands offered in the composer while the plugin is enabled.
+   * Kept in memory only, like renderToolResult.
+   */
+  commands?: SlashCommand[];
+}
+
+/**
+ * Props for a tool result renderer
+ */
+export interface ToolResultRendererProps {
+  /** The tool call (name and arguments) */
+  toolCall: ToolCall;
+  /** What the tool returned (undefined until the result arrives) */
+  result?: unknown;
+  /** Whether the result has arrived */
+  hasResult: boolean;
 }
 
+/**
+ * Component that shows a tool's result in a chat message
+ */
+export type ToolResultRenderer = ComponentType<ToolResultRendererProps>;
+
 /**
  * Plugin with enabled state (stored in localStorage)
  * Tools include executorCode for function persistence
- *
- * FIXME: Add `signature?: string` for cryptographic verification
  */
 export interface StoredPlugin {
   /** Unique plugin identifier */
@@ -167,6 +333,74 @@ export interface StoredPlugin {
   enabled: boolean;
   /** Timestamp when plugin was installed */
   installedAt?: string;
+  /** Declared capabilities (enforced at runtime) */
+  permissions?: PluginPermissions;
+  /** Recommended system prompts and templates */
+  prompts?: PluginPrompt[];
+  /** Base64 Ed25519 signature over name, version, tools, hooksCode, permissions and prompts */
+  signature?: string;
+  /** ID of the publisher key in the trusted keyring */
+  publicKeyId?: string;
+  /** The version this one replaced (kept for rollback) */
+  previousVersion?: PreviousPluginVersion;
+}
+
+/**
+ * Stored snapshot of the version a plugin was upgraded from
+ */
+export type PreviousPluginVersion = Omit<StoredPlugin, 'enabled' | 'previousVersion'>;
+
+/**
+ * Shareable plugin file produced by exportPlugin()
+ */
+export interface PluginBundle {
+  /** Always 'hustle-plugin-bundle' */
+  format: 'hustle-plugin-bundle';
+  /** Bundle format version */
+  bundleVersion: number;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  /** The plugin in stored form (without install-specific fields) */
+  plugin: Omit<StoredPlugin, 'enabled' | 'installedAt' | 'previousVersion'>;
+  /** Base64 SHA-256 hashes checked on import */
+  integrity: {
+    algorithm: 'SHA-256';
+    /** Hash of the canonical plugin payload (the same payload signatures cover) */
+    plugin: string;
+    /** Hash of each piece of code, keyed 'tool:<name>' or 'hook:<hookName>' */
+    code: Record<string, string>;
+  };
+}
+
+/**
+ * What a validated bundle will install (shown before importing)
+ */
+export interface PluginBundlePreview {
+  /** The validated bundle (pass it to importPlugin) */
+  bundle: PluginBundle;
+  name: string;
+  version: string;
+  description?: string;
+  /** Tools the plugin adds */
+  tools: Array<{ name: string; description: string; hasExecutor: boolean }>;
+  /** Hooks the plugin installs */
+  hooks: PluginHookName[];
+  /** Declared permissions (undefined = unrestricted legacy plugin) */
+  permissions?: PluginPermissions;
+  /** Whether the bundle carries a publisher signature */
+  signed: boolean;
+}
+
+/**
+ * A newer catalog version of an installed plugin
+ */
+export interface PluginUpdate {
+  /** Plugin name */
+  name: string;
+  /** Installed version */
+  currentVersion: string;
+  /** Latest version in the catalog */
+  latestVersion: string;
 }
 
 /**
@@ -177,4 +411,89 @@ export interface HydratedPlugin extends StoredPlugin {
   executors?: Record<string, ToolExecutor>;
   /** Restored hooks */
   hooks?: PluginHooks;
+  /** Signature verification result (when a trust policy is configured) */
+  verification?: PluginVerification;
+  /** True when the stored code was refused - executors and hooks are not restored */
+  quarantined?: boolean;
+  /** Result renderer from the registered plugin (in memory only) */
+  renderToolResult?: ToolResultRenderer;
+  /** Slash commands from the registered plugin (in memory only) */
+  commands?: SlashCommand[];
+}
+
+/**
+ * Trusted publisher keyring
+ * Maps publicKeyId to a base64-encoded raw (32 byte) Ed25519 public key
+ */
+export type PluginKeyring = Record<string, string>;
+
+/**
+ * Outcome of verifying a stored plugin's signature
+ * - verified: signed by a key in the keyring and the code is untouched
+ * - unsigned: no signature present
+ * - untrusted: signed by a key that is not in the keyring
+ * - invalid: signature does not match the stored code (tampered)
+ * - unsupported: WebCrypto Ed25519 is not available in this environment
+ */
+export type PluginVerificationStatus = 'verified' | 'unsigned' | 'untrusted' | 'invalid' | 'unsupported';
+
+/**
+ * Signature verification result
+ */
+export interface PluginVerification {
+  status: PluginVerificationStatus;
+  /** Key that was checked (if the plugin is signed) */
+  publicKeyId?: string;
+  /** Human-readable explanation for non-verified results */
+  reason?: string;
+}
+
+/**
+ * Per-instance plugin trust policy (configured on HustleProvider)
+ */
+export interface PluginTrustPolicy {
+  /** Trusted publisher keys */
+  trustedPublishers?: PluginKeyring;
+  /** Refuse to run plugins that are not signed by a trusted publisher */
+  requireSignatures?: boolean;
+}
+
+/**
+ * Where plugin executors run
+ * - auto: in the worker for plugins whose manifest grants no page access
+ *   (dom, storage or wallet), in the page for the rest
+ * - page: evaluated in the page realm (full access to window, storage, auth)
+ * - worker: evaluated inside a dedicated Web Worker behind a message bridge
+ */
+export type PluginExecutionMode = 'auto' | 'page' | 'worker';
+
+/**
+ * Capabilities and limits for sandboxed (worker) executors
+ */
+export interface PluginSandboxOptions {
+  /** Origins executors may fetch (e.g. 'https://api.domeapi.io'); everything else is rejected */
+  allowedOrigins?: string[];
+  /** Per-call timeout in milliseconds (default 30000, 0 = no limit) */
+  timeoutMs?: number;
+}
+
+/**
+ * Per-instance plugin execution policy (configured on HustleProvider)
+ */
+export interface PluginExecutionPolicy extends PluginSandboxOptions {
+  mode: PluginExecutionMode;
+}
+
+/**
+ * Options for hydratePlugin
+ */
+export interface HydratePluginOptions {
+  /** Result of verifyPluginSignature for this plugin */
+  verification?: PluginVerification;
+  /** Quarantine anything that isn't verified (invalid signatures are always quarantined) */
+  requireSignature?: boolean;
+  /** Where executors run (default: auto) */
+  execution?: PluginExecutionPolicy;
+  /** Instance whose cancelToolCalls() cancels calls to these executors (default: 'default') */
+  instanceId?: string;
 }
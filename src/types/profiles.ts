@@ -0,0 +1,72 @@
+/**
+ * Settings Profile Types
+ *
+ * Named bundles of HustleProvider settings ("Trading analyst", "Support
+ * agent"), saved per instance. The active profile holds the settings the
+ * provider uses; changing a setting updates it.
+ */
+
+/**
+ * Extra generation options sent with each request
+ */
+export interface ModelOptions {
+  /** Sampling temperature - lower is more focused, higher more varied */
+  temperature?: number;
+  /** Upper limit on the tokens of a reply */
+  maxTokens?: number;
+  /** Any other option the Hustle API accepts */
+  [option: string]: string | number | boolean | undefined;
+}
+
+/**
+ * The settings a profile bundles
+ */
+export interface ProfileSettings {
+  /** Model ID ('' lets the server decide) */
+  selectedModel: string;
+  /** Custom system prompt */
+  systemPrompt: string;
+  /** Skip the server-provided system prompt */
+  skipServerPrompt: boolean;
+  /** Extra generation options, e.g. temperature */
+  modelOptions: ModelOptions;
+  /** Names of the plugins enabled while the profile is active (undefined leaves plugins as they are) */
+  enabledPlugins?: string[];
+}
+
+/**
+ * A saved settings profile
+ */
+export interface SettingsProfile extends ProfileSettings {
+  /** Stable identifier */
+  id: string;
+  /** Name shown in the profile switcher */
+  name: string;
+  /** ISO timestamp when the profile was created */
+  createdAt: string;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+}
+
+/**
+ * A profile an app ships (see HustleProviderProps.defaultProfiles)
+ *
+ * Added the first time the instance loads, and what resetProfile()
+ * restores for a profile of the same name.
+ */
+export interface ProfilePreset extends Partial<ProfileSettings> {
+  /** Profile name */
+  name: string;
+}
+
+/**
+ * An instance's profiles as stored
+ */
+export interface ProfilesState {
+  /** ID of the profile in use */
+  activeProfileId: string;
+  /** All profiles, in the order they were created */
+  profiles: SettingsProfile[];
+  /** Names of the app's default profiles already added (deleted ones aren't added again) */
+  addedPresets?: string[];
+}
@@ -0,0 +1,63 @@
+/**
+ * Prompt Library Types
+ *
+ * Named system prompts and reusable user prompt templates, saved per
+ * HustleProvider instance. Templates may contain `{{variable}}`
+ * placeholders that are filled in before sending. Plugins recommend
+ * prompts through `HustlePlugin.prompts`.
+ */
+
+/**
+ * Kind of prompt
+ * - system: replaces the system prompt when applied
+ * - template: a user message, filled in and sent
+ */
+export type PromptKind = 'system' | 'template';
+
+/**
+ * A prompt as plugins ship it
+ */
+export interface PluginPrompt {
+  /** What the prompt is used as */
+  kind: PromptKind;
+  /** Name shown in the library */
+  name: string;
+  /** Prompt text - templates may contain {{variable}} placeholders */
+  content: string;
+  /** One line shown under the name */
+  description?: string;
+}
+
+/**
+ * A prompt saved in an instance's library
+ */
+export interface SavedPrompt extends PluginPrompt {
+  /** Stable identifier */
+  id: string;
+  /** ISO timestamp when the prompt was saved */
+  createdAt: string;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+}
+
+/**
+ * A prompt recommended by an enabled plugin
+ */
+export interface RecommendedPrompt extends PluginPrompt {
+  /** Plugin that recommends it */
+  pluginName: string;
+}
+
+/**
+ * Prompt library file produced by exportLibrary()
+ */
+export interface PromptLibraryExport {
+  /** Always 'hustle-prompt-library' */
+  format: 'hustle-prompt-library';
+  /** Export format version */
+  version: number;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  /** The saved prompts */
+  prompts: SavedPrompt[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Usage Accounting Types
+ *
+ * Token counts and estimated cost of every response, recorded by
+ * HustleProvider and persisted per instance and vault (the same scope as
+ * conversations), with an optional soft budget.
+ */
+
+/**
+ * Usage of a single response
+ */
+export interface UsageRecord {
+  /** Unique record identifier */
+  id: string;
+  /** ISO timestamp when the response finished */
+  timestamp: string;
+  /** Conversation the response belongs to, when known */
+  conversationId?: string;
+  /** Reply message ID (the chat UI's, or the server's messageId) */
+  messageId?: string;
+  /** Model that was requested - unset for the server default */
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Estimated cost in USD from Model.pricing - null when pricing was unknown */
+  costUsd: number | null;
+  /** Responses summed into this record when old records were rolled up (default 1) */
+  requests?: number;
+  /** Of those, responses whose cost was unknown (not included in costUsd) */
+  unpricedRequests?: number;
+}
+
+/**
+ * Summed usage of a group of records
+ */
+export interface UsageTotals {
+  /** Number of responses */
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Sum of the known costs in USD */
+  costUsd: number;
+  /** Responses whose cost is unknown (not included in costUsd) */
+  unpricedRequests: number;
+}
+
+/**
+ * Usage totals overall and grouped by message, conversation, model and day
+ */
+export interface UsageSummary {
+  total: UsageTotals;
+  /** By messageId */
+  byMessage: Record<string, UsageTotals>;
+  /** By conversationId */
+  byConversation: Record<string, UsageTotals>;
+  /** By model ID ('default' for the server default) */
+  byModel: Record<string, UsageTotals>;
+  /** By local date (YYYY-MM-DD) */
+  byDay: Record<string, UsageTotals>;
+}
+
+/**
+ * Soft spending limit for an instance
+ *
+ * Checked before each request against the usage already recorded in the
+ * period, so the request that crosses the limit still completes; later
+ * ones are refused with a BudgetExceededError.
+ */
+export interface UsageBudget {
+  /** Maximum estimated cost in USD */
+  maxCostUsd?: number;
+  /** Maximum total tokens */
+  maxTokens?: number;
+  /** Window the limits apply to (default: 'day') */
+  period?: 'day' | 'month' | 'all';
+}
+
+/**
+ * Usage against the budget for the current period
+ */
+export interface UsageBudgetStatus {
+  budget: UsageBudget;
+  /** Usage recorded in the current period */
+  usage: UsageTotals;
+  /** Whether a limit has been reached - new requests are refused */
+  exceeded: boolean;
+  /** Cost left before maxCostUsd (undefined without a cost limit) */
+  remainingCostUsd?: number;
+  /** Tokens left before maxTokens (undefined without a token limit) */
+  remainingTokens?: number;
+}
@@ -0,0 +1,417 @@
+/**
+ * Conversation Export and Import
+ *
+ * Transcripts for handing a conversation to someone else: Markdown and a
+ * standalone HTML page (styled with the design tokens) of the selected
+ * branch, and a lossless JSON file with every branch, tool call, result,
+ * timing and usage figure that readConversationExport() turns back into a
+ * Conversation that can be continued.
+ *
+ * Everything here is pure apart from downloadConversationExport().
+ */
+
+import { marked } from 'marked';
+import { cssVariables, tokens } from '../styles';
+import { createMessageTree, getActivePath } from './messageTree';
+import { getToolTimeline, formatDuration } from './toolTimeline';
+import { formatTokenCount } from './usage';
+import { sanitizeHtml, escapeHtml } from './sanitizeHtml';
+import type {
+  Conversation,
+  ConversationMessage,
+  ConversationExport,
+  ConversationExportFormat,
+  ConversationExportSettings,
+} from '../types';
+
+/** Identifies a JSON file as an exported conversation */
+export const CONVERSATION_EXPORT_FORMAT = 'hustle-conversation';
+
+/** Export format version this SDK writes and reads */
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+/** Anything readConversationExport accepts */
+export type ConversationExportInput = Blob | string | ConversationExport;
+
+const ROLE_LABELS: Record<ConversationMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+const FILE_EXTENSIONS: Record<ConversationExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+const MIME_TYPES: Record<ConversationExportFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+/**
+ * Pretty-printed JSON (String() for values JSON can't represent)
+ */
+function toJson(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Messages on the selected branch, root first
+ */
+function getTranscriptMessages(conversation: Conversation): ConversationMessage[] {
+  return getActivePath(createMessageTree(conversation.messages, conversation.selectedBranches));
+}
+
+/**
+ * "120 in · 45 out" for a reply that reported usage
+ */
+function describeUsage(message: ConversationMessage): string | null {
+  const { prompt_tokens, completion_tokens } = message.usage ?? {};
+  const parts = [
+    prompt_tokens !== undefined ? `${formatTokenCount(prompt_tokens)} in` : null,
+    completion_tokens !== undefined ? `${formatTokenCount(completion_tokens)} out` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Role, model and time of a message, e.g. "Assistant · openai/gpt-4o · 2026-03-10T12:00:00.000Z"
+ */
+function describeMessage(message: ConversationMessage): string {
+  return [ROLE_LABELS[message.role] ?? message.role, message.model, message.createdAt].filter(Boolean).join(' · ');
+}
+
+/**
+ * "name - succeeded (1.2s)" for a tool timeline entry
+ */
+function describeToolCall(entry: ReturnType<typeof getToolTimeline>[number]): string {
+  const duration = entry.durationMs !== undefined ? ` (${formatDuration(entry.durationMs)})` : '';
+  return `${entry.toolCall.toolName} - ${entry.status}${duration}`;
+}
+
+/**
+ * Create the lossless export of a conversation
+ */
+export function createConversationExport(
+  conversation: Conversation,
+  settings: ConversationExportSettings = {}
+): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(settings.model ? { model: settings.model } : {}),
+    ...(settings.systemPrompt ? { systemPrompt: settings.systemPrompt } : {}),
+    conversation,
+  };
+}
+
+/**
+ * A conversation as lossless JSON (see readConversationExport)
+ */
+export function exportConversationJson(
+  conversation: Conversation,
+  settings: ConversationExportSettings = {}
+): string {
+  return JSON.stringify(createConversationExport(conversation, settings), null, 2);
+}
+
+/**
+ * A code fence longer than any run of backticks in the text
+ */
+function fence(text: string, lang = ''): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}${lang}\n${text}\n${marker}`;
+}
+
+/**
+ * The selected branch of a conversation as a Markdown transcript
+ */
+export function exportConversationMarkdown(
+  conversation: Conversation,
+  settings: ConversationExportSettings = {}
+): string {
+  const lines: string[] = [`# ${conversation.title || 'Conversation'}`, ''];
+
+  lines.push(`- Exported: ${new Date().toISOString()}`);
+  lines.push(`- Started: ${conversation.createdAt}`);
+  if (settings.model) lines.push(`- Model: ${settings.model}`);
+  lines.push('');
+
+  if (settings.systemPrompt) {
+    lines.push('## System prompt', '', fence(settings.systemPrompt), '');
+  }
+
+  for (const message of getTranscriptMessages(conversation)) {
+    lines.push(`## ${describeMessage(message)}`, '');
+
+    if (message.reasoning?.thinking) {
+      lines.push('<details><summary>Thinking</summary>', '', fence(message.reasoning.thinking), '', '</details>', '');
+    }
+
+    const timeline = getToolTimeline(message);
+    if (timeline.length > 0) {
+      lines.push('**Tool calls**', '');
+      for (const entry of timeline) {
+        lines.push(`- \`${describeToolCall(entry)}\`${entry.error ? ` - ${entry.error}` : ''}`);
+        if (entry.toolCall.args && Object.keys(entry.toolCall.args).length > 0) {
+          lines.push('', fence(toJson(entry.toolCall.args), 'json').replace(/^/gm, '  '));
+        }
+        if (entry.hasResult) {
+          lines.push('', fence(toJson(entry.result), 'json').replace(/^/gm, '  '));
+        }
+      }
+      lines.push('');
+    }
+
+    lines.push(message.content || '_(empty)_', '');
+
+    if (message.aborted) lines.push('_Stopped_', '');
+    const usage = describeUsage(message);
+    if (usage) lines.push(`_${usage}_`, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Stylesheet for the HTML transcript, from the design tokens
+ */
+function getTranscriptStyles(): string {
+  const { colors, typography, spacing, radius } = tokens;
+  return `${cssVariables}
+body { margin: 0; background: ${colors.bgPrimary}; color: ${colors.textPrimary}; font-family: ${typography.fontFamily}; font-size: ${typography.fontSizeMd}; line-height: ${typography.lineHeightNormal}; }
+main { max-width: 820px; margin: 0 auto; padding: ${spacing.xl} ${spacing.lg}; }
+h1 { font-size: ${typography.fontSizeXl}; margin: 0 0 ${spacing.xs}; }
+.meta { color: ${colors.textSecondary}; font-size: ${typography.fontSizeSm}; margin: 0 0 ${spacing.lg}; }
+.system, .message { border: 1px solid ${colors.borderPrimary}; border-radius: ${radius.lg}; padding: ${spacing.md} ${spacing.lg}; margin: 0 0 ${spacing.md}; }
+.system { background: ${colors.bgSecondary}; }
+.message-user { background: ${colors.msgUser}; }
+.message-assistant { background: ${colors.msgAssistant}; }
+.message-header { color: ${colors.textSecondary}; font-size: ${typography.fontSizeXs}; margin-bottom: ${spacing.sm}; }
+.message-text { white-space: pre-wrap; }
+.message-footer { color: ${colors.textTertiary}; font-size: ${typography.fontSizeXs}; margin-top: ${spacing.sm}; }
+details { margin: ${spacing.sm} 0; font-size: ${typography.fontSizeSm}; }
+summary { cursor: pointer; color: ${colors.textSecondary}; }
+.tool-failed summary { color: ${colors.accentError}; }
+.tool-error { color: ${colors.accentError}; }
+pre { background: ${colors.bgTertiary}; border-radius: ${radius.md}; padding: ${spacing.sm}; overflow-x: auto; font-family: ${typography.fontFamilyMono}; font-size: ${typography.fontSizeXs}; white-space: pre-wrap; }
+a { color: ${colors.accentPrimary}; }`;
+}
+
+/**
+ * A message's content as HTML - markdown for replies, plain text otherwise
+ */
+function renderContentHtml(message: ConversationMessage): string {
+  if (message.role !== 'assistant') {
+    return `<div class="message-text">${escapeHtml(message.content)}</div>`;
+  }
+  return `<div class="message-content">${sanitizeHtml(marked.parse(message.content, { async: false }) as string)}</div>`;
+}
+
+/**
+ * The selected branch of a conversation as a standalone HTML page
+ *
+ * Styled with the design tokens (inlined, so it renders with no network
+ * access) and with reply markdown passed through sanitizeHtml.
+ */
+export function exportConversationHtml(
+  conversation: Conversation,
+  settings: ConversationExportSettings = {}
+): string {
+  const title = escapeHtml(conversation.title || 'Conversation');
+  const meta = [
+    `Exported ${new Date().toISOString()}`,
+    `started ${conversation.createdAt}`,
+    settings.model ? `model ${settings.model}` : null,
+  ].filter(Boolean).map(part => escapeHtml(part as string)).join(' · ');
+
+  const sections: string[] = [];
+
+  if (settings.systemPrompt) {
+    sections.push(
+      `<section class="system"><div class="message-header">System prompt</div><div class="message-text">${escapeHtml(settings.systemPrompt)}</div></section>`
+    );
+  }
+
+  for (const message of getTranscriptMessages(conversation)) {
+    const parts = [`<div class="message-header">${escapeHtml(describeMessage(message))}</div>`];
+
+    if (message.reasoning?.thinking) {
+      parts.push(`<details><summary>Thinking</summary><div class="message-text">${escapeHtml(message.reasoning.thinking)}</div></details>`);
+    }
+
+    for (const entry of getToolTimeline(message)) {
+      const body = [
+        entry.error ? `<div class="tool-error">${escapeHtml(entry.error)}</div>` : '',
+        entry.toolCall.args ? `<pre>${escapeHtml(toJson(entry.toolCall.args))}</pre>` : '',
+        entry.hasResult ? `<pre>${escapeHtml(toJson(entry.result))}</pre>` : '',
+      ].join('');
+      parts.push(`<details class="tool tool-${entry.status}"><summary>${escapeHtml(describeToolCall(entry))}</summary>${body}</details>`);
+    }
+
+    parts.push(renderContentHtml(message));
+
+    const footer = [message.aborted ? 'Stopped' : null, describeUsage(message)].filter(Boolean).join(' · ');
+    if (footer) parts.push(`<div class="message-footer">${escapeHtml(footer)}</div>`);
+
+    sections.push(`<article class="message message-${message.role}">${parts.join('')}</article>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+${getTranscriptStyles()}
+</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="meta">${meta}</p>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Export a conversation in any of the supported formats
+ */
+export function exportConversation(
+  conversation: Conversation,
+  format: ConversationExportFormat,
+  settings: ConversationExportSettings = {}
+): string {
+  if (format === 'markdown') return exportConversationMarkdown(conversation, settings);
+  if (format === 'html') return exportConversationHtml(conversation, settings);
+  return exportConversationJson(conversation, settings);
+}
+
+/**
+ * Read an export from a File/Blob, JSON string or parsed object
+ */
+async function readExportInput(input: ConversationExportInput): Promise<unknown> {
+  if (typeof input === 'string') {
+    try {
+      return JSON.parse(input);
+    } catch {
+      throw new Error('Invalid conversation export: not valid JSON');
+    }
+  }
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return readExportInput(await input.text());
+  }
+  return input;
+}
+
+/**
+ * Validate an export's structure - returns an error message, or null if valid
+ */
+function validateExport(data: unknown): string | null {
+  if (!data || typeof data !== 'object') return 'export is not an object';
+
+  const exported = data as Record<string, unknown>;
+  if (exported.format !== CONVERSATION_EXPORT_FORMAT) return 'not a Hustle conversation export';
+  if (exported.version !== CONVERSATION_EXPORT_VERSION) {
+    return `unsupported version ${String(exported.version)}`;
+  }
+
+  const conversation = exported.conversation as Record<string, unknown> | undefined;
+  if (!conversation || typeof conversation !== 'object') return 'missing conversation';
+  if (typeof conversation.id !== 'string' || !conversation.id) return 'conversation has no id';
+  if (!Array.isArray(conversation.messages)) return 'conversation has no messages';
+
+  const ids = new Set<string>();
+  for (const [index, message] of (conversation.messages as unknown[]).entries()) {
+    const { id, role, content } = (message ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !id) return `message ${index} has no id`;
+    if (ids.has(id)) return `message ${index} has the same id as an earlier message`;
+    ids.add(id);
+    if (role !== 'user' && role !== 'assistant' && role !== 'system') return `message ${index} has an invalid role`;
+    if (typeof content !== 'string') return `message ${index} has no content`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a JSON export and return it
+ *
+ * Nothing is saved - pass `conversation` to importConversation() (useChat
+ * or useConversations) to restore it. Throws with a readable message if
+ * the file is not a valid export.
+ */
+export async function readConversationExport(input: ConversationExportInput): Promise<ConversationExport> {
+  const data = await readExportInput(input);
+
+  const problem = validateExport(data);
+  if (problem) {
+    throw new Error(`Invalid conversation export: ${problem}`);
+  }
+
+  const exported = data as ConversationExport;
+  const now = new Date().toISOString();
+  const { conversation } = exported;
+
+  return {
+    ...exported,
+    conversation: {
+      ...conversation,
+      // A reply that was streaming when exported is finished now
+      messages: conversation.messages.map((message: ConversationMessage) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { isStreaming, ...rest } = message as ConversationMessage & { isStreaming?: boolean };
+        return rest;
+      }),
+      createdAt: conversation.createdAt || now,
+      updatedAt: conversation.updatedAt || now,
+    },
+  };
+}
+
+/**
+ * File name for a downloaded export
+ * @example getConversationExportFileName(conversation, 'markdown') => 'odds-on-base.md'
+ */
+export function getConversationExportFileName(conversation: Conversation, format: ConversationExportFormat): string {
+  const safeName = (conversation.title || 'conversation')
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'conversation';
+  return `${safeName}.${FILE_EXTENSIONS[format]}`;
+}
+
+/**
+ * Save a conversation as a file (browser only)
+ */
+export function downloadConversationExport(
+  conversation: Conversation,
+  format: ConversationExportFormat,
+  settings: ConversationExportSettings = {}
+): void {
+  const blob = new Blob([exportConversation(conversation, format, settings)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getConversationExportFileName(conversation, format);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
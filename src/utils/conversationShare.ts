@@ -0,0 +1,192 @@
+/**
+ * Conversation Share Links
+ *
+ * Read-only snapshots of a conversation packed into a URL fragment, for
+ * async debugging without a server: the selected branch is written as a
+ * ConversationExport, deflated with CompressionStream and base64url
+ * encoded after `#hustle-share=`. Browsers never send the fragment to a
+ * server, so the link works offline and nothing is uploaded.
+ * HustleTranscriptViewer renders a snapshot.
+ *
+ * Snapshots can be redacted with the PII plugin's tokenizer first, which
+ * replaces emails, phone numbers, SSNs and card numbers with tokens.
+ */
+
+import { createConversationExport, readConversationExport } from './conversationExport';
+import { createMessageTree, getActivePath } from './messageTree';
+import { tokenizePii, createPiiTokenMap } from '../plugins/piiProtection';
+import type { PiiTokenMap } from '../plugins/piiProtection';
+import type { Conversation, ConversationExport, ConversationExportSettings } from '../types';
+
+/** Fragment parameter that carries a snapshot */
+export const SHARE_FRAGMENT_KEY = 'hustle-share';
+
+/** First character of an encoded snapshot: deflated or plain JSON */
+const COMPRESSED_MARKER = 'z';
+const PLAIN_MARKER = 'j';
+
+/**
+ * Options for createShareLink
+ */
+export interface ShareLinkOptions extends ConversationExportSettings {
+  /** Page the link opens (default: the current page without its fragment) */
+  baseUrl?: string;
+  /** Replace PII with tokens like {{EMAIL_1}} before encoding (default: false) */
+  redact?: boolean;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so long transcripts don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Run bytes through a CompressionStream or DecompressionStream
+ */
+async function transformBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Replace PII in every string of a value (objects and arrays are copied)
+ */
+function redactValue<T>(value: T, map: PiiTokenMap): T {
+  if (typeof value === 'string') return tokenizePii(value, map) as T;
+  if (Array.isArray(value)) return value.map(item => redactValue(item, map)) as T;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, map)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Replace PII in a conversation's text with tokens, using the PII plugin's tokenizer
+ *
+ * Covers the title, message content, thinking, tool arguments, tool
+ * results and the server's metadata (the context summary in pathInfo and
+ * devToolsInfo). Pass the same map to redact other text (e.g. the system
+ * prompt) with matching tokens; the plugin's own token map is not touched.
+ */
+export function redactConversation(conversation: Conversation, map: PiiTokenMap = createPiiTokenMap()): Conversation {
+  return {
+    ...conversation,
+    ...(conversation.title ? { title: tokenizePii(conversation.title, map) } : {}),
+    messages: conversation.messages.map(message => ({
+      ...message,
+      content: tokenizePii(message.content, map),
+      ...(message.reasoning ? { reasoning: redactValue(message.reasoning, map) } : {}),
+      ...(message.toolCalls ? { toolCalls: redactValue(message.toolCalls, map) } : {}),
+      ...(message.toolResults ? { toolResults: redactValue(message.toolResults, map) } : {}),
+      ...(message.pathInfo ? { pathInfo: redactValue(message.pathInfo, map) } : {}),
+      ...(message.devToolsInfo ? { devToolsInfo: redactValue(message.devToolsInfo, map) } : {}),
+    })),
+  };
+}
+
+/**
+ * The selected branch of a conversation as a conversation of its own
+ */
+function getSelectedBranch(conversation: Conversation): Conversation {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { selectedBranches, ...rest } = conversation;
+  return {
+    ...rest,
+    messages: getActivePath(createMessageTree(conversation.messages, selectedBranches)),
+  };
+}
+
+/**
+ * Encode an export for a URL fragment (deflated when CompressionStream is available)
+ */
+export async function encodeConversationSnapshot(exported: ConversationExport): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(exported));
+  if (typeof CompressionStream === 'undefined') {
+    return PLAIN_MARKER + toBase64Url(bytes);
+  }
+  return COMPRESSED_MARKER + toBase64Url(await transformBytes(bytes, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Decode and validate a snapshot made by encodeConversationSnapshot
+ * Throws with a readable message if it is damaged or not a snapshot.
+ */
+export async function decodeConversationSnapshot(encoded: string): Promise<ConversationExport> {
+  const marker = encoded.charAt(0);
+  let bytes: Uint8Array;
+
+  try {
+    bytes = fromBase64Url(encoded.slice(1));
+    if (marker === COMPRESSED_MARKER) {
+      bytes = await transformBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (marker !== PLAIN_MARKER) {
+      throw new Error('unknown encoding');
+    }
+  } catch {
+    throw new Error('Invalid share link: the snapshot is damaged or incomplete');
+  }
+
+  return readConversationExport(new TextDecoder().decode(bytes));
+}
+
+/**
+ * Create a link that opens a read-only snapshot of the conversation's selected branch
+ *
+ * @example
+ * const link = await createShareLink(getConversation(), { systemPrompt, redact: true });
+ * // => 'https://app.example/chat#hustle-share=z3VZNb9s...'
+ */
+export async function createShareLink(conversation: Conversation, options: ShareLinkOptions = {}): Promise<string> {
+  const { baseUrl, redact = false, ...settings } = options;
+  let snapshot = getSelectedBranch(conversation);
+
+  if (redact) {
+    const map = createPiiTokenMap();
+    snapshot = redactConversation(snapshot, map);
+    if (settings.systemPrompt) settings.systemPrompt = tokenizePii(settings.systemPrompt, map);
+  }
+
+  const encoded = await encodeConversationSnapshot(createConversationExport(snapshot, settings));
+  const base = baseUrl ?? (typeof window !== 'undefined' ? window.location.href : '');
+  return `${base.split('#')[0]}#${SHARE_FRAGMENT_KEY}=${encoded}`;
+}
+
+/**
+ * The encoded snapshot in a URL or fragment, or null if it has none
+ */
+export function getShareFragment(urlOrHash: string): string | null {
+  const hashIndex = urlOrHash.indexOf('#');
+  if (hashIndex === -1) return null;
+
+  for (const param of urlOrHash.slice(hashIndex + 1).split('&')) {
+    const [key, value] = param.split('=');
+    if (key === SHARE_FRAGMENT_KEY && value) return value;
+  }
+  return null;
+}
+
+/**
+ * Read the snapshot in a share link (default: the current page's fragment)
+ * Resolves to null when there is none; throws if it is damaged.
+ */
+export async function readShareLink(
+  urlOrHash: string = typeof window !== 'undefined' ? window.location.hash : ''
+): Promise<ConversationExport | null> {
+  const encoded = getShareFragment(urlOrHash);
+  return encoded ? decodeConversationSnapshot(encoded) : null;
+}
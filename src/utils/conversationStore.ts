@@ -0,0 +1,282 @@
+/**
+ * Conversation Stores
+ *
+ * Pluggable persistence for chat history. Three adapters are provided:
+ * - LocalStorageConversationStore: default, synchronous storage under the hood
+ * - IndexedDBConversationStore: for larger histories (no 5MB localStorage cap)
+ * - MemoryConversationStore: non-persistent, intended for tests and SSR
+ *
+ * Every adapter is scoped by instanceId + ownerId (AuthUser.identifier).
+ */
+
+import { STORAGE_KEYS } from './index';
+import type { Conversation, ConversationScope, ConversationStore } from '../types';
+
+type ConversationListener = () => void;
+
+/**
+ * Build a stable key for a conversation scope
+ */
+export function getConversationScopeKey(scope: ConversationScope): string {
+  return `${scope.instanceId}:${scope.ownerId || 'anonymous'}`;
+}
+
+/**
+ * Generate a conversation title from the first user message
+ * @example generateConversationTitle('What are the odds on the next   election?') => 'What are the odds on the next election?'
+ */
+export function generateConversationTitle(content: string, maxLength = 40): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  if (!singleLine) return 'New conversation';
+  if (singleLine.length <= maxLength) return singleLine;
+  return `${singleLine.slice(0, maxLength).trimEnd()}…`;
+}
+
+/**
+ * Sort conversations by last update (newest first)
+ */
+function sortByUpdated(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Shared listener bookkeeping for all adapters
+ */
+abstract class BaseConversationStore implements ConversationStore {
+  private listeners: Map<string, Set<ConversationListener>> = new Map();
+
+  abstract list(scope: ConversationScope): Promise<Conversation[]>;
+  abstract get(scope: ConversationScope, id: string): Promise<Conversation | null>;
+  abstract save(scope: ConversationScope, conversation: Conversation): Promise<void>;
+  abstract delete(scope: ConversationScope, id: string): Promise<void>;
+  abstract clear(scope: ConversationScope): Promise<void>;
+
+  /**
+   * Subscribe to changes for a scope
+   */
+  subscribe(scope: ConversationScope, listener: ConversationListener): () => void {
+    const key = getConversationScopeKey(scope);
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    const listeners = this.listeners.get(key)!;
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Notify listeners for a scope
+   */
+  protected notify(scope: ConversationScope): void {
+    this.listeners.get(getConversationScopeKey(scope))?.forEach((cb) => cb());
+  }
+}
+
+/**
+ * In-memory store (not persisted - useful for tests)
+ */
+export class MemoryConversationStore extends BaseConversationStore {
+  private data: Map<string, Map<string, Conversation>> = new Map();
+
+  private getBucket(scope: ConversationScope): Map<string, Conversation> {
+    const key = getConversationScopeKey(scope);
+    if (!this.data.has(key)) {
+      this.data.set(key, new Map());
+    }
+    return this.data.get(key)!;
+  }
+
+  async list(scope: ConversationScope): Promise<Conversation[]> {
+    return sortByUpdated(Array.from(this.getBucket(scope).values()));
+  }
+
+  async get(scope: ConversationScope, id: string): Promise<Conversation | null> {
+    return this.getBucket(scope).get(id) ?? null;
+  }
+
+  async save(scope: ConversationScope, conversation: Conversation): Promise<void> {
+    this.getBucket(scope).set(conversation.id, conversation);
+    this.notify(scope);
+  }
+
+  async delete(scope: ConversationScope, id: string): Promise<void> {
+    this.getBucket(scope).delete(id);
+    this.notify(scope);
+  }
+
+  async clear(scope: ConversationScope): Promise<void> {
+    this.data.delete(getConversationScopeKey(scope));
+    this.notify(scope);
+  }
+}
+
+/**
+ * localStorage-backed store
+ *
+ * Each scope is stored as a single JSON array under
+ * `hustle_chat_history-{instanceId}:{ownerId}`.
+ */
+export class LocalStorageConversationStore extends BaseConversationStore {
+  private getKey(scope: ConversationScope): string {
+    return `${STORAGE_KEYS.CHAT_HISTORY}-${getConversationScopeKey(scope)}`;
+  }
+
+  private load(scope: ConversationScope): Conversation[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(this.getKey(scope));
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(scope: ConversationScope, conversations: Conversation[]): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(this.getKey(scope), JSON.stringify(conversations));
+    } catch (err) {
+      // Quota exceeded or storage disabled - history is best effort
+      console.error('[Hustle] Failed to persist conversations:', err);
+    }
+  }
+
+  async list(scope: ConversationScope): Promise<Conversation[]> {
+    return sortByUpdated(this.load(scope));
+  }
+
+  async get(scope: ConversationScope, id: string): Promise<Conversation | null> {
+    return this.load(scope).find((c) => c.id === id) ?? null;
+  }
+
+  async save(scope: ConversationScope, conversation: Conversation): Promise<void> {
+    const conversations = this.load(scope);
+    const existing = conversations.findIndex((c) => c.id === conversation.id);
+
+    if (existing >= 0) {
+      conversations[existing] = conversation;
+    } else {
+      conversations.push(conversation);
+    }
+
+    this.persist(scope, conversations);
+    this.notify(scope);
+  }
+
+  async delete(scope: ConversationScope, id: string): Promise<void> {
+    this.persist(scope, this.load(scope).filter((c) => c.id !== id));
+    this.notify(scope);
+  }
+
+  async clear(scope: ConversationScope): Promise<void> {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(this.getKey(scope));
+    this.notify(scope);
+  }
+}
+
+/**
+ * Record shape stored in IndexedDB
+ */
+interface ConversationRecord {
+  key: string;
+  scope: string;
+  conversation: Conversation;
+}
+
+const IDB_STORE_NAME = 'conversations';
+
+/**
+ * Wrap an IDBRequest in a Promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed store
+ *
+ * Conversations are stored as individual records keyed by
+ * `{scopeKey}/{conversationId}` with an index on the scope.
+ */
+export class IndexedDBConversationStore extends BaseConversationStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = STORAGE_KEYS.CHAT_HISTORY) {
+    super();
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this environment'));
+      }
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(IDB_STORE_NAME, { keyPath: 'key' });
+          store.createIndex('scope', 'scope', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getObjectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDb();
+    return db.transaction(IDB_STORE_NAME, mode).objectStore(IDB_STORE_NAME);
+  }
+
+  async list(scope: ConversationScope): Promise<Conversation[]> {
+    const store = await this.getObjectStore('readonly');
+    const records = await requestToPromise<ConversationRecord[]>(
+      store.index('scope').getAll(getConversationScopeKey(scope))
+    );
+    return sortByUpdated(records.map((r) => r.conversation));
+  }
+
+  async get(scope: ConversationScope, id: string): Promise<Conversation | null> {
+    const store = await this.getObjectStore('readonly');
+    const record = await requestToPromise<ConversationRecord | undefined>(
+      store.get(`${getConversationScopeKey(scope)}/${id}`)
+    );
+    return record?.conversation ?? null;
+  }
+
+  async save(scope: ConversationScope, conversation: Conversation): Promise<void> {
+    const scopeKey = getConversationScopeKey(scope);
+    const store = await this.getObjectStore('readwrite');
+    const record: ConversationRecord = {
+      key: `${scopeKey}/${conversation.id}`,
+      scope: scopeKey,
+      conversation,
+    };
+    await requestToPromise(store.put(record));
+    this.notify(scope);
+  }
+
+  async delete(scope: ConversationScope, id: string): Promise<void> {
+    const store = await this.getObjectStore('readwrite');
+    await requestToPromise(store.delete(`${getConversationScopeKey(scope)}/${id}`));
+    this.notify(scope);
+  }
+
+  async clear(scope: ConversationScope): Promise<void> {
+    const store = await this.getObjectStore('readwrite');
+    const keys = await requestToPromise(
+      store.index('scope').getAllKeys(getConversationScopeKey(scope))
+    );
+    await Promise.all(keys.map((key) => requestToPromise(store.delete(key))));
+    this.notify(scope);
+  }
+}
+
+/**
+ * Default store used when HustleProvider is not given one
+ */
+export const defaultConversationStore: ConversationStore = new LocalStorageConversationStore();
@@ -0,0 +1,175 @@
+/**
+ * Plugin Authoring Helpers
+ *
+ * definePlugin() and defineTool() build a plain HustlePlugin whose executor
+ * args are typed from each tool's JSON Schema, instead of hand-casting
+ * `args.platform as Platform` in every executor.
+ *
+ * The builders also check the plugin when it is defined (every tool has an
+ * executor and every executor has a tool). The executors they return
+ * validate args like installed plugins do (see withArgValidation), so
+ * schema defaults are filled in and invalid calls return a
+ * ToolArgumentError instead of running the executor.
+ */
+
+import { withArgValidation } from './toolArgs';
+import type {
+  HustlePlugin,
+  ClientToolDefinition,
+  ToolExecutor,
+  InferSchemaType,
+  JSONSchema,
+  ToolExecutionContext,
+} from '../types';
+
+/**
+ * Executor with args typed from a schema
+ */
+export type TypedToolExecutor<S> = (args: InferSchemaType<S>, context?: ToolExecutionContext) => Promise<unknown>;
+
+/**
+ * A tool definition with its executor attached (see defineTool)
+ */
+export interface DefinedTool<P extends JSONSchema = JSONSchema> extends ClientToolDefinition {
+  parameters: P;
+  execute: TypedToolExecutor<P>;
+}
+
+/**
+ * Tools in a definePlugin() call that still need an entry in `executors`
+ */
+type ToolsWithoutExecute<Tools extends readonly ClientToolDefinition[]> =
+  Exclude<Tools[number], { execute: unknown }>;
+
+/**
+ * Executors keyed by tool name, with args typed from each tool's schema
+ */
+export type ToolExecutorsFor<Tools extends readonly ClientToolDefinition[]> = {
+  [Tool in ToolsWithoutExecute<Tools> as Tool['name']]: TypedToolExecutor<Tool['parameters']>;
+};
+
+/**
+ * Options for definePlugin()
+ * `executors` is required exactly when some tool has no `execute`.
+ */
+export type DefinePluginOptions<Tools extends readonly ClientToolDefinition[]> =
+  Omit<HustlePlugin, 'tools' | 'executors'> & {
+    /** Tool definitions - plain, or from defineTool() with an `execute` */
+    tools: Tools;
+  } & ([ToolsWithoutExecute<Tools>] extends [never]
+    ? { executors?: NoInfer<ToolExecutorsFor<Tools>> }
+    : { executors: NoInfer<ToolExecutorsFor<Tools>> });
+
+/**
+ * Find tools without an executor and executors without a tool
+ */
+export function findExecutorProblems(
+  tools: readonly ClientToolDefinition[] = [],
+  executors: Record<string, unknown> = {}
+): string[] {
+  const problems: string[] = [];
+  const names = new Set<string>();
+
+  for (const tool of tools) {
+    if (names.has(tool.name)) {
+      problems.push(`tool "${tool.name}" is defined more than once`);
+    }
+    names.add(tool.name);
+    if (typeof executors[tool.name] !== 'function') {
+      problems.push(`tool "${tool.name}" has no executor`);
+    }
+  }
+  for (const name of Object.keys(executors)) {
+    if (!names.has(name)) {
+      problems.push(`executor "${name}" has no tool definition`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Define a tool together with its executor
+ *
+ * @example
+ * const searchMarkets = defineTool({
+ *   name: 'search_markets',
+ *   description: 'Search prediction markets',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: {
+ *       platform: { type: 'string', enum: ['polymarket', 'kalshi'] },
+ *       limit: { type: 'number' },
+ *     },
+ *     required: ['platform'],
+ *   },
+ *   // args: { platform: 'polymarket' | 'kalshi'; limit?: number }
+ *   execute: async (args) => fetchMarkets(args.platform, args.limit),
+ * });
+ */
+export function defineTool<const P extends JSONSchema>(tool: DefinedTool<P>): DefinedTool<P> {
+  return tool;
+}
+
+/**
+ * Define a plugin with typed, validated executors
+ *
+ * Throws if a tool has no executor, an executor has no tool, or a tool
+ * name is used twice. The result is a regular HustlePlugin.
+ *
+ * @example
+ * export const weatherPlugin = definePlugin({
+ *   name: 'weather',
+ *   version: '1.0.0',
+ *   tools: [
+ *     {
+ *       name: 'get_forecast',
+ *       description: 'Get the forecast for a city',
+ *       parameters: {
+ *         type: 'object',
+ *         properties: { city: { type: 'string' }, days: { type: 'number' } },
+ *         required: ['city'],
+ *       },
+ *     },
+ *   ],
+ *   executors: {
+ *     // args: { city: string; days?: number }
+ *     get_forecast: async (args) => getForecast(args.city, args.days ?? 3),
+ *   },
+ * });
+ */
+export function definePlugin<const Tools extends readonly ClientToolDefinition[]>(
+  options: DefinePluginOptions<Tools>
+): HustlePlugin {
+  const { tools, executors: namedExecutors = {}, ...plugin } = options;
+  const definitions: ClientToolDefinition[] = [];
+  const executors: Record<string, ToolExecutor> = {};
+  const problems: string[] = [];
+
+  for (const tool of tools as readonly (ClientToolDefinition | DefinedTool)[]) {
+    if ('execute' in tool) {
+      const { execute, ...definition } = tool;
+      if (tool.name in namedExecutors) {
+        problems.push(`tool "${tool.name}" has both an execute function and an executor`);
+      }
+      definitions.push(definition);
+      executors[tool.name] = execute as ToolExecutor;
+    } else {
+      definitions.push(tool);
+    }
+  }
+  Object.assign(executors, namedExecutors);
+
+  problems.push(...findExecutorProblems(definitions, executors));
+  if (problems.length > 0) {
+    throw new Error(`Invalid plugin "${plugin.name}": ${problems.join('; ')}`);
+  }
+
+  return {
+    ...plugin,
+    tools: definitions,
+    executors: Object.fromEntries(
+      definitions.map((tool) => [tool.name, withArgValidation(tool, executors[tool.name])])
+    ),
+  };
+}
@@ -104,6 +104,9 @@ export const STORAGE_KEYS = {
   HUSTLE_SETTINGS: 'hustle_settings',
   CHAT_HISTORY: 'hustle_chat_history',
   PLUGINS: 'hustle-plugins',
+  USAGE: 'hustle_usage',
+  PROMPTS: 'hustle-prompts',
+  PROFILES: 'hustle-profiles',
 } as const;
 
 /**
@@ -119,4 +122,202 @@ export const DEFAULTS = {
 export {
   pluginRegistry,
   hydratePlugin,
+  serializePlugin,
 } from './pluginRegistry';
+
+// Plugin signatures
+export {
+  signPlugin,
+  verifyPluginSignature,
+  exportPublicKey,
+  getPluginSigningPayload,
+} from './pluginSignature';
+export type { SignablePlugin } from './pluginSignature';
+
+// Plugin sandbox
+export {
+  PluginSandbox,
+  getPluginSandbox,
+  disposePluginSandboxes,
+} from './pluginSandbox';
+
+// Plugin permissions
+export {
+  describePluginPermissions,
+  getPermissionBindings,
+  resolveAllowedOrigins,
+  createGuardedFetch,
+} from './pluginPermissions';
+export type { PermissionSummary } from './pluginPermissions';
+
+// Plugin catalog
+export {
+  PluginCatalog,
+  getPluginCatalog,
+  parseCatalog,
+  searchCatalog,
+  getCatalogTags,
+  catalogEntryToStoredPlugin,
+  findPluginUpdates,
+  PLUGIN_CATALOG_SCHEMA_VERSION,
+} from './pluginCatalog';
+export { validatePluginEntry } from './pluginSchema';
+export type { PluginCatalogOptions, PluginCatalogSearchOptions } from './pluginCatalog';
+
+// Plugin bundles
+export {
+  createPluginBundle,
+  readPluginBundle,
+  downloadPluginBundle,
+  getPluginBundleFileName,
+  PLUGIN_BUNDLE_FORMAT,
+  PLUGIN_BUNDLE_VERSION,
+} from './pluginBundle';
+export type { PluginBundleInput } from './pluginBundle';
+
+// Plugin authoring
+export { definePlugin, defineTool, findExecutorProblems } from './definePlugin';
+export type { DefinedTool, DefinePluginOptions, ToolExecutorsFor, TypedToolExecutor } from './definePlugin';
+
+// Tool argument validation
+export {
+  validateToolArgs,
+  prepareToolArgs,
+  createToolArgumentError,
+  isToolArgumentError,
+  withArgValidation,
+} from './toolArgs';
+export type { PreparedToolArgs } from './toolArgs';
+
+// Tool timeouts and cancellation
+export {
+  withToolTimeout,
+  cancelToolCalls,
+  isToolInterrupted,
+  onToolCallStart,
+  DEFAULT_TOOL_TIMEOUT_MS,
+} from './toolTimeout';
+
+// Tool timelines
+export { getToolTimeline, getToolResultError, formatDuration } from './toolTimeline';
+
+// Usage, cost and context window
+export {
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  getToolCategories,
+  getLatestPathInfo,
+  getContextUsage,
+  DEFAULT_CONTEXT_WARNING_RATIO,
+} from './usage';
+export type { ContextUsage } from './usage';
+
+// Usage accounting
+export {
+  usageTracker,
+  BudgetExceededError,
+  isBudgetExceededError,
+  summarizeUsage,
+  getBudgetStatus,
+  getUsageDay,
+  usageToCsv,
+  downloadUsageCsv,
+} from './usageTracker';
+
+// Version comparison
+export { parseSemver, compareVersions, isNewerVersion } from './semver';
+export type { SemVer } from './semver';
+
+// Conversation stores
+export {
+  LocalStorageConversationStore,
+  IndexedDBConversationStore,
+  MemoryConversationStore,
+  defaultConversationStore,
+  getConversationScopeKey,
+  generateConversationTitle,
+} from './conversationStore';
+
+// Conversation export and import
+export {
+  createConversationExport,
+  exportConversation,
+  exportConversationJson,
+  exportConversationMarkdown,
+  exportConversationHtml,
+  readConversationExport,
+  downloadConversationExport,
+  getConversationExportFileName,
+  CONVERSATION_EXPORT_FORMAT,
+  CONVERSATION_EXPORT_VERSION,
+} from './conversationExport';
+export type { ConversationExportInput } from './conversationExport';
+
+// Share links (read-only snapshots in a URL fragment)
+export {
+  createShareLink,
+  readShareLink,
+  getShareFragment,
+  encodeConversationSnapshot,
+  decodeConversationSnapshot,
+  redactConversation,
+  SHARE_FRAGMENT_KEY,
+} from './conversationShare';
+export type { ShareLinkOptions } from './conversationShare';
+
+// Prompt library
+export {
+  promptLibrary,
+  extractPromptVariables,
+  fillPromptTemplate,
+  getRecommendedPrompts,
+  getPromptLibraryStorageKey,
+  createPromptLibraryExport,
+  readPromptLibraryExport,
+  downloadPromptLibrary,
+  PROMPT_LIBRARY_FORMAT,
+  PROMPT_LIBRARY_VERSION,
+} from './promptLibrary';
+export type { PromptLibraryInput } from './promptLibrary';
+
+// Settings profiles
+export {
+  settingsProfiles,
+  getProfilesStorageKey,
+  getSettingsStorageKey,
+  getPresetSettings,
+  DEFAULT_PROFILE_ID,
+} from './settingsProfiles';
+
+// Slash commands
+export {
+  builtInSlashCommands,
+  collectSlashCommands,
+  parseSlashCommand,
+  matchSlashCommands,
+  runSlashCommand,
+} from './slashCommands';
+
+// Message trees (branching conversations)
+export {
+  MESSAGE_TREE_ROOT,
+  createMessageTree,
+  getActivePath,
+  getActiveLeafId,
+  getMessageHistory,
+  addMessage,
+  updateMessage,
+  selectBranch,
+  getBranchInfo,
+  flattenMessageTree,
+} from './messageTree';
+
+// HTML sanitizer
+export {
+  sanitizeHtml,
+  createSanitizePolicy,
+  isSafeUrl,
+  DEFAULT_SANITIZE_POLICY,
+} from './sanitizeHtml';
+export type { SanitizePolicy } from './sanitizeHtml';
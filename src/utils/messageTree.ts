@@ -0,0 +1,194 @@
+/**
+ * Conversation Message Trees
+ *
+ * Pure helpers for MessageTree: every message points at its parent, and
+ * the conversation shown is the path from the root that follows each
+ * message's selected child. Regenerating or editing adds a sibling, so
+ * earlier replies stay available as branches.
+ *
+ * All updates return a new tree and never mutate the one passed in.
+ */
+
+import type { ConversationMessage, MessageTree, MessageBranchInfo } from '../types';
+
+/**
+ * Key in `children`/`selected` for messages without a parent
+ */
+export const MESSAGE_TREE_ROOT = 'root';
+
+/**
+ * `children`/`selected` key for a parent ID
+ */
+function parentKey(parentId: string | null | undefined): string {
+  return parentId ?? MESSAGE_TREE_ROOT;
+}
+
+/**
+ * Build a tree from messages in creation order
+ *
+ * Messages without a `parentId` (saved before branching existed) follow
+ * the message before them, so flat histories load as a single branch.
+ * Messages whose parent is missing are attached to the root, and a
+ * message with the ID of an earlier one is dropped.
+ */
+export function createMessageTree<M extends ConversationMessage>(
+  messages: M[] = [],
+  selected: Record<string, string> = {}
+): MessageTree<M> {
+  const nodes: Record<string, M> = {};
+  const children: Record<string, string[]> = {};
+  let previousId: string | null = null;
+
+  for (const message of messages) {
+    // A repeated ID would become its own parent
+    if (Object.prototype.hasOwnProperty.call(nodes, message.id)) continue;
+
+    let parentId = message.parentId === undefined ? previousId : message.parentId;
+    if (parentId !== null && !(parentId in nodes)) {
+      parentId = null;
+    }
+
+    nodes[message.id] = { ...message, parentId };
+    children[parentKey(parentId)] = [...(children[parentKey(parentId)] ?? []), message.id];
+    previousId = message.id;
+  }
+
+  // Drop selections that no longer point at a child
+  const validSelected: Record<string, string> = {};
+  for (const [key, childId] of Object.entries(selected)) {
+    if (children[key]?.includes(childId)) {
+      validSelected[key] = childId;
+    }
+  }
+
+  return { nodes, children, selected: validSelected };
+}
+
+/**
+ * Messages on the selected branch, root first
+ */
+export function getActivePath<M extends ConversationMessage>(tree: MessageTree<M>): M[] {
+  const path: M[] = [];
+  const visited = new Set<string>();
+  let key = MESSAGE_TREE_ROOT;
+
+  for (;;) {
+    const childIds = tree.children[key];
+    if (!childIds || childIds.length === 0) break;
+
+    const selected = tree.selected[key];
+    const id = selected && childIds.includes(selected) ? selected : childIds[childIds.length - 1];
+    // Stop at a cycle (e.g. a message with ID 'root') instead of looping forever
+    if (visited.has(id)) break;
+    visited.add(id);
+    path.push(tree.nodes[id]);
+    key = id;
+  }
+
+  return path;
+}
+
+/**
+ * ID of the last message on the selected branch (null for an empty tree)
+ */
+export function getActiveLeafId<M extends ConversationMessage>(tree: MessageTree<M>): string | null {
+  const path = getActivePath(tree);
+  return path.length > 0 ? path[path.length - 1].id : null;
+}
+
+/**
+ * Messages from the root to a message, inclusive
+ */
+export function getMessageHistory<M extends ConversationMessage>(tree: MessageTree<M>, id: string): M[] {
+  const history: M[] = [];
+  const visited = new Set<string>();
+  let node: M | undefined = tree.nodes[id];
+
+  while (node && !visited.has(node.id)) {
+    visited.add(node.id);
+    history.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+
+  return history;
+}
+
+/**
+ * Add a message after its parent (null for a first message) and select it
+ */
+export function addMessage<M extends ConversationMessage>(
+  tree: MessageTree<M>,
+  message: M,
+  parentId: string | null
+): MessageTree<M> {
+  if (parentId !== null && !(parentId in tree.nodes)) {
+    throw new Error(`Cannot add message "${message.id}": parent "${parentId}" is not in the conversation`);
+  }
+  if (message.id in tree.nodes) {
+    throw new Error(`Cannot add message "${message.id}": a message with that ID already exists`);
+  }
+
+  const key = parentKey(parentId);
+  return {
+    nodes: { ...tree.nodes, [message.id]: { ...message, parentId } },
+    children: { ...tree.children, [key]: [...(tree.children[key] ?? []), message.id] },
+    selected: { ...tree.selected, [key]: message.id },
+  };
+}
+
+/**
+ * Update a message in place (no-op if it doesn't exist)
+ */
+export function updateMessage<M extends ConversationMessage>(
+  tree: MessageTree<M>,
+  id: string,
+  update: Partial<M> | ((message: M) => M)
+): MessageTree<M> {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+
+  const updated = typeof update === 'function' ? update(node) : { ...node, ...update };
+  return {
+    ...tree,
+    nodes: { ...tree.nodes, [id]: { ...updated, id, parentId: node.parentId } },
+  };
+}
+
+/**
+ * Show the branch containing a message
+ *
+ * Only the message's own position changes; the branches below it keep
+ * whatever was selected there before.
+ */
+export function selectBranch<M extends ConversationMessage>(tree: MessageTree<M>, id: string): MessageTree<M> {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+
+  const key = parentKey(node.parentId);
+  if (tree.selected[key] === id) return tree;
+
+  return { ...tree, selected: { ...tree.selected, [key]: id } };
+}
+
+/**
+ * Position of a message among its siblings (null if it doesn't exist)
+ */
+export function getBranchInfo<M extends ConversationMessage>(
+  tree: MessageTree<M>,
+  id: string
+): MessageBranchInfo | null {
+  const node = tree.nodes[id];
+  if (!node) return null;
+
+  const siblingIds = tree.children[parentKey(node.parentId)] ?? [id];
+  return { index: siblingIds.indexOf(id), count: siblingIds.length, siblingIds };
+}
+
+/**
+ * Every message (creation order) plus the selected branches, for persisting
+ */
+export function flattenMessageTree<M extends ConversationMessage>(
+  tree: MessageTree<M>
+): { messages: M[]; selected: Record<string, string> } {
+  return { messages: Object.values(tree.nodes), selected: tree.selected };
+}
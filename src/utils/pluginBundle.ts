@@ -0,0 +1,219 @@
+/**
+ * Plugin Bundles
+ *
+ * Versioned JSON files for sharing installed plugins without a catalog.
+ * A bundle carries the stored plugin (tools with executorCode, hooksCode,
+ * permissions, metadata and any publisher signature) plus SHA-256 hashes:
+ * one over the same canonical payload that signatures cover, and one per
+ * piece of code, so a corrupted or hand-edited bundle is rejected before
+ * anything is installed.
+ *
+ * Integrity hashes detect modification, not authorship - a signed bundle
+ * is still verified against the instance's trusted publishers after import.
+ */
+
+import { getPluginSigningPayload } from './pluginSignature';
+import { validatePluginEntry } from './pluginSchema';
+import type {
+  StoredPlugin,
+  PluginBundle,
+  PluginBundlePreview,
+  PluginHookName,
+} from '../types';
+
+/** Identifies a JSON file as a plugin bundle */
+export const PLUGIN_BUNDLE_FORMAT = 'hustle-plugin-bundle';
+
+/** Bundle format version this SDK writes and reads */
+export const PLUGIN_BUNDLE_VERSION = 1;
+
+/** Anything importPlugin accepts */
+export type PluginBundleInput = Blob | string | PluginBundle;
+
+/** hooksCode key -> hook name */
+const HOOK_CODE_KEYS: Record<string, PluginHookName> = {
+  onRegisterCode: 'onRegister',
+  beforeRequestCode: 'beforeRequest',
+  afterResponseCode: 'afterResponse',
+  onErrorCode: 'onError',
+  migrateCode: 'migrate',
+};
+
+/**
+ * SHA-256 of a string, base64 encoded
+ */
+async function sha256(text: string): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('WebCrypto is not available');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  let binary = '';
+  for (const byte of new Uint8Array(digest)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Every piece of code in a plugin, keyed 'tool:<name>' / 'hook:<hookName>'
+ */
+function getPluginCode(plugin: PluginBundle['plugin']): Record<string, string> {
+  const code: Record<string, string> = {};
+  for (const tool of plugin.tools ?? []) {
+    if (tool.executorCode) code[`tool:${tool.name}`] = tool.executorCode;
+  }
+  for (const [key, value] of Object.entries(plugin.hooksCode ?? {})) {
+    if (value) code[`hook:${HOOK_CODE_KEYS[key] ?? key}`] = value;
+  }
+  return code;
+}
+
+/**
+ * Hash every piece of code in a plugin
+ */
+async function hashPluginCode(plugin: PluginBundle['plugin']): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const [key, code] of Object.entries(getPluginCode(plugin))) {
+    hashes[key] = await sha256(code);
+  }
+  return hashes;
+}
+
+/**
+ * Create a bundle for a stored plugin
+ * Install-specific fields (enabled state, install date, rollback copy) are left out.
+ */
+export async function createPluginBundle(stored: Omit<StoredPlugin, 'enabled'>): Promise<PluginBundle> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { installedAt, previousVersion, enabled, ...plugin } = stored as StoredPlugin;
+
+  return {
+    format: PLUGIN_BUNDLE_FORMAT,
+    bundleVersion: PLUGIN_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    plugin,
+    integrity: {
+      algorithm: 'SHA-256',
+      plugin: await sha256(getPluginSigningPayload(plugin)),
+      code: await hashPluginCode(plugin),
+    },
+  };
+}
+
+/**
+ * Read a bundle from a File/Blob, JSON string or parsed object
+ */
+async function readBundleInput(input: PluginBundleInput): Promise<unknown> {
+  if (typeof input === 'string') {
+    try {
+      return JSON.parse(input);
+    } catch {
+      throw new Error('Invalid plugin bundle: not valid JSON');
+    }
+  }
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return readBundleInput(await input.text());
+  }
+  return input;
+}
+
+/**
+ * Validate a bundle's structure - returns an error message, or null if valid
+ */
+function validateBundle(data: unknown): string | null {
+  if (!data || typeof data !== 'object') return 'bundle is not an object';
+
+  const bundle = data as Record<string, unknown>;
+  if (bundle.format !== PLUGIN_BUNDLE_FORMAT) return 'not a Hustle plugin bundle';
+  if (bundle.bundleVersion !== PLUGIN_BUNDLE_VERSION) {
+    return `unsupported bundleVersion ${String(bundle.bundleVersion)}`;
+  }
+
+  const integrity = bundle.integrity as Record<string, unknown> | undefined;
+  if (
+    !integrity ||
+    integrity.algorithm !== 'SHA-256' ||
+    typeof integrity.plugin !== 'string' ||
+    !integrity.code ||
+    typeof integrity.code !== 'object'
+  ) {
+    return 'missing integrity hashes';
+  }
+
+  const problem = validatePluginEntry(bundle.plugin);
+  return problem ? `plugin ${problem}` : null;
+}
+
+/**
+ * Validate a bundle and check its integrity hashes
+ *
+ * Nothing is installed - use the preview to show what the bundle adds.
+ * Throws with a readable message if the bundle is malformed or modified.
+ */
+export async function readPluginBundle(input: PluginBundleInput): Promise<PluginBundlePreview> {
+  const data = await readBundleInput(input);
+
+  const problem = validateBundle(data);
+  if (problem) {
+    throw new Error(`Invalid plugin bundle: ${problem}`);
+  }
+
+  const bundle = data as PluginBundle;
+  const { plugin, integrity } = bundle;
+
+  if (await sha256(getPluginSigningPayload(plugin)) !== integrity.plugin) {
+    throw new Error('Plugin bundle integrity check failed: contents were modified');
+  }
+
+  const code = getPluginCode(plugin);
+  const expected = Object.keys(integrity.code).sort();
+  if (JSON.stringify(Object.keys(code).sort()) !== JSON.stringify(expected)) {
+    throw new Error('Plugin bundle integrity check failed: code entries do not match');
+  }
+  for (const [key, value] of Object.entries(code)) {
+    if (await sha256(value) !== integrity.code[key]) {
+      throw new Error(`Plugin bundle integrity check failed: ${key} was modified`);
+    }
+  }
+
+  return {
+    bundle,
+    name: plugin.name,
+    version: plugin.version,
+    description: plugin.description,
+    tools: (plugin.tools ?? []).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      hasExecutor: Boolean(tool.executorCode),
+    })),
+    hooks: Object.keys(plugin.hooksCode ?? {}).map((key) => HOOK_CODE_KEYS[key] ?? key) as PluginHookName[],
+    permissions: plugin.permissions,
+    signed: Boolean(plugin.signature),
+  };
+}
+
+/**
+ * File name for a downloaded bundle
+ * @example getPluginBundleFileName(bundle) => 'prediction-market-alpha-1.1.0.hustle-plugin.json'
+ */
+export function getPluginBundleFileName(bundle: PluginBundle): string {
+  const safeName = bundle.plugin.name.replace(/[^a-z0-9._-]+/gi, '-');
+  return `${safeName}-${bundle.plugin.version}.hustle-plugin.json`;
+}
+
+/**
+ * Save a bundle as a file (browser only)
+ */
+export function downloadPluginBundle(bundle: PluginBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getPluginBundleFileName(bundle);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,314 @@
+/**
+ * Plugin Catalog
+ *
+ * Loads the list of installable plugins from a JSON catalog URL, falling
+ * back to the catalog bundled with the SDK when no URL is configured or
+ * the fetch fails. Entries are serialized plugins (executorCode strings),
+ * installed with pluginRegistry.registerSerialized().
+ *
+ * Catalog format (see PluginCatalogManifest):
+ *   { "schemaVersion": 1, "plugins": [{ "name": "...", "version": "...", ... }] }
+ */
+
+import { bundledPluginCatalog } from '../plugins';
+import { isNewerVersion } from './semver';
+import { validatePluginEntry } from './pluginSchema';
+import type {
+  StoredPlugin,
+  PluginCatalogEntry,
+  PluginCatalogSource,
+  PluginUpdate,
+} from '../types';
+
+/** Catalog format version this SDK understands */
+export const PLUGIN_CATALOG_SCHEMA_VERSION = 1;
+
+/** Default fetch timeout */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Options for a PluginCatalog
+ */
+export interface PluginCatalogOptions {
+  /** Catalog URL - when omitted only the fallback is used */
+  url?: string;
+  /** Entries used without a URL or when the fetch fails (default: built-in plugins) */
+  fallback?: PluginCatalogEntry[];
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Fetch timeout in milliseconds (default 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Search options
+ */
+export interface PluginCatalogSearchOptions {
+  /** Only entries carrying this tag */
+  tag?: string;
+}
+
+type CatalogListener = () => void;
+
+/**
+ * Parse and validate a catalog document
+ *
+ * Throws if the document itself is malformed; individual invalid entries
+ * are skipped (and logged) so one bad listing doesn't hide the others.
+ */
+export function parseCatalog(data: unknown): PluginCatalogEntry[] {
+  if (!data || typeof data !== 'object' || !Array.isArray((data as Record<string, unknown>).plugins)) {
+    throw new Error('Invalid plugin catalog: expected { schemaVersion, plugins: [] }');
+  }
+
+  const { schemaVersion, plugins } = data as { schemaVersion?: unknown; plugins: unknown[] };
+  if (schemaVersion !== PLUGIN_CATALOG_SCHEMA_VERSION) {
+    throw new Error(`Unsupported plugin catalog schemaVersion: ${String(schemaVersion)}`);
+  }
+
+  const entries: PluginCatalogEntry[] = [];
+  for (const entry of plugins) {
+    const problem = validatePluginEntry(entry);
+    if (problem) {
+      const name = (entry as { name?: unknown } | null)?.name;
+      console.error(`[Hustle] Skipping catalog entry ${typeof name === 'string' ? `"${name}"` : ''}: ${problem}`);
+      continue;
+    }
+    const valid = entry as PluginCatalogEntry;
+    entries.push({ ...valid, description: valid.description ?? '' });
+  }
+  return entries;
+}
+
+/**
+ * Search entries by name, tag or description
+ *
+ * Every whitespace-separated term must match. Name matches rank before
+ * tag matches, which rank before description-only matches.
+ *
+ * @example searchCatalog(entries, 'polymarket odds', { tag: 'markets' })
+ */
+export function searchCatalog(
+  entries: PluginCatalogEntry[],
+  query: string,
+  options: PluginCatalogSearchOptions = {}
+): PluginCatalogEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const tag = options.tag?.toLowerCase();
+
+  const scored = entries.flatMap((entry, index) => {
+    const tags = (entry.tags ?? []).map((t) => t.toLowerCase());
+    if (tag && !tags.includes(tag)) return [];
+
+    const name = entry.name.toLowerCase();
+    const description = entry.description.toLowerCase();
+    let score = 0;
+
+    for (const term of terms) {
+      if (name.includes(term)) score += 3;
+      else if (tags.some((t) => t.includes(term))) score += 2;
+      else if (description.includes(term)) score += 1;
+      else return [];
+    }
+    return [{ entry, score, index }];
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * All tags used in a catalog, sorted
+ */
+export function getCatalogTags(entries: PluginCatalogEntry[]): string[] {
+  return [...new Set(entries.flatMap((entry) => entry.tags ?? []))].sort();
+}
+
+/**
+ * Strip catalog-only metadata, leaving the stored plugin form
+ */
+export function catalogEntryToStoredPlugin(entry: PluginCatalogEntry): Omit<StoredPlugin, 'enabled'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { publisher, tags, homepage, versions, ...plugin } = entry;
+  return plugin;
+}
+
+/**
+ * Installed plugins that have a newer version in the catalog, by name
+ */
+export function findPluginUpdates(
+  installed: Array<Pick<StoredPlugin, 'name' | 'version'>>,
+  entries: PluginCatalogEntry[]
+): Record<string, PluginUpdate> {
+  const updates: Record<string, PluginUpdate> = {};
+  for (const plugin of installed) {
+    const entry = entries.find((e) => e.name === plugin.name);
+    if (entry && isNewerVersion(entry.version, plugin.version)) {
+      updates[plugin.name] = {
+        name: plugin.name,
+        currentVersion: plugin.version,
+        latestVersion: entry.version,
+      };
+    }
+  }
+  return updates;
+}
+
+/**
+ * A catalog of installable plugins loaded from a URL
+ *
+ * @example
+ * const catalog = new PluginCatalog({ url: 'https://plugins.example.com/catalog.json' });
+ * await catalog.load();
+ * catalog.search('markets');
+ */
+export class PluginCatalog {
+  private entries: PluginCatalogEntry[];
+  private loading: Promise<PluginCatalogEntry[]> | null = null;
+  private loaded = false;
+  private listeners: Set<CatalogListener> = new Set();
+
+  /** Where the current entries came from */
+  source: PluginCatalogSource = 'bundled';
+  /** Why the remote catalog could not be used (if it couldn't) */
+  error: Error | null = null;
+
+  constructor(private readonly options: PluginCatalogOptions = {}) {
+    this.entries = options.fallback ?? bundledPluginCatalog;
+  }
+
+  /** Catalog URL (undefined when only the fallback is used) */
+  get url(): string | undefined {
+    return this.options.url;
+  }
+
+  /** Whether a load is in flight */
+  get isLoading(): boolean {
+    return this.loading !== null;
+  }
+
+  /**
+   * Current entries (the fallback until load() completes)
+   */
+  getEntries(): PluginCatalogEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Find an entry by plugin name
+   */
+  getEntry(name: string): PluginCatalogEntry | undefined {
+    return this.entries.find((entry) => entry.name === name);
+  }
+
+  /**
+   * Search the current entries
+   */
+  search(query: string, options?: PluginCatalogSearchOptions): PluginCatalogEntry[] {
+    return searchCatalog(this.entries, query, options);
+  }
+
+  /**
+   * Load the catalog once (concurrent callers share the request)
+   */
+  load(): Promise<PluginCatalogEntry[]> {
+    if (this.loaded) return Promise.resolve(this.entries);
+    return this.refresh();
+  }
+
+  /**
+   * Fetch the catalog again, falling back to the bundled entries on failure
+   */
+  refresh(): Promise<PluginCatalogEntry[]> {
+    if (this.loading) return this.loading;
+
+    this.loading = this.fetchEntries()
+      .then((entries) => {
+        this.entries = entries;
+        this.source = 'remote';
+        this.error = null;
+        return entries;
+      })
+      .catch((err: unknown) => {
+        this.entries = this.options.fallback ?? bundledPluginCatalog;
+        this.source = 'bundled';
+        this.error = this.options.url ? (err instanceof Error ? err : new Error(String(err))) : null;
+        if (this.error) {
+          console.error('[Hustle] Failed to load plugin catalog, using bundled plugins:', this.error.message);
+        }
+        return this.entries;
+      })
+      .finally(() => {
+        this.loading = null;
+        this.loaded = true;
+        this.notify();
+      });
+
+    this.notify();
+    return this.loading;
+  }
+
+  /**
+   * Subscribe to entry/loading changes
+   */
+  subscribe(listener: CatalogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notify subscribers
+   */
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Fetch and parse the remote catalog
+   */
+  private async fetchEntries(): Promise<PluginCatalogEntry[]> {
+    const { url, timeoutMs = DEFAULT_TIMEOUT_MS } = this.options;
+    if (!url) {
+      throw new Error('No catalog URL configured');
+    }
+
+    const fetchImpl = this.options.fetch ?? fetch;
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+    const timer = setTimeout(() => controller?.abort(), timeoutMs);
+
+    try {
+      const response = await fetchImpl(url, {
+        headers: { Accept: 'application/json' },
+        signal: controller?.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Catalog request failed: ${response.status} ${response.statusText}`);
+      }
+      return parseCatalog(await response.json());
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/** Shared catalogs by URL, so every hook/component reuses one request */
+const catalogs: Map<string, PluginCatalog> = new Map();
+
+/**
+ * Get (or create) the shared catalog for a URL
+ * Without a URL this is the bundled catalog.
+ */
+export function getPluginCatalog(url?: string): PluginCatalog {
+  const key = url ?? '';
+  let catalog = catalogs.get(key);
+  if (!catalog) {
+    catalog = new PluginCatalog({ url });
+    catalogs.set(key, catalog);
+  }
+  return catalog;
+}
@@ -0,0 +1,186 @@
+/**
+ * Plugin Permissions
+ *
+ * Enforcement and presentation of the `permissions` manifest a plugin
+ * declares (network origins, DOM, storage, wallet, hooks).
+ *
+ * Enforcement depends on where the code runs:
+ * - worker: the sandbox only reaches the declared origins (hard boundary)
+ * - page: stored code is evaluated with the undeclared globals shadowed
+ *   (fetch is replaced by an origin-checked fetch, storage/DOM/wallet
+ *   globals, eval and Function resolve to undefined). This is best-effort -
+ *   the page's globals are still reachable, e.g. through
+ *   `(() => {}).constructor` - which is why 'auto' execution runs plugins
+ *   that don't need the page in the worker.
+ *
+ * Plugins without a manifest are legacy plugins and run unrestricted.
+ */
+
+import type { PluginPermissions, PluginHookName } from '../types';
+
+/**
+ * One line in the install consent dialog
+ */
+export interface PermissionSummary {
+  /** Stable key ('network', 'dom', 'storage', 'wallet', 'hooks', 'unrestricted') */
+  id: string;
+  /** Short label */
+  label: string;
+  /** Details (origins, hook names, ...) */
+  detail?: string;
+  /** Grants access to user data or the page - highlight it */
+  sensitive: boolean;
+}
+
+/** What each hook lets a plugin do, for the consent dialog */
+const HOOK_DESCRIPTIONS: Record<PluginHookName, string> = {
+  onRegister: 'runs code when installed',
+  beforeRequest: 'reads and modifies your messages before they are sent',
+  afterResponse: 'reads AI responses',
+  onError: 'receives error details',
+  migrate: 'migrates its data after an upgrade',
+};
+
+/** Globals removed from page-evaluated code by each permission */
+const NETWORK_GLOBALS = ['XMLHttpRequest', 'WebSocket', 'EventSource'];
+const STORAGE_GLOBALS = ['localStorage', 'sessionStorage', 'indexedDB', 'caches'];
+const DOM_GLOBALS = ['window', 'document', 'self', 'globalThis', 'parent', 'top'];
+const WALLET_GLOBALS = ['ethereum', 'solana', 'phantom'];
+/** Ways to evaluate strings, which would see the unshadowed globals */
+const CODE_GLOBALS = ['eval', 'Function'];
+
+/**
+ * Normalize allowlist entries to origins ('https://api.x.io/v1' -> 'https://api.x.io')
+ */
+export function toOrigins(entries: string[] = []): string[] {
+  return entries.flatMap((entry) => {
+    try {
+      return [new URL(entry).origin];
+    } catch {
+      console.error(`[Hustle] Ignoring invalid origin: ${entry}`);
+      return [];
+    }
+  });
+}
+
+/**
+ * Whether a hook may be restored for a plugin
+ */
+export function isHookPermitted(permissions: PluginPermissions | undefined, hook: PluginHookName): boolean {
+  return !permissions || (permissions.hooks ?? []).includes(hook);
+}
+
+/**
+ * Origins a plugin may reach
+ *
+ * Combines the plugin's declared origins with the host's allowlist: when
+ * both exist only origins in both are reachable, otherwise whichever one
+ * is set applies.
+ */
+export function resolveAllowedOrigins(
+  permissions: PluginPermissions | undefined,
+  hostOrigins?: string[]
+): string[] | undefined {
+  const declared = permissions ? toOrigins(permissions.network) : undefined;
+  if (!declared) return hostOrigins;
+  if (!hostOrigins) return declared;
+
+  const host = toOrigins(hostOrigins);
+  return declared.filter((origin) => host.includes(origin));
+}
+
+/**
+ * fetch that only reaches the given origins
+ */
+export function createGuardedFetch(pluginName: string, allowedOrigins: string[]): typeof fetch {
+  const origins = toOrigins(allowedOrigins);
+
+  return ((input: RequestInfo | URL, init?: RequestInit) => {
+    const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    let origin: string;
+    try {
+      origin = new URL(href, typeof location !== 'undefined' ? location.href : undefined).origin;
+    } catch {
+      return Promise.reject(new TypeError(`Invalid URL: ${href}`));
+    }
+    if (!origins.includes(origin)) {
+      return Promise.reject(
+        new TypeError(`Plugin "${pluginName}" is not permitted to fetch ${origin}`)
+      );
+    }
+    return fetch(input, init);
+  }) as typeof fetch;
+}
+
+/**
+ * Globals to shadow when evaluating a plugin's stored code in the page
+ *
+ * Returns undefined for legacy plugins (no manifest - nothing to shadow).
+ */
+export function getPermissionBindings(
+  pluginName: string,
+  permissions: PluginPermissions | undefined,
+  hostOrigins?: string[]
+): Record<string, unknown> | undefined {
+  if (!permissions) return undefined;
+
+  const bindings: Record<string, unknown> = {
+    fetch: createGuardedFetch(pluginName, resolveAllowedOrigins(permissions, hostOrigins) ?? []),
+  };
+  const denied = [
+    ...NETWORK_GLOBALS,
+    ...CODE_GLOBALS,
+    ...(permissions.storage ? [] : STORAGE_GLOBALS),
+    ...(permissions.dom ? [] : DOM_GLOBALS),
+    ...(permissions.wallet ? [] : WALLET_GLOBALS),
+  ];
+  for (const name of denied) {
+    bindings[name] = undefined;
+  }
+  return bindings;
+}
+
+/**
+ * Describe a plugin's permissions for the install consent dialog
+ */
+export function describePluginPermissions(plugin: { permissions?: PluginPermissions }): PermissionSummary[] {
+  const { permissions } = plugin;
+
+  if (!permissions) {
+    return [{
+      id: 'unrestricted',
+      label: 'Unrestricted access',
+      detail: 'This plugin does not declare permissions and can use the network, page, storage and wallet',
+      sensitive: true,
+    }];
+  }
+
+  const summary: PermissionSummary[] = [];
+  const origins = toOrigins(permissions.network);
+
+  summary.push(origins.length > 0
+    ? { id: 'network', label: 'Network access', detail: origins.map((o) => new URL(o).host).join(', '), sensitive: false }
+    : { id: 'network', label: 'No network access', sensitive: false });
+
+  if (permissions.dom) {
+    summary.push({ id: 'dom', label: 'Page and DOM access', detail: 'can show dialogs and read page state', sensitive: true });
+  }
+  if (permissions.storage) {
+    summary.push({ id: 'storage', label: 'Browser storage', detail: 'localStorage, sessionStorage and IndexedDB', sensitive: true });
+  }
+  if (permissions.wallet) {
+    summary.push({ id: 'wallet', label: 'Wallet access', detail: 'injected wallet providers', sensitive: true });
+  }
+
+  const hooks = permissions.hooks ?? [];
+  if (hooks.length > 0) {
+    summary.push({
+      id: 'hooks',
+      label: 'Lifecycle hooks',
+      detail: hooks.map((hook) => `${hook} (${HOOK_DESCRIPTIONS[hook]})`).join('; '),
+      sensitive: hooks.includes('beforeRequest') || hooks.includes('afterResponse'),
+    });
+  }
+
+  return summary;
+}
@@ -10,11 +10,37 @@
  * Executor functions are serialized as strings (executorCode) and
  * reconstituted at runtime via new Function().
  *
- * SECURITY TODO: Add signature verification before executing stored code.
- * Plugins should be signed by trusted publishers and verified before
- * any eval/Function execution occurs.
+ * Trust policy is INSTANCE-SCOPED and in-memory (configured by HustleProvider).
+ * When a policy is active, stored code is only evaluated after its Ed25519
+ * signature has been checked; failing plugins are quarantined, not run.
+ *
+ * Execution policy is INSTANCE-SCOPED and in-memory too: in 'worker' mode
+ * (and in 'auto' mode for plugins that don't need the page) executors are
+ * evaluated inside a sandboxed Web Worker, never in the page.
+ *
+ * Plugins may declare a permissions manifest; hydratePlugin enforces it.
+ *
+ * Installing a different version of an installed plugin keeps the old one
+ * as previousVersion so it can be rolled back; upgrade() also preserves
+ * enabled state and runs the plugin's migrate hook.
  */
 
+import {
+  verifyPluginSignature,
+  isTrustPolicyActive,
+  shouldQuarantine,
+} from './pluginSignature';
+import { getPluginSandbox, disposePluginSandboxes } from './pluginSandbox';
+import { createPluginBundle, readPluginBundle } from './pluginBundle';
+import { findExecutorProblems } from './definePlugin';
+import { withArgValidation } from './toolArgs';
+import { withToolTimeout } from './toolTimeout';
+import type { PluginBundleInput } from './pluginBundle';
+import {
+  getPermissionBindings,
+  resolveAllowedOrigins,
+  isHookPermitted,
+} from './pluginPermissions';
 import type {
   StoredPlugin,
   HustlePlugin,
@@ -23,6 +49,15 @@ import type {
   PluginHooks,
   SerializedToolDefinition,
   SerializedHooks,
+  PluginTrustPolicy,
+  PluginExecutionPolicy,
+  PluginExecutionMode,
+  PluginVerification,
+  HydratePluginOptions,
+  PreviousPluginVersion,
+  PluginBundle,
+  ToolResultRenderer,
+  SlashCommand,
 } from '../types';
 
 /**
@@ -49,19 +84,29 @@ function serializeFunction(fn: (...args: any[]) => any): string {
   return fn.toString();
 }
 
+/**
+ * Evaluate stored function code
+ *
+ * The code gets the global scope only (not this module's). With bindings,
+ * the wrapper's parameters shadow the named globals (see
+ * getPermissionBindings).
+ */
+function evaluateStoredCode(code: string, bindings: Record<string, unknown> = {}): unknown {
+  const names = Object.keys(bindings);
+  const wrapper = new Function(...names, `return (${code});`);
+  return wrapper(...names.map((name) => bindings[name]));
+}
+
 /**
  * Deserialize a function string back to executable function
  *
- * FIXME: Add signature verification before execution
- * This is a security-sensitive operation that executes stored code.
+ * This is a security-sensitive operation that executes stored code -
+ * only call it after hydratePlugin has applied the trust policy.
  */
-function deserializeExecutor(code: string): ToolExecutor {
-  // Extract function body - handles arrow functions and regular functions
+function deserializeExecutor(code: string, bindings?: Record<string, unknown>): ToolExecutor {
   // The stored code is the full function: "(args) => { ... }" or "async (args) => { ... }"
-  // We wrap it in parentheses and eval to get the function reference
   try {
-    // eslint-disable-next-line no-eval
-    return eval(`(${code})`) as ToolExecutor;
+    return evaluateStoredCode(code, bindings) as ToolExecutor;
   } catch (err) {
     console.error('[Hustle] Failed to deserialize executor:', err);
     // Return a no-op executor that reports the error
@@ -71,14 +116,11 @@ function deserializeExecutor(code: string): ToolExecutor {
 
 /**
  * Deserialize a hook function string
- *
- * FIXME: Add signature verification before execution
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function deserializeHook<T extends (...args: any[]) => any>(code: string): T {
+function deserializeHook<T extends (...args: any[]) => any>(code: string, bindings?: Record<string, unknown>): T {
   try {
-    // eslint-disable-next-line no-eval
-    return eval(`(${code})`) as T;
+    return evaluateStoredCode(code, bindings) as T;
   } catch (err) {
     console.error('[Hustle] Failed to deserialize hook:', err);
     return (() => {}) as T;
@@ -122,53 +164,169 @@ function serializeHooks(hooks: PluginHooks | undefined): SerializedHooks | undef
   if (hooks.onError) {
     serialized.onErrorCode = serializeFunction(hooks.onError);
   }
+  if (hooks.migrate) {
+    serialized.migrateCode = serializeFunction(hooks.migrate);
+  }
 
   return Object.keys(serialized).length > 0 ? serialized : undefined;
 }
 
+/**
+ * Serialize a plugin to its stored form (without enabled state)
+ * This is the form publishers sign with signPlugin().
+ */
+export function serializePlugin(plugin: HustlePlugin): Omit<StoredPlugin, 'enabled'> {
+  return {
+    name: plugin.name,
+    version: plugin.version,
+    description: plugin.description,
+    tools: serializePluginTools(plugin.tools, plugin.executors),
+    hooksCode: serializeHooks(plugin.hooks),
+    permissions: plugin.permissions,
+    prompts: plugin.prompts,
+    signature: plugin.signature,
+    publicKeyId: plugin.publicKeyId,
+  };
+}
+
+/**
+ * Tool result renderers of registered plugins, by plugin name
+ * Components can't be serialized, so they only live for the page session.
+ */
+const toolResultRenderers: Map<string, ToolResultRenderer> = new Map();
+
+/**
+ * Slash commands of registered plugins, by plugin name (in memory, like renderers)
+ */
+const pluginCommands: Map<string, SlashCommand[]> = new Map();
+
+/**
+ * Whether a plugin's executors run in the worker sandbox
+ *
+ * In auto mode, plugins with a manifest that grants no page access run in
+ * the worker (when Workers exist); legacy plugins and plugins granted dom,
+ * storage or wallet run in the page. DOM plugins always run in the page.
+ */
+function runsInWorker(permissions: StoredPlugin['permissions'], mode: PluginExecutionMode): boolean {
+  if (permissions?.dom) return false;
+  if (mode === 'worker') return true;
+  // auto: page shadowing is best-effort, so plugins that don't need the page are sandboxed
+  return mode === 'auto' &&
+    permissions !== undefined &&
+    !permissions.storage &&
+    !permissions.wallet &&
+    typeof Worker !== 'undefined';
+}
+
 /**
  * Hydrate a stored plugin - reconstitute executors from executorCode
  *
- * FIXME: Add signature verification before execution
+ * Pass the result of verifyPluginSignature in options to gate evaluation:
+ * plugins with an invalid signature (or any non-verified plugin when
+ * requireSignature is set) are returned quarantined, without executors or
+ * hooks, and their code is never evaluated.
+ *
+ * Executors that run in the worker (see runsInWorker) are proxies into a
+ * sandbox; hooks are still evaluated in the page.
+ *
+ * A declared permissions manifest is enforced here: worker executors only
+ * reach the declared origins, page code is evaluated with undeclared
+ * globals shadowed (best-effort), and undeclared hooks are not restored.
+ *
+ * Executors are wrapped with withArgValidation: schema defaults are filled
+ * in and calls that don't match the tool's parameters return a
+ * ToolArgumentError to the model instead of running. They are also bounded
+ * by the tool's timeoutMs and cancelled by cancelToolCalls(instanceId).
+ *
+ * The renderToolResult component and slash commands of a plugin registered
+ * in this session are attached again (they aren't part of the stored form).
  */
-export function hydratePlugin(stored: StoredPlugin): HydratedPlugin {
-  // Reconstitute executors from executorCode strings
-  const executors: Record<string, ToolExecutor> = {};
+export function hydratePlugin(stored: StoredPlugin, options: HydratePluginOptions = {}): HydratedPlugin {
+  const { verification, requireSignature = false, execution, instanceId } = options;
+  const { permissions } = stored;
+
+  // Refuse before any eval happens
+  if (shouldQuarantine(verification, requireSignature)) {
+    return {
+      ...stored,
+      executors: undefined,
+      hooks: undefined,
+      verification,
+      quarantined: true,
+    };
+  }
 
-  if (stored.tools) {
+  const bindings = getPermissionBindings(stored.name, permissions, execution?.allowedOrigins);
+
+  // Reconstitute executors from executorCode strings
+  let executors: Record<string, ToolExecutor> = {};
+
+  if (runsInWorker(permissions, execution?.mode ?? 'auto')) {
+    executors = getPluginSandbox(stored, {
+      ...execution,
+      allowedOrigins: resolveAllowedOrigins(permissions, execution?.allowedOrigins),
+    }).createExecutors();
+  } else if (stored.tools) {
     for (const tool of stored.tools) {
       if (tool.executorCode) {
-        executors[tool.name] = deserializeExecutor(tool.executorCode);
+        executors[tool.name] = deserializeExecutor(tool.executorCode, bindings);
       }
     }
   }
 
-  // Reconstitute hooks from hooksCode strings
+  // Check every call against the tool's schema before dispatch, and bound the valid ones by the
+  // tool's timeout (so invalid calls never count as started)
+  for (const tool of stored.tools ?? []) {
+    if (executors[tool.name]) {
+      executors[tool.name] = withArgValidation(tool, withToolTimeout(tool, executors[tool.name], instanceId));
+    }
+  }
+
+  // Reconstitute declared hooks from hooksCode strings
   let hooks: PluginHooks | undefined;
 
   if (stored.hooksCode) {
+    const code = stored.hooksCode;
     hooks = {};
-    if (stored.hooksCode.onRegisterCode) {
-      hooks.onRegister = deserializeHook(stored.hooksCode.onRegisterCode);
+    if (code.onRegisterCode && isHookPermitted(permissions, 'onRegister')) {
+      hooks.onRegister = deserializeHook(code.onRegisterCode, bindings);
+    }
+    if (code.beforeRequestCode && isHookPermitted(permissions, 'beforeRequest')) {
+      hooks.beforeRequest = deserializeHook(code.beforeRequestCode, bindings);
     }
-    if (stored.hooksCode.beforeRequestCode) {
-      hooks.beforeRequest = deserializeHook(stored.hooksCode.beforeRequestCode);
+    if (code.afterResponseCode && isHookPermitted(permissions, 'afterResponse')) {
+      hooks.afterResponse = deserializeHook(code.afterResponseCode, bindings);
     }
-    if (stored.hooksCode.afterResponseCode) {
-      hooks.afterResponse = deserializeHook(stored.hooksCode.afterResponseCode);
+    if (code.onErrorCode && isHookPermitted(permissions, 'onError')) {
+      hooks.onError = deserializeHook(code.onErrorCode, bindings);
     }
-    if (stored.hooksCode.onErrorCode) {
-      hooks.onError = deserializeHook(stored.hooksCode.onErrorCode);
+    if (code.migrateCode && isHookPermitted(permissions, 'migrate')) {
+      hooks.migrate = deserializeHook(code.migrateCode, bindings);
     }
   }
 
+  const renderToolResult = toolResultRenderers.get(stored.name);
+  const commands = pluginCommands.get(stored.name);
+
   return {
     ...stored,
     executors: Object.keys(executors).length > 0 ? executors : undefined,
     hooks,
+    ...(verification ? { verification } : {}),
+    ...(renderToolResult ? { renderToolResult } : {}),
+    ...(commands ? { commands } : {}),
   };
 }
 
+/**
+ * Snapshot of an installed plugin to keep for rollback (one level deep)
+ */
+function toPreviousVersion(plugin: Omit<StoredPlugin, 'enabled'>): PreviousPluginVersion {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { previousVersion, ...snapshot } = plugin;
+  return snapshot;
+}
+
 /**
  * Plugin Registry class
  *
@@ -178,6 +336,9 @@ export function hydratePlugin(stored: StoredPlugin): HydratedPlugin {
  */
 class PluginRegistry {
   private listeners: Map<string, Set<PluginChangeCallback>> = new Map();
+  private trustPolicies: Map<string, PluginTrustPolicy> = new Map();
+  private executionPolicies: Map<string, PluginExecutionPolicy> = new Map();
+  private catalogUrls: Map<string, string> = new Map();
 
   /**
    * Get listeners for a specific instance
@@ -249,24 +410,70 @@ class PluginRegistry {
 
   /**
    * Register a new plugin (global - available to all instances)
-   * Serializes executors as executorCode for persistence
+   * Serializes executors as executorCode for persistence; renderToolResult
+   * and commands are kept in memory for this page session.
+   * Throws if a tool has no executor or an executor has no tool.
    *
    * @param plugin The plugin to install
    * @param enabled Initial enabled state for this instance (default: true)
    * @param instanceId Instance to set initial enabled state for
    */
   register(plugin: HustlePlugin, enabled = true, instanceId: string = 'default'): void {
-    // Add to global installed list with serialized executors
+    const problems = findExecutorProblems(plugin.tools, plugin.executors);
+    if (problems.length > 0) {
+      throw new Error(`Invalid plugin "${plugin.name}": ${problems.join('; ')}`);
+    }
+    if (plugin.renderToolResult) {
+      toolResultRenderers.set(plugin.name, plugin.renderToolResult);
+    } else {
+      toolResultRenderers.delete(plugin.name);
+    }
+    if (plugin.commands?.length) {
+      pluginCommands.set(plugin.name, plugin.commands);
+    } else {
+      pluginCommands.delete(plugin.name);
+    }
+    this.registerSerialized(serializePlugin(plugin), enabled, instanceId);
+  }
+
+  /**
+   * Register an already-serialized plugin (e.g. a catalog entry)
+   * Its executorCode/hooksCode are stored as-is and evaluated on hydration
+   *
+   * @param plugin The serialized plugin to install
+   * @param enabled Initial enabled state for this instance (default: true)
+   * @param instanceId Instance to set initial enabled state for
+   */
+  registerSerialized(
+    plugin: Omit<StoredPlugin, 'enabled'>,
+    enabled = true,
+    instanceId: string = 'default'
+  ): void {
+    this.saveInstalledPlugin(plugin);
+
+    // Set initial enabled state for this instance
+    const enabledState = this.loadEnabledState(instanceId);
+    enabledState[plugin.name] = enabled;
+    this.saveEnabledState(enabledState, instanceId);
+
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Add or replace a plugin in the global installed list
+   * Replacing a different version keeps the old one as previousVersion.
+   */
+  private saveInstalledPlugin(plugin: Omit<StoredPlugin, 'enabled'>): Omit<StoredPlugin, 'enabled'> {
     const installed = this.loadInstalledPlugins();
     const existing = installed.findIndex((p) => p.name === plugin.name);
+    const current = existing >= 0 ? installed[existing] : undefined;
 
     const storedPlugin: Omit<StoredPlugin, 'enabled'> = {
-      name: plugin.name,
-      version: plugin.version,
-      description: plugin.description,
-      tools: serializePluginTools(plugin.tools, plugin.executors),
-      hooksCode: serializeHooks(plugin.hooks),
+      ...plugin,
       installedAt: new Date().toISOString(),
+      previousVersion: current && current.version !== plugin.version
+        ? toPreviousVersion(current)
+        : current?.previousVersion,
     };
 
     if (existing >= 0) {
@@ -276,15 +483,112 @@ class PluginRegistry {
     }
 
     this.saveInstalledPlugins(installed);
+    return storedPlugin;
+  }
 
-    // Set initial enabled state for this instance
-    const enabledState = this.loadEnabledState(instanceId);
-    enabledState[plugin.name] = enabled;
-    this.saveEnabledState(enabledState, instanceId);
+  /**
+   * Upgrade an installed plugin to a new version
+   *
+   * Enabled state is preserved for every instance. If the new version has a
+   * migrate hook it runs (with the old version) before listeners are
+   * notified; a failing migration rolls the upgrade back and rethrows.
+   *
+   * @param plugin The new version, serialized (e.g. a catalog entry)
+   * @param instanceId Instance whose trust/execution policy applies to the migration
+   */
+  async upgrade(plugin: Omit<StoredPlugin, 'enabled'>, instanceId: string = 'default'): Promise<StoredPlugin> {
+    const current = this.loadInstalledPlugins().find((p) => p.name === plugin.name);
+    if (!current) {
+      throw new Error(`Plugin "${plugin.name}" is not installed`);
+    }
+
+    const fromVersion = current.version;
+    const stored = this.saveInstalledPlugin(plugin);
+    const enabled = this.loadEnabledState(instanceId)[plugin.name] ?? true;
+
+    if (fromVersion !== stored.version) {
+      try {
+        await this.runMigration({ ...stored, enabled }, fromVersion, instanceId);
+      } catch (err) {
+        this.rollback(plugin.name, instanceId);
+        const reason = err instanceof Error ? err.message : String(err);
+        throw new Error(`Migration of "${plugin.name}" from ${fromVersion} to ${stored.version} failed: ${reason}`);
+      }
+    }
+
+    this.notifyListeners(instanceId);
+    return { ...stored, enabled };
+  }
+
+  /**
+   * Run a plugin's migrate hook under an instance's policies
+   * Quarantined plugins and plugins without the hook are skipped.
+   */
+  private async runMigration(plugin: StoredPlugin, fromVersion: string, instanceId: string): Promise<void> {
+    if (!plugin.hooksCode?.migrateCode) return;
+
+    const policy = this.getTrustPolicy(instanceId);
+    const hydrated = hydratePlugin(plugin, {
+      verification: policy ? await this.verifyPlugin(plugin, instanceId) : undefined,
+      requireSignature: Boolean(policy?.requireSignatures),
+      execution: this.getExecutionPolicy(instanceId),
+      instanceId,
+    });
+
+    if (!hydrated.quarantined) {
+      await hydrated.hooks?.migrate?.(fromVersion);
+    }
+  }
+
+  /**
+   * Restore the version a plugin was upgraded from
+   * Enabled state is preserved; migrations are not reversed.
+   */
+  rollback(pluginName: string, instanceId: string = 'default'): void {
+    const installed = this.loadInstalledPlugins();
+    const index = installed.findIndex((p) => p.name === pluginName);
+    const previous = index >= 0 ? installed[index].previousVersion : undefined;
+
+    if (!previous) {
+      throw new Error(`Plugin "${pluginName}" has no previous version to roll back to`);
+    }
 
+    installed[index] = previous;
+    this.saveInstalledPlugins(installed);
     this.notifyListeners(instanceId);
   }
 
+  /**
+   * Export an installed plugin as a shareable bundle with integrity hashes
+   */
+  async exportPlugin(pluginName: string): Promise<PluginBundle> {
+    const plugin = this.loadInstalledPlugins().find((p) => p.name === pluginName);
+    if (!plugin) {
+      throw new Error(`Plugin "${pluginName}" is not installed`);
+    }
+    return createPluginBundle(plugin);
+  }
+
+  /**
+   * Install a plugin from a bundle (File, JSON string or parsed bundle)
+   *
+   * The bundle is validated and its integrity hashes checked first; a
+   * malformed or modified bundle throws and nothing is installed.
+   * Importing over an installed plugin keeps the old version for rollback.
+   */
+  async importPlugin(input: PluginBundleInput, instanceId: string = 'default'): Promise<StoredPlugin> {
+    const { bundle } = await readPluginBundle(input);
+    const { name, version, description, tools, hooksCode, permissions, prompts, signature, publicKeyId } = bundle.plugin;
+
+    // Only the fields covered by the integrity hash are stored
+    this.registerSerialized(
+      { name, version, description, tools, hooksCode, permissions, prompts, signature, publicKeyId },
+      true,
+      instanceId
+    );
+    return this.getPlugin(name, instanceId)!;
+  }
+
   /**
    * Unregister a plugin (global - removes from all instances)
    */
@@ -292,6 +596,9 @@ class PluginRegistry {
     // Remove from global list
     const installed = this.loadInstalledPlugins().filter((p) => p.name !== pluginName);
     this.saveInstalledPlugins(installed);
+    disposePluginSandboxes(pluginName);
+    toolResultRenderers.delete(pluginName);
+    pluginCommands.delete(pluginName);
 
     // Clean up enabled state for this instance
     const enabledState = this.loadEnabledState(instanceId);
@@ -327,9 +634,108 @@ class PluginRegistry {
 
   /**
    * Get all enabled plugins for an instance (hydrated with executors)
+   *
+   * Signatures are not checked here; if the instance requires signatures,
+   * every plugin comes back quarantined. Use getVerifiedPlugins instead.
    */
   getEnabledPlugins(instanceId: string = 'default'): HydratedPlugin[] {
-    return this.loadFromStorage(instanceId).filter((p) => p.enabled).map(hydratePlugin);
+    const requireSignature = Boolean(this.getTrustPolicy(instanceId)?.requireSignatures);
+    const execution = this.getExecutionPolicy(instanceId);
+    return this.loadFromStorage(instanceId)
+      .filter((p) => p.enabled)
+      .map((p) => hydratePlugin(p, { requireSignature, execution, instanceId }));
+  }
+
+  /**
+   * Get all enabled plugins for an instance, verified against its trust policy
+   * Quarantined plugins are included (with quarantined: true) so callers can surface them.
+   */
+  async getVerifiedPlugins(instanceId: string = 'default'): Promise<HydratedPlugin[]> {
+    const policy = this.getTrustPolicy(instanceId);
+    const enabled = this.loadFromStorage(instanceId).filter((p) => p.enabled);
+
+    return Promise.all(
+      enabled.map(async (p) => hydratePlugin(p, {
+        verification: await this.verifyPlugin(p, instanceId),
+        requireSignature: Boolean(policy?.requireSignatures),
+        execution: this.getExecutionPolicy(instanceId),
+        instanceId,
+      }))
+    );
+  }
+
+  /**
+   * Verify a plugin's signature against an instance's trusted publishers
+   */
+  verifyPlugin(plugin: StoredPlugin, instanceId: string = 'default'): Promise<PluginVerification> {
+    return verifyPluginSignature(plugin, this.getTrustPolicy(instanceId)?.trustedPublishers);
+  }
+
+  /**
+   * Set the trust policy for an instance (in-memory, not persisted)
+   * Listeners are notified so hooks re-verify installed plugins.
+   */
+  setTrustPolicy(policy: PluginTrustPolicy | undefined, instanceId: string = 'default'): void {
+    const current = this.trustPolicies.get(instanceId);
+    if (JSON.stringify(current) === JSON.stringify(policy)) return;
+
+    if (isTrustPolicyActive(policy)) {
+      this.trustPolicies.set(instanceId, policy!);
+    } else {
+      this.trustPolicies.delete(instanceId);
+    }
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Get the trust policy for an instance (undefined when none is active)
+   */
+  getTrustPolicy(instanceId: string = 'default'): PluginTrustPolicy | undefined {
+    return this.trustPolicies.get(instanceId);
+  }
+
+  /**
+   * Set where executors run for an instance (in-memory, not persisted)
+   */
+  setExecutionPolicy(policy: PluginExecutionPolicy | undefined, instanceId: string = 'default'): void {
+    const current = this.executionPolicies.get(instanceId);
+    if (JSON.stringify(current) === JSON.stringify(policy)) return;
+
+    if (policy) {
+      this.executionPolicies.set(instanceId, policy);
+    } else {
+      this.executionPolicies.delete(instanceId);
+    }
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Get the execution policy for an instance (undefined means auto)
+   */
+  getExecutionPolicy(instanceId: string = 'default'): PluginExecutionPolicy | undefined {
+    return this.executionPolicies.get(instanceId);
+  }
+
+  /**
+   * Set the plugin catalog URL for an instance (in-memory, not persisted)
+   * usePlugins checks installed plugins against this catalog for updates.
+   */
+  setCatalogUrl(url: string | undefined, instanceId: string = 'default'): void {
+    if (this.catalogUrls.get(instanceId) === url) return;
+
+    if (url) {
+      this.catalogUrls.set(instanceId, url);
+    } else {
+      this.catalogUrls.delete(instanceId);
+    }
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Get the plugin catalog URL for an instance (undefined means the bundled catalog)
+   */
+  getCatalogUrl(instanceId: string = 'default'): string | undefined {
+    return this.catalogUrls.get(instanceId);
   }
 
   /**
@@ -365,6 +771,8 @@ class PluginRegistry {
   clearAll(): void {
     if (typeof window === 'undefined') return;
     localStorage.removeItem(PLUGINS_KEY);
+    toolResultRenderers.clear();
+    pluginCommands.clear();
     // Note: This doesn't clear instance-specific enabled states
   }
 }
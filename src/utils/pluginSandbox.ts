@@ -0,0 +1,379 @@
+/**
+ * Plugin Sandbox
+ *
+ * Runs plugin executors inside a dedicated Web Worker instead of the page.
+ * The worker has no access to window, the DOM, localStorage or the auth
+ * session; executors talk to the page only through a message bridge.
+ *
+ * Inside the worker (strict mode):
+ * - fetch is wrapped so only allowlisted origins can be reached
+ * - other network/storage capabilities (XHR, WebSocket, importScripts,
+ *   IndexedDB, ...) are removed, and so are eval and the Function
+ *   constructors; if any is still reachable afterwards the runtime
+ *   refuses to run tools
+ * - executors whose source contains `import` anywhere are refused, so
+ *   dynamic import() can't load code from other origins (without eval or
+ *   Function, code can't build an import() from strings)
+ *
+ * On the page side each call gets a timeout (the tool's timeoutMs, else
+ * the sandbox's; 0 means none); a call that hangs or is aborted terminates the worker
+ * (a fresh one is started for the next call).
+ *
+ * Executors keep the ToolExecutor signature, so plugins don't change.
+ * Arguments and results must be structured-cloneable (plain JSON is).
+ */
+
+import { toOrigins } from './pluginPermissions';
+import type { StoredPlugin, ToolExecutor, PluginSandboxOptions } from '../types';
+
+/** Default per-call timeout */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Messages sent from the page to the worker
+ */
+export type SandboxRequest =
+  | { type: 'init'; tools: Array<{ name: string; code: string }>; allowedOrigins: string[] }
+  | { type: 'call'; id: number; tool: string; args: Record<string, unknown> };
+
+/**
+ * Messages sent from the worker to the page
+ */
+export type SandboxResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: string };
+
+/**
+ * Minimal view of the worker global scope used by the runtime
+ * (lets tests drive the runtime with a fake scope)
+ */
+export interface SandboxScope {
+  fetch?: typeof fetch;
+  location?: { href: string };
+  postMessage: (message: SandboxResponse) => void;
+  onmessage: ((event: { data: SandboxRequest }) => void) | null;
+  [capability: string]: unknown;
+}
+
+/**
+ * Worker runtime
+ *
+ * Stringified into the worker source, so it must be fully self-contained:
+ * no imports, no references to anything outside this function.
+ */
+export function sandboxRuntime(scope: SandboxScope): void {
+  let allowedOrigins: string[] = [];
+  const executors: Record<string, (args: Record<string, unknown>) => unknown> = {};
+  const nativeFetch = scope.fetch ? scope.fetch.bind(scope) : undefined;
+
+  // Only allowlisted origins are reachable
+  scope.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+    const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    let origin: string;
+    try {
+      origin = new URL(href, scope.location?.href).origin;
+    } catch {
+      return Promise.reject(new TypeError(`Invalid URL: ${href}`));
+    }
+    if (!nativeFetch || allowedOrigins.indexOf(origin) === -1) {
+      return Promise.reject(new TypeError(`Sandbox: fetch to ${origin} is not allowed`));
+    }
+    return nativeFetch(input, init);
+  }) as typeof fetch;
+
+  // Kept for evaluating executors before eval itself is removed
+  const evaluate = eval;
+  const functionPrototypes = typeof scope.Function === 'function'
+    ? [
+        (scope.Function as typeof Function).prototype,
+        Object.getPrototypeOf(async function () {}),
+        Object.getPrototypeOf(function* () {}),
+        Object.getPrototypeOf(async function* () {}),
+      ]
+    : [];
+
+  // Remove every other way out of the worker. Getter-only globals (indexedDB,
+  // caches) live on the prototype, so they are shadowed with an own property.
+  const blocked = [
+    'XMLHttpRequest', 'WebSocket', 'WebSocketStream', 'EventSource', 'importScripts',
+    'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker', 'WebTransport',
+    'eval', 'Function',
+  ];
+  const remaining: string[] = [];
+  for (const name of blocked) {
+    try {
+      delete scope[name];
+    } catch {
+      // Non-configurable - shadowing below may still work
+    }
+    if (scope[name] !== undefined) {
+      try {
+        Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+      } catch {
+        // Checked below
+      }
+    }
+    if (scope[name] !== undefined) remaining.push(name);
+  }
+
+  // (() => {}).constructor is Function too - remove it from every kind of function
+  for (const prototype of functionPrototypes) {
+    try {
+      Object.defineProperty(prototype, 'constructor', { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Checked below
+    }
+    if (prototype.constructor !== undefined) remaining.push('Function constructor');
+  }
+
+  // Timers would evaluate string handlers like eval
+  for (const name of ['setTimeout', 'setInterval']) {
+    const timer = scope[name];
+    if (typeof timer !== 'function') continue;
+    const guarded = (handler: unknown, ...rest: unknown[]) => {
+      if (typeof handler !== 'function') {
+        throw new TypeError(`Sandbox: ${name} needs a function`);
+      }
+      return timer.call(scope, handler, ...rest);
+    };
+    try {
+      Object.defineProperty(scope, name, { value: guarded, writable: false, configurable: false });
+    } catch {
+      // Checked below
+    }
+    if (scope[name] !== guarded) remaining.push(name);
+  }
+
+  const lockdownError = remaining.length > 0
+    ? `Sandbox: could not remove ${remaining.join(', ')} - refusing to run tools`
+    : null;
+
+  scope.onmessage = async (event) => {
+    const message = event.data;
+
+    if (message.type === 'init') {
+      allowedOrigins = message.allowedOrigins;
+      if (lockdownError) return;
+      for (const tool of message.tools) {
+        try {
+          // Any `import` token at all - comments and strings included, since telling
+          // them apart takes a full parser (keywords can't be written with escapes)
+          if (/(?<![\w$])import(?![\w$])/.test(tool.code)) {
+            throw new Error('dynamic import() is not allowed in the sandbox');
+          }
+          // Indirect eval (through a copy): code runs in the worker's global scope (guarded fetch)
+          executors[tool.name] = evaluate(`(${tool.code})`);
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : String(err);
+          executors[tool.name] = () => ({ error: 'Failed to deserialize executor', reason });
+        }
+      }
+      return;
+    }
+
+    if (message.type === 'call') {
+      try {
+        if (lockdownError) {
+          throw new Error(lockdownError);
+        }
+        const executor = executors[message.tool];
+        if (!executor) {
+          throw new Error(`Unknown tool: ${message.tool}`);
+        }
+        const result = await executor(message.args);
+        scope.postMessage({ type: 'result', id: message.id, result });
+      } catch (err) {
+        scope.postMessage({
+          type: 'error',
+          id: message.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  };
+}
+
+/**
+ * Pending call bookkeeping
+ */
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A worker-backed sandbox for one plugin's executors
+ */
+export class PluginSandbox {
+  private worker: Worker | null = null;
+  private pending: Map<number, PendingCall> = new Map();
+  private nextId = 0;
+
+  constructor(
+    private readonly tools: Array<{ name: string; code: string; timeoutMs?: number }>,
+    private readonly options: PluginSandboxOptions = {}
+  ) {}
+
+  /**
+   * Start the worker on first use
+   */
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL.createObjectURL !== 'function') {
+      throw new Error('Web Workers are not available in this environment');
+    }
+
+    // Strict mode, so failed removals throw instead of passing silently
+    const source = `'use strict';\n(${sandboxRuntime.toString()})(self);`;
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+
+    try {
+      this.worker = new Worker(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+
+    this.worker.onmessage = (event: MessageEvent<SandboxResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault?.();
+      this.terminate(`Sandbox error: ${event.message || 'worker crashed'}`);
+    };
+
+    const init: SandboxRequest = {
+      type: 'init',
+      tools: this.tools.map(({ name, code }) => ({ name, code })),
+      allowedOrigins: toOrigins(this.options.allowedOrigins),
+    };
+    this.worker.postMessage(init);
+
+    return this.worker;
+  }
+
+  /**
+   * Settle a pending call from a worker response
+   */
+  private handleMessage(message: SandboxResponse): void {
+    const call = this.pending.get(message.id);
+    if (!call) return;
+
+    clearTimeout(call.timer);
+    this.pending.delete(message.id);
+
+    if (message.type === 'result') {
+      call.resolve(message.result);
+    } else {
+      call.reject(new Error(message.error));
+    }
+  }
+
+  /**
+   * Call a tool inside the sandbox
+   * Aborting the signal rejects the call and restarts the worker.
+   */
+  call(toolName: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`Tool "${toolName}" was aborted`));
+        return;
+      }
+
+      let worker: Worker;
+      try {
+        worker = this.getWorker();
+      } catch (err) {
+        reject(err);
+        return;
+      }
+
+      const id = ++this.nextId;
+      const toolTimeoutMs = this.tools.find((tool) => tool.name === toolName)?.timeoutMs;
+      const timeoutMs = toolTimeoutMs ?? this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+      // 0 means no limit
+      const timer = timeoutMs > 0 ? setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Tool "${toolName}" timed out after ${timeoutMs}ms`));
+        // The executor may be stuck in a loop - kill the worker
+        this.terminate(`Sandbox restarted after "${toolName}" timed out`);
+      }, timeoutMs) : undefined;
+
+      this.pending.set(id, { resolve, reject, timer });
+
+      // Code in the worker can't observe the signal - stop it by restarting the worker
+      signal?.addEventListener('abort', () => {
+        if (this.pending.has(id)) {
+          this.terminate(`Tool "${toolName}" was aborted`);
+        }
+      }, { once: true });
+
+      const request: SandboxRequest = { type: 'call', id, tool: toolName, args };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Executors that proxy into the sandbox (same signature as page executors)
+   */
+  createExecutors(): Record<string, ToolExecutor> {
+    const executors: Record<string, ToolExecutor> = {};
+    for (const tool of this.tools) {
+      executors[tool.name] = (args, context) => this.call(tool.name, args, context?.signal);
+    }
+    return executors;
+  }
+
+  /**
+   * Stop the worker and reject in-flight calls
+   */
+  terminate(reason = 'Sandbox terminated'): void {
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer);
+      call.reject(new Error(reason));
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Sandboxes by plugin name + options, reused across hydrations while the
+ * code is unchanged (usePlugins hydrates on every render)
+ */
+const sandboxes: Map<string, { pluginName: string; code: string; sandbox: PluginSandbox }> = new Map();
+
+/**
+ * Get (or create) the sandbox for a stored plugin
+ */
+export function getPluginSandbox(plugin: StoredPlugin, options: PluginSandboxOptions = {}): PluginSandbox {
+  const tools = (plugin.tools ?? [])
+    .filter((tool) => tool.executorCode)
+    .map((tool) => ({ name: tool.name, code: tool.executorCode!, timeoutMs: tool.timeoutMs }));
+  const key = JSON.stringify([plugin.name, options.allowedOrigins ?? [], options.timeoutMs ?? null]);
+  const code = JSON.stringify(tools);
+
+  const existing = sandboxes.get(key);
+  if (existing?.code === code) {
+    return existing.sandbox;
+  }
+
+  existing?.sandbox.terminate('Plugin was updated');
+  const sandbox = new PluginSandbox(tools, options);
+  sandboxes.set(key, { pluginName: plugin.name, code, sandbox });
+  return sandbox;
+}
+
+/**
+ * Terminate sandboxes (one plugin, or all when no name is given)
+ */
+export function disposePluginSandboxes(pluginName?: string): void {
+  for (const [key, entry] of sandboxes) {
+    if (pluginName === undefined || entry.pluginName === pluginName) {
+      entry.sandbox.terminate();
+      sandboxes.delete(key);
+    }
+  }
+}
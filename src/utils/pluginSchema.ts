@@ -0,0 +1,58 @@
+/**
+ * Plugin Schema
+ *
+ * Structural validation for serialized plugins that arrive from outside
+ * the app (catalog entries, imported bundles) before they are stored.
+ */
+
+/**
+ * Check a serialized plugin (catalog entry or bundle) - returns an error
+ * message, or null if valid
+ */
+export function validatePluginEntry(entry: unknown): string | null {
+  if (!entry || typeof entry !== 'object') return 'entry is not an object';
+
+  const e = entry as Record<string, unknown>;
+  if (typeof e.name !== 'string' || !e.name) return 'missing name';
+  if (typeof e.version !== 'string' || !e.version) return 'missing version';
+  if (e.description !== undefined && typeof e.description !== 'string') return 'description must be a string';
+  if (e.tags !== undefined && (!Array.isArray(e.tags) || e.tags.some((t) => typeof t !== 'string'))) {
+    return 'tags must be an array of strings';
+  }
+  if (e.versions !== undefined && (!Array.isArray(e.versions) || e.versions.some((v) => typeof v !== 'string'))) {
+    return 'versions must be an array of strings';
+  }
+  if (e.publisher !== undefined) {
+    const publisher = e.publisher as Record<string, unknown> | null;
+    if (!publisher || typeof publisher.name !== 'string') return 'publisher must have a name';
+  }
+  if (e.tools !== undefined) {
+    if (!Array.isArray(e.tools)) return 'tools must be an array';
+    for (const tool of e.tools as Array<Record<string, unknown> | null>) {
+      if (!tool || typeof tool.name !== 'string' || typeof tool.parameters !== 'object') {
+        return 'every tool needs a name and parameters';
+      }
+      if (tool.executorCode !== undefined && typeof tool.executorCode !== 'string') {
+        return `executorCode of "${tool.name}" must be a string`;
+      }
+    }
+  }
+  if (e.hooksCode !== undefined) {
+    const hooksCode = e.hooksCode as Record<string, unknown> | null;
+    if (!hooksCode || typeof hooksCode !== 'object' || Object.values(hooksCode).some((c) => typeof c !== 'string')) {
+      return 'hooksCode must map hook names to code strings';
+    }
+  }
+  if (e.prompts !== undefined) {
+    if (!Array.isArray(e.prompts)) return 'prompts must be an array';
+    for (const prompt of e.prompts as Array<Record<string, unknown> | null>) {
+      if (!prompt || typeof prompt.name !== 'string' || typeof prompt.content !== 'string') {
+        return 'every prompt needs a name and content';
+      }
+      if (prompt.kind !== 'system' && prompt.kind !== 'template') {
+        return `prompt "${prompt.name}" must be of kind system or template`;
+      }
+    }
+  }
+  return null;
+}
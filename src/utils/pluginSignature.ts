@@ -0,0 +1,208 @@
+/**
+ * Plugin Signatures
+ *
+ * Ed25519 signing and verification for stored plugins via WebCrypto.
+ *
+ * The signature covers a canonical JSON payload of everything that ends up
+ * being evaluated or sent to the AI: name, version, description, tool
+ * definitions (including executorCode), hooksCode and the permissions
+ * manifest. Publishers sign the serialized form produced by
+ * serializePlugin(), so the same bytes are checked after the plugin
+ * round-trips through localStorage.
+ */
+
+import type {
+  StoredPlugin,
+  PluginKeyring,
+  PluginVerification,
+  PluginTrustPolicy,
+} from '../types';
+
+/**
+ * The parts of a stored plugin covered by its signature
+ */
+export type SignablePlugin = Pick<StoredPlugin, 'name' | 'version' | 'description' | 'tools' | 'hooksCode' | 'permissions' | 'prompts' | 'signature' | 'publicKeyId'>;
+
+const ED25519 = { name: 'Ed25519' } as const;
+
+/** Imported public keys, keyed by their base64 encoding */
+const keyCache: Map<string, Promise<CryptoKey>> = new Map();
+
+/**
+ * JSON.stringify with object keys sorted, so the payload is independent
+ * of property order after a storage round-trip
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Decode a base64 string to bytes
+ */
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64
+ */
+function bytesToBase64(bytes: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Get SubtleCrypto if available
+ */
+function getSubtle(): SubtleCrypto | null {
+  return typeof crypto !== 'undefined' && crypto.subtle ? crypto.subtle : null;
+}
+
+/**
+ * Import (and cache) a base64 raw Ed25519 public key
+ */
+function importPublicKey(subtle: SubtleCrypto, publicKey: string): Promise<CryptoKey> {
+  let key = keyCache.get(publicKey);
+  if (!key) {
+    key = subtle.importKey('raw', base64ToBytes(publicKey), ED25519, false, ['verify']);
+    // Don't cache failures (e.g. malformed keys) forever
+    key.catch(() => keyCache.delete(publicKey));
+    keyCache.set(publicKey, key);
+  }
+  return key;
+}
+
+/**
+ * Build the canonical string that is signed for a plugin
+ */
+export function getPluginSigningPayload(plugin: SignablePlugin): string {
+  return canonicalJson({
+    name: plugin.name,
+    version: plugin.version,
+    description: plugin.description,
+    tools: plugin.tools ?? [],
+    hooksCode: plugin.hooksCode ?? {},
+    // Omitted when absent, so signatures from before manifests and prompts still verify
+    permissions: plugin.permissions,
+    prompts: plugin.prompts,
+  });
+}
+
+/**
+ * Whether a trust policy requires verification at all
+ */
+export function isTrustPolicyActive(policy: PluginTrustPolicy | undefined): boolean {
+  return Boolean(
+    policy && (policy.requireSignatures || Object.keys(policy.trustedPublishers ?? {}).length > 0)
+  );
+}
+
+/**
+ * Whether a verification result means the plugin's code must not run
+ * Invalid signatures are always refused; anything short of verified is
+ * refused when signatures are required.
+ */
+export function shouldQuarantine(verification: PluginVerification | undefined, requireSignature = false): boolean {
+  if (verification?.status === 'invalid') return true;
+  return requireSignature && verification?.status !== 'verified';
+}
+
+/**
+ * Verify a plugin's signature against a trusted keyring
+ *
+ * Keyring values are base64 raw 32-byte Ed25519 public keys, as
+ * exportPublicKey() produces (not SPKI/PEM).
+ *
+ * @example
+ * const result = await verifyPluginSignature(stored, { 'acme-2024': 'nI+J8vbbiXW2Clg36Xb0Arq9READlP9Z83qjGIufERM=' });
+ * if (result.status === 'verified') { ... }
+ */
+export async function verifyPluginSignature(
+  plugin: SignablePlugin,
+  keyring: PluginKeyring = {}
+): Promise<PluginVerification> {
+  const { signature, publicKeyId } = plugin;
+
+  if (!signature) {
+    return { status: 'unsigned', reason: 'Plugin is not signed' };
+  }
+
+  const publicKey = publicKeyId ? keyring[publicKeyId] : undefined;
+  if (!publicKeyId || !publicKey) {
+    return {
+      status: 'untrusted',
+      publicKeyId,
+      reason: publicKeyId ? `Unknown publisher key "${publicKeyId}"` : 'Signature has no publicKeyId',
+    };
+  }
+
+  const subtle = getSubtle();
+  if (!subtle) {
+    return { status: 'unsupported', publicKeyId, reason: 'WebCrypto is not available' };
+  }
+
+  let key: CryptoKey;
+  try {
+    key = await importPublicKey(subtle, publicKey);
+  } catch (err) {
+    // Older browsers reject the Ed25519 algorithm name outright
+    const message = err instanceof Error ? err.message : String(err);
+    return { status: 'unsupported', publicKeyId, reason: `Could not import Ed25519 key: ${message}` };
+  }
+
+  try {
+    const payload = new TextEncoder().encode(getPluginSigningPayload(plugin));
+    const valid = await subtle.verify(ED25519, key, base64ToBytes(signature), payload);
+    return valid
+      ? { status: 'verified', publicKeyId }
+      : { status: 'invalid', publicKeyId, reason: 'Signature does not match plugin code' };
+  } catch {
+    return { status: 'invalid', publicKeyId, reason: 'Malformed signature' };
+  }
+}
+
+/**
+ * Sign a serialized plugin with an Ed25519 private key (publisher side)
+ *
+ * @example
+ * const { privateKey } = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']);
+ * const signature = await signPlugin(serializePlugin(myPlugin), privateKey);
+ * registerPlugin({ ...myPlugin, signature, publicKeyId: 'acme-2024' });
+ */
+export async function signPlugin(plugin: SignablePlugin, privateKey: CryptoKey): Promise<string> {
+  const subtle = getSubtle();
+  if (!subtle) {
+    throw new Error('WebCrypto is not available');
+  }
+  const payload = new TextEncoder().encode(getPluginSigningPayload(plugin));
+  return bytesToBase64(await subtle.sign(ED25519, privateKey, payload));
+}
+
+/**
+ * Export an Ed25519 public key as base64 raw bytes (keyring format)
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
+  const subtle = getSubtle();
+  if (!subtle) {
+    throw new Error('WebCrypto is not available');
+  }
+  return bytesToBase64(await subtle.exportKey('raw', publicKey));
+}
@@ -0,0 +1,275 @@
+/**
+ * Prompt Library
+ *
+ * Named system prompts and reusable user prompt templates, saved per
+ * HustleProvider instance in localStorage. Templates contain
+ * `{{variable}}` placeholders that are filled in before sending.
+ * Enabled plugins recommend prompts through `HustlePlugin.prompts`;
+ * usePromptLibrary() combines both for UIs.
+ */
+
+import { STORAGE_KEYS, generateId } from './index';
+import type {
+  PluginPrompt,
+  SavedPrompt,
+  RecommendedPrompt,
+  PromptLibraryExport,
+  StoredPlugin,
+} from '../types';
+
+type PromptLibraryChangeCallback = () => void;
+
+/** Format marker of prompt library files */
+export const PROMPT_LIBRARY_FORMAT = 'hustle-prompt-library';
+
+/** Current prompt library file version */
+export const PROMPT_LIBRARY_VERSION = 1;
+
+/**
+ * A prompt library file as a File/Blob, JSON string or parsed object
+ */
+export type PromptLibraryInput = Blob | string | PromptLibraryExport;
+
+/** Matches {{name}} placeholders, allowing spaces inside the braces */
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * localStorage key of an instance's prompt library
+ */
+export function getPromptLibraryStorageKey(instanceId: string = 'default'): string {
+  return `${STORAGE_KEYS.PROMPTS}-${instanceId}`;
+}
+
+/**
+ * Names of the {{variables}} in a template, in order of first use
+ */
+export function extractPromptVariables(content: string): string[] {
+  const names = Array.from(content.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Replace a template's {{variables}} with values (missing values become empty)
+ */
+export function fillPromptTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
+
+/**
+ * Prompts recommended by the enabled plugins, in plugin order
+ */
+export function getRecommendedPrompts(plugins: StoredPlugin[]): RecommendedPrompt[] {
+  return plugins
+    .filter((plugin) => plugin.enabled)
+    .flatMap((plugin) => (plugin.prompts ?? []).map((prompt) => ({ ...prompt, pluginName: plugin.name })));
+}
+
+/**
+ * Wrap saved prompts in a prompt library file
+ */
+export function createPromptLibraryExport(prompts: SavedPrompt[]): PromptLibraryExport {
+  return {
+    format: PROMPT_LIBRARY_FORMAT,
+    version: PROMPT_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    prompts,
+  };
+}
+
+/**
+ * Read a library file from a File/Blob, JSON string or parsed object
+ */
+async function readLibraryInput(input: PromptLibraryInput): Promise<unknown> {
+  if (typeof input === 'string') {
+    try {
+      return JSON.parse(input);
+    } catch {
+      throw new Error('Invalid prompt library: not valid JSON');
+    }
+  }
+  if (typeof Blob !== 'undefined' && input instanceof Blob) {
+    return readLibraryInput(await input.text());
+  }
+  return input;
+}
+
+/**
+ * Validate a library file's structure - returns an error message, or null if valid
+ */
+function validateLibrary(data: unknown): string | null {
+  if (!data || typeof data !== 'object') return 'file is not an object';
+
+  const library = data as Record<string, unknown>;
+  if (library.format !== PROMPT_LIBRARY_FORMAT) return 'not a Hustle prompt library';
+  if (library.version !== PROMPT_LIBRARY_VERSION) return `unsupported version ${String(library.version)}`;
+  if (!Array.isArray(library.prompts)) return 'missing prompts';
+
+  for (const [index, prompt] of (library.prompts as unknown[]).entries()) {
+    const { name, content, kind } = (prompt ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) return `prompt ${index} has no name`;
+    if (typeof content !== 'string') return `prompt ${index} has no content`;
+    if (kind !== 'system' && kind !== 'template') return `prompt ${index} has an invalid kind`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a prompt library file and return it
+ *
+ * Nothing is saved - pass `prompts` to promptLibrary.importPrompts() (or
+ * use importLibrary() from usePromptLibrary). Throws with a readable
+ * message if the file is not a valid library.
+ */
+export async function readPromptLibraryExport(input: PromptLibraryInput): Promise<PromptLibraryExport> {
+  const data = await readLibraryInput(input);
+
+  const problem = validateLibrary(data);
+  if (problem) {
+    throw new Error(`Invalid prompt library: ${problem}`);
+  }
+
+  return data as PromptLibraryExport;
+}
+
+/**
+ * Save prompts as a library file (browser only)
+ */
+export function downloadPromptLibrary(prompts: SavedPrompt[], fileName: string = 'hustle-prompts.json'): void {
+  const json = JSON.stringify(createPromptLibraryExport(prompts), null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * A prompt as saved - keeps the id and creation time of the prompt it replaces
+ */
+function toSavedPrompt(prompt: PluginPrompt, replaces: SavedPrompt | undefined, now: string): SavedPrompt {
+  return {
+    kind: prompt.kind,
+    name: prompt.name.trim(),
+    content: prompt.content,
+    ...(prompt.description ? { description: prompt.description } : {}),
+    id: replaces?.id ?? generateId('prompt'),
+    createdAt: replaces?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Prompt Library class
+ *
+ * Prompts and listeners are per instance.
+ */
+class PromptLibrary {
+  private listeners: Map<string, Set<PromptLibraryChangeCallback>> = new Map();
+
+  /**
+   * Get an instance's saved prompts, in the order they were added
+   */
+  getPrompts(instanceId: string = 'default'): SavedPrompt[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(getPromptLibraryStorageKey(instanceId));
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private savePrompts(prompts: SavedPrompt[], instanceId: string): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(getPromptLibraryStorageKey(instanceId), JSON.stringify(prompts));
+    } catch (err) {
+      console.error('[Hustle] Failed to save prompts:', err);
+    }
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Save a prompt - replaces the saved prompt with the same id, if given
+   */
+  savePrompt(prompt: PluginPrompt & { id?: string }, instanceId: string = 'default'): SavedPrompt {
+    const prompts = this.getPrompts(instanceId);
+    const existing = prompt.id ? prompts.find((p) => p.id === prompt.id) : undefined;
+    const saved = toSavedPrompt(prompt, existing, new Date().toISOString());
+
+    this.savePrompts(
+      existing ? prompts.map((p) => (p.id === existing.id ? saved : p)) : [...prompts, saved],
+      instanceId
+    );
+    return saved;
+  }
+
+  /**
+   * Delete a saved prompt
+   */
+  deletePrompt(id: string, instanceId: string = 'default'): void {
+    this.savePrompts(this.getPrompts(instanceId).filter((p) => p.id !== id), instanceId);
+  }
+
+  /**
+   * Add imported prompts - a prompt with the same kind and name as a
+   * saved one replaces it, the rest are added with new ids
+   */
+  importPrompts(imported: PluginPrompt[], instanceId: string = 'default'): SavedPrompt[] {
+    const prompts = this.getPrompts(instanceId);
+    const now = new Date().toISOString();
+    const added: SavedPrompt[] = [];
+
+    for (const prompt of imported) {
+      const index = prompts.findIndex((p) => p.kind === prompt.kind && p.name === prompt.name.trim());
+      const saved = toSavedPrompt(prompt, prompts[index], now);
+      if (index >= 0) {
+        prompts[index] = saved;
+      } else {
+        prompts.push(saved);
+      }
+      added.push(saved);
+    }
+
+    this.savePrompts(prompts, instanceId);
+    return added;
+  }
+
+  /**
+   * Delete all of an instance's saved prompts
+   */
+  clear(instanceId: string = 'default'): void {
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(getPromptLibraryStorageKey(instanceId));
+    }
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Subscribe to prompt changes for an instance
+   */
+  onChange(callback: PromptLibraryChangeCallback, instanceId: string = 'default'): () => void {
+    if (!this.listeners.has(instanceId)) {
+      this.listeners.set(instanceId, new Set());
+    }
+    const listeners = this.listeners.get(instanceId)!;
+    listeners.add(callback);
+    return () => listeners.delete(callback);
+  }
+
+  private notifyListeners(instanceId: string): void {
+    this.listeners.get(instanceId)?.forEach((cb) => cb());
+  }
+}
+
+// Singleton instance
+export const promptLibrary = new PromptLibrary();
+
+export default promptLibrary;
@@ -0,0 +1,218 @@
+/**
+ * HTML Sanitizer
+ *
+ * Allowlist-based sanitizer for rendered markdown. Assistant responses and
+ * tool results can be influenced by prompt injection, and MarkdownContent
+ * renders them with dangerouslySetInnerHTML in the same origin as the
+ * Emblem auth session - so anything not explicitly allowed is removed.
+ *
+ * Parsing uses an inert document (DOMParser / createHTMLDocument), which
+ * never executes scripts or fires event handlers while we walk the tree.
+ */
+
+/**
+ * Sanitizer policy
+ */
+export interface SanitizePolicy {
+  /** Tag names (lowercase) that are kept */
+  allowedTags: string[];
+  /**
+   * Attributes kept per tag. Use '*' for attributes allowed on every tag.
+   * Event handler attributes (on*) are always removed.
+   */
+  allowedAttributes: Record<string, string[]>;
+  /** URL schemes (without the colon) allowed in href/src attributes */
+  allowedSchemes: string[];
+  /** Allow data:image/* URLs in img src (default false) */
+  allowDataImages?: boolean;
+  /**
+   * Tags removed together with their content.
+   * Any other disallowed tag is unwrapped (its text content is kept).
+   */
+  dropContentTags: string[];
+}
+
+/**
+ * Attributes that carry URLs and must pass the scheme check
+ */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite', 'action', 'formaction', 'xlink:href', 'poster']);
+
+/**
+ * Default policy - covers everything marked (GFM) produces
+ */
+export const DEFAULT_SANITIZE_POLICY: SanitizePolicy = {
+  allowedTags: [
+    'a', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'hr', 'i', 'img', 'input', 'li', 'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'sup',
+    'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul',
+  ],
+  allowedAttributes: {
+    '*': ['title'],
+    a: ['href', 'name', 'target', 'rel'],
+    img: ['src', 'alt', 'width', 'height'],
+    code: ['class'],
+    // GFM task list checkboxes
+    input: ['type', 'checked', 'disabled'],
+    td: ['align'],
+    th: ['align'],
+    ol: ['start'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowDataImages: false,
+  dropContentTags: [
+    'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'noscript',
+    'template', 'svg', 'math', 'link', 'meta', 'base', 'form', 'textarea', 'select', 'button',
+  ],
+};
+
+/**
+ * Merge a partial policy over the default policy
+ */
+export function createSanitizePolicy(overrides: Partial<SanitizePolicy> = {}): SanitizePolicy {
+  return {
+    ...DEFAULT_SANITIZE_POLICY,
+    ...overrides,
+    allowedAttributes: {
+      ...DEFAULT_SANITIZE_POLICY.allowedAttributes,
+      ...overrides.allowedAttributes,
+    },
+  };
+}
+
+/**
+ * Check whether a URL attribute value is safe under the policy
+ */
+export function isSafeUrl(value: string, policy: SanitizePolicy, tagName = ''): boolean {
+  // Strip whitespace and control characters browsers ignore (e.g. "java\nscript:")
+  // eslint-disable-next-line no-control-regex
+  const normalized = value.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+
+  const schemeMatch = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  if (!schemeMatch) {
+    // Relative URL, fragment or query - no scheme to abuse
+    return true;
+  }
+
+  const scheme = schemeMatch[1];
+  if (scheme === 'data') {
+    return Boolean(policy.allowDataImages) && tagName === 'img' && /^data:image\/(png|gif|jpe?g|webp);/.test(normalized);
+  }
+  return policy.allowedSchemes.includes(scheme);
+}
+
+/**
+ * Parse an HTML fragment into an inert container element
+ */
+function parseFragment(html: string): HTMLElement | null {
+  if (typeof DOMParser !== 'undefined') {
+    const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}`, 'text/html');
+    return doc.body;
+  }
+  if (typeof document !== 'undefined' && document.implementation) {
+    const doc = document.implementation.createHTMLDocument('');
+    doc.body.innerHTML = html;
+    return doc.body;
+  }
+  return null;
+}
+
+/**
+ * Escape text for safe HTML output (used when no DOM is available)
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Sanitize an element's attributes in place
+ */
+function sanitizeAttributes(element: Element, policy: SanitizePolicy): void {
+  const tagName = element.tagName.toLowerCase();
+  const allowed = new Set([
+    ...(policy.allowedAttributes['*'] || []),
+    ...(policy.allowedAttributes[tagName] || []),
+  ]);
+
+  for (const attr of Array.from(element.attributes)) {
+    const name = attr.name.toLowerCase();
+
+    if (name.startsWith('on') || !allowed.has(name)) {
+      element.removeAttribute(attr.name);
+      continue;
+    }
+
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(attr.value, policy, tagName)) {
+      element.removeAttribute(attr.name);
+    }
+  }
+
+  // Task list checkboxes only - never allow interactive inputs
+  if (tagName === 'input' && element.getAttribute('type') !== 'checkbox') {
+    element.remove();
+    return;
+  }
+
+  // Links that open a new window must not get a handle on this one
+  if (tagName === 'a' && element.getAttribute('target')) {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+/**
+ * Recursively sanitize a node's children
+ */
+function sanitizeChildren(parent: Node, policy: SanitizePolicy): void {
+  for (const child of Array.from(parent.childNodes)) {
+    // Text nodes are safe; comments, processing instructions etc. are dropped
+    if (child.nodeType === 3) continue;
+    if (child.nodeType !== 1) {
+      parent.removeChild(child);
+      continue;
+    }
+
+    const element = child as Element;
+    const tagName = element.tagName.toLowerCase();
+
+    if (policy.dropContentTags.includes(tagName)) {
+      parent.removeChild(element);
+      continue;
+    }
+
+    // Sanitize descendants first so unwrapped children are already clean
+    sanitizeChildren(element, policy);
+
+    if (!policy.allowedTags.includes(tagName)) {
+      // Unwrap: keep the (sanitized) children, drop the element itself
+      while (element.firstChild) {
+        parent.insertBefore(element.firstChild, element);
+      }
+      parent.removeChild(element);
+      continue;
+    }
+
+    sanitizeAttributes(element, policy);
+  }
+}
+
+/**
+ * Sanitize an HTML string against an allowlist policy
+ *
+ * @example
+ * sanitizeHtml('<img src=x onerror="alert(1)">') => '<img src="x">'
+ * sanitizeHtml('<a href="javascript:alert(1)">hi</a>') => '<a>hi</a>'
+ */
+export function sanitizeHtml(html: string, policy: SanitizePolicy = DEFAULT_SANITIZE_POLICY): string {
+  const container = parseFragment(html);
+
+  // No DOM available (SSR) - fall back to fully escaped text
+  if (!container) {
+    return escapeHtml(html);
+  }
+
+  sanitizeChildren(container, policy);
+  return container.innerHTML;
+}
@@ -0,0 +1,89 @@
+/**
+ * Semantic Versioning
+ *
+ * Minimal semver 2.0 parsing and precedence for plugin versions
+ * (major.minor.patch, optional -prerelease, build metadata ignored).
+ * @see https://semver.org/#spec-item-11
+ */
+
+/**
+ * Parsed version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Dot-separated prerelease identifiers ('beta.2' -> ['beta', '2']) */
+  prerelease: string[];
+}
+
+const SEMVER_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a version string (returns null if it isn't valid semver)
+ * @example parseSemver('1.2.3-beta.1') => { major: 1, minor: 2, patch: 3, prerelease: ['beta', '1'] }
+ */
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compare prerelease identifier lists by semver precedence
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release has higher precedence than any of its prereleases
+  if (a.length === 0 || b.length === 0) {
+    return a.length === b.length ? 0 : a.length === 0 ? 1 : -1;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) return Number(a[i]) < Number(b[i]) ? -1 : 1;
+    if (aNumeric !== bNumeric) return aNumeric ? -1 : 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Compare two versions: -1 if a < b, 0 if equal, 1 if a > b
+ *
+ * Strings that aren't valid semver are compared with numeric collation,
+ * so '1.10' still sorts after '1.9'.
+ *
+ * @example compareVersions('1.10.0', '1.9.3') => 1
+ */
+export function compareVersions(a: string, b: string): -1 | 0 | 1 {
+  const va = parseSemver(a);
+  const vb = parseSemver(b);
+
+  if (!va || !vb) {
+    const result = a.localeCompare(b, undefined, { numeric: true });
+    return result < 0 ? -1 : result > 0 ? 1 : 0;
+  }
+
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (va[key] !== vb[key]) return va[key] < vb[key] ? -1 : 1;
+  }
+  const prerelease = comparePrerelease(va.prerelease, vb.prerelease);
+  return prerelease < 0 ? -1 : prerelease > 0 ? 1 : 0;
+}
+
+/**
+ * Whether `candidate` is a newer version than `current`
+ */
+export function isNewerVersion(candidate: string, current: string): boolean {
+  return compareVersions(candidate, current) > 0;
+}
@@ -0,0 +1,292 @@
+/**
+ * Settings Profiles
+ *
+ * Named bundles of HustleProvider settings - model, system prompt,
+ * server-prompt override, generation options and enabled plugins - saved
+ * per instance in localStorage. HustleProvider reads and updates the
+ * active profile; useProfiles() switches, duplicates and resets them.
+ *
+ * The active profile's settings are also kept under the pre-profiles
+ * `hustle-settings-{instanceId}` key, and an instance that has no
+ * profiles yet starts with a "Default" profile made from them.
+ */
+
+import { STORAGE_KEYS, generateId } from './index';
+import { pluginRegistry } from './pluginRegistry';
+import type {
+  ProfileSettings,
+  ProfilePreset,
+  ProfilesState,
+  SettingsProfile,
+} from '../types';
+
+type ProfilesChangeCallback = () => void;
+
+/** ID of the profile made from the settings saved before profiles */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * localStorage key of an instance's profiles
+ */
+export function getProfilesStorageKey(instanceId: string = 'default'): string {
+  return `${STORAGE_KEYS.PROFILES}-${instanceId}`;
+}
+
+/**
+ * localStorage key of an instance's active settings (from before profiles)
+ */
+export function getSettingsStorageKey(instanceId: string = 'default'): string {
+  return `hustle-settings-${instanceId}`;
+}
+
+/**
+ * Full settings from a preset - unset fields get the defaults
+ */
+export function getPresetSettings(preset?: Partial<ProfileSettings>): ProfileSettings {
+  return {
+    selectedModel: preset?.selectedModel ?? '',
+    systemPrompt: preset?.systemPrompt ?? '',
+    skipServerPrompt: preset?.skipServerPrompt ?? false,
+    modelOptions: { ...preset?.modelOptions },
+    ...(preset?.enabledPlugins ? { enabledPlugins: [...preset.enabledPlugins] } : {}),
+  };
+}
+
+function createProfile(name: string, settings: ProfileSettings, id: string = generateId('profile')): SettingsProfile {
+  const now = new Date().toISOString();
+  return { id, name, ...settings, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Settings Profiles class
+ *
+ * Profiles, presets and listeners are per instance.
+ */
+class SettingsProfiles {
+  private listeners: Map<string, Set<ProfilesChangeCallback>> = new Map();
+  private presets: Map<string, ProfilePreset[]> = new Map();
+
+  /**
+   * Get an instance's profiles and which one is active
+   */
+  getState(instanceId: string = 'default'): ProfilesState {
+    if (typeof window !== 'undefined') {
+      try {
+        const stored = localStorage.getItem(getProfilesStorageKey(instanceId));
+        const state = stored ? (JSON.parse(stored) as ProfilesState) : null;
+        if (state?.profiles?.length) return state;
+      } catch {
+        // Fall through to the settings saved before profiles
+      }
+    }
+
+    return {
+      activeProfileId: DEFAULT_PROFILE_ID,
+      profiles: [createProfile('Default', this.loadLegacySettings(instanceId), DEFAULT_PROFILE_ID)],
+    };
+  }
+
+  /**
+   * Get the profile in use
+   */
+  getActiveProfile(instanceId: string = 'default'): SettingsProfile {
+    const { activeProfileId, profiles } = this.getState(instanceId);
+    return profiles.find((p) => p.id === activeProfileId) ?? profiles[0];
+  }
+
+  private loadLegacySettings(instanceId: string): ProfileSettings {
+    if (typeof window === 'undefined') return getPresetSettings();
+    try {
+      const stored = localStorage.getItem(getSettingsStorageKey(instanceId));
+      return getPresetSettings(stored ? JSON.parse(stored) : undefined);
+    } catch {
+      return getPresetSettings();
+    }
+  }
+
+  private saveState(state: ProfilesState, instanceId: string): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(getProfilesStorageKey(instanceId), JSON.stringify(state));
+
+      // Keep the active settings readable under the pre-profiles key
+      const active = state.profiles.find((p) => p.id === state.activeProfileId) ?? state.profiles[0];
+      const { selectedModel, systemPrompt, skipServerPrompt, modelOptions } = active;
+      localStorage.setItem(
+        getSettingsStorageKey(instanceId),
+        JSON.stringify({ selectedModel, systemPrompt, skipServerPrompt, modelOptions })
+      );
+    } catch (err) {
+      console.error('[Hustle] Failed to save settings profiles:', err);
+    }
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Names of the plugins enabled right now
+   */
+  private getEnabledPluginNames(instanceId: string): string[] {
+    return pluginRegistry.loadFromStorage(instanceId).filter((p) => p.enabled).map((p) => p.name);
+  }
+
+  /**
+   * Enable exactly the profile's plugins (when it lists them)
+   */
+  private applyPlugins(profile: SettingsProfile, instanceId: string): void {
+    if (!profile.enabledPlugins) return;
+    for (const plugin of pluginRegistry.loadFromStorage(instanceId)) {
+      const enabled = profile.enabledPlugins.includes(plugin.name);
+      if (plugin.enabled !== enabled) {
+        pluginRegistry.setEnabled(plugin.name, enabled, instanceId);
+      }
+    }
+  }
+
+  /**
+   * Change a profile's name or settings (an empty name keeps the old one)
+   */
+  updateProfile(
+    id: string,
+    changes: Partial<ProfileSettings> & { name?: string },
+    instanceId: string = 'default'
+  ): SettingsProfile | undefined {
+    const state = this.getState(instanceId);
+    const profile = state.profiles.find((p) => p.id === id);
+    if (!profile) return undefined;
+
+    const { name, ...settings } = changes;
+    const updated: SettingsProfile = { ...profile, ...settings, name: name?.trim() || profile.name };
+
+    // Skip no-op writes so listeners aren't woken for nothing
+    if (JSON.stringify(updated) === JSON.stringify(profile)) return profile;
+
+    updated.updatedAt = new Date().toISOString();
+    this.saveState({ ...state, profiles: state.profiles.map((p) => (p.id === id ? updated : p)) }, instanceId);
+    return updated;
+  }
+
+  /**
+   * Change the active profile's settings
+   */
+  updateActiveProfile(changes: Partial<ProfileSettings>, instanceId: string = 'default'): SettingsProfile | undefined {
+    return this.updateProfile(this.getActiveProfile(instanceId).id, changes, instanceId);
+  }
+
+  /**
+   * Add a profile (not activated) - unset settings get the defaults
+   */
+  createProfile(name: string, settings?: Partial<ProfileSettings>, instanceId: string = 'default'): SettingsProfile {
+    const state = this.getState(instanceId);
+    const profile = createProfile(name.trim() || 'Untitled', getPresetSettings(settings));
+    this.saveState({ ...state, profiles: [...state.profiles, profile] }, instanceId);
+    return profile;
+  }
+
+  /**
+   * Copy a profile (not activated) - copying the active one includes the plugins enabled now
+   */
+  duplicateProfile(id: string, name?: string, instanceId: string = 'default'): SettingsProfile | undefined {
+    const state = this.getState(instanceId);
+    const source = state.profiles.find((p) => p.id === id);
+    if (!source) return undefined;
+
+    const settings = getPresetSettings(
+      id === state.activeProfileId ? { ...source, enabledPlugins: this.getEnabledPluginNames(instanceId) } : source
+    );
+    const profile = createProfile(name?.trim() || `${source.name} copy`, settings);
+    this.saveState({ ...state, profiles: [...state.profiles, profile] }, instanceId);
+    return profile;
+  }
+
+  /**
+   * Make a profile active and enable its plugins
+   *
+   * The plugins enabled now are remembered by the profile being left.
+   */
+  switchProfile(id: string, instanceId: string = 'default'): void {
+    const state = this.getState(instanceId);
+    const next = state.profiles.find((p) => p.id === id);
+    if (!next || id === state.activeProfileId) return;
+
+    const enabledPlugins = this.getEnabledPluginNames(instanceId);
+    const profiles = state.profiles.map((p) => (p.id === state.activeProfileId ? { ...p, enabledPlugins } : p));
+
+    this.applyPlugins(next, instanceId);
+    this.saveState({ ...state, activeProfileId: id, profiles }, instanceId);
+  }
+
+  /**
+   * Restore a profile's preset (see setPresets), or the default settings
+   */
+  resetProfile(id: string, instanceId: string = 'default'): SettingsProfile | undefined {
+    const state = this.getState(instanceId);
+    const profile = state.profiles.find((p) => p.id === id);
+    if (!profile) return undefined;
+
+    const preset = this.presets.get(instanceId)?.find((p) => p.name === profile.name);
+    const reset: SettingsProfile = {
+      ...profile,
+      ...getPresetSettings(preset),
+      enabledPlugins: preset?.enabledPlugins ?? profile.enabledPlugins,
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (id === state.activeProfileId) this.applyPlugins(reset, instanceId);
+    this.saveState({ ...state, profiles: state.profiles.map((p) => (p.id === id ? reset : p)) }, instanceId);
+    return reset;
+  }
+
+  /**
+   * Delete a profile - the last one can't be deleted, and deleting the
+   * active one switches to the first remaining
+   */
+  deleteProfile(id: string, instanceId: string = 'default'): void {
+    const state = this.getState(instanceId);
+    const profiles = state.profiles.filter((p) => p.id !== id);
+    if (profiles.length === 0 || profiles.length === state.profiles.length) return;
+
+    const activeProfileId = id === state.activeProfileId ? profiles[0].id : state.activeProfileId;
+    if (activeProfileId !== state.activeProfileId) this.applyPlugins(profiles[0], instanceId);
+    this.saveState({ ...state, activeProfileId, profiles }, instanceId);
+  }
+
+  /**
+   * Set the profiles an app ships - each is added once (a deleted one is
+   * not added again) and is what resetProfile() restores
+   */
+  setPresets(presets: ProfilePreset[] | undefined, instanceId: string = 'default'): void {
+    this.presets.set(instanceId, presets ?? []);
+
+    const state = this.getState(instanceId);
+    const added = state.addedPresets ?? [];
+    const missing = (presets ?? []).filter((p) => !added.includes(p.name) && !state.profiles.some((q) => q.name === p.name));
+    if (missing.length === 0) return;
+
+    this.saveState({
+      ...state,
+      profiles: [...state.profiles, ...missing.map((p) => createProfile(p.name, getPresetSettings(p)))],
+      addedPresets: [...added, ...missing.map((p) => p.name)],
+    }, instanceId);
+  }
+
+  /**
+   * Subscribe to profile changes for an instance
+   */
+  onChange(callback: ProfilesChangeCallback, instanceId: string = 'default'): () => void {
+    if (!this.listeners.has(instanceId)) {
+      this.listeners.set(instanceId, new Set());
+    }
+    const listeners = this.listeners.get(instanceId)!;
+    listeners.add(callback);
+    return () => listeners.delete(callback);
+  }
+
+  private notifyListeners(instanceId: string): void {
+    this.listeners.get(instanceId)?.forEach((cb) => cb());
+  }
+}
+
+// Singleton instance
+export const settingsProfiles = new SettingsProfiles();
+
+export default settingsProfiles;
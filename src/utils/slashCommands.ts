@@ -0,0 +1,194 @@
+/**
+ * Slash Commands
+ *
+ * Parsing, matching and running of composer commands such as `/model` and
+ * `/clear`, plus the built-in set. Commands run in the page; nothing goes
+ * to the model unless a command calls `send`. Start a message with `//` to
+ * send it with a single leading slash instead of running a command.
+ */
+
+import { downloadConversationExport } from './conversationExport';
+import type { ConversationExportFormat, HydratedPlugin, SlashCommand, SlashCommandContext } from '../types';
+
+const EXPORT_FORMATS: ConversationExportFormat[] = ['markdown', 'json', 'html'];
+
+/**
+ * Built-in commands, offered in every composer
+ */
+export const builtInSlashCommands: SlashCommand[] = [
+  {
+    name: 'model',
+    description: 'Show or switch the model',
+    usage: '<model id | default>',
+    run: ({ args, models, selectedModel, setSelectedModel, notify }) => {
+      if (!args) {
+        notify(`Model: ${selectedModel || 'server default'}`);
+        return;
+      }
+      if (args === 'default') {
+        setSelectedModel('');
+        notify('Model set to the server default');
+        return;
+      }
+
+      const query = args.toLowerCase();
+      const model =
+        models.find(m => m.id.toLowerCase() === query) ??
+        models.find(m => m.id.toLowerCase().endsWith(`/${query}`) || m.name.toLowerCase() === query);
+      if (!model) {
+        notify(`Unknown model "${args}"`);
+        return;
+      }
+      setSelectedModel(model.id);
+      notify(`Model set to ${model.id}`);
+    },
+  },
+  {
+    name: 'system',
+    description: 'Show or replace the system prompt',
+    usage: '<prompt>',
+    run: ({ args, systemPrompt, setSystemPrompt, notify }) => {
+      if (!args) {
+        notify(systemPrompt ? `System prompt: ${systemPrompt}` : 'No system prompt set');
+        return;
+      }
+      setSystemPrompt(args);
+      notify('System prompt updated');
+    },
+  },
+  {
+    name: 'clear',
+    description: 'Start a new conversation',
+    run: ({ clear }) => clear(),
+  },
+  {
+    name: 'export',
+    description: 'Download the conversation',
+    usage: '[markdown | json | html]',
+    run: ({ args, messages, getConversation, selectedModel, systemPrompt, notify }) => {
+      const format = (args || 'markdown').toLowerCase() as ConversationExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        notify(`Unknown export format "${args}" - use markdown, json or html`);
+        return;
+      }
+      if (messages.length === 0) {
+        notify('Nothing to export yet');
+        return;
+      }
+      downloadConversationExport(getConversation(), format, { model: selectedModel, systemPrompt });
+    },
+  },
+  {
+    name: 'plugins',
+    description: 'List, enable or disable plugins',
+    usage: '[enable | disable <name>]',
+    run: ({ args, plugins, enablePlugin, disablePlugin, notify }) => {
+      if (!args) {
+        notify(plugins.length === 0
+          ? 'No plugins installed'
+          : `Plugins: ${plugins.map(p => `${p.name} (${p.enabled ? 'on' : 'off'})`).join(', ')}`);
+        return;
+      }
+
+      const [action, name] = args.split(/\s+/, 2);
+      if ((action !== 'enable' && action !== 'disable') || !name) {
+        notify('Usage: /plugins enable <name> or /plugins disable <name>');
+        return;
+      }
+      if (!plugins.some(p => p.name === name)) {
+        notify(`No plugin named "${name}"`);
+        return;
+      }
+      if (action === 'enable') {
+        enablePlugin(name);
+        notify(`Enabled ${name}`);
+      } else {
+        disablePlugin(name);
+        notify(`Disabled ${name}`);
+      }
+    },
+  },
+  {
+    name: 'retry',
+    description: 'Regenerate the last reply',
+    run: async ({ messages, regenerate, notify }) => {
+      if (messages[messages.length - 1]?.role !== 'assistant') {
+        notify('Nothing to retry');
+        return;
+      }
+      await regenerate();
+    },
+  },
+];
+
+/**
+ * Commands offered in a composer
+ * Built-ins < enabled plugins' commands < `extra`; later ones replace
+ * earlier ones with the same name.
+ */
+export function collectSlashCommands(
+  plugins: HydratedPlugin[] = [],
+  extra: SlashCommand[] = [],
+  builtIns: SlashCommand[] = builtInSlashCommands
+): SlashCommand[] {
+  const commands = new Map<string, SlashCommand>();
+  for (const command of builtIns) commands.set(command.name, command);
+  for (const plugin of plugins) {
+    for (const command of plugin.commands ?? []) commands.set(command.name, command);
+  }
+  for (const command of extra) commands.set(command.name, command);
+  return [...commands.values()];
+}
+
+/**
+ * Split composer text into a command name and its arguments
+ * Returns null for text that isn't a command (including `//` escapes).
+ *
+ * @example parseSlashCommand('/model gpt-4o') => { name: 'model', args: 'gpt-4o' }
+ */
+export function parseSlashCommand(input: string): { name: string; args: string } | null {
+  const match = /^\/([\w-]+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() };
+}
+
+/**
+ * Commands to suggest while a command name is being typed
+ * Empty once the name is followed by a space, or for text that isn't a command.
+ */
+export function matchSlashCommands(commands: SlashCommand[], input: string): SlashCommand[] {
+  const match = /^\/([\w-]*)$/.exec(input);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return commands.filter(command => command.name.toLowerCase().startsWith(prefix));
+}
+
+/**
+ * Run the command in `input`
+ *
+ * Resolves to true when the input was a command (known or not) and has been
+ * handled, false when it should be sent as a message. Failures are reported
+ * through `notify` rather than thrown.
+ */
+export async function runSlashCommand(
+  commands: SlashCommand[],
+  input: string,
+  context: Omit<SlashCommandContext, 'args'>
+): Promise<boolean> {
+  const parsed = parseSlashCommand(input);
+  if (!parsed) return false;
+
+  const command = commands.find(c => c.name.toLowerCase() === parsed.name);
+  if (!command) {
+    context.notify(`Unknown command /${parsed.name} - start with // to send it as a message`);
+    return true;
+  }
+
+  try {
+    await command.run({ ...context, args: parsed.args });
+  } catch (err) {
+    console.error(`[Hustle] Command /${command.name} failed:`, err);
+    context.notify(`/${command.name} failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return true;
+}
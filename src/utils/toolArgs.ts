@@ -0,0 +1,222 @@
+/**
+ * Tool Argument Validation
+ *
+ * Checks the arguments the model passed to a tool against the tool's
+ * JSON Schema `parameters`: required properties, types, enums, and nested
+ * `items`/`properties`, after filling in `default` values. Problems are
+ * returned, not thrown, so they can be sent back to the model as the tool
+ * result (see createToolArgumentError) and the model can correct its call.
+ *
+ * hydratePlugin wraps every executor with withArgValidation, so all tool
+ * calls are checked before dispatch.
+ *
+ * Properties not described by the schema are allowed, as in JSON Schema.
+ */
+
+import type {
+  JSONSchema,
+  JSONSchemaProperty,
+  ClientToolDefinition,
+  ToolExecutor,
+  ToolArgumentIssue,
+  ToolArgumentError,
+} from '../types';
+
+/**
+ * Args after defaults were applied, plus any issues found
+ */
+export interface PreparedToolArgs {
+  args: Record<string, unknown>;
+  issues: ToolArgumentIssue[];
+}
+
+/**
+ * JSON type name of a value ('array' and 'null' are distinguished from 'object')
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Whether a value has the schema's type
+ */
+function matchesType(type: JSONSchemaProperty['type'], value: unknown): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return jsonTypeOf(value) === 'object';
+    default:
+      return jsonTypeOf(value) === type;
+  }
+}
+
+/**
+ * Path of a nested property
+ */
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Copy of a value with schema defaults filled in (nested objects and array items too)
+ * The model's args are never mutated.
+ */
+function applyDefaults(schema: JSONSchema | JSONSchemaProperty, value: unknown): unknown {
+  if (schema.type === 'array' && 'items' in schema && schema.items && Array.isArray(value)) {
+    const items = schema.items;
+    return value.map((item) => applyDefaults(items, item));
+  }
+
+  if (schema.type !== 'object' || jsonTypeOf(value) !== 'object') {
+    return value;
+  }
+
+  const object: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    if (object[key] === undefined && property.default !== undefined) {
+      // Clone so executors can't mutate the schema's default
+      object[key] = JSON.parse(JSON.stringify(property.default));
+    }
+    if (object[key] !== undefined) {
+      object[key] = applyDefaults(property, object[key]);
+    }
+  }
+  return object;
+}
+
+/**
+ * Check one value against its schema, collecting issues
+ */
+function checkValue(
+  schema: JSONSchema | JSONSchemaProperty,
+  value: unknown,
+  path: string,
+  issues: ToolArgumentIssue[]
+): void {
+  if (!matchesType(schema.type, value)) {
+    issues.push({
+      path,
+      code: 'type',
+      message: `${path || 'arguments'} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`,
+      expected: schema.type,
+      received: jsonTypeOf(value),
+    });
+    return;
+  }
+
+  if ('enum' in schema && schema.enum && !schema.enum.includes(value as string)) {
+    issues.push({
+      path,
+      code: 'enum',
+      message: `${path} must be one of: ${schema.enum.join(', ')}`,
+      expected: schema.enum,
+      received: String(value),
+    });
+    return;
+  }
+
+  if (schema.type === 'array' && 'items' in schema && schema.items) {
+    const items = schema.items;
+    (value as unknown[]).forEach((item, index) => checkValue(items, item, `${path}[${index}]`, issues));
+    return;
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        issues.push({
+          path: childPath(path, key),
+          code: 'required',
+          message: `${childPath(path, key)} is required`,
+          expected: schema.properties?.[key]?.type,
+        });
+      }
+    }
+
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (object[key] !== undefined) {
+        checkValue(property, object[key], childPath(path, key), issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate tool call arguments against a tool's parameters schema
+ *
+ * Missing arguments (undefined/null) are treated as an empty object.
+ * Returns every issue found; an empty array means the args are valid.
+ *
+ * @example
+ * validateToolArgs(tool.parameters, { platform: 'manifold' })
+ * // => [{ path: 'platform', code: 'enum', message: 'platform must be one of: polymarket, kalshi', ... }]
+ */
+export function validateToolArgs(schema: JSONSchema, args: unknown): ToolArgumentIssue[] {
+  const issues: ToolArgumentIssue[] = [];
+  checkValue(schema, args ?? {}, '', issues);
+  return issues;
+}
+
+/**
+ * Fill in schema defaults, then validate
+ *
+ * @example
+ * prepareToolArgs(tool.parameters, { market_slug: 'btc-100k' })
+ * // => { args: { market_slug: 'btc-100k', limit: 20 }, issues: [] }
+ */
+export function prepareToolArgs(schema: JSONSchema, args: unknown): PreparedToolArgs {
+  const prepared = applyDefaults(schema, args ?? {});
+  return {
+    args: prepared as Record<string, unknown>,
+    issues: validateToolArgs(schema, prepared),
+  };
+}
+
+/**
+ * Build the tool result reported to the model for invalid arguments
+ */
+export function createToolArgumentError(toolName: string, issues: ToolArgumentIssue[]): ToolArgumentError {
+  return {
+    error: 'invalid_arguments',
+    tool: toolName,
+    message: `Invalid arguments for ${toolName}: ${issues.map((issue) => issue.message).join('; ')}`,
+    issues,
+  };
+}
+
+/**
+ * Whether a tool result is an argument validation error
+ */
+export function isToolArgumentError(result: unknown): result is ToolArgumentError {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    (result as { error?: unknown }).error === 'invalid_arguments' &&
+    Array.isArray((result as { issues?: unknown }).issues)
+  );
+}
+
+/**
+ * Wrap an executor so every call is checked against the tool's schema
+ *
+ * The executor receives the args with defaults filled in; invalid calls
+ * resolve to a ToolArgumentError and the executor is not run.
+ */
+export function withArgValidation(tool: ClientToolDefinition, executor: ToolExecutor): ToolExecutor {
+  const validated: ToolExecutor = async (args, context) => {
+    const { args: prepared, issues } = prepareToolArgs(tool.parameters, args);
+    if (issues.length > 0) {
+      return createToolArgumentError(tool.name, issues);
+    }
+    return executor(prepared, context);
+  };
+
+  // Plugins are persisted with fn.toString() - store the author's executor, not this wrapper
+  validated.toString = () => executor.toString();
+  return validated;
+}
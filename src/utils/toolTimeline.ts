@@ -0,0 +1,72 @@
+/**
+ * Tool Timeline
+ *
+ * Works out each tool call's status and duration from the tool calls,
+ * results and timings useChat stores on an assistant message.
+ */
+
+import type { DisplayMessage, ToolTimelineEntry } from '../types';
+
+/**
+ * The error a tool result reports, if any
+ *
+ * Covers ToolInterruptedError (timeout/cancelled), ToolArgumentError and
+ * any other result shaped like `{ error }`.
+ */
+export function getToolResultError(result: unknown): string | null {
+  if (typeof result !== 'object' || result === null || !('error' in result)) return null;
+
+  const { error, message } = result as { error: unknown; message?: unknown };
+  if (typeof message === 'string' && message) return message;
+  if (typeof error === 'string' && error) return error;
+  if (typeof error === 'object' && error !== null && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return null;
+}
+
+/**
+ * A message's tool calls with their status, result and duration, in call order
+ */
+export function getToolTimeline(message: DisplayMessage): ToolTimelineEntry[] {
+  return (message.toolCalls ?? []).map(toolCall => {
+    const toolResult = message.toolResults?.find(r => r.toolCallId === toolCall.toolCallId);
+    const timing = message.toolTimings?.[toolCall.toolCallId];
+
+    if (!toolResult) {
+      if (message.isStreaming) {
+        return { toolCall, status: timing?.startedAt !== undefined ? 'running' : 'pending', hasResult: false };
+      }
+      return {
+        toolCall,
+        status: 'failed',
+        hasResult: false,
+        error: message.aborted ? 'Stopped before the tool finished' : 'No result received',
+      };
+    }
+
+    const error = getToolResultError(toolResult.result);
+    const durationMs = timing?.completedAt !== undefined
+      ? Math.max(0, timing.completedAt - (timing.startedAt ?? timing.calledAt))
+      : undefined;
+
+    return {
+      toolCall,
+      status: error === null ? 'succeeded' : 'failed',
+      hasResult: true,
+      result: toolResult.result,
+      ...(durationMs !== undefined ? { durationMs } : {}),
+      ...(error !== null ? { error } : {}),
+    };
+  });
+}
+
+/**
+ * Format a duration for display (e.g. "350ms", "1.2s", "2m 5s")
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,158 @@
+/**
+ * Tool Timeouts and Cancellation
+ *
+ * Every hydrated executor runs with a deadline (the tool's `timeoutMs`,
+ * 30s by default) and an AbortSignal in its ToolExecutionContext. When the
+ * deadline passes, or the instance's calls are cancelled (e.g. the user
+ * stops the response), the signal is aborted and the call resolves to a
+ * structured ToolInterruptedError instead of leaving the turn hanging.
+ *
+ * Executors should pass `context.signal` to fetch() and tear down any UI
+ * they opened when it aborts; ones that ignore it keep running in the
+ * background but their result is discarded.
+ */
+
+import type { ClientToolDefinition, ToolExecutor, ToolInterruptedError } from '../types';
+
+/** Timeout for tools that don't set timeoutMs */
+export const DEFAULT_TOOL_TIMEOUT_MS = 30000;
+
+/** Cancel functions of in-flight calls by instance */
+const activeCalls: Map<string, Set<() => void>> = new Map();
+
+/** Executor start listeners by instance */
+const startListeners: Map<string, Set<(toolName: string) => void>> = new Map();
+
+/**
+ * Track an in-flight call for an instance - returns the untrack function
+ */
+function trackCall(instanceId: string, cancel: () => void): () => void {
+  let calls = activeCalls.get(instanceId);
+  if (!calls) {
+    calls = new Set();
+    activeCalls.set(instanceId, calls);
+  }
+  calls.add(cancel);
+
+  return () => {
+    calls.delete(cancel);
+    if (calls.size === 0) activeCalls.delete(instanceId);
+  };
+}
+
+/**
+ * Wrap an executor with its tool's timeout and instance-wide cancellation
+ *
+ * A signal passed in by the caller is honoured too. Errors thrown by the
+ * executor are passed through unchanged.
+ */
+export function withToolTimeout(
+  tool: ClientToolDefinition,
+  executor: ToolExecutor,
+  instanceId: string = 'default'
+): ToolExecutor {
+  const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+
+  const wrapped: ToolExecutor = (args, context) => {
+    const controller = new AbortController();
+    const deadline = timeoutMs > 0 ? Date.now() + timeoutMs : Infinity;
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = () => {
+        clearTimeout(timer);
+        context?.signal.removeEventListener('abort', cancel);
+        untrack();
+      };
+
+      const interrupt = (result: ToolInterruptedError) => {
+        finish();
+        controller.abort(result.message);
+        resolve(result);
+      };
+
+      const cancel = () => interrupt({
+        error: 'cancelled',
+        tool: tool.name,
+        message: `Tool "${tool.name}" was cancelled`,
+      });
+      const untrack = trackCall(instanceId, cancel);
+
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => interrupt({
+          error: 'timeout',
+          tool: tool.name,
+          message: `Tool "${tool.name}" did not finish within ${timeoutMs}ms`,
+          timeoutMs,
+        }), timeoutMs);
+      }
+
+      if (context?.signal.aborted) {
+        cancel();
+        return;
+      }
+      context?.signal.addEventListener('abort', cancel);
+
+      Promise.resolve()
+        .then(() => {
+          for (const listener of [...(startListeners.get(instanceId) ?? [])]) {
+            listener(tool.name);
+          }
+          return executor(args, { signal: controller.signal, deadline });
+        })
+        .then(
+          (result) => {
+            if (controller.signal.aborted) return;
+            finish();
+            resolve(result);
+          },
+          (err) => {
+            if (controller.signal.aborted) return;
+            finish();
+            reject(err);
+          }
+        );
+    });
+  };
+
+  // Plugins are persisted with fn.toString() - store the author's executor, not this wrapper
+  wrapped.toString = () => executor.toString();
+  return wrapped;
+}
+
+/**
+ * Cancel every in-flight tool call for an instance
+ * Each call resolves to { error: 'cancelled' } and its signal is aborted.
+ */
+export function cancelToolCalls(instanceId: string = 'default'): void {
+  for (const cancel of [...(activeCalls.get(instanceId) ?? [])]) {
+    cancel();
+  }
+}
+
+/**
+ * Subscribe to executors starting for an instance - returns the unsubscribe function
+ * Lets a chat UI tell a tool call that is running from one still waiting.
+ */
+export function onToolCallStart(listener: (toolName: string) => void, instanceId: string = 'default'): () => void {
+  let listeners = startListeners.get(instanceId);
+  if (!listeners) {
+    listeners = new Set();
+    startListeners.set(instanceId, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) startListeners.delete(instanceId);
+  };
+}
+
+/**
+ * Whether a tool result is a timeout or cancellation
+ */
+export function isToolInterrupted(result: unknown): result is ToolInterruptedError {
+  const error = (result as { error?: unknown } | null)?.error;
+  return typeof result === 'object' && result !== null && (error === 'timeout' || error === 'cancelled');
+}
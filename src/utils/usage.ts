@@ -0,0 +1,97 @@
+/**
+ * Usage and Context Helpers
+ *
+ * Cost estimates from Model.pricing, and the context-window state the
+ * server reports in ChatResponse.pathInfo, for message footers and meters.
+ */
+
+import type { ChatResponse, ConversationMessage, Model } from '../types';
+
+/** Share of the summarization threshold at which the context meter warns */
+export const DEFAULT_CONTEXT_WARNING_RATIO = 0.8;
+
+/**
+ * Context window state, from a reply's pathInfo
+ */
+export interface ContextUsage {
+  /** Tokens in the conversation path */
+  totalTokens: number;
+  /** Token count at which older messages are summarized */
+  threshold: number;
+  /** totalTokens / threshold (can exceed 1) */
+  ratio: number;
+  /** ok, warning (close to the threshold) or summarizing (threshold reached) */
+  level: 'ok' | 'warning' | 'summarizing';
+}
+
+/**
+ * Estimated cost in USD of a reply's tokens at a model's pricing
+ * Null when the usage or the model's pricing is unknown.
+ */
+export function estimateCost(usage: ChatResponse['usage'], model?: Model | null): number | null {
+  if (!usage || !model?.pricing) return null;
+
+  const promptPrice = parseFloat(model.pricing.prompt || '');
+  const completionPrice = parseFloat(model.pricing.completion || '');
+  if (Number.isNaN(promptPrice) && Number.isNaN(completionPrice)) return null;
+
+  return (usage.prompt_tokens ?? 0) * (promptPrice || 0) + (usage.completion_tokens ?? 0) * (completionPrice || 0);
+}
+
+/**
+ * Format a USD amount, keeping small amounts readable (e.g. "$0.0042", "$1.25")
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.0001) return '<$0.0001';
+  if (usd < 1) {
+    // Round before picking the format - 0.999 becomes $1.00, not "$1."
+    const rounded = Number(usd.toPrecision(2));
+    if (rounded < 1) return `$${rounded}`;
+  }
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Format a token count (e.g. "950", "12.3K")
+ */
+export function formatTokenCount(tokens: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(tokens);
+}
+
+/**
+ * Tool categories used for a reply
+ */
+export function getToolCategories(message: ConversationMessage): string[] {
+  return message.devToolsInfo?.qualifiedCategories ?? message.reasoning?.categories ?? [];
+}
+
+/**
+ * The newest pathInfo among messages (e.g. the selected branch)
+ */
+export function getLatestPathInfo(messages: ConversationMessage[]): ChatResponse['pathInfo'] | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].pathInfo) return messages[i].pathInfo;
+  }
+  return undefined;
+}
+
+/**
+ * How full the context window is before the server summarizes older messages
+ * Null when pathInfo has no token count or threshold.
+ */
+export function getContextUsage(
+  pathInfo: ChatResponse['pathInfo'],
+  warningRatio: number = DEFAULT_CONTEXT_WARNING_RATIO
+): ContextUsage | null {
+  const totalTokens = pathInfo?.totalTokens;
+  const threshold = pathInfo?.threshold;
+  if (totalTokens === undefined || !threshold) return null;
+
+  const ratio = totalTokens / threshold;
+  const level = pathInfo?.thresholdReached || ratio >= 1
+    ? 'summarizing'
+    : ratio >= warningRatio ? 'warning' : 'ok';
+
+  return { totalTokens, threshold, ratio, level };
+}
@@ -0,0 +1,346 @@
+/**
+ * Usage Tracker
+ *
+ * Accumulates the token usage and estimated cost of every response, per
+ * HustleProvider instance and vault (AuthUser.identifier), in localStorage.
+ * HustleProvider records each chat/chatStream response that reports usage
+ * and refuses new requests with a BudgetExceededError once the instance's
+ * soft budget is used up. useUsage() reads it for UIs.
+ *
+ * Past MAX_USAGE_RECORDS the oldest records are rolled up into one per
+ * day and model, so totals and budgets stay exact while storage stays
+ * bounded (only per-message detail of old responses is lost).
+ */
+
+import { STORAGE_KEYS, generateId } from './index';
+import { getConversationScopeKey } from './conversationStore';
+import type {
+  ConversationScope,
+  UsageRecord,
+  UsageTotals,
+  UsageSummary,
+  UsageBudget,
+  UsageBudgetStatus,
+} from '../types';
+
+type UsageChangeCallback = () => void;
+
+/** Records kept per scope before the oldest are rolled up */
+export const MAX_USAGE_RECORDS = 1000;
+
+/**
+ * localStorage key of a scope's usage records
+ */
+export function getUsageStorageKey(scope: ConversationScope): string {
+  return `${STORAGE_KEYS.USAGE}-${getConversationScopeKey(scope)}`;
+}
+
+/**
+ * Thrown by chat() and chatStream() when the instance's usage budget is used up
+ */
+export class BudgetExceededError extends Error {
+  readonly budget: UsageBudget;
+  readonly usage: UsageTotals;
+
+  constructor(budget: UsageBudget, usage: UsageTotals) {
+    const limits = [
+      budget.maxCostUsd !== undefined ? `$${budget.maxCostUsd}` : null,
+      budget.maxTokens !== undefined ? `${budget.maxTokens} tokens` : null,
+    ].filter(Boolean).join(' / ');
+    super(`Usage budget exceeded (${limits} per ${budget.period ?? 'day'})`);
+    this.name = 'BudgetExceededError';
+    this.budget = budget;
+    this.usage = usage;
+  }
+}
+
+/**
+ * Whether an error is a BudgetExceededError
+ */
+export function isBudgetExceededError(err: unknown): err is BudgetExceededError {
+  return err instanceof BudgetExceededError;
+}
+
+/**
+ * Local date of a timestamp as YYYY-MM-DD
+ */
+export function getUsageDay(timestamp: string | Date): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, unpricedRequests: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests += record.requests ?? 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  if (record.costUsd === null) {
+    totals.unpricedRequests += 1;
+  } else {
+    totals.costUsd += record.costUsd;
+    totals.unpricedRequests += record.unpricedRequests ?? 0;
+  }
+}
+
+/**
+ * Keep at most `max` records (oldest first) by rolling the oldest half up
+ * into one record per day and model
+ *
+ * If even the rolled-up days don't fit, the oldest of them are dropped.
+ */
+export function compactUsageRecords(records: UsageRecord[], max: number = MAX_USAGE_RECORDS): UsageRecord[] {
+  if (records.length <= max) return records;
+
+  const cut = records.length - Math.floor(max / 2);
+  const rolledUp = new Map<string, UsageRecord>();
+  for (const record of records.slice(0, cut)) {
+    const key = `${getUsageDay(record.timestamp)}|${record.model ?? ''}`;
+    const day: UsageRecord = rolledUp.get(key) ?? {
+      id: generateId('usage'),
+      timestamp: record.timestamp,
+      ...(record.model ? { model: record.model } : {}),
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+    };
+    rolledUp.set(key, day);
+
+    day.promptTokens += record.promptTokens;
+    day.completionTokens += record.completionTokens;
+    day.totalTokens += record.totalTokens;
+    day.costUsd = (day.costUsd ?? 0) + (record.costUsd ?? 0);
+    day.requests = (day.requests ?? 0) + (record.requests ?? 1);
+    day.unpricedRequests = (day.unpricedRequests ?? 0) + (record.costUsd === null ? 1 : record.unpricedRequests ?? 0);
+  }
+
+  return [...rolledUp.values(), ...records.slice(cut)].slice(-max);
+}
+
+/**
+ * Sum records overall and by message, conversation, model and day
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { total: emptyTotals(), byMessage: {}, byConversation: {}, byModel: {}, byDay: {} };
+
+  const addTo = (group: Record<string, UsageTotals>, key: string, record: UsageRecord) => {
+    group[key] ??= emptyTotals();
+    addToTotals(group[key], record);
+  };
+
+  for (const record of records) {
+    addToTotals(summary.total, record);
+    if (record.messageId) addTo(summary.byMessage, record.messageId, record);
+    if (record.conversationId) addTo(summary.byConversation, record.conversationId, record);
+    addTo(summary.byModel, record.model || 'default', record);
+    addTo(summary.byDay, getUsageDay(record.timestamp), record);
+  }
+
+  return summary;
+}
+
+/**
+ * Whether a record falls in the budget period containing `now`
+ */
+function isInPeriod(record: UsageRecord, period: UsageBudget['period'], now: Date): boolean {
+  if (period === 'all') return true;
+  const day = getUsageDay(record.timestamp);
+  const today = getUsageDay(now);
+  return period === 'month' ? day.slice(0, 7) === today.slice(0, 7) : day === today;
+}
+
+/**
+ * Usage against a budget for the period containing `now`
+ */
+export function getBudgetStatus(
+  records: UsageRecord[],
+  budget: UsageBudget,
+  now: Date = new Date()
+): UsageBudgetStatus {
+  const usage = emptyTotals();
+  for (const record of records) {
+    if (isInPeriod(record, budget.period ?? 'day', now)) addToTotals(usage, record);
+  }
+
+  const costExceeded = budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd;
+  const tokensExceeded = budget.maxTokens !== undefined && usage.totalTokens >= budget.maxTokens;
+
+  return {
+    budget,
+    usage,
+    exceeded: costExceeded || tokensExceeded,
+    ...(budget.maxCostUsd !== undefined ? { remainingCostUsd: Math.max(0, budget.maxCostUsd - usage.costUsd) } : {}),
+    ...(budget.maxTokens !== undefined ? { remainingTokens: Math.max(0, budget.maxTokens - usage.totalTokens) } : {}),
+  };
+}
+
+/**
+ * Quote a CSV field when needed
+ */
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Columns of usageToCsv */
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp',
+  'conversationId',
+  'messageId',
+  'model',
+  'promptTokens',
+  'completionTokens',
+  'totalTokens',
+  'costUsd',
+];
+
+/**
+ * Usage records as CSV, one row per response (oldest first)
+ */
+export function usageToCsv(records: UsageRecord[]): string {
+  const rows = records.map(record => CSV_COLUMNS.map(column => csvField(record[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Save usage records as a CSV file (browser only)
+ */
+export function downloadUsageCsv(records: UsageRecord[], fileName: string = 'hustle-usage.csv'): void {
+  const blob = new Blob([usageToCsv(records)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Usage Tracker class
+ *
+ * Records are persisted per scope (instance + vault); budgets and
+ * listeners are per instance.
+ */
+class UsageTracker {
+  private listeners: Map<string, Set<UsageChangeCallback>> = new Map();
+  private budgets: Map<string, UsageBudget> = new Map();
+
+  /**
+   * Get the usage records of a scope, oldest first
+   */
+  getRecords(scope: ConversationScope): UsageRecord[] {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(getUsageStorageKey(scope));
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveRecords(scope: ConversationScope, records: UsageRecord[]): void {
+    if (typeof window === 'undefined') return;
+    try {
+      localStorage.setItem(getUsageStorageKey(scope), JSON.stringify(records));
+    } catch (err) {
+      console.error('[Hustle] Failed to save usage:', err);
+    }
+    this.notifyListeners(scope.instanceId);
+  }
+
+  /**
+   * Record the usage of a response
+   */
+  record(
+    scope: ConversationScope,
+    usage: Omit<UsageRecord, 'id' | 'timestamp'> & { timestamp?: string }
+  ): UsageRecord {
+    const record: UsageRecord = {
+      id: generateId('usage'),
+      ...usage,
+      timestamp: usage.timestamp ?? new Date().toISOString(),
+    };
+    this.saveRecords(scope, compactUsageRecords([...this.getRecords(scope), record]));
+    return record;
+  }
+
+  /**
+   * Delete the usage records of a scope
+   */
+  clear(scope: ConversationScope): void {
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(getUsageStorageKey(scope));
+    }
+    this.notifyListeners(scope.instanceId);
+  }
+
+  /**
+   * Set (or remove, with undefined) the soft budget for an instance
+   */
+  setBudget(budget: UsageBudget | undefined, instanceId: string = 'default'): void {
+    const current = this.budgets.get(instanceId);
+    if (JSON.stringify(current) === JSON.stringify(budget)) return;
+
+    if (budget) {
+      this.budgets.set(instanceId, budget);
+    } else {
+      this.budgets.delete(instanceId);
+    }
+    this.notifyListeners(instanceId);
+  }
+
+  /**
+   * Get the soft budget for an instance
+   */
+  getBudget(instanceId: string = 'default'): UsageBudget | undefined {
+    return this.budgets.get(instanceId);
+  }
+
+  /**
+   * Usage against the instance's budget (null without a budget)
+   */
+  getBudgetStatus(scope: ConversationScope, now?: Date): UsageBudgetStatus | null {
+    const budget = this.budgets.get(scope.instanceId);
+    return budget ? getBudgetStatus(this.getRecords(scope), budget, now) : null;
+  }
+
+  /**
+   * Throw a BudgetExceededError if the instance's budget is used up
+   */
+  assertWithinBudget(scope: ConversationScope): void {
+    const status = this.getBudgetStatus(scope);
+    if (status?.exceeded) {
+      throw new BudgetExceededError(status.budget, status.usage);
+    }
+  }
+
+  /**
+   * Subscribe to usage and budget changes for an instance
+   */
+  onChange(callback: UsageChangeCallback, instanceId: string = 'default'): () => void {
+    if (!this.listeners.has(instanceId)) {
+      this.listeners.set(instanceId, new Set());
+    }
+    const listeners = this.listeners.get(instanceId)!;
+    listeners.add(callback);
+    return () => listeners.delete(callback);
+  }
+
+  private notifyListeners(instanceId: string): void {
+    this.listeners.get(instanceId)?.forEach((cb) => cb());
+  }
+}
+
+// Singleton instance
+export const usageTracker = new UsageTracker();
+
+export default usageTracker;
@@ -0,0 +1,216 @@
+// @vitest-environment node
+// Node environment so the catalog is fetched over real HTTP from a local fixture server
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  PluginCatalog,
+  parseCatalog,
+  searchCatalog,
+  getCatalogTags,
+  catalogEntryToStoredPlugin,
+  findPluginUpdates,
+} from '../src/utils/pluginCatalog';
+import { bundledPluginCatalog } from '../src/plugins';
+import type { PluginCatalogEntry } from '../src/types';
+
+const fixture = readFileSync(join(__dirname, 'fixtures', 'plugin-catalog.json'), 'utf8');
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === '/catalog.json') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(fixture);
+    } else if (req.url === '/broken.json') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end('{ "plugins": ');
+    } else if (req.url === '/slow.json') {
+      // Never responds - exercises the timeout
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('PluginCatalog', () => {
+  it('loads entries from the catalog URL', async () => {
+    const catalog = new PluginCatalog({ url: `${baseUrl}/catalog.json` });
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const entries = await catalog.load();
+
+    expect(catalog.source).toBe('remote');
+    expect(catalog.error).toBeNull();
+    expect(entries.map((e) => e.name)).toEqual(['weather', 'market-digest']);
+    expect(catalog.getEntry('weather')).toMatchObject({
+      version: '2.1.0',
+      versions: ['2.1.0', '2.0.0', '1.4.2'],
+      publisher: { name: 'Acme Tools', url: 'https://acme.example' },
+    });
+    // The nameless entry was skipped and reported
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('missing name'));
+    errorSpy.mockRestore();
+  });
+
+  it('shares one request between concurrent loads', async () => {
+    const fetchSpy = vi.fn(fetch);
+    const catalog = new PluginCatalog({ url: `${baseUrl}/catalog.json`, fetch: fetchSpy });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await Promise.all([catalog.load(), catalog.load()]);
+    await catalog.load();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the bundled catalog when the URL fails', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    for (const path of ['/missing.json', '/broken.json']) {
+      const catalog = new PluginCatalog({ url: `${baseUrl}${path}` });
+      const entries = await catalog.load();
+
+      expect(catalog.source).toBe('bundled');
+      expect(catalog.error).toBeInstanceOf(Error);
+      expect(entries).toBe(bundledPluginCatalog);
+    }
+    errorSpy.mockRestore();
+  });
+
+  it('times out slow catalogs', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const catalog = new PluginCatalog({ url: `${baseUrl}/slow.json`, timeoutMs: 50 });
+
+    await catalog.load();
+
+    expect(catalog.source).toBe('bundled');
+    expect(catalog.error).not.toBeNull();
+    errorSpy.mockRestore();
+  });
+
+  it('uses the fallback without a URL', async () => {
+    const fallback: PluginCatalogEntry[] = [{ name: 'local', version: '1.0.0', description: '' }];
+    const catalog = new PluginCatalog({ fallback });
+
+    await expect(catalog.load()).resolves.toBe(fallback);
+    expect(catalog.error).toBeNull();
+  });
+
+  it('notifies subscribers when loading finishes', async () => {
+    const catalog = new PluginCatalog({ url: `${baseUrl}/catalog.json` });
+    const listener = vi.fn();
+    catalog.subscribe(listener);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await catalog.load();
+
+    // Once when loading starts, once when it settles
+    expect(listener).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('parseCatalog', () => {
+  it('rejects documents without a plugins array', () => {
+    expect(() => parseCatalog({ schemaVersion: 1 })).toThrow('Invalid plugin catalog');
+  });
+
+  it('rejects unknown schema versions', () => {
+    expect(() => parseCatalog({ schemaVersion: 2, plugins: [] })).toThrow('schemaVersion');
+  });
+
+  it('skips entries with non-string executor code', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const entries = parseCatalog({
+      schemaVersion: 1,
+      plugins: [{
+        name: 'bad',
+        version: '1.0.0',
+        tools: [{ name: 't', parameters: { type: 'object' }, executorCode: 42 }],
+      }],
+    });
+    expect(entries).toEqual([]);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('searchCatalog', () => {
+  it('matches name, tag and description', () => {
+    expect(searchCatalog(bundledPluginCatalog, 'prediction').map((e) => e.name)).toContain('prediction-market-alpha');
+    expect(searchCatalog(bundledPluginCatalog, 'privacy').map((e) => e.name)).toEqual(['pii-protection']);
+    expect(searchCatalog(bundledPluginCatalog, 'multiple choice').map((e) => e.name)).toEqual(['user-question']);
+  });
+
+  it('requires every term to match', () => {
+    expect(searchCatalog(bundledPluginCatalog, 'kalshi privacy')).toEqual([]);
+  });
+
+  it('ranks name matches first', () => {
+    const entries: PluginCatalogEntry[] = [
+      { name: 'digest', version: '1.0.0', description: 'Summaries of market news' },
+      { name: 'market-data', version: '1.0.0', description: 'Prices' },
+    ];
+    expect(searchCatalog(entries, 'market').map((e) => e.name)).toEqual(['market-data', 'digest']);
+  });
+
+  it('filters by tag', () => {
+    expect(searchCatalog(bundledPluginCatalog, '', { tag: 'markets' }).map((e) => e.name)).toEqual(['prediction-market-alpha']);
+  });
+
+  it('returns everything for an empty query', () => {
+    expect(searchCatalog(bundledPluginCatalog, '  ')).toHaveLength(bundledPluginCatalog.length);
+  });
+});
+
+describe('bundled catalog', () => {
+  it('lists the built-in plugins with versions and publishers', () => {
+    for (const entry of bundledPluginCatalog) {
+      expect(entry.versions).toEqual([entry.version]);
+      expect(entry.publisher?.name).toBeTruthy();
+    }
+    expect(getCatalogTags(bundledPluginCatalog)).toContain('markets');
+  });
+
+  it('converts entries to the stored plugin form', () => {
+    const stored = catalogEntryToStoredPlugin(bundledPluginCatalog[0]);
+    expect(stored).not.toHaveProperty('publisher');
+    expect(stored).not.toHaveProperty('tags');
+    expect(stored.tools?.every((tool) => typeof tool.executorCode === 'string')).toBe(true);
+  });
+});
+
+describe('findPluginUpdates', () => {
+  const entries: PluginCatalogEntry[] = [
+    { name: 'weather', version: '2.1.0', description: '' },
+    { name: 'digest', version: '0.3.0', description: '' },
+  ];
+
+  it('reports installed plugins with a newer catalog version', () => {
+    const updates = findPluginUpdates(
+      [{ name: 'weather', version: '2.0.0' }, { name: 'digest', version: '0.3.0' }, { name: 'local', version: '1.0.0' }],
+      entries
+    );
+    expect(updates).toEqual({
+      weather: { name: 'weather', currentVersion: '2.0.0', latestVersion: '2.1.0' },
+    });
+  });
+
+  it('ignores installs that are newer than the catalog', () => {
+    expect(findPluginUpdates([{ name: 'weather', version: '3.0.0-beta.1' }], entries)).toEqual({});
+  });
+});
@@ -0,0 +1,561 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act, cleanup, within } from '@testing-library/react';
+import type {
+  ChatResponse,
+  ModelOptions,
+  StreamChunk,
+  StreamOptions,
+  StreamWithResponse,
+  ToolResultRendererProps,
+} from '../src/types';
+
+// Mock state shared with the provider mocks
+const { mockState } = vi.hoisted(() => ({
+  mockState: {
+    streamCalls: [] as StreamOptions[],
+    store: null as unknown,
+    setSelectedModel: null as null | ((model: string) => void),
+    setModelOptions: null as null | ((options: ModelOptions) => void),
+    chunks: [] as StreamChunk[],
+    response: { content: 'Hello there' } as ChatResponse,
+  },
+}));
+
+vi.mock('../src/providers/HustleProvider', () => ({
+  useHustle: () => ({
+    instanceId: 'chat-ui-test',
+    isReady: true,
+    isLoading: false,
+    error: null,
+    models: [
+      { id: 'openai/gpt-4o', name: 'GPT-4o', context_length: 128000, pricing: { prompt: '0', completion: '0' } },
+      { id: 'anthropic/claude', name: 'Claude', context_length: 200000, pricing: { prompt: '0', completion: '0' } },
+    ],
+    selectedModel: '',
+    setSelectedModel: (model: string) => mockState.setSelectedModel?.(model),
+    systemPrompt: '',
+    setSystemPrompt: () => {},
+    skipServerPrompt: false,
+    setSkipServerPrompt: () => {},
+    modelOptions: {},
+    setModelOptions: (options: ModelOptions) => mockState.setModelOptions?.(options),
+    activeProfileId: 'default',
+    pluginCatalogUrl: undefined,
+    chatStream: (options: StreamOptions): StreamWithResponse => {
+      mockState.streamCalls.push(options);
+      const chunks = mockState.chunks;
+      return {
+        [Symbol.asyncIterator]: async function* () {
+          yield* chunks;
+        },
+        response: Promise.resolve(mockState.response),
+        abort: () => {},
+      };
+    },
+    uploadFile: async (file: File) => ({ url: `https://files.test/${file.name}`, name: file.name }),
+    conversationStore: mockState.store,
+  }),
+}));
+
+vi.mock('../src/providers/EmblemAuthProvider', () => ({
+  useEmblemAuth: () => ({ isAuthenticated: true, session: { user: { identifier: 'user-1' } } }),
+}));
+
+import { Chat, HustleChat, MessageBubble, useChatContext } from '../src/components';
+import { MemoryConversationStore } from '../src/utils/conversationStore';
+import { pluginRegistry } from '../src/utils/pluginRegistry';
+import { readShareLink } from '../src/utils/conversationShare';
+import { promptLibrary } from '../src/utils/promptLibrary';
+
+/**
+ * Wait until the conversation has been restored and the composer is usable
+ */
+async function waitForComposer() {
+  await waitFor(() => expect(screen.getByPlaceholderText('Type a message...')).not.toHaveProperty('disabled', true));
+}
+
+describe('Chat primitives', () => {
+  beforeEach(() => {
+    mockState.streamCalls = [];
+    mockState.store = new MemoryConversationStore();
+    mockState.setSelectedModel = null;
+    mockState.setModelOptions = null;
+    mockState.chunks = [{ type: 'text', value: 'Hello there' }];
+    mockState.response = { content: 'Hello there' };
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('sends from the composer and shows the reply in the message list', async () => {
+    const onResponse = vi.fn();
+    render(
+      <Chat.Root onResponse={onResponse}>
+        <Chat.Messages />
+        <Chat.Composer />
+      </Chat.Root>
+    );
+    expect(screen.getByText('Start a conversation...')).toBeTruthy();
+    await waitForComposer();
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message...'), { target: { value: 'Hi' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+
+    await waitFor(() => expect(screen.getByText('Hello there')).toBeTruthy());
+    expect(screen.getByText('Hi')).toBeTruthy();
+    expect(mockState.streamCalls[0].messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(onResponse).toHaveBeenCalledWith('Hello there');
+    expect((screen.getByPlaceholderText('Type a message...') as HTMLTextAreaElement).value).toBe('');
+  });
+
+  it('lets the message list and composer be placed apart', async () => {
+    render(
+      <Chat.Root>
+        <section data-testid="thread">
+          <Chat.Messages emptyState={<p>Nothing yet</p>} />
+        </section>
+        <aside data-testid="dock">
+          <Chat.Composer placeholder="Ask..." />
+        </aside>
+      </Chat.Root>
+    );
+
+    expect(screen.getByTestId('thread').textContent).toContain('Nothing yet');
+    expect(screen.getByTestId('dock').querySelector('textarea')?.placeholder).toBe('Ask...');
+  });
+
+  it('renders messages through renderMessage', async () => {
+    render(
+      <Chat.Root>
+        <Chat.Messages
+          renderMessage={(message, props) => (
+            <div data-testid={`message-${message.role}`}>
+              <MessageBubble {...props} />
+            </div>
+          )}
+        />
+        <Chat.Composer />
+      </Chat.Root>
+    );
+    await waitForComposer();
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message...'), { target: { value: 'Hi' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+
+    await waitFor(() => expect(screen.getByTestId('message-assistant').textContent).toContain('Hello there'));
+    expect(screen.getByTestId('message-user').textContent).toContain('Hi');
+    // The default bubble props still wire up regenerate on the last reply
+    expect(screen.getByText('Regenerate')).toBeTruthy();
+  });
+
+  it('renders tool results with plugin renderers, overridable by tool name', async () => {
+    function PriceCard({ result }: ToolResultRendererProps) {
+      return <span>Plugin price {(result as { price: number }).price}</span>;
+    }
+    pluginRegistry.register({
+      name: 'price-plugin',
+      version: '1.0.0',
+      tools: [{ name: 'get_price', description: 'Get a price', parameters: { type: 'object', properties: {} } }],
+      executors: { get_price: async () => ({ price: 1 }) },
+      renderToolResult: PriceCard,
+    }, true, 'chat-ui-test');
+    mockState.chunks = [
+      { type: 'tool_call', value: { toolCallId: 'call-1', toolName: 'get_price' } },
+      { type: 'tool_result', value: { toolCallId: 'call-1', result: { price: 5 } } },
+      { type: 'tool_call', value: { toolCallId: 'call-2', toolName: 'get_volume' } },
+      { type: 'tool_result', value: { toolCallId: 'call-2', result: { volume: 8 } } },
+      { type: 'text', value: 'Hello there' },
+    ];
+
+    const { rerender } = render(
+      <Chat.Root>
+        <Chat.Messages />
+        <Chat.Composer />
+      </Chat.Root>
+    );
+    await waitForComposer();
+    fireEvent.change(screen.getByPlaceholderText('Type a message...'), { target: { value: 'Price?' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+
+    await waitFor(() => expect(screen.getByText('Plugin price 5')).toBeTruthy());
+    // No renderer for get_volume - collapsed JSON in the tool timeline
+    expect(screen.getByText('get_volume').closest('summary')).toBeTruthy();
+    expect(screen.getByText('get_volume').closest('details')!.querySelector('pre')!.textContent).toContain('"volume": 8');
+
+    rerender(
+      <Chat.Root>
+        <Chat.Messages toolRenderers={{ get_price: () => <span>Custom price</span> }} />
+        <Chat.Composer />
+      </Chat.Root>
+    );
+    expect(screen.getByText('Custom price')).toBeTruthy();
+  });
+
+  it('shows the usage footer and a context meter in HustleChat', async () => {
+    mockState.response = {
+      content: 'Hello there',
+      usage: { prompt_tokens: 900, completion_tokens: 100 },
+      pathInfo: { totalTokens: 9000, threshold: 10000 },
+    };
+    render(<HustleChat />);
+    await waitForComposer();
+    expect(screen.queryByRole('meter')).toBeNull();
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message...'), { target: { value: 'Hi' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+
+    await waitFor(() => expect(screen.getByText('100 out')).toBeTruthy());
+    expect(screen.getByRole('meter').getAttribute('aria-valuenow')).toBe('9000');
+    expect(screen.getByText('Older messages will be summarized soon')).toBeTruthy();
+  });
+
+  it('exports the conversation and imports one from the export menu', async () => {
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:transcript');
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = vi.fn();
+
+    const { container } = render(<HustleChat showExport />);
+    await waitForComposer();
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message...'), { target: { value: 'Hi' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+    await waitFor(() => expect(screen.getByText('Hello there')).toBeTruthy());
+
+    fireEvent.click(screen.getByTitle('Export'));
+    fireEvent.click(screen.getByText('Export as Markdown'));
+
+    const markdown = await createObjectURL.mock.calls[0][0].text();
+    expect(markdown).toContain('## User');
+    expect(markdown).toContain('Hello there');
+    expect(screen.queryByRole('menu')).toBeNull();
+
+    // Import a conversation and continue it
+    const exported = JSON.stringify({
+      format: 'hustle-conversation',
+      version: 1,
+      exportedAt: '2026-03-10T12:00:00.000Z',
+      conversation: {
+        id: 'conv-imported',
+        title: 'Imported thread',
+        messages: [
+          { id: 'i1', role: 'user', content: 'Old question' },
+          { id: 'i2', role: 'assistant', content: 'Old answer' },
+        ],
+        createdAt: '2026-03-10T12:00:00.000Z',
+        updatedAt: '2026-03-10T12:00:00.000Z',
+      },
+    });
+    fireEvent.click(screen.getByTitle('Export'));
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    await act(async () => {
+      fireEvent.change(input, { target: { files: [new File([exported], 'thread.json')] } });
+    });
+
+    await waitFor(() => expect(screen.getByText('Old answer')).toBeTruthy());
+    expect(screen.getByText('Imported thread')).toBeTruthy();
+    expect(screen.queryByText('Hi')).toBeNull();
+  });
+
+  it('shows why an import failed', async () => {
+    const { container } = render(<HustleChat showExport />);
+    await waitForComposer();
+
+    fireEvent.click(screen.getByTitle('Export'));
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    await act(async () => {
+      fireEvent.change(input, { target: { files: [new File(['{"format":"other"}'], 'bad.json')] } });
+    });
+
+    await waitFor(() => expect(
+      screen.getByText('Invalid conversation export: not a Hustle conversation export')
+    ).toBeTruthy());
+  });
+
+  it('copies a share link from the export menu', async () => {
+    const writeText = vi.fn((_text: string) => Promise.resolve());
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+    render(<HustleChat showExport />);
+    await waitForComposer();
+
+    fireEvent.change(screen.getByPlaceholderText('Type a message...'), { target: { value: 'Hi' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+    await waitFor(() => expect(screen.getByText('Hello there')).toBeTruthy());
+
+    fireEvent.click(screen.getByTitle('Export'));
+    await act(async () => {
+      fireEvent.click(screen.getByText('Copy share link'));
+    });
+
+    await waitFor(() => expect(screen.getByText('Link copied')).toBeTruthy());
+    const snapshot = await readShareLink(writeText.mock.calls[0][0]);
+    expect(snapshot?.conversation.messages.map(m => m.content)).toEqual(['Hi', 'Hello there']);
+  });
+
+  it('runs slash commands locally without sending them', async () => {
+    const setSelectedModel = vi.fn();
+    mockState.setSelectedModel = setSelectedModel;
+    render(<HustleChat />);
+    await waitForComposer();
+    const textarea = screen.getByPlaceholderText('Type a message...');
+
+    fireEvent.change(textarea, { target: { value: '/model gpt-4o' } });
+    await act(async () => {
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+    });
+
+    expect(setSelectedModel).toHaveBeenCalledWith('openai/gpt-4o');
+    expect(screen.getByRole('status').textContent).toBe('Model set to openai/gpt-4o');
+    expect(mockState.streamCalls).toEqual([]);
+
+    // A double slash sends the text with one slash
+    fireEvent.change(textarea, { target: { value: '//model is a word' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+    expect(mockState.streamCalls[0].messages).toEqual([{ role: 'user', content: '/model is a word' }]);
+  });
+
+  it('suggests commands as you type and runs the chosen one', async () => {
+    render(<HustleChat />);
+    await waitForComposer();
+    const textarea = screen.getByPlaceholderText('Type a message...');
+
+    fireEvent.change(textarea, { target: { value: 'Hi' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Send'));
+    });
+    await waitFor(() => expect(screen.getByText('Hello there')).toBeTruthy());
+
+    fireEvent.change(textarea, { target: { value: '/' } });
+    expect(screen.getAllByRole('option')).toHaveLength(6);
+
+    fireEvent.change(textarea, { target: { value: '/cl' } });
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual([
+      '/clearStart a new conversation',
+    ]);
+
+    // /clear takes no arguments, so choosing it runs it
+    await act(async () => {
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+    });
+    await waitFor(() => expect(screen.queryByText('Hello there')).toBeNull());
+    expect(screen.queryByRole('listbox')).toBeNull();
+    expect(mockState.streamCalls).toHaveLength(1);
+
+    // Commands with arguments are completed instead
+    fireEvent.change(textarea, { target: { value: '/mo' } });
+    fireEvent.keyDown(textarea, { key: 'Tab' });
+    expect((textarea as HTMLTextAreaElement).value).toBe('/model ');
+    expect(screen.queryByRole('listbox')).toBeNull();
+  });
+
+  it('offers commands from enabled plugins', async () => {
+    pluginRegistry.register({
+      name: 'ping-plugin',
+      version: '1.0.0',
+      commands: [{ name: 'ping', description: 'Reply locally', run: ({ notify }) => notify('pong') }],
+    }, true, 'chat-ui-test');
+
+    render(<HustleChat />);
+    await waitForComposer();
+    const textarea = screen.getByPlaceholderText('Type a message...');
+
+    fireEvent.change(textarea, { target: { value: '/pi' } });
+    expect(screen.getByRole('option').textContent).toContain('/ping');
+
+    fireEvent.change(textarea, { target: { value: '/ping' } });
+    fireEvent.keyDown(textarea, { key: 'Escape' });
+    expect(screen.queryByRole('listbox')).toBeNull();
+    await act(async () => {
+      fireEvent.keyDown(textarea, { key: 'Enter' });
+    });
+
+    expect(screen.getByRole('status').textContent).toBe('pong');
+    expect(mockState.streamCalls).toEqual([]);
+    pluginRegistry.unregister('ping-plugin', 'chat-ui-test');
+  });
+
+  it('fills in a template from the prompt picker and sends it', async () => {
+    promptLibrary.savePrompt({ kind: 'template', name: 'Market odds', content: 'Odds of {{event}} by {{date}}?' }, 'chat-ui-test');
+    promptLibrary.savePrompt({ kind: 'template', name: 'Summarize', content: 'Summarize this thread.' }, 'chat-ui-test');
+
+    render(<HustleChat showPrompts />);
+    await waitForComposer();
+
+    // Templates without variables go into the composer
+    fireEvent.click(screen.getByTitle('Prompts'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Summarize' }));
+    expect((screen.getByPlaceholderText('Type a message...') as HTMLTextAreaElement).value).toBe('Summarize this thread.');
+
+    fireEvent.click(screen.getByTitle('Prompts'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Market odds' }));
+    const form = screen.getByRole('form', { name: 'Market odds' });
+    fireEvent.change(screen.getByLabelText('event'), { target: { value: 'rain' } });
+    expect(within(form).getByText('Send')).toHaveProperty('disabled', true);
+    fireEvent.change(screen.getByLabelText('date'), { target: { value: 'Friday' } });
+    expect(screen.getByText('Odds of rain by Friday?')).toBeTruthy();
+    await act(async () => {
+      fireEvent.click(within(form).getByText('Send'));
+    });
+
+    await waitFor(() => expect(screen.getByText('Hello there')).toBeTruthy());
+    expect(mockState.streamCalls[0].messages).toEqual([{ role: 'user', content: 'Odds of rain by Friday?' }]);
+  });
+
+  it('saves and deletes templates in the settings prompt library', () => {
+    render(<Chat.SettingsPanel showPlugins={false} />);
+
+    fireEvent.change(screen.getByLabelText('Template name'), { target: { value: 'Odds' } });
+    fireEvent.change(screen.getByLabelText('Template text'), { target: { value: 'Odds of {{event}}?' } });
+    fireEvent.click(screen.getByText('Save template'));
+
+    expect(screen.getByText('Template • 1 variable')).toBeTruthy();
+    expect(promptLibrary.getPrompts('chat-ui-test').map(p => p.name)).toEqual(['Odds']);
+
+    fireEvent.click(screen.getByLabelText('Delete Odds'));
+    expect(screen.getByText('No saved prompts')).toBeTruthy();
+  });
+
+  it('switches, renames and duplicates settings profiles in the settings panel', () => {
+    const setModelOptions = vi.fn();
+    mockState.setModelOptions = setModelOptions;
+    render(<Chat.SettingsPanel showPlugins={false} showPromptLibrary={false} />);
+
+    const name = screen.getByLabelText('Profile name');
+    fireEvent.change(name, { target: { value: 'Trading analyst' } });
+    fireEvent.blur(name);
+    fireEvent.click(screen.getByText('Duplicate'));
+
+    const profile = screen.getByLabelText('Profile') as HTMLSelectElement;
+    expect(Array.from(profile.options).map(o => o.text)).toEqual(['Trading analyst', 'Trading analyst copy']);
+    expect(profile.selectedOptions[0].text).toBe('Trading analyst copy');
+
+    fireEvent.click(screen.getByText('Delete'));
+    expect(Array.from(profile.options).map(o => o.text)).toEqual(['Trading analyst']);
+    expect(screen.getByText('Delete')).toHaveProperty('disabled', true);
+
+    fireEvent.change(screen.getByLabelText("Temperature (blank for the model's default)"), { target: { value: '0.2' } });
+    expect(setModelOptions).toHaveBeenCalledWith({ temperature: 0.2 });
+  });
+
+  it('replaces the composer markup with a render prop', async () => {
+    render(
+      <Chat.Root>
+        <Chat.Messages />
+        <Chat.Composer>
+          {({ input, setInput, submit, canSubmit }) => (
+            <form onSubmit={(e) => { e.preventDefault(); submit(); }}>
+              <input aria-label="custom" value={input} onChange={(e) => setInput(e.target.value)} />
+              <button type="submit" disabled={!canSubmit}>Ask</button>
+            </form>
+          )}
+        </Chat.Composer>
+      </Chat.Root>
+    );
+    expect(screen.queryByText('Send')).toBeNull();
+    await waitFor(() => {
+      fireEvent.change(screen.getByLabelText('custom'), { target: { value: 'Custom hi' } });
+      expect(screen.getByText('Ask')).toHaveProperty('disabled', false);
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Ask'));
+    });
+
+    await waitFor(() => expect(screen.getByText('Hello there')).toBeTruthy());
+    expect(mockState.streamCalls[0].messages).toEqual([{ role: 'user', content: 'Custom hi' }]);
+  });
+
+  it('replaces the send button with renderActions', async () => {
+    render(
+      <Chat.Root>
+        <Chat.Composer renderActions={({ isStreaming }) => <span>{isStreaming ? 'busy' : 'idle'}</span>} />
+      </Chat.Root>
+    );
+
+    expect(screen.getByText('idle')).toBeTruthy();
+    expect(screen.queryByText('Send')).toBeNull();
+  });
+
+  it('shares chat state with custom pieces through useChatContext', async () => {
+    function MessageCount() {
+      const { messages, setInput } = useChatContext();
+      return <button onClick={() => setInput('Prefilled')}>{messages.length} messages</button>;
+    }
+
+    render(
+      <Chat.Root>
+        <MessageCount />
+        <Chat.Composer />
+      </Chat.Root>
+    );
+
+    fireEvent.click(screen.getByText('0 messages'));
+    expect((screen.getByPlaceholderText('Type a message...') as HTMLTextAreaElement).value).toBe('Prefilled');
+  });
+
+  it('throws when useChatContext is used outside Chat.Root', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    function Orphan() {
+      useChatContext();
+      return null;
+    }
+
+    expect(() => render(<Orphan />)).toThrow('useChatContext must be used within Chat.Root');
+    consoleError.mockRestore();
+  });
+
+  it('renders the settings panel without a Chat.Root', () => {
+    const setSelectedModel = vi.fn();
+    mockState.setSelectedModel = setSelectedModel;
+    render(<Chat.SettingsPanel showPlugins={false} showProfiles={false}><p>Extra setting</p></Chat.SettingsPanel>);
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'anthropic/claude' } });
+    expect(setSelectedModel).toHaveBeenCalledWith('anthropic/claude');
+    expect(screen.getByText('Extra setting')).toBeTruthy();
+    expect(screen.queryByText('Plugins')).toBeNull();
+  });
+
+  it('manages plugins on its own page with custom rows', async () => {
+    pluginRegistry.register({ name: 'admin-plugin', version: '1.0.0', tools: [] }, false, 'chat-ui-test');
+
+    render(
+      <Chat.PluginManager
+        showCatalog={false}
+        renderPlugin={({ plugin, toggle }) => (
+          <label>
+            <input type="checkbox" checked={plugin.enabled} onChange={toggle} />
+            {plugin.name}
+          </label>
+        )}
+      />
+    );
+
+    const checkbox = screen.getByLabelText('admin-plugin') as HTMLInputElement;
+    expect(checkbox.checked).toBe(false);
+
+    await act(async () => {
+      fireEvent.click(checkbox);
+    });
+
+    await waitFor(() => expect((screen.getByLabelText('admin-plugin') as HTMLInputElement).checked).toBe(true));
+    expect(pluginRegistry.loadFromStorage('chat-ui-test').find(p => p.name === 'admin-plugin')?.enabled).toBe(true);
+    expect(screen.queryByText('Available')).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createConversationExport,
+  exportConversation,
+  exportConversationJson,
+  exportConversationMarkdown,
+  exportConversationHtml,
+  readConversationExport,
+  getConversationExportFileName,
+} from '../src/utils/conversationExport';
+import type { Conversation } from '../src/types';
+
+const toolCall = { toolCallId: 'call-1', toolName: 'search_prediction_markets', args: { query: 'base' } };
+
+const conversation: Conversation = {
+  id: 'conv-1',
+  title: 'Odds on Base?',
+  messages: [
+    { id: 'u1', role: 'user', content: 'What are the odds?', createdAt: '2026-03-10T12:00:00.000Z', parentId: null },
+    {
+      id: 'a1',
+      role: 'assistant',
+      content: 'First answer',
+      createdAt: '2026-03-10T12:00:01.000Z',
+      parentId: 'u1',
+    },
+    {
+      id: 'a2',
+      role: 'assistant',
+      content: 'Base is at **62%** <img src=x onerror="alert(1)">',
+      createdAt: '2026-03-10T12:00:05.000Z',
+      parentId: 'u1',
+      model: 'openai/gpt-4o',
+      toolCalls: [toolCall],
+      toolResults: [{ toolCallId: 'call-1', toolName: 'search_prediction_markets', result: { markets: 3 } }],
+      toolTimings: { 'call-1': { calledAt: 1000, startedAt: 1100, completedAt: 2300 } },
+      usage: { prompt_tokens: 1200, completion_tokens: 45, total_tokens: 1245 },
+      reasoning: { thinking: 'Check the markets first' },
+    },
+  ],
+  selectedBranches: { u1: 'a2' },
+  createdAt: '2026-03-10T12:00:00.000Z',
+  updatedAt: '2026-03-10T12:00:06.000Z',
+};
+
+const settings = { model: 'openai/gpt-4o', systemPrompt: 'You are a trading analyst.' };
+
+describe('JSON export', () => {
+  it('keeps the whole conversation and the settings', () => {
+    const exported = createConversationExport(conversation, settings);
+
+    expect(exported).toMatchObject({
+      format: 'hustle-conversation',
+      version: 1,
+      model: 'openai/gpt-4o',
+      systemPrompt: 'You are a trading analyst.',
+    });
+    expect(exported.conversation).toEqual(conversation);
+  });
+
+  it('reads back what it wrote', async () => {
+    const read = await readConversationExport(exportConversationJson(conversation, settings));
+
+    expect(read.conversation).toEqual(conversation);
+    expect(read.systemPrompt).toBe('You are a trading analyst.');
+  });
+
+  it('reads files and finishes replies that were streaming', async () => {
+    const streaming = {
+      ...conversation,
+      messages: [{ id: 'a1', role: 'assistant' as const, content: 'Partial', isStreaming: true }],
+    };
+    const file = new Blob([exportConversationJson(streaming)], { type: 'application/json' });
+
+    const read = await readConversationExport(file);
+    expect(read.conversation.messages).toEqual([{ id: 'a1', role: 'assistant', content: 'Partial' }]);
+  });
+
+  it('rejects anything that is not a valid export', async () => {
+    await expect(readConversationExport('{nope')).rejects.toThrow('Invalid conversation export: not valid JSON');
+    await expect(readConversationExport('{"format":"hustle-plugin-bundle"}')).rejects.toThrow(
+      'Invalid conversation export: not a Hustle conversation export'
+    );
+
+    const exported = createConversationExport(conversation);
+    await expect(readConversationExport({ ...exported, version: 2 })).rejects.toThrow('unsupported version 2');
+    await expect(readConversationExport({
+      ...exported,
+      conversation: { ...conversation, messages: [{ id: 'x', role: 'tool', content: '' }] },
+    } as never)).rejects.toThrow('message 0 has an invalid role');
+  });
+});
+
+describe('Markdown export', () => {
+  it('writes the selected branch with tool calls, thinking and usage', () => {
+    const markdown = exportConversationMarkdown(conversation, settings);
+
+    expect(markdown).toContain('# Odds on Base?');
+    expect(markdown).toContain('- Model: openai/gpt-4o');
+    expect(markdown).toContain('## System prompt\n\n```\nYou are a trading analyst.\n```');
+    expect(markdown).toContain('## User · 2026-03-10T12:00:00.000Z\n\nWhat are the odds?');
+    expect(markdown).toContain('## Assistant · openai/gpt-4o · 2026-03-10T12:00:05.000Z');
+    expect(markdown).toContain('- `search_prediction_markets - succeeded (1.2s)`');
+    expect(markdown).toContain('  ```json\n  {\n    "query": "base"\n  }\n  ```');
+    expect(markdown).toContain('Check the markets first');
+    expect(markdown).toContain('_1.2K in · 45 out_');
+    expect(markdown).not.toContain('First answer');
+  });
+
+  it('uses a longer fence when the content has one', () => {
+    const markdown = exportConversationMarkdown(conversation, { systemPrompt: 'Reply with ```code```' });
+    expect(markdown).toContain('````\nReply with ```code```\n````');
+  });
+});
+
+describe('HTML export', () => {
+  it('is a standalone page styled with the design tokens', () => {
+    const html = exportConversationHtml(conversation, settings);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Odds on Base?</title>');
+    expect(html).toContain('--hustle-color-bg-primary');
+    expect(html).toContain('var(--hustle-color-msg-user');
+    expect(html).toContain('<strong>62%</strong>');
+    expect(html).toContain('search_prediction_markets - succeeded (1.2s)');
+    expect(html).toContain('You are a trading analyst.');
+    expect(html).not.toContain('First answer');
+  });
+
+  it('sanitizes replies and escapes everything else', () => {
+    const html = exportConversationHtml({
+      ...conversation,
+      title: '<script>alert(1)</script>',
+      messages: [...conversation.messages, { id: 'u2', role: 'user', content: '<b>hi</b>', parentId: 'a2' }],
+    });
+
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('&lt;b&gt;hi&lt;/b&gt;');
+  });
+});
+
+describe('exportConversation', () => {
+  it('picks the writer by format', () => {
+    expect(exportConversation(conversation, 'markdown')).toMatch(/^# Odds on Base\?/);
+    expect(exportConversation(conversation, 'html')).toMatch(/^<!DOCTYPE html>/);
+    expect(JSON.parse(exportConversation(conversation, 'json')).format).toBe('hustle-conversation');
+  });
+
+  it('names files after the title', () => {
+    expect(getConversationExportFileName(conversation, 'markdown')).toBe('odds-on-base.md');
+    expect(getConversationExportFileName({ ...conversation, title: undefined }, 'html')).toBe('conversation.html');
+  });
+});
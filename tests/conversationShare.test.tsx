@@ -0,0 +1,173 @@
+import React from 'react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, screen, waitFor, act } from '@testing-library/react';
+import {
+  createShareLink,
+  readShareLink,
+  getShareFragment,
+  encodeConversationSnapshot,
+  decodeConversationSnapshot,
+  redactConversation,
+} from '../src/utils/conversationShare';
+import { createConversationExport } from '../src/utils/conversationExport';
+import { HustleTranscriptViewer } from '../src/components/HustleTranscriptViewer';
+import type { Conversation } from '../src/types';
+
+const conversation: Conversation = {
+  id: 'conv-1',
+  title: 'Odds on Base?',
+  messages: [
+    { id: 'u1', role: 'user', content: 'Mail me at jane@example.com', parentId: null },
+    { id: 'a1', role: 'assistant', content: 'First answer', parentId: 'u1' },
+    {
+      id: 'a2',
+      role: 'assistant',
+      content: 'Base is at **62%**',
+      parentId: 'u1',
+      model: 'openai/gpt-4o',
+      toolCalls: [{ toolCallId: 'call-1', toolName: 'lookup_user', args: { email: 'jane@example.com' } }],
+      toolResults: [{ toolCallId: 'call-1', toolName: 'lookup_user', result: { phone: '555-123-4567' } }],
+    },
+  ],
+  selectedBranches: { u1: 'a2' },
+  createdAt: '2026-03-10T12:00:00.000Z',
+  updatedAt: '2026-03-10T12:00:06.000Z',
+};
+
+afterEach(() => {
+  window.location.hash = '';
+});
+
+describe('share links', () => {
+  it('round-trips the selected branch through the URL fragment', async () => {
+    const link = await createShareLink(conversation, {
+      baseUrl: 'https://app.example/share#old',
+      model: 'openai/gpt-4o',
+      systemPrompt: 'You are a trading analyst.',
+    });
+
+    expect(link.startsWith('https://app.example/share#hustle-share=z')).toBe(true);
+    expect(link).not.toMatch(/[+/=]$/);
+
+    const snapshot = await readShareLink(link);
+    expect(snapshot?.model).toBe('openai/gpt-4o');
+    expect(snapshot?.systemPrompt).toBe('You are a trading analyst.');
+    expect(snapshot?.conversation.messages.map(m => m.id)).toEqual(['u1', 'a2']);
+    expect(snapshot?.conversation.selectedBranches).toBeUndefined();
+  });
+
+  it('redacts PII with consistent tokens when asked', async () => {
+    const link = await createShareLink(conversation, {
+      baseUrl: 'https://app.example/',
+      systemPrompt: 'Escalate to jane@example.com',
+      redact: true,
+    });
+    const snapshot = await readShareLink(link);
+    const [user, reply] = snapshot!.conversation.messages;
+
+    expect(user.content).toBe('Mail me at {{EMAIL_1}}');
+    expect(reply.toolCalls?.[0].args).toEqual({ email: '{{EMAIL_1}}' });
+    expect(reply.toolResults?.[0].result).toEqual({ phone: '{{PHONE_2}}' });
+    expect(snapshot?.systemPrompt).toBe('Escalate to {{EMAIL_1}}');
+    expect(JSON.stringify(snapshot)).not.toContain('jane@example.com');
+  });
+
+  it('redacts PII in the server summary and dev tools info', async () => {
+    const withMetadata: Conversation = {
+      ...conversation,
+      messages: conversation.messages.map(message => message.id === 'a2'
+        ? {
+            ...message,
+            pathInfo: { thresholdReached: true, totalTokens: 9000, summary: 'Jane (jane@example.com, 555-123-4567) asked about Base' },
+            devToolsInfo: { toolCount: 2, qualifiedCategories: ['contact jane@example.com'] },
+          }
+        : message),
+    };
+
+    const link = await createShareLink(withMetadata, { baseUrl: 'https://app.example/', redact: true });
+    const snapshot = await readShareLink(link);
+    const reply = snapshot!.conversation.messages[1];
+
+    expect(reply.pathInfo).toEqual({
+      thresholdReached: true,
+      totalTokens: 9000,
+      summary: 'Jane ({{EMAIL_1}}, {{PHONE_2}}) asked about Base',
+    });
+    expect(reply.devToolsInfo).toEqual({ toolCount: 2, qualifiedCategories: ['contact {{EMAIL_1}}'] });
+    expect(JSON.stringify(snapshot)).not.toMatch(/jane@example\.com|555-123-4567/);
+  });
+
+  it('leaves the original conversation untouched when redacting', () => {
+    const redacted = redactConversation(conversation);
+    expect(redacted.messages[0].content).toBe('Mail me at {{EMAIL_1}}');
+    expect(conversation.messages[0].content).toBe('Mail me at jane@example.com');
+  });
+
+  it('finds the snapshot among other fragment parameters', () => {
+    expect(getShareFragment('#tab=chat&hustle-share=zabc')).toBe('zabc');
+    expect(getShareFragment('https://app.example/#tab=chat')).toBeNull();
+    expect(getShareFragment('https://app.example/')).toBeNull();
+  });
+
+  it('decodes plain snapshots and rejects damaged ones', async () => {
+    const exported = createConversationExport(conversation);
+    const encoded = await encodeConversationSnapshot(exported);
+    expect((await decodeConversationSnapshot(encoded)).conversation.id).toBe('conv-1');
+
+    const plain = 'j' + btoa(JSON.stringify(exported)).replace(/=+$/, '');
+    expect((await decodeConversationSnapshot(plain)).conversation.id).toBe('conv-1');
+
+    await expect(decodeConversationSnapshot(encoded.slice(0, 20))).rejects.toThrow('Invalid share link');
+    await expect(decodeConversationSnapshot('x123')).rejects.toThrow('Invalid share link');
+    await expect(readShareLink('#nothing-here')).resolves.toBeNull();
+  });
+
+  it('rejects snapshots with repeated message ids', async () => {
+    const looped = createConversationExport({
+      ...conversation,
+      messages: [conversation.messages[0], { ...conversation.messages[1], id: 'u1', parentId: undefined }],
+    });
+    const encoded = await encodeConversationSnapshot(looped);
+
+    await expect(decodeConversationSnapshot(encoded)).rejects.toThrow('message 1 has the same id as an earlier message');
+  });
+});
+
+describe('HustleTranscriptViewer', () => {
+  it('renders a snapshot read-only with markdown and tool timelines', () => {
+    const { container } = render(
+      <HustleTranscriptViewer
+        snapshot={createConversationExport(conversation, { systemPrompt: 'You are a trading analyst.' })}
+      />
+    );
+
+    expect(screen.getByText('Odds on Base?')).toBeTruthy();
+    expect(screen.getByText('Read-only')).toBeTruthy();
+    expect(screen.getByText('You are a trading analyst.')).toBeTruthy();
+    expect(container.querySelector('strong')?.textContent).toBe('62%');
+    expect(screen.getByText('lookup_user')).toBeTruthy();
+    expect(screen.queryByText('First answer')).toBeNull();
+    expect(screen.queryByText('Regenerate')).toBeNull();
+    expect(container.querySelector('textarea')).toBeNull();
+  });
+
+  it('reads the page fragment and follows hash changes', async () => {
+    render(<HustleTranscriptViewer />);
+    expect(screen.getByText('No shared conversation')).toBeTruthy();
+
+    const link = await createShareLink(conversation, { baseUrl: 'https://app.example/' });
+    await act(async () => {
+      window.location.hash = link.slice(link.indexOf('#'));
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    await waitFor(() => expect(screen.getByText('Odds on Base?')).toBeTruthy());
+  });
+
+  it('explains a damaged link', async () => {
+    render(<HustleTranscriptViewer link="#hustle-share=zAAAA" />);
+
+    await waitFor(() => expect(screen.getByText("Can't open this transcript")).toBeTruthy());
+    expect(screen.getByText('Invalid share link: the snapshot is damaged or incomplete')).toBeTruthy();
+  });
+});
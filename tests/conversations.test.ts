@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  LocalStorageConversationStore,
+  MemoryConversationStore,
+  getConversationScopeKey,
+  generateConversationTitle,
+} from '../src/utils/conversationStore';
+import type { Conversation, ConversationStore } from '../src/types';
+
+// Mock localStorage
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+Object.defineProperty(global, 'localStorage', {
+  value: localStorageMock,
+  writable: true,
+});
+
+function makeConversation(id: string, updatedAt: string, content = 'Hello'): Conversation {
+  return {
+    id,
+    messages: [{ id: `${id}-m1`, role: 'user', content }],
+    createdAt: updatedAt,
+    updatedAt,
+  };
+}
+
+const scopeA = { instanceId: 'chat', ownerId: 'vault-a' };
+const scopeB = { instanceId: 'chat', ownerId: 'vault-b' };
+
+describe('getConversationScopeKey', () => {
+  it('combines instance and owner', () => {
+    expect(getConversationScopeKey(scopeA)).toBe('chat:vault-a');
+  });
+
+  it('falls back to anonymous without an owner', () => {
+    expect(getConversationScopeKey({ instanceId: 'chat' })).toBe('chat:anonymous');
+  });
+});
+
+describe('generateConversationTitle', () => {
+  it('uses short messages as-is', () => {
+    expect(generateConversationTitle('Hello there')).toBe('Hello there');
+  });
+
+  it('collapses whitespace and newlines', () => {
+    expect(generateConversationTitle('  What are\n the   odds?  ')).toBe('What are the odds?');
+  });
+
+  it('truncates long messages with an ellipsis', () => {
+    const title = generateConversationTitle('a'.repeat(60));
+    expect(title).toBe(`${'a'.repeat(40)}…`);
+  });
+
+  it('falls back for empty content', () => {
+    expect(generateConversationTitle('   ')).toBe('New conversation');
+  });
+});
+
+describe.each([
+  ['MemoryConversationStore', () => new MemoryConversationStore()],
+  ['LocalStorageConversationStore', () => new LocalStorageConversationStore()],
+])('%s', (_name, createStore: () => ConversationStore) => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    localStorageMock.clear();
+    store = createStore();
+  });
+
+  it('saves and retrieves a conversation', async () => {
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+
+    const loaded = await store.get(scopeA, 'c1');
+    expect(loaded?.messages[0].content).toBe('Hello');
+  });
+
+  it('replaces an existing conversation with the same id', async () => {
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+    await store.save(scopeA, makeConversation('c1', '2024-01-02T00:00:00.000Z', 'Updated'));
+
+    const list = await store.list(scopeA);
+    expect(list).toHaveLength(1);
+    expect(list[0].messages[0].content).toBe('Updated');
+  });
+
+  it('lists most recently updated first', async () => {
+    await store.save(scopeA, makeConversation('old', '2024-01-01T00:00:00.000Z'));
+    await store.save(scopeA, makeConversation('new', '2024-02-01T00:00:00.000Z'));
+
+    const list = await store.list(scopeA);
+    expect(list.map(c => c.id)).toEqual(['new', 'old']);
+  });
+
+  it('isolates conversations per owner', async () => {
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+
+    expect(await store.list(scopeB)).toHaveLength(0);
+    expect(await store.get(scopeB, 'c1')).toBeNull();
+  });
+
+  it('isolates conversations per instance', async () => {
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+
+    expect(await store.list({ instanceId: 'other', ownerId: 'vault-a' })).toHaveLength(0);
+  });
+
+  it('deletes a conversation', async () => {
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+    await store.save(scopeA, makeConversation('c2', '2024-01-01T00:00:00.000Z'));
+
+    await store.delete(scopeA, 'c1');
+
+    const list = await store.list(scopeA);
+    expect(list.map(c => c.id)).toEqual(['c2']);
+  });
+
+  it('clears a scope without touching others', async () => {
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+    await store.save(scopeB, makeConversation('c2', '2024-01-01T00:00:00.000Z'));
+
+    await store.clear(scopeA);
+
+    expect(await store.list(scopeA)).toHaveLength(0);
+    expect(await store.list(scopeB)).toHaveLength(1);
+  });
+
+  it('notifies subscribers for the matching scope only', async () => {
+    const listenerA = vi.fn();
+    const listenerB = vi.fn();
+    store.subscribe?.(scopeA, listenerA);
+    const unsubscribeB = store.subscribe?.(scopeB, listenerB);
+
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+
+    expect(listenerA).toHaveBeenCalledTimes(1);
+    expect(listenerB).not.toHaveBeenCalled();
+
+    unsubscribeB?.();
+  });
+});
+
+describe('LocalStorageConversationStore persistence', () => {
+  beforeEach(() => {
+    localStorageMock.clear();
+  });
+
+  it('uses the chat history storage key', async () => {
+    const store = new LocalStorageConversationStore();
+    await store.save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+
+    expect(localStorageMock.getItem('hustle_chat_history-chat:vault-a')).not.toBeNull();
+  });
+
+  it('survives a new store instance (page reload)', async () => {
+    await new LocalStorageConversationStore().save(scopeA, makeConversation('c1', '2024-01-01T00:00:00.000Z'));
+
+    const reloaded = await new LocalStorageConversationStore().list(scopeA);
+    expect(reloaded).toHaveLength(1);
+    expect(reloaded[0].id).toBe('c1');
+  });
+});
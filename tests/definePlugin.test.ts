@@ -0,0 +1,233 @@
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from 'vitest';
+import { definePlugin, defineTool } from '../src/utils/definePlugin';
+import { validateToolArgs, prepareToolArgs, isToolArgumentError } from '../src/utils/toolArgs';
+import { pluginRegistry, serializePlugin } from '../src/utils/pluginRegistry';
+import { predictionMarketPlugin } from '../src/plugins';
+import type { HustlePlugin, JSONSchema } from '../src/types';
+
+// Mock localStorage for Node environment
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: (key: string) => store[key] || null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+Object.defineProperty(global, 'localStorage', {
+  value: localStorageMock,
+  writable: true,
+});
+
+const searchSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    platform: { type: 'string', enum: ['polymarket', 'kalshi'] },
+    tags: { type: 'array', items: { type: 'string' } },
+    filter: {
+      type: 'object',
+      properties: { minVolume: { type: 'number' } },
+      required: ['minVolume'],
+    },
+  },
+  required: ['tags'],
+};
+
+describe('validateToolArgs', () => {
+  it('accepts matching args', () => {
+    expect(validateToolArgs(searchSchema, { platform: 'kalshi', tags: ['crypto'], extra: true })).toEqual([]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateToolArgs(searchSchema, {})).toEqual([
+      expect.objectContaining({ path: 'tags', code: 'required', expected: 'array' }),
+    ]);
+    expect(validateToolArgs(searchSchema, undefined)).toHaveLength(1);
+  });
+
+  it('reports wrong types and enum values', () => {
+    const issues = validateToolArgs(searchSchema, { platform: 'manifold', tags: 'crypto' });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ path: 'platform', code: 'enum', expected: ['polymarket', 'kalshi'], received: 'manifold' }),
+      expect.objectContaining({ path: 'tags', code: 'type', expected: 'array', received: 'string' }),
+    ]);
+  });
+
+  it('checks nested items and properties', () => {
+    const issues = validateToolArgs(searchSchema, { tags: ['ok', 3], filter: { minVolume: 'high' } });
+
+    expect(issues.map((issue) => issue.path)).toEqual(['tags[1]', 'filter.minVolume']);
+    expect(validateToolArgs(searchSchema, { tags: [], filter: {} })[0]).toMatchObject({
+      path: 'filter.minVolume',
+      code: 'required',
+    });
+  });
+
+  it('rejects NaN for numbers', () => {
+    expect(validateToolArgs(searchSchema, { tags: [], filter: { minVolume: NaN } })).toHaveLength(1);
+  });
+});
+
+describe('prepareToolArgs', () => {
+  const schema: JSONSchema = {
+    type: 'object',
+    properties: {
+      limit: { type: 'number', default: 10 },
+      tags: { type: 'array', items: { type: 'string' }, default: [] },
+      legs: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { side: { type: 'string', default: 'buy' }, size: { type: 'number' } },
+          required: ['side', 'size'],
+        },
+      },
+    },
+  };
+
+  it('fills in defaults, including nested objects in arrays', () => {
+    const args = { legs: [{ size: 1 }, { side: 'sell', size: 2 }] };
+
+    expect(prepareToolArgs(schema, args)).toEqual({
+      args: { limit: 10, tags: [], legs: [{ side: 'buy', size: 1 }, { side: 'sell', size: 2 }] },
+      issues: [],
+    });
+    // The model's args are left untouched
+    expect(args.legs[0]).toEqual({ size: 1 });
+  });
+
+  it('keeps values the model provided', () => {
+    expect(prepareToolArgs(schema, { limit: 3 }).args.limit).toBe(3);
+  });
+
+  it('gives each call its own copy of a default', () => {
+    const first = prepareToolArgs(schema, {}).args.tags as string[];
+    first.push('mutated');
+    expect(prepareToolArgs(schema, {}).args.tags).toEqual([]);
+  });
+
+  it('validates after defaults are applied', () => {
+    expect(prepareToolArgs(schema, { legs: [{}] }).issues).toEqual([
+      expect.objectContaining({ path: 'legs[0].size', code: 'required' }),
+    ]);
+  });
+});
+
+describe('definePlugin', () => {
+  const plugin = definePlugin({
+    name: 'markets',
+    version: '1.0.0',
+    tools: [
+      {
+        name: 'search',
+        description: 'Search markets',
+        parameters: {
+          type: 'object',
+          properties: {
+            platform: { type: 'string', enum: ['polymarket', 'kalshi'] },
+            limit: { type: 'number' },
+            sort: { type: 'string', enum: ['volume', 'newest'], default: 'volume' },
+          },
+          required: ['platform'],
+        },
+      },
+      defineTool({
+        name: 'ping',
+        description: 'Ping',
+        parameters: { type: 'object', properties: { message: { type: 'string' } } },
+        execute: async (args) => {
+          expectTypeOf(args).toEqualTypeOf<{ message?: string }>();
+          return { pong: args.message ?? '' };
+        },
+      }),
+    ],
+    executors: {
+      search: async (args) => {
+        // Defaulted properties are always present
+        expectTypeOf(args).toEqualTypeOf<{ platform: 'polymarket' | 'kalshi'; sort: 'volume' | 'newest'; limit?: number }>();
+        return { platform: args.platform, limit: args.limit ?? 10, sort: args.sort };
+      },
+    },
+  });
+
+  it('builds a plain plugin from tools and executors', async () => {
+    expect(plugin.tools?.map((tool) => tool.name)).toEqual(['search', 'ping']);
+    expect(plugin.tools?.[1]).not.toHaveProperty('execute');
+    await expect(plugin.executors!.search({ platform: 'kalshi' })).resolves.toEqual({ platform: 'kalshi', limit: 10, sort: 'volume' });
+    await expect(plugin.executors!.ping({ message: 'hi' })).resolves.toEqual({ pong: 'hi' });
+  });
+
+  it('returns a structured error for invalid args instead of calling the executor', async () => {
+    const result = await plugin.executors!.search({ platform: 'manifold', limit: '5' });
+
+    expect(isToolArgumentError(result)).toBe(true);
+    expect(result).toMatchObject({
+      error: 'invalid_arguments',
+      tool: 'search',
+      issues: [{ path: 'platform', code: 'enum' }, { path: 'limit', code: 'type' }],
+    });
+  });
+
+  it('persists the author executor rather than the validation wrapper', () => {
+    const code = serializePlugin(plugin).tools?.find((tool) => tool.name === 'search')?.executorCode;
+
+    expect(code).toContain('args.platform');
+    expect(code).not.toContain('validateToolArgs');
+  });
+
+  it('throws when tools and executors do not match', () => {
+    const tool = { name: 'a', description: '', parameters: { type: 'object' as const } };
+
+    expect(() =>
+      definePlugin({ name: 'broken', version: '1.0.0', tools: [tool], executors: {} as never })
+    ).toThrow('Invalid plugin "broken": tool "a" has no executor');
+    expect(() =>
+      definePlugin({
+        name: 'broken',
+        version: '1.0.0',
+        tools: [tool],
+        executors: { a: async () => null, b: async () => null } as never,
+      })
+    ).toThrow('executor "b" has no tool definition');
+  });
+
+  it('types the built-in prediction market executors', () => {
+    expect(predictionMarketPlugin.tools).toHaveLength(5);
+    expect(Object.keys(predictionMarketPlugin.executors ?? {})).toHaveLength(5);
+  });
+});
+
+describe('pluginRegistry.register', () => {
+  beforeEach(() => {
+    localStorageMock.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects plugins with a tool but no executor', () => {
+    const plugin: HustlePlugin = {
+      name: 'incomplete',
+      version: '1.0.0',
+      tools: [{ name: 'lookup', description: '', parameters: { type: 'object' } }],
+      executors: { lookp: async () => null },
+    };
+
+    expect(() => pluginRegistry.register(plugin)).toThrow(
+      'Invalid plugin "incomplete": tool "lookup" has no executor; executor "lookp" has no tool definition'
+    );
+    expect(pluginRegistry.isRegistered('incomplete')).toBe(false);
+  });
+
+  it('accepts hook-only plugins', () => {
+    pluginRegistry.register({ name: 'hooks-only', version: '1.0.0', hooks: { onRegister: () => {} } });
+    expect(pluginRegistry.isRegistered('hooks-only')).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import {
+  MESSAGE_TREE_ROOT,
+  createMessageTree,
+  getActivePath,
+  getActiveLeafId,
+  getMessageHistory,
+  addMessage,
+  updateMessage,
+  selectBranch,
+  getBranchInfo,
+  flattenMessageTree,
+} from '../src/utils/messageTree';
+import { useMessageTree } from '../src/hooks/useMessageTree';
+import type { ConversationMessage } from '../src/types';
+
+function message(id: string, role: ConversationMessage['role'] = 'user', parentId?: string | null): ConversationMessage {
+  return { id, role, content: id, ...(parentId !== undefined ? { parentId } : {}) };
+}
+
+/**
+ * user1 -> reply1
+ *       -> reply2 -> user2
+ */
+function branchedTree() {
+  let tree = createMessageTree([message('user1')]);
+  tree = addMessage(tree, message('reply1', 'assistant'), 'user1');
+  tree = addMessage(tree, message('reply2', 'assistant'), 'user1');
+  tree = addMessage(tree, message('user2'), 'reply2');
+  return tree;
+}
+
+describe('createMessageTree', () => {
+  it('loads flat histories as a single branch', () => {
+    const tree = createMessageTree([message('a'), message('b', 'assistant'), message('c')]);
+
+    expect(getActivePath(tree).map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    expect(tree.nodes.b.parentId).toBe('a');
+    expect(tree.children[MESSAGE_TREE_ROOT]).toEqual(['a']);
+  });
+
+  it('restores branches and the selected path', () => {
+    const saved = flattenMessageTree(selectBranch(branchedTree(), 'reply1'));
+    const tree = createMessageTree(saved.messages, saved.selected);
+
+    expect(getActivePath(tree).map((m) => m.id)).toEqual(['user1', 'reply1']);
+    expect(getBranchInfo(tree, 'reply2')).toMatchObject({ index: 1, count: 2 });
+  });
+
+  it('attaches orphans to the root and drops stale selections', () => {
+    const tree = createMessageTree([message('a', 'user', 'missing')], { a: 'gone' });
+
+    expect(tree.nodes.a.parentId).toBeNull();
+    expect(tree.selected).toEqual({});
+  });
+
+  it('drops repeated IDs and stops at cycles', () => {
+    const tree = createMessageTree([message('a'), message('a', 'assistant'), message('b', 'assistant')]);
+
+    expect(getActivePath(tree).map((m) => m.id)).toEqual(['a', 'b']);
+    expect(tree.nodes.a.role).toBe('user');
+
+    // A message named like the root key points back at itself
+    const looped = createMessageTree([message(MESSAGE_TREE_ROOT)]);
+    expect(getActivePath(looped).map((m) => m.id)).toEqual([MESSAGE_TREE_ROOT]);
+  });
+});
+
+describe('branching', () => {
+  it('selects the newest child by default', () => {
+    const tree = branchedTree();
+
+    expect(getActivePath(tree).map((m) => m.id)).toEqual(['user1', 'reply2', 'user2']);
+    expect(getActiveLeafId(tree)).toBe('user2');
+  });
+
+  it('keeps selections below a branch when switching away and back', () => {
+    let tree = addMessage(branchedTree(), message('user2b'), 'reply2');
+    tree = selectBranch(tree, 'user2');
+    tree = selectBranch(tree, 'reply1');
+    tree = selectBranch(tree, 'reply2');
+
+    expect(getActivePath(tree).map((m) => m.id)).toEqual(['user1', 'reply2', 'user2']);
+  });
+
+  it('reports sibling positions for a pager', () => {
+    const tree = branchedTree();
+
+    expect(getBranchInfo(tree, 'reply1')).toEqual({ index: 0, count: 2, siblingIds: ['reply1', 'reply2'] });
+    expect(getBranchInfo(tree, 'user1')).toMatchObject({ index: 0, count: 1 });
+    expect(getBranchInfo(tree, 'nope')).toBeNull();
+  });
+
+  it('returns the history up to any message', () => {
+    expect(getMessageHistory(branchedTree(), 'user2').map((m) => m.id)).toEqual(['user1', 'reply2', 'user2']);
+  });
+
+  it('rejects unknown parents and duplicate IDs', () => {
+    const tree = branchedTree();
+
+    expect(() => addMessage(tree, message('x'), 'missing')).toThrow('parent "missing" is not in the conversation');
+    expect(() => addMessage(tree, message('user2'), 'reply1')).toThrow('already exists');
+  });
+
+  it('updates without mutating or moving the message', () => {
+    const tree = branchedTree();
+    const updated = updateMessage(tree, 'reply1', { content: 'edited', parentId: null });
+
+    expect(updated.nodes.reply1).toMatchObject({ content: 'edited', parentId: 'user1' });
+    expect(tree.nodes.reply1.content).toBe('reply1');
+    expect(updateMessage(tree, 'nope', { content: 'x' })).toBe(tree);
+  });
+});
+
+describe('useMessageTree', () => {
+  it('appends to the current branch and pages between siblings', () => {
+    const { result } = renderHook(() => useMessageTree([message('user1'), message('reply1', 'assistant')]));
+
+    act(() => result.current.append(message('reply2', 'assistant'), 'user1'));
+    expect(result.current.messages.map((m) => m.id)).toEqual(['user1', 'reply2']);
+    expect(result.current.getBranchInfo('reply2')).toMatchObject({ index: 1, count: 2 });
+
+    act(() => result.current.switchBranch('reply2', -1));
+    expect(result.current.messages.map((m) => m.id)).toEqual(['user1', 'reply1']);
+
+    // Out of range is a no-op
+    act(() => result.current.switchBranch('reply1', -1));
+    expect(result.current.messages.map((m) => m.id)).toEqual(['user1', 'reply1']);
+
+    act(() => result.current.append(message('user2')));
+    expect(result.current.messages.map((m) => m.id)).toEqual(['user1', 'reply1', 'user2']);
+  });
+
+  it('resets to another conversation', () => {
+    const { result } = renderHook(() => useMessageTree([message('a')]));
+
+    act(() => {
+      result.current.reset([message('b')]);
+    });
+
+    expect(result.current.messages.map((m) => m.id)).toEqual(['b']);
+  });
+});
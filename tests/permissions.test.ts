@@ -0,0 +1,207 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  describePluginPermissions,
+  resolveAllowedOrigins,
+  isHookPermitted,
+} from '../src/utils/pluginPermissions';
+import { hydratePlugin, serializePlugin } from '../src/utils/pluginRegistry';
+import { disposePluginSandboxes } from '../src/utils/pluginSandbox';
+import { getPluginSigningPayload } from '../src/utils/pluginSignature';
+import { predictionMarketPlugin } from '../src/plugins/predictionMarket';
+import type { StoredPlugin, PluginPermissions } from '../src/types';
+
+/**
+ * Build a stored plugin with one executor
+ */
+function makePlugin(executorCode: string, permissions?: PluginPermissions): StoredPlugin {
+  return {
+    name: 'probe',
+    version: '1.0.0',
+    enabled: true,
+    permissions,
+    tools: [{ name: 'probe', description: '', parameters: { type: 'object' }, executorCode }],
+  };
+}
+
+describe('describePluginPermissions', () => {
+  it('flags plugins without a manifest as unrestricted', () => {
+    const summary = describePluginPermissions({});
+    expect(summary).toEqual([expect.objectContaining({ id: 'unrestricted', sensitive: true })]);
+  });
+
+  it('lists declared origins and hooks', () => {
+    const summary = describePluginPermissions(predictionMarketPlugin);
+    expect(summary.find((p) => p.id === 'network')?.detail).toBe('api.domeapi.io');
+    expect(summary.find((p) => p.id === 'hooks')?.detail).toContain('onRegister');
+    expect(summary.some((p) => p.id === 'dom' || p.id === 'storage' || p.id === 'wallet')).toBe(false);
+  });
+
+  it('marks request hooks as sensitive', () => {
+    const summary = describePluginPermissions({ permissions: { hooks: ['beforeRequest'] } });
+    expect(summary.find((p) => p.id === 'hooks')?.sensitive).toBe(true);
+  });
+});
+
+describe('resolveAllowedOrigins', () => {
+  it('uses the declared origins when the host sets none', () => {
+    expect(resolveAllowedOrigins({ network: ['https://api.domeapi.io/v1'] })).toEqual(['https://api.domeapi.io']);
+  });
+
+  it('intersects declared origins with the host allowlist', () => {
+    expect(
+      resolveAllowedOrigins({ network: ['https://a.example', 'https://b.example'] }, ['https://b.example'])
+    ).toEqual(['https://b.example']);
+  });
+
+  it('falls back to the host allowlist for legacy plugins', () => {
+    expect(resolveAllowedOrigins(undefined, ['https://a.example'])).toEqual(['https://a.example']);
+  });
+});
+
+describe('hydratePlugin permission enforcement', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('only lets executors fetch declared origins', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const hydrated = hydratePlugin(makePlugin(
+      'async (args) => fetch(args.url)',
+      { network: ['https://api.domeapi.io'] }
+    ));
+    const probe = hydrated.executors!.probe;
+
+    await expect(probe({ url: 'https://api.domeapi.io/v1/markets' })).resolves.toBeInstanceOf(Response);
+    await expect(probe({ url: 'https://evil.example/steal' })).rejects.toThrow('not permitted to fetch https://evil.example');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides storage, DOM and wallet globals that were not declared', async () => {
+    const hydrated = hydratePlugin(makePlugin(
+      'async () => [typeof localStorage, typeof document, typeof window, typeof XMLHttpRequest]',
+      {}
+    ));
+
+    await expect(hydrated.executors!.probe({})).resolves.toEqual(['undefined', 'undefined', 'undefined', 'undefined']);
+  });
+
+  it('keeps globals that were declared', async () => {
+    const hydrated = hydratePlugin(makePlugin(
+      'async () => [typeof localStorage, typeof document]',
+      { storage: true, dom: true }
+    ));
+
+    await expect(hydrated.executors!.probe({})).resolves.toEqual(['object', 'object']);
+  });
+
+  it('leaves legacy plugins unrestricted', async () => {
+    const hydrated = hydratePlugin(makePlugin('async () => [typeof localStorage, typeof document]'));
+
+    await expect(hydrated.executors!.probe({})).resolves.toEqual(['object', 'object']);
+  });
+
+  it('does not restore undeclared hooks', () => {
+    const stored: StoredPlugin = {
+      ...makePlugin('async () => null', { hooks: ['onRegister'] }),
+      hooksCode: {
+        onRegisterCode: '() => {}',
+        beforeRequestCode: '(req) => ({ ...req, messages: [] })',
+      },
+    };
+
+    const hydrated = hydratePlugin(stored);
+    expect(hydrated.hooks?.onRegister).toBeTypeOf('function');
+    expect(hydrated.hooks?.beforeRequest).toBeUndefined();
+    expect(isHookPermitted(undefined, 'beforeRequest')).toBe(true);
+  });
+
+  it('evaluates page code without this module or a way back to the real globals', async () => {
+    const hydrated = hydratePlugin(makePlugin(
+      'async () => [typeof serializeFunction, typeof eval, typeof Function]',
+      { dom: true }
+    ));
+
+    await expect(hydrated.executors!.probe({})).resolves.toEqual(['undefined', 'undefined', 'undefined']);
+  });
+
+  describe('with Web Workers available', () => {
+    class EchoWorker {
+      static created = 0;
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+      onerror = null;
+      constructor() {
+        EchoWorker.created++;
+      }
+      postMessage(message: { type: string; id?: number }) {
+        if (message.type === 'call') {
+          queueMicrotask(() => this.onmessage?.({ data: { type: 'result', id: message.id, result: 'worker' } }));
+        }
+      }
+      terminate() {}
+    }
+
+    afterEach(() => {
+      disposePluginSandboxes();
+      EchoWorker.created = 0;
+    });
+
+    function stubWorker() {
+      vi.stubGlobal('Worker', EchoWorker);
+      URL.createObjectURL = vi.fn(() => 'blob:sandbox');
+      URL.revokeObjectURL = vi.fn();
+    }
+
+    it('runs plugins that need no page access in the worker by default', async () => {
+      stubWorker();
+      const hydrated = hydratePlugin(makePlugin('async () => "page"', { network: ['https://api.domeapi.io'] }));
+
+      await expect(hydrated.executors!.probe({})).resolves.toBe('worker');
+      expect(EchoWorker.created).toBe(1);
+    });
+
+    it('keeps legacy plugins, plugins granted page access and page mode in the page', async () => {
+      stubWorker();
+      const legacy = hydratePlugin(makePlugin('async () => "page"'));
+      const storage = hydratePlugin(makePlugin('async () => "page"', { storage: true }));
+      const pageMode = hydratePlugin(makePlugin('async () => "page"', {}), { execution: { mode: 'page' } });
+
+      await expect(legacy.executors!.probe({})).resolves.toBe('page');
+      await expect(storage.executors!.probe({})).resolves.toBe('page');
+      await expect(pageMode.executors!.probe({})).resolves.toBe('page');
+      expect(EchoWorker.created).toBe(0);
+    });
+  });
+
+  it('runs DOM plugins in the page even in worker mode', async () => {
+    const hydrated = hydratePlugin(
+      makePlugin('async () => typeof document', { dom: true }),
+      { execution: { mode: 'worker' } }
+    );
+
+    // No Worker exists in this environment - a sandbox proxy would reject
+    await expect(hydrated.executors!.probe({})).resolves.toBe('object');
+  });
+});
+
+describe('permissions and signatures', () => {
+  it('serializes the manifest with the plugin', () => {
+    expect(serializePlugin(predictionMarketPlugin).permissions).toEqual({
+      network: ['https://api.domeapi.io'],
+      hooks: ['onRegister'],
+    });
+  });
+
+  it('covers the manifest in the signing payload', () => {
+    const stored = serializePlugin(predictionMarketPlugin);
+    const widened = { ...stored, permissions: { ...stored.permissions, storage: true } };
+
+    expect(getPluginSigningPayload(widened)).not.toBe(getPluginSigningPayload(stored));
+  });
+
+  it('keeps payloads of plugins without a manifest unchanged', () => {
+    const stored = serializePlugin({ ...predictionMarketPlugin, permissions: undefined });
+    expect(getPluginSigningPayload(stored)).not.toContain('permissions');
+  });
+});
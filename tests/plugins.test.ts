@@ -1,9 +1,19 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, cleanup } from '@testing-library/react';
 import {
   pluginRegistry,
   hydratePlugin,
+  serializePlugin,
 } from '../src/utils/pluginRegistry';
-import type { HustlePlugin, StoredPlugin, SerializedToolDefinition } from '../src/types';
+import {
+  signPlugin,
+  verifyPluginSignature,
+  exportPublicKey,
+} from '../src/utils/pluginSignature';
+import { piiProtectionPlugin, tokenizePii, createPiiTokenMap } from '../src/plugins/piiProtection';
+import { migrateFunPlugin } from '../src/plugins/migrateFun';
+import { usePlugins } from '../src/hooks/usePlugins';
+import type { HustlePlugin, StoredPlugin, SerializedToolDefinition, HustleRequest, ProcessedResponse } from '../src/types';
 
 // Mock localStorage for Node environment
 const localStorageMock = (() => {
@@ -93,6 +103,92 @@ describe('pluginRegistry', () => {
     });
   });
 
+  describe('registerSerialized', () => {
+    it('stores catalog code as-is and hydrates it', async () => {
+      pluginRegistry.registerSerialized({
+        name: 'catalog-plugin',
+        version: '2.0.0',
+        tools: [{
+          name: 'double',
+          description: 'Double a number',
+          parameters: { type: 'object' },
+          executorCode: 'async (args) => args.n * 2',
+        }],
+      }, true, 'test-instance');
+
+      const [stored] = pluginRegistry.loadFromStorage('test-instance');
+      expect(stored.installedAt).toBeTruthy();
+      expect(stored.tools?.[0].executorCode).toBe('async (args) => args.n * 2');
+
+      const [hydrated] = pluginRegistry.getEnabledPlugins('test-instance');
+      await expect(hydrated.executors!.double({ n: 21 })).resolves.toBe(42);
+    });
+  });
+
+  describe('upgrade and rollback', () => {
+    const v1 = { ...serializePlugin(samplePlugin), version: '1.0.0' };
+    const v2 = { ...serializePlugin(samplePlugin), version: '2.0.0' };
+
+    it('keeps the replaced version for rollback', () => {
+      pluginRegistry.register(samplePlugin, true, 'test-instance');
+      pluginRegistry.register({ ...samplePlugin, version: '2.0.0' }, true, 'test-instance');
+
+      const plugin = pluginRegistry.getPlugin('test-plugin', 'test-instance');
+      expect(plugin?.version).toBe('2.0.0');
+      expect(plugin?.previousVersion?.version).toBe('1.0.0');
+    });
+
+    it('preserves enabled state in every instance', async () => {
+      pluginRegistry.registerSerialized(v1, false, 'instance-a');
+      pluginRegistry.setEnabled('test-plugin', true, 'instance-b');
+
+      await pluginRegistry.upgrade(v2, 'instance-a');
+
+      expect(pluginRegistry.getPlugin('test-plugin', 'instance-a')).toMatchObject({ version: '2.0.0', enabled: false });
+      expect(pluginRegistry.getPlugin('test-plugin', 'instance-b')?.enabled).toBe(true);
+    });
+
+    it('runs the migrate hook with the old version', async () => {
+      pluginRegistry.registerSerialized(v1, true, 'test-instance');
+      (globalThis as Record<string, unknown>).__migratedFrom = undefined;
+
+      await pluginRegistry.upgrade({
+        ...v2,
+        hooksCode: { migrateCode: '(from) => { globalThis.__migratedFrom = from; }' },
+      }, 'test-instance');
+
+      expect((globalThis as Record<string, unknown>).__migratedFrom).toBe('1.0.0');
+      delete (globalThis as Record<string, unknown>).__migratedFrom;
+    });
+
+    it('rolls back when the migration fails', async () => {
+      pluginRegistry.registerSerialized(v1, true, 'test-instance');
+
+      await expect(pluginRegistry.upgrade({
+        ...v2,
+        hooksCode: { migrateCode: 'async () => { throw new Error("bad data") }' },
+      }, 'test-instance')).rejects.toThrow('from 1.0.0 to 2.0.0 failed: bad data');
+
+      expect(pluginRegistry.getPlugin('test-plugin', 'test-instance')?.version).toBe('1.0.0');
+    });
+
+    it('refuses to upgrade plugins that are not installed', async () => {
+      await expect(pluginRegistry.upgrade(v2, 'test-instance')).rejects.toThrow('not installed');
+    });
+
+    it('rolls back to the previous version', async () => {
+      pluginRegistry.registerSerialized(v1, false, 'test-instance');
+      await pluginRegistry.upgrade(v2, 'test-instance');
+
+      pluginRegistry.rollback('test-plugin', 'test-instance');
+
+      const plugin = pluginRegistry.getPlugin('test-plugin', 'test-instance');
+      expect(plugin).toMatchObject({ version: '1.0.0', enabled: false });
+      expect(plugin?.previousVersion).toBeUndefined();
+      expect(() => pluginRegistry.rollback('test-plugin', 'test-instance')).toThrow('no previous version');
+    });
+  });
+
   describe('unregister', () => {
     it('removes a plugin from storage', () => {
       pluginRegistry.register(samplePlugin, true, 'test-instance');
@@ -379,6 +475,84 @@ describe('hydratePlugin', () => {
     expect(hydrated.executors).toBeDefined();
     expect(hydrated.executors?.bad_tool).toBeDefined();
   });
+
+  describe('argument validation', () => {
+    const stored: StoredPlugin = {
+      name: 'orders-plugin',
+      version: '1.0.0',
+      enabled: true,
+      tools: [
+        {
+          name: 'get_orders',
+          description: 'Recent orders',
+          parameters: {
+            type: 'object',
+            properties: {
+              market_slug: { type: 'string' },
+              side: { type: 'string', enum: ['buy', 'sell'] },
+              limit: { type: 'number', default: 20 },
+            },
+            required: ['market_slug'],
+          },
+          executorCode: 'async (args) => { globalThis.__ordersCalls = (globalThis.__ordersCalls || 0) + 1; return args; }',
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      (globalThis as Record<string, unknown>).__ordersCalls = 0;
+    });
+
+    it('fills in defaults before calling the executor', async () => {
+      const hydrated = hydratePlugin(stored);
+
+      await expect(hydrated.executors!.get_orders({ market_slug: 'btc' })).resolves.toEqual({
+        market_slug: 'btc',
+        limit: 20,
+      });
+    });
+
+    it('returns a validation error as the tool result without running the executor', async () => {
+      const hydrated = hydratePlugin(stored);
+
+      const result = await hydrated.executors!.get_orders({ side: 'hold', limit: 'ten' });
+
+      expect(result).toEqual({
+        error: 'invalid_arguments',
+        tool: 'get_orders',
+        message: expect.stringContaining('market_slug is required'),
+        issues: [
+          { path: 'market_slug', code: 'required', message: 'market_slug is required', expected: 'string' },
+          { path: 'side', code: 'enum', message: 'side must be one of: buy, sell', expected: ['buy', 'sell'], received: 'hold' },
+          { path: 'limit', code: 'type', message: 'limit must be a number', expected: 'number', received: 'string' },
+        ],
+      });
+      expect((globalThis as Record<string, unknown>).__ordersCalls).toBe(0);
+    });
+  });
+});
+
+describe('usePlugins', () => {
+  beforeEach(() => {
+    localStorageMock.clear();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('hydrates enabled plugins when they change, not on every render', () => {
+    pluginRegistry.register(samplePlugin, true, 'memo-instance');
+    const { result, rerender } = renderHook(() => usePlugins('memo-instance'));
+    const hydrated = result.current.enabledPlugins;
+    expect(hydrated.map(p => p.name)).toEqual(['test-plugin']);
+
+    rerender();
+    expect(result.current.enabledPlugins).toBe(hydrated);
+
+    act(() => pluginRegistry.setEnabled('test-plugin', false, 'memo-instance'));
+    expect(result.current.enabledPlugins).toEqual([]);
+  });
 });
 
 describe('plugin serialization roundtrip', () => {
@@ -419,4 +593,159 @@ describe('plugin serialization roundtrip', () => {
     // Should be able to call the hook without error
     expect(() => hydrated.hooks?.onRegister?.()).not.toThrow();
   });
+
+  it('runs the PII protection hooks after a storage roundtrip', async () => {
+    const hydrated = hydratePlugin(serializePlugin(piiProtectionPlugin));
+    const text = 'Mail jane@example.com or call 555-123-4567';
+
+    const request = await hydrated.hooks!.beforeRequest!({
+      messages: [{ role: 'user', content: text }],
+    } as HustleRequest);
+    const tokenized = request.messages[0].content as string;
+
+    // Tokenized just like the exported helper does
+    expect(tokenized).toBe(tokenizePii(text, createPiiTokenMap()));
+
+    const response = { content: `Sure, I will write to ${tokenized.split(' ')[1]}` } as ProcessedResponse;
+    await hydrated.hooks!.afterResponse!(response);
+    expect(response.content).toBe('Sure, I will write to jane@example.com');
+  });
+
+  it('runs the Migrate.fun search tool after a storage roundtrip', async () => {
+    const hydrated = hydratePlugin(serializePlugin(migrateFunPlugin));
+
+    const result = await hydrated.executors!.search_migrate_fun_docs({ query: 'What does Migrate Fun cost?', topK: 1 });
+
+    expect(result).toMatchObject({
+      success: true,
+      resultCount: 1,
+      results: [{ rank: 1, question: 'What does Migrate Fun cost?', category: 'fees' }],
+    });
+  });
+});
+
+describe('plugin signatures', () => {
+  let privateKey: CryptoKey;
+  let publicKey: string;
+
+  beforeEach(async () => {
+    localStorageMock.clear();
+    const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    privateKey = keyPair.privateKey;
+    publicKey = await exportPublicKey(keyPair.publicKey);
+  });
+
+  afterEach(() => {
+    pluginRegistry.setTrustPolicy(undefined, 'signed-instance');
+  });
+
+  async function signedPlugin(): Promise<StoredPlugin> {
+    const serialized = serializePlugin(samplePlugin);
+    const signature = await signPlugin(serialized, privateKey);
+    return { ...serialized, signature, publicKeyId: 'test-key', enabled: true };
+  }
+
+  it('verifies a plugin signed by a trusted publisher', async () => {
+    const stored = await signedPlugin();
+
+    const result = await verifyPluginSignature(stored, { 'test-key': publicKey });
+    expect(result).toEqual({ status: 'verified', publicKeyId: 'test-key' });
+  });
+
+  it('detects tampered executorCode', async () => {
+    const stored = await signedPlugin();
+    stored.tools![0].executorCode = 'async () => fetch("https://evil.example")';
+
+    const result = await verifyPluginSignature(stored, { 'test-key': publicKey });
+    expect(result.status).toBe('invalid');
+  });
+
+  it('detects tampered hooksCode', async () => {
+    const stored = await signedPlugin();
+    stored.hooksCode = { beforeRequestCode: '(req) => ({ ...req, stolen: true })' };
+
+    const result = await verifyPluginSignature(stored, { 'test-key': publicKey });
+    expect(result.status).toBe('invalid');
+  });
+
+  it('reports unsigned and untrusted plugins', async () => {
+    const unsigned = { ...serializePlugin(samplePlugin), enabled: true };
+    expect((await verifyPluginSignature(unsigned, { 'test-key': publicKey })).status).toBe('unsigned');
+
+    const stored = await signedPlugin();
+    expect((await verifyPluginSignature(stored, {})).status).toBe('untrusted');
+  });
+
+  it('is independent of property order after a storage roundtrip', async () => {
+    const stored = await signedPlugin();
+    const reordered = JSON.parse(JSON.stringify({
+      enabled: stored.enabled,
+      hooksCode: stored.hooksCode,
+      tools: stored.tools,
+      ...stored,
+    }));
+
+    const result = await verifyPluginSignature(reordered, { 'test-key': publicKey });
+    expect(result.status).toBe('verified');
+  });
+
+  it('quarantines invalid plugins without evaluating code', () => {
+    const stored: StoredPlugin = {
+      name: 'tampered',
+      version: '1.0.0',
+      tools: [{
+        name: 'tool',
+        description: 'x',
+        parameters: { type: 'object', properties: {} },
+        executorCode: 'async () => ({})',
+      }],
+      hooksCode: { onRegisterCode: '() => {}' },
+      enabled: true,
+    };
+
+    const hydrated = hydratePlugin(stored, { verification: { status: 'invalid', reason: 'tampered' } });
+
+    expect(hydrated.quarantined).toBe(true);
+    expect(hydrated.executors).toBeUndefined();
+    expect(hydrated.hooks).toBeUndefined();
+  });
+
+  it('quarantines unsigned plugins only when signatures are required', () => {
+    const stored = { ...serializePlugin(samplePlugin), enabled: true };
+    const verification = { status: 'unsigned' as const };
+
+    expect(hydratePlugin(stored, { verification }).quarantined).toBeUndefined();
+    expect(hydratePlugin(stored, { verification, requireSignature: true }).quarantined).toBe(true);
+  });
+
+  it('getVerifiedPlugins applies the instance trust policy', async () => {
+    const signed = await signedPlugin();
+    pluginRegistry.register({ ...samplePlugin, signature: signed.signature, publicKeyId: 'test-key' }, true, 'signed-instance');
+    pluginRegistry.register({ ...samplePlugin, name: 'unsigned-plugin' }, true, 'signed-instance');
+
+    pluginRegistry.setTrustPolicy(
+      { trustedPublishers: { 'test-key': publicKey }, requireSignatures: true },
+      'signed-instance'
+    );
+
+    const plugins = await pluginRegistry.getVerifiedPlugins('signed-instance');
+    const byName = Object.fromEntries(plugins.map(p => [p.name, p]));
+
+    expect(byName['test-plugin'].quarantined).toBeUndefined();
+    expect(byName['test-plugin'].verification?.status).toBe('verified');
+    expect(typeof byName['test-plugin'].executors?.test_tool).toBe('function');
+    expect(byName['unsigned-plugin'].quarantined).toBe(true);
+  });
+
+  it('setTrustPolicy notifies listeners only on change', () => {
+    const callback = vi.fn();
+    const unsubscribe = pluginRegistry.onChange(callback, 'signed-instance');
+
+    const policy = { trustedPublishers: { 'test-key': publicKey } };
+    pluginRegistry.setTrustPolicy(policy, 'signed-instance');
+    pluginRegistry.setTrustPolicy({ ...policy }, 'signed-instance');
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
 });
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, cleanup } from '@testing-library/react';
+
+vi.mock('../src/providers/HustleProvider', () => ({
+  useHustle: () => ({ instanceId: 'profiles-hook' }),
+}));
+
+import {
+  settingsProfiles,
+  getProfilesStorageKey,
+  getSettingsStorageKey,
+  DEFAULT_PROFILE_ID,
+} from '../src/utils/settingsProfiles';
+import { useProfiles } from '../src/hooks/useProfiles';
+import { pluginRegistry } from '../src/utils/pluginRegistry';
+
+const enabledPlugins = (instanceId: string) =>
+  pluginRegistry.loadFromStorage(instanceId).filter(p => p.enabled).map(p => p.name);
+
+describe('settingsProfiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts with a Default profile made from the saved settings', () => {
+    localStorage.setItem(getSettingsStorageKey('a'), JSON.stringify({
+      selectedModel: 'openai/gpt-4o',
+      systemPrompt: 'Be brief.',
+      skipServerPrompt: true,
+    }));
+
+    expect(settingsProfiles.getActiveProfile('a')).toMatchObject({
+      id: DEFAULT_PROFILE_ID,
+      name: 'Default',
+      selectedModel: 'openai/gpt-4o',
+      systemPrompt: 'Be brief.',
+      skipServerPrompt: true,
+      modelOptions: {},
+    });
+    expect(settingsProfiles.getActiveProfile('b').selectedModel).toBe('');
+  });
+
+  it('keeps the active settings under the pre-profiles key', () => {
+    const onChange = vi.fn();
+    settingsProfiles.onChange(onChange, 'a');
+
+    settingsProfiles.updateActiveProfile({ systemPrompt: 'Be brief.', modelOptions: { temperature: 0.2 } }, 'a');
+    settingsProfiles.updateActiveProfile({ systemPrompt: 'Be brief.' }, 'a');
+
+    // The second update changed nothing, so it wasn't saved
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(localStorage.getItem(getSettingsStorageKey('a'))!)).toEqual({
+      selectedModel: '',
+      systemPrompt: 'Be brief.',
+      skipServerPrompt: false,
+      modelOptions: { temperature: 0.2 },
+    });
+  });
+
+  it('switches profiles along with their plugins', () => {
+    pluginRegistry.register({ name: 'markets', version: '1.0.0', tools: [] }, true, 'a');
+    pluginRegistry.register({ name: 'support', version: '1.0.0', tools: [] }, false, 'a');
+    const support = settingsProfiles.createProfile('Support agent', { systemPrompt: 'Be kind.', enabledPlugins: ['support'] }, 'a');
+
+    settingsProfiles.switchProfile(support.id, 'a');
+    expect(settingsProfiles.getActiveProfile('a').systemPrompt).toBe('Be kind.');
+    expect(enabledPlugins('a')).toEqual(['support']);
+    expect(JSON.parse(localStorage.getItem(getSettingsStorageKey('a'))!).systemPrompt).toBe('Be kind.');
+
+    // The profile left behind remembers its plugins
+    settingsProfiles.switchProfile(DEFAULT_PROFILE_ID, 'a');
+    expect(enabledPlugins('a')).toEqual(['markets']);
+  });
+
+  it('duplicates, renames and deletes profiles', () => {
+    settingsProfiles.updateActiveProfile({ selectedModel: 'openai/gpt-4o' }, 'a');
+    const copy = settingsProfiles.duplicateProfile(DEFAULT_PROFILE_ID, undefined, 'a')!;
+    expect(copy).toMatchObject({ name: 'Default copy', selectedModel: 'openai/gpt-4o' });
+    expect(copy.id).not.toBe(DEFAULT_PROFILE_ID);
+
+    settingsProfiles.updateProfile(copy.id, { name: '  ' }, 'a');
+    expect(settingsProfiles.getState('a').profiles[1].name).toBe('Default copy');
+
+    settingsProfiles.switchProfile(copy.id, 'a');
+    settingsProfiles.deleteProfile(copy.id, 'a');
+    expect(settingsProfiles.getState('a').activeProfileId).toBe(DEFAULT_PROFILE_ID);
+
+    // The last profile is kept
+    settingsProfiles.deleteProfile(DEFAULT_PROFILE_ID, 'a');
+    expect(settingsProfiles.getState('a').profiles).toHaveLength(1);
+  });
+
+  it('adds default profiles once and resets to them', () => {
+    settingsProfiles.setPresets([{ name: 'Trading analyst', systemPrompt: 'Be terse.', modelOptions: { temperature: 0.2 } }], 'a');
+    const analyst = settingsProfiles.getState('a').profiles[1];
+    expect(analyst).toMatchObject({ name: 'Trading analyst', systemPrompt: 'Be terse.' });
+
+    settingsProfiles.updateProfile(analyst.id, { systemPrompt: 'Ramble.', modelOptions: {} }, 'a');
+    settingsProfiles.resetProfile(analyst.id, 'a');
+    expect(settingsProfiles.getState('a').profiles[1]).toMatchObject({
+      systemPrompt: 'Be terse.',
+      modelOptions: { temperature: 0.2 },
+    });
+
+    // A deleted default profile isn't added again
+    settingsProfiles.deleteProfile(analyst.id, 'a');
+    settingsProfiles.setPresets([{ name: 'Trading analyst' }], 'a');
+    expect(settingsProfiles.getState('a').profiles.map(p => p.name)).toEqual(['Default']);
+  });
+});
+
+describe('useProfiles', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('creates and switches profiles of the provider instance', () => {
+    const { result } = renderHook(() => useProfiles());
+
+    act(() => {
+      const analyst = result.current.createProfile('Trading analyst', { systemPrompt: 'Be terse.' });
+      result.current.switchProfile(analyst.id);
+    });
+
+    expect(result.current.profiles.map(p => p.name)).toEqual(['Default', 'Trading analyst']);
+    expect(result.current.activeProfile.systemPrompt).toBe('Be terse.');
+    expect(settingsProfiles.getActiveProfile('profiles-hook').name).toBe('Trading analyst');
+  });
+
+  it('follows changes made in other tabs', () => {
+    const { result } = renderHook(() => useProfiles());
+    const key = getProfilesStorageKey('profiles-hook');
+    const remote = { ...result.current.activeProfile, name: 'Remote' };
+
+    act(() => {
+      localStorage.setItem(key, JSON.stringify({ activeProfileId: remote.id, profiles: [remote] }));
+      window.dispatchEvent(new StorageEvent('storage', { key }));
+    });
+
+    expect(result.current.activeProfile.name).toBe('Remote');
+  });
+});
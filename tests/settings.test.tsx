@@ -8,7 +8,7 @@ const { mockState, MockEmblemAuthSDK, MockHustleIncognitoClient } = vi.hoisted((
   const mockState = {
     lastAuthSDK: null as unknown,
     lastHustleClient: null as unknown,
-    chatCalls: [] as Array<{ messages: Array<{ role: string; content: string }> }>,
+    chatCalls: [] as Array<{ messages: Array<{ role: string; content: string }>; [option: string]: unknown }>,
     useCalls: [] as Array<{ name: string }>,
     unuseCalls: [] as Array<{ name: string }>,
     registeredPlugins: new Set<string>(),
@@ -85,7 +85,7 @@ const { mockState, MockEmblemAuthSDK, MockHustleIncognitoClient } = vi.hoisted((
 
     // Track chat calls to verify system prompt injection
     chat = async (opts: Record<string, unknown>) => {
-      mockState.chatCalls.push({ messages: opts.messages as Array<{ role: string; content: string }> });
+      mockState.chatCalls.push({ ...opts, messages: opts.messages as Array<{ role: string; content: string }> });
       return { content: 'test response' };
     };
 
@@ -109,6 +109,7 @@ vi.mock('hustle-incognito', () => ({
 import { EmblemAuthProvider, resetAuthSDK } from '../src/providers/EmblemAuthProvider';
 import { HustleProvider, useHustle } from '../src/providers/HustleProvider';
 import { usePlugins } from '../src/hooks/usePlugins';
+import { settingsProfiles } from '../src/utils/settingsProfiles';
 import type { HustlePlugin, SerializedToolDefinition } from '../src/types';
 
 // Mock localStorage
@@ -504,6 +505,65 @@ describe('System Prompt Injection', () => {
       content: 'Override prompt',
     });
   });
+
+  it("sends the active profile's generation options, with per-request options on top", async () => {
+    const mockSession = {
+      user: { vaultId: '123', identifier: 'test' },
+      authToken: 'jwt-token',
+      expiresAt: Date.now() + 3600000,
+      appId: 'test',
+    };
+
+    function TestComponent() {
+      const { chat, isReady } = useHustle();
+
+      const handleChat = async () => {
+        if (isReady) {
+          await chat({
+            messages: [{ role: 'user', content: 'Hello' }],
+            modelOptions: { maxTokens: 200 },
+          });
+        }
+      };
+
+      return (
+        <div>
+          <span data-testid="ready">{String(isReady)}</span>
+          <button data-testid="chat-btn" onClick={handleChat}>Chat</button>
+        </div>
+      );
+    }
+
+    render(
+      <EmblemAuthProvider appId="test">
+        <HustleProvider
+          instanceId="options-test"
+          defaultProfiles={[{ name: 'Trading analyst', modelOptions: { temperature: 0.2, maxTokens: 100 } }]}
+        >
+          <TestComponent />
+        </HustleProvider>
+      </EmblemAuthProvider>
+    );
+
+    // Switch to the default profile the app ships
+    const analyst = settingsProfiles.getState('options-test').profiles.find(p => p.name === 'Trading analyst')!;
+    await act(async () => {
+      settingsProfiles.switchProfile(analyst.id, 'options-test');
+      getLastAuthSDK()?.triggerSuccess(mockSession);
+    });
+
+    await act(async () => {
+      screen.getByTestId('chat-btn').click();
+    });
+
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+
+    const lastCall = mockState.chatCalls[mockState.chatCalls.length - 1];
+    expect(lastCall.temperature).toBe(0.2);
+    expect(lastCall.maxTokens).toBe(200);
+  });
 });
 
 describe('Plugin Registration with SDK', () => {
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  builtInSlashCommands,
+  collectSlashCommands,
+  matchSlashCommands,
+  parseSlashCommand,
+  runSlashCommand,
+} from '../src/utils/slashCommands';
+import type { HydratedPlugin, SlashCommand, SlashCommandContext } from '../src/types';
+
+function createContext(overrides: Partial<SlashCommandContext> = {}): Omit<SlashCommandContext, 'args'> {
+  return {
+    instanceId: 'test',
+    notify: vi.fn(),
+    send: vi.fn(async () => {}),
+    setInput: vi.fn(),
+    messages: [],
+    getConversation: vi.fn(),
+    clear: vi.fn(),
+    regenerate: vi.fn(async () => {}),
+    models: [
+      { id: 'openai/gpt-4o', name: 'GPT-4o', context_length: 128000, pricing: { prompt: '0', completion: '0' } },
+      { id: 'anthropic/claude', name: 'Claude', context_length: 200000, pricing: { prompt: '0', completion: '0' } },
+    ],
+    selectedModel: '',
+    setSelectedModel: vi.fn(),
+    systemPrompt: '',
+    setSystemPrompt: vi.fn(),
+    plugins: [{ name: 'pii-protection', version: '1.0.0', enabled: false }],
+    enablePlugin: vi.fn(),
+    disablePlugin: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('parseSlashCommand', () => {
+  it('splits the name from the arguments', () => {
+    expect(parseSlashCommand('/model gpt-4o')).toEqual({ name: 'model', args: 'gpt-4o' });
+    expect(parseSlashCommand('  /CLEAR  ')).toEqual({ name: 'clear', args: '' });
+    expect(parseSlashCommand('/system Be brief.\nUse tables.')).toEqual({
+      name: 'system',
+      args: 'Be brief.\nUse tables.',
+    });
+  });
+
+  it('ignores text that is not a command', () => {
+    expect(parseSlashCommand('hello /model')).toBeNull();
+    expect(parseSlashCommand('//model')).toBeNull();
+    expect(parseSlashCommand('/etc/hosts is odd')).toBeNull();
+  });
+});
+
+describe('matchSlashCommands', () => {
+  it('suggests commands while the name is typed', () => {
+    expect(matchSlashCommands(builtInSlashCommands, '/').map(c => c.name)).toEqual([
+      'model', 'system', 'clear', 'export', 'plugins', 'retry',
+    ]);
+    expect(matchSlashCommands(builtInSlashCommands, '/RE').map(c => c.name)).toEqual(['retry']);
+    expect(matchSlashCommands(builtInSlashCommands, '/model ')).toEqual([]);
+    expect(matchSlashCommands(builtInSlashCommands, 'model')).toEqual([]);
+  });
+});
+
+describe('collectSlashCommands', () => {
+  it('lets plugin and extra commands replace built-ins by name', () => {
+    const pluginCommand: SlashCommand = { name: 'markets', description: 'Search markets', run: () => {} };
+    const pluginClear: SlashCommand = { name: 'clear', description: 'Plugin clear', run: () => {} };
+    const extraClear: SlashCommand = { name: 'clear', description: 'App clear', run: () => {} };
+    const plugins = [
+      { name: 'markets', version: '1.0.0', enabled: true, commands: [pluginCommand, pluginClear] },
+    ] as HydratedPlugin[];
+
+    const commands = collectSlashCommands(plugins, [extraClear]);
+
+    expect(commands.find(c => c.name === 'markets')).toBe(pluginCommand);
+    expect(commands.find(c => c.name === 'clear')).toBe(extraClear);
+    expect(commands).toHaveLength(builtInSlashCommands.length + 1);
+  });
+});
+
+describe('runSlashCommand', () => {
+  it('leaves messages that are not commands to be sent', async () => {
+    const context = createContext();
+    expect(await runSlashCommand(builtInSlashCommands, 'What are the odds?', context)).toBe(false);
+    expect(context.notify).not.toHaveBeenCalled();
+  });
+
+  it('switches models by ID, short ID or name', async () => {
+    const context = createContext();
+
+    await runSlashCommand(builtInSlashCommands, '/model gpt-4o', context);
+    await runSlashCommand(builtInSlashCommands, '/model claude', context);
+    await runSlashCommand(builtInSlashCommands, '/model default', context);
+    await runSlashCommand(builtInSlashCommands, '/model llama', context);
+
+    expect(vi.mocked(context.setSelectedModel).mock.calls).toEqual([['openai/gpt-4o'], ['anthropic/claude'], ['']]);
+    expect(context.notify).toHaveBeenLastCalledWith('Unknown model "llama"');
+    expect(context.send).not.toHaveBeenCalled();
+  });
+
+  it('shows and replaces the system prompt', async () => {
+    const context = createContext({ systemPrompt: 'Be brief.' });
+
+    await runSlashCommand(builtInSlashCommands, '/system', context);
+    expect(context.notify).toHaveBeenCalledWith('System prompt: Be brief.');
+
+    await runSlashCommand(builtInSlashCommands, '/system You are a trading analyst.', context);
+    expect(context.setSystemPrompt).toHaveBeenCalledWith('You are a trading analyst.');
+  });
+
+  it('enables and disables installed plugins', async () => {
+    const context = createContext();
+
+    await runSlashCommand(builtInSlashCommands, '/plugins', context);
+    expect(context.notify).toHaveBeenCalledWith('Plugins: pii-protection (off)');
+
+    await runSlashCommand(builtInSlashCommands, '/plugins enable pii-protection', context);
+    expect(context.enablePlugin).toHaveBeenCalledWith('pii-protection');
+
+    await runSlashCommand(builtInSlashCommands, '/plugins disable nope', context);
+    expect(context.disablePlugin).not.toHaveBeenCalled();
+    expect(context.notify).toHaveBeenLastCalledWith('No plugin named "nope"');
+  });
+
+  it('retries only after a reply and clears the conversation', async () => {
+    const context = createContext();
+
+    await runSlashCommand(builtInSlashCommands, '/retry', context);
+    expect(context.regenerate).not.toHaveBeenCalled();
+    expect(context.notify).toHaveBeenCalledWith('Nothing to retry');
+
+    await runSlashCommand(builtInSlashCommands, '/retry', createContext({
+      ...context,
+      messages: [{ id: 'a1', role: 'assistant', content: 'Hi' }],
+    }));
+    expect(context.regenerate).toHaveBeenCalled();
+
+    await runSlashCommand(builtInSlashCommands, '/clear', context);
+    expect(context.clear).toHaveBeenCalled();
+  });
+
+  it('reports unknown commands and failures instead of throwing', async () => {
+    const context = createContext();
+    const failing: SlashCommand = {
+      name: 'boom',
+      description: 'Fails',
+      run: () => { throw new Error('no network'); },
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await runSlashCommand([failing], '/nope', context)).toBe(true);
+    expect(context.notify).toHaveBeenCalledWith('Unknown command /nope - start with // to send it as a message');
+
+    await runSlashCommand([failing], '/boom', context);
+    expect(context.notify).toHaveBeenLastCalledWith('/boom failed: no network');
+  });
+});
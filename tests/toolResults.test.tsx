@@ -0,0 +1,335 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { render, screen, cleanup } from '@testing-library/react';
+import { MessageBubble } from '../src/components/MessageBubble';
+import { ToolTimeline } from '../src/components/ToolTimeline';
+import {
+  ToolResultJson,
+  PredictionMarketResults,
+  AskUserResultChip,
+  defaultToolRenderers,
+} from '../src/components/ToolResults';
+import { pluginRegistry, hydratePlugin } from '../src/utils/pluginRegistry';
+import { predictionMarketPlugin } from '../src/plugins/predictionMarket';
+import { getToolTimeline, getToolResultError, formatDuration } from '../src/utils/toolTimeline';
+import type { DisplayMessage, ToolResultRendererProps } from '../src/types';
+
+const marketsCall = { toolCallId: 'call-1', toolName: 'search_prediction_markets', args: { tags: ['crypto'] } };
+const askCall = { toolCallId: 'call-2', toolName: 'ask_user', args: { question: 'Which chain?', choices: ['Solana', 'Base'] } };
+
+function assistantMessage(overrides: Partial<DisplayMessage>): DisplayMessage {
+  return { id: 'msg-1', role: 'assistant', content: 'Done', ...overrides };
+}
+
+describe('tool result renderers', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows a collapsible JSON view', () => {
+    const { container } = render(
+      <ToolResultJson toolCall={{ toolCallId: 'c', toolName: 'get_price' }} result={{ price: 42 }} hasResult />
+    );
+
+    const details = container.querySelector('details')!;
+    expect(details.open).toBe(false);
+    expect(details.querySelector('summary')!.textContent).toBe('get_price');
+    expect(details.querySelector('pre')!.textContent).toContain('"price": 42');
+  });
+
+  it('marks a tool call without a result as running', () => {
+    render(<ToolResultJson toolCall={{ toolCallId: 'c', toolName: 'get_price' }} hasResult={false} />);
+    expect(screen.getByText('running...')).toBeTruthy();
+  });
+
+  it('shows Polymarket results as a market table', () => {
+    render(
+      <PredictionMarketResults
+        toolCall={marketsCall}
+        hasResult
+        result={{
+          platform: 'polymarket',
+          markets: [
+            {
+              slug: 'btc-100k',
+              title: 'Will BTC hit $100k?',
+              status: 'open',
+              volume: 1250000,
+              outcomes: [{ label: 'Yes', price: 0.63 }, { label: 'No', price: 0.37 }],
+            },
+          ],
+          total: 12,
+        }}
+      />
+    );
+
+    expect(screen.getByText('Will BTC hit $100k?')).toBeTruthy();
+    expect(screen.getByText('63%')).toBeTruthy();
+    expect(screen.getByText('37%')).toBeTruthy();
+    expect(screen.getByText('1.3M')).toBeTruthy();
+    expect(screen.getByText('Showing 1 of 12 polymarket markets')).toBeTruthy();
+  });
+
+  it('shows the odds of a Polymarket search', async () => {
+    const fixture = readFileSync(join(__dirname, 'fixtures', 'polymarket-markets.json'), 'utf8');
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes('/polymarket/markets?')) return new Response(fixture);
+      // Only the first market's price is available
+      if (url.endsWith('/market-price/71321045679252212594626385532706912750332728571942532289631379312455583992563')) {
+        return new Response(JSON.stringify({ price: 0.63, at_time: 1767225600 }));
+      }
+      return new Response('{}', { status: 404 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const result = await predictionMarketPlugin.executors!.search_prediction_markets({ tags: ['crypto'] });
+      render(<PredictionMarketResults toolCall={marketsCall} hasResult result={result} />);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(screen.getByText('Bitcoin above $100k on March 31?')).toBeTruthy();
+    expect(screen.getByText('63%')).toBeTruthy();
+    expect(screen.getByText('37%')).toBeTruthy();
+    // Unpriced markets still list their outcomes
+    expect(screen.getByText('Yes / No')).toBeTruthy();
+    expect(screen.getByText('48.2K')).toBeTruthy();
+  });
+
+  it('derives Kalshi odds from the yes bid and ask', () => {
+    render(
+      <PredictionMarketResults
+        toolCall={marketsCall}
+        hasResult
+        result={{
+          platform: 'kalshi',
+          markets: [{ ticker: 'FED-CUT', title: 'Fed cuts in March?', yesBid: 40, yesAsk: 44, volume: 900 }],
+          total: 1,
+        }}
+      />
+    );
+
+    expect(screen.getByText('42%')).toBeTruthy();
+    expect(screen.getByText('58%')).toBeTruthy();
+  });
+
+  it('falls back to JSON for results it does not recognize', () => {
+    const { container } = render(<PredictionMarketResults toolCall={marketsCall} hasResult result={{ error: 'timeout' }} />);
+    expect(container.querySelector('details')).toBeTruthy();
+  });
+
+  it('summarizes ask_user answers as a chip', () => {
+    render(
+      <AskUserResultChip
+        toolCall={askCall}
+        hasResult
+        result={{ question: 'Which chain?', selectedChoices: ['Solana', 'Base'], answered: true }}
+      />
+    );
+
+    const chip = screen.getByText('✓ Solana, Base');
+    expect(chip.getAttribute('title')).toBe('Which chain?');
+  });
+
+  it('shows unanswered and pending ask_user calls', () => {
+    render(
+      <>
+        <AskUserResultChip toolCall={askCall} hasResult result={{ question: 'Which chain?', selectedChoices: [], answered: false }} />
+        <AskUserResultChip toolCall={askCall} hasResult={false} />
+      </>
+    );
+
+    expect(screen.getByText('No answer')).toBeTruthy();
+    expect(screen.getByText('Waiting for your answer...')).toBeTruthy();
+  });
+});
+
+describe('MessageBubble tool results', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('matches results to tool calls and picks renderers by tool name', () => {
+    const message = assistantMessage({
+      toolCalls: [askCall, { toolCallId: 'call-3', toolName: 'get_price' }],
+      toolResults: [
+        { toolCallId: 'call-3', result: { price: 7 } },
+        { toolCallId: 'call-2', result: { question: 'Which chain?', selectedChoices: ['Base'], answered: true } },
+      ],
+    });
+    const { container } = render(<MessageBubble message={message} toolRenderers={defaultToolRenderers} />);
+
+    expect(screen.getByText('✓ Base')).toBeTruthy();
+    expect(container.querySelector('details pre')!.textContent).toContain('"price": 7');
+  });
+
+  it('shows the JSON view when a renderer throws', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    function Broken(): React.ReactElement {
+      throw new Error('bad renderer');
+    }
+    const message = assistantMessage({
+      toolCalls: [{ toolCallId: 'call-4', toolName: 'get_price' }],
+      toolResults: [{ toolCallId: 'call-4', result: { price: 9 } }],
+    });
+    const { container } = render(<MessageBubble message={message} toolRenderers={{ get_price: Broken }} />);
+
+    expect(container.querySelector('details pre')!.textContent).toContain('"price": 9');
+    expect(screen.getByText('Done')).toBeTruthy();
+    consoleError.mockRestore();
+  });
+});
+
+describe('getToolTimeline', () => {
+  const priceCall = { toolCallId: 'call-3', toolName: 'get_price' };
+
+  it('marks calls pending until their executor starts, then running', () => {
+    const message = assistantMessage({
+      isStreaming: true,
+      toolCalls: [askCall, priceCall],
+      toolTimings: { 'call-2': { calledAt: 100, startedAt: 110 }, 'call-3': { calledAt: 120 } },
+    });
+
+    expect(getToolTimeline(message).map(entry => entry.status)).toEqual(['running', 'pending']);
+  });
+
+  it('times results from the executor starting, or from the call for server-side tools', () => {
+    const message = assistantMessage({
+      toolCalls: [askCall, priceCall],
+      toolResults: [
+        { toolCallId: 'call-2', result: { selectedChoices: ['Base'] } },
+        { toolCallId: 'call-3', result: { price: 7 } },
+      ],
+      toolTimings: {
+        'call-2': { calledAt: 100, startedAt: 150, completedAt: 1350 },
+        'call-3': { calledAt: 100, completedAt: 400 },
+      },
+    });
+
+    expect(getToolTimeline(message)).toEqual([
+      { toolCall: askCall, status: 'succeeded', hasResult: true, result: { selectedChoices: ['Base'] }, durationMs: 1200 },
+      { toolCall: priceCall, status: 'succeeded', hasResult: true, result: { price: 7 }, durationMs: 300 },
+    ]);
+  });
+
+  it('fails calls with an error result or no result once the reply has ended', () => {
+    const message = assistantMessage({
+      aborted: true,
+      toolCalls: [askCall, priceCall],
+      toolResults: [
+        { toolCallId: 'call-2', result: { error: 'timeout', tool: 'ask_user', message: 'Tool "ask_user" did not finish within 5ms', timeoutMs: 5 } },
+      ],
+    });
+
+    const [timedOut, stopped] = getToolTimeline(message);
+    expect(timedOut).toMatchObject({ status: 'failed', hasResult: true, error: 'Tool "ask_user" did not finish within 5ms' });
+    expect(timedOut.durationMs).toBeUndefined();
+    expect(stopped).toMatchObject({ status: 'failed', hasResult: false, error: 'Stopped before the tool finished' });
+  });
+
+  it('reads errors from error-shaped results', () => {
+    expect(getToolResultError({ error: 'invalid_arguments', tool: 't', message: 'Invalid arguments', issues: [] })).toBe('Invalid arguments');
+    expect(getToolResultError({ error: 'rate limited' })).toBe('rate limited');
+    expect(getToolResultError({ error: { message: 'boom' } })).toBe('boom');
+    expect(getToolResultError({ price: 1 })).toBeNull();
+    expect(getToolResultError('error')).toBeNull();
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(42)).toBe('42ms');
+    expect(formatDuration(1234)).toBe('1.2s');
+    expect(formatDuration(125000)).toBe('2m 5s');
+  });
+});
+
+describe('ToolTimeline', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows status and duration per call, with outputs for tools without renderers collapsed', () => {
+    const message = assistantMessage({
+      isStreaming: true,
+      toolCalls: [askCall, { toolCallId: 'call-3', toolName: 'get_price', args: { symbol: 'SOL' } }, { toolCallId: 'call-4', toolName: 'get_volume' }],
+      toolResults: [
+        { toolCallId: 'call-2', result: { question: 'Which chain?', selectedChoices: ['Base'], answered: true } },
+        { toolCallId: 'call-3', result: { error: 'rate limited' } },
+      ],
+      toolTimings: {
+        'call-2': { calledAt: 0, startedAt: 0, completedAt: 2500 },
+        'call-3': { calledAt: 0, completedAt: 80 },
+        'call-4': { calledAt: 0 },
+      },
+    });
+    const { container } = render(<ToolTimeline message={message} toolRenderers={defaultToolRenderers} />);
+
+    const timeline = container.querySelector('details')!;
+    expect(timeline.open).toBe(true);
+    expect(timeline.querySelector('summary')!.textContent).toBe('3 tool calls · 1 running · 1 failed');
+
+    const rows = [...container.querySelectorAll('li > details')] as HTMLDetailsElement[];
+    expect(rows.map(row => row.querySelector('summary')!.textContent)).toEqual([
+      'ask_usersucceeded2.5s',
+      'get_pricefailed80ms',
+      'get_volumepending',
+    ]);
+    // Rendered output stays open; JSON output is collapsed
+    expect(rows.map(row => row.open)).toEqual([true, false, false]);
+    expect(screen.getByText('✓ Base')).toBeTruthy();
+    expect(screen.getByText('rate limited')).toBeTruthy();
+    expect(rows[2].querySelector('pre')!.textContent).toBe('{}');
+  });
+
+  it('renders nothing for messages without tool calls', () => {
+    const { container } = render(<ToolTimeline message={assistantMessage({})} />);
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('does not ask a renderer to show a call that failed without a result', () => {
+    const message = assistantMessage({ toolCalls: [askCall] });
+    render(<ToolTimeline message={message} toolRenderers={defaultToolRenderers} />);
+
+    expect(screen.getByText('No result received')).toBeTruthy();
+    expect(screen.queryByText('Waiting for your answer...')).toBeNull();
+  });
+});
+
+describe('plugin renderToolResult', () => {
+  function PriceCard({ result }: ToolResultRendererProps) {
+    return <span>Price card {String((result as { price: number }).price)}</span>;
+  }
+
+  const plugin = {
+    name: 'price-plugin',
+    version: '1.0.0',
+    tools: [{ name: 'get_price', description: 'Get a price', parameters: { type: 'object' as const, properties: {} } }],
+    executors: { get_price: async () => ({ price: 1 }) },
+    renderToolResult: PriceCard,
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('is kept in memory and attached when the plugin is hydrated', () => {
+    pluginRegistry.register(plugin, true, 'render-test');
+
+    const stored = pluginRegistry.loadFromStorage('render-test').find(p => p.name === 'price-plugin')!;
+    expect(JSON.stringify(stored)).not.toContain('Price card');
+    expect(hydratePlugin(stored).renderToolResult).toBe(PriceCard);
+  });
+
+  it('is dropped when the plugin is unregistered or registered without one', () => {
+    pluginRegistry.register(plugin, true, 'render-test');
+    pluginRegistry.unregister('price-plugin', 'render-test');
+    pluginRegistry.registerSerialized({ name: 'price-plugin', version: '1.0.0' }, true, 'render-test');
+    expect(hydratePlugin(pluginRegistry.loadFromStorage('render-test')[0]).renderToolResult).toBeUndefined();
+
+    pluginRegistry.register(plugin, true, 'render-test');
+    pluginRegistry.register({ ...plugin, renderToolResult: undefined }, true, 'render-test');
+    expect(hydratePlugin(pluginRegistry.loadFromStorage('render-test')[0]).renderToolResult).toBeUndefined();
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { withToolTimeout, cancelToolCalls, isToolInterrupted, onToolCallStart } from '../src/utils/toolTimeout';
+import { hydratePlugin, pluginRegistry } from '../src/utils/pluginRegistry';
+import type { ClientToolDefinition, StoredPlugin, ToolExecutionContext } from '../src/types';
+
+const tool: ClientToolDefinition = {
+  name: 'slow_tool',
+  description: 'Takes a while',
+  parameters: { type: 'object', properties: {} },
+  timeoutMs: 1000,
+};
+
+/**
+ * Executor that never settles, capturing its context
+ */
+function hangingExecutor() {
+  const calls: ToolExecutionContext[] = [];
+  const executor = vi.fn((_args: Record<string, unknown>, context?: ToolExecutionContext) => {
+    calls.push(context!);
+    return new Promise<unknown>(() => {});
+  });
+  return { executor, calls };
+}
+
+describe('withToolTimeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes results and errors through', async () => {
+    await expect(withToolTimeout(tool, async () => 'done')({})).resolves.toBe('done');
+    await expect(
+      withToolTimeout(tool, async () => {
+        throw new Error('upstream failed');
+      })({})
+    ).rejects.toThrow('upstream failed');
+  });
+
+  it('gives executors a signal and deadline', async () => {
+    vi.useFakeTimers({ now: 5000 });
+    const { executor, calls } = hangingExecutor();
+
+    withToolTimeout(tool, executor)({});
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(calls[0].deadline).toBe(6000);
+    expect(calls[0].signal.aborted).toBe(false);
+  });
+
+  it('resolves to a timeout result and aborts the signal', async () => {
+    vi.useFakeTimers();
+    const { executor, calls } = hangingExecutor();
+
+    const result = withToolTimeout(tool, executor)({});
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toEqual({
+      error: 'timeout',
+      tool: 'slow_tool',
+      message: 'Tool "slow_tool" did not finish within 1000ms',
+      timeoutMs: 1000,
+    });
+    expect(calls[0].signal.aborted).toBe(true);
+  });
+
+  it('uses a 30 second default and no limit for timeoutMs 0', async () => {
+    vi.useFakeTimers();
+    const { executor } = hangingExecutor();
+    const { timeoutMs: _timeoutMs, ...untimed } = tool;
+
+    const defaulted = withToolTimeout(untimed, executor)({});
+    const unlimited = withToolTimeout({ ...tool, timeoutMs: 0 }, executor)({});
+    const settled = vi.fn();
+    unlimited.then(settled);
+
+    await vi.advanceTimersByTimeAsync(30000);
+
+    await expect(defaulted).resolves.toMatchObject({ error: 'timeout', timeoutMs: 30000 });
+    expect(settled).not.toHaveBeenCalled();
+  });
+
+  it('cancels every in-flight call for an instance', async () => {
+    const { executor, calls } = hangingExecutor();
+
+    const first = withToolTimeout(tool, executor, 'chat-a')({});
+    const second = withToolTimeout(tool, executor, 'chat-a')({});
+    const other = withToolTimeout(tool, async () => 'kept', 'chat-b')({});
+    await Promise.resolve();
+
+    cancelToolCalls('chat-a');
+
+    await expect(first).resolves.toMatchObject({ error: 'cancelled', tool: 'slow_tool' });
+    await expect(second).resolves.toMatchObject({ error: 'cancelled' });
+    await expect(other).resolves.toBe('kept');
+    expect(calls.every((context) => context.signal.aborted)).toBe(true);
+  });
+
+  it('honours a signal passed by the caller', async () => {
+    const controller = new AbortController();
+    const { executor } = hangingExecutor();
+
+    const result = withToolTimeout(tool, executor)({}, { signal: controller.signal, deadline: Infinity });
+    controller.abort();
+
+    await expect(result).resolves.toMatchObject({ error: 'cancelled' });
+
+    // Already aborted - the executor never runs
+    executor.mockClear();
+    await expect(
+      withToolTimeout(tool, executor)({}, { signal: controller.signal, deadline: Infinity })
+    ).resolves.toMatchObject({ error: 'cancelled' });
+    expect(executor).not.toHaveBeenCalled();
+  });
+
+  it('ignores late results after an interruption', async () => {
+    let finish!: (value: unknown) => void;
+    const call = withToolTimeout(tool, () => new Promise((resolve) => { finish = resolve; }), 'late')({});
+    await Promise.resolve();
+
+    cancelToolCalls('late');
+    finish('too late');
+
+    expect(isToolInterrupted(await call)).toBe(true);
+  });
+
+  it('tells start listeners for the instance when an executor starts', async () => {
+    const started: string[] = [];
+    const unsubscribe = onToolCallStart((toolName) => started.push(toolName), 'watched');
+    const { executor } = hangingExecutor();
+
+    const call = withToolTimeout(tool, executor, 'watched')({});
+    const other = withToolTimeout(tool, async () => 'ok', 'unwatched')({});
+    await Promise.resolve();
+    expect(started).toEqual(['slow_tool']);
+    await expect(other).resolves.toBe('ok');
+
+    unsubscribe();
+    cancelToolCalls('watched');
+    await call;
+    await withToolTimeout(tool, async () => 'ok', 'watched')({});
+    expect(started).toEqual(['slow_tool']);
+  });
+});
+
+describe('hydratePlugin timeouts', () => {
+  it('bounds hydrated executors by the stored tool timeout', async () => {
+    vi.useFakeTimers();
+    const stored: StoredPlugin = {
+      name: 'hang-plugin',
+      version: '1.0.0',
+      enabled: true,
+      tools: [{ ...tool, executorCode: '(args, context) => new Promise(() => {})' }],
+    };
+
+    const hydrated = hydratePlugin(stored, { instanceId: 'hang-instance' });
+    const result = hydrated.executors!.slow_tool({});
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toMatchObject({ error: 'timeout', tool: 'slow_tool' });
+    vi.useRealTimers();
+  });
+
+  it('cancels hydrated executors by instance', async () => {
+    const stored: StoredPlugin = {
+      name: 'wait-plugin',
+      version: '1.0.0',
+      enabled: true,
+      tools: [{
+        ...tool,
+        executorCode: '(args, context) => new Promise((resolve) => context.signal.addEventListener("abort", () => resolve("saw abort")))',
+      }],
+    };
+
+    const result = hydratePlugin(stored, { instanceId: 'wait-instance' }).executors!.slow_tool({});
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    cancelToolCalls('wait-instance');
+
+    await expect(result).resolves.toMatchObject({ error: 'cancelled' });
+  });
+
+  it('cancels executors hydrated by the registry for their instance', async () => {
+    pluginRegistry.registerSerialized({
+      name: 'registry-wait-plugin',
+      version: '1.0.0',
+      tools: [{ ...tool, executorCode: '(args, context) => new Promise(() => {})' }],
+    }, true, 'registry-instance');
+
+    const [plugin] = pluginRegistry.getEnabledPlugins('registry-instance');
+    const result = plugin.executors!.slow_tool({});
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    cancelToolCalls('registry-instance');
+
+    await expect(result).resolves.toMatchObject({ error: 'cancelled' });
+  });
+
+  it('does not start hydrated executors called with invalid args', async () => {
+    const started: string[] = [];
+    const unsubscribe = onToolCallStart((toolName) => started.push(toolName), 'strict-instance');
+    const stored: StoredPlugin = {
+      name: 'strict-plugin',
+      version: '1.0.0',
+      enabled: true,
+      tools: [{
+        ...tool,
+        parameters: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] },
+        executorCode: '(args) => args.query',
+      }],
+    };
+    const executor = hydratePlugin(stored, { instanceId: 'strict-instance' }).executors!.slow_tool;
+
+    await expect(executor({})).resolves.toMatchObject({ error: 'invalid_arguments' });
+    expect(started).toEqual([]);
+
+    await expect(executor({ query: 'ok' })).resolves.toBe('ok');
+    expect(started).toEqual(['slow_tool']);
+    unsubscribe();
+  });
+});
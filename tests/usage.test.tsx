@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import React from 'react';
+import { render, screen, cleanup } from '@testing-library/react';
+import { MessageBubble } from '../src/components/MessageBubble';
+import { MessageFooter, ThinkingSection } from '../src/components/MessageMetadata';
+import { ContextMeter } from '../src/components/ContextMeter';
+import {
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  getToolCategories,
+  getLatestPathInfo,
+  getContextUsage,
+} from '../src/utils/usage';
+import type { DisplayMessage, Model } from '../src/types';
+
+const gpt4o: Model = {
+  id: 'openai/gpt-4o',
+  name: 'GPT-4o',
+  context_length: 128000,
+  pricing: { prompt: '0.0000025', completion: '0.00001' },
+};
+
+function reply(overrides: Partial<DisplayMessage>): DisplayMessage {
+  return { id: 'msg-1', role: 'assistant', content: 'Done', ...overrides };
+}
+
+describe('usage helpers', () => {
+  it('estimates cost from per-token pricing', () => {
+    expect(estimateCost({ prompt_tokens: 1000, completion_tokens: 500 }, gpt4o)).toBeCloseTo(0.0075);
+    expect(estimateCost({ prompt_tokens: 1000 }, gpt4o)).toBeCloseTo(0.0025);
+    expect(estimateCost(undefined, gpt4o)).toBeNull();
+    expect(estimateCost({ prompt_tokens: 1000 }, { ...gpt4o, pricing: undefined })).toBeNull();
+    expect(estimateCost({ prompt_tokens: 1000 }, null)).toBeNull();
+  });
+
+  it('formats costs and token counts', () => {
+    expect(formatCost(0)).toBe('$0');
+    expect(formatCost(0.00001)).toBe('<$0.0001');
+    expect(formatCost(0.0075)).toBe('$0.0075');
+    expect(formatCost(0.1)).toBe('$0.1');
+    expect(formatCost(12.345)).toBe('$12.35');
+    expect(formatCost(0.999)).toBe('$1.00');
+    expect(formatCost(0.994)).toBe('$0.99');
+    expect(formatTokenCount(950)).toBe('950');
+    expect(formatTokenCount(12345)).toBe('12.3K');
+  });
+
+  it('prefers the qualified tool categories over the reasoning ones', () => {
+    expect(getToolCategories(reply({
+      reasoning: { categories: ['markets'] },
+      devToolsInfo: { qualifiedCategories: ['markets', 'wallet'] },
+    }))).toEqual(['markets', 'wallet']);
+    expect(getToolCategories(reply({ reasoning: { categories: ['markets'] } }))).toEqual(['markets']);
+    expect(getToolCategories(reply({}))).toEqual([]);
+  });
+
+  it('finds the newest pathInfo', () => {
+    const messages = [
+      reply({ id: 'a', pathInfo: { totalTokens: 100, threshold: 1000 } }),
+      reply({ id: 'b', pathInfo: { totalTokens: 400, threshold: 1000 } }),
+      reply({ id: 'c', role: 'user' }),
+    ];
+    expect(getLatestPathInfo(messages)).toEqual({ totalTokens: 400, threshold: 1000 });
+    expect(getLatestPathInfo([])).toBeUndefined();
+  });
+
+  it('warns as the context approaches the summarization threshold', () => {
+    expect(getContextUsage({ totalTokens: 5000, threshold: 10000 })).toEqual({
+      totalTokens: 5000,
+      threshold: 10000,
+      ratio: 0.5,
+      level: 'ok',
+    });
+    expect(getContextUsage({ totalTokens: 8500, threshold: 10000 })?.level).toBe('warning');
+    expect(getContextUsage({ totalTokens: 6000, threshold: 10000 }, 0.5)?.level).toBe('warning');
+    expect(getContextUsage({ totalTokens: 10200, threshold: 10000 })?.level).toBe('summarizing');
+    expect(getContextUsage({ totalTokens: 2000, threshold: 10000, thresholdReached: true })?.level).toBe('summarizing');
+    expect(getContextUsage({ totalTokens: 2000 })).toBeNull();
+    expect(getContextUsage(undefined)).toBeNull();
+  });
+});
+
+describe('message metadata', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows tokens, estimated cost and tool categories in the footer', () => {
+    const message = reply({
+      usage: { prompt_tokens: 12345, completion_tokens: 678 },
+      devToolsInfo: { qualifiedCategories: ['markets'] },
+    });
+    const { container } = render(<MessageFooter message={message} model={gpt4o} />);
+
+    expect(container.textContent).toBe('12.3K in·678 out·~$0.038markets');
+    expect(screen.getByText('~$0.038').getAttribute('title')).toBe('Estimated at GPT-4o pricing');
+  });
+
+  it('leaves out the cost without pricing, and the footer without metadata', () => {
+    const { container, rerender } = render(
+      <MessageFooter message={reply({ usage: { completion_tokens: 40 } })} />
+    );
+    expect(container.textContent).toBe('40 out');
+
+    rerender(<MessageFooter message={reply({})} model={gpt4o} />);
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('collapses the thinking by default', () => {
+    const { container } = render(<ThinkingSection thinking="Check both venues first" />);
+
+    const details = container.querySelector('details')!;
+    expect(details.open).toBe(false);
+    expect(details.querySelector('summary')!.textContent).toBe('Thinking');
+    expect(screen.getByText('Check both venues first')).toBeTruthy();
+  });
+
+  it('shows thinking and the footer on finished replies unless turned off', () => {
+    const message = reply({
+      reasoning: { thinking: 'Look up the odds' },
+      usage: { prompt_tokens: 10, completion_tokens: 5 },
+    });
+    const { rerender } = render(<MessageBubble message={message} model={gpt4o} />);
+    expect(screen.getByText('Look up the odds')).toBeTruthy();
+    expect(screen.getByText('5 out')).toBeTruthy();
+
+    rerender(<MessageBubble message={{ ...message, isStreaming: true }} model={gpt4o} />);
+    expect(screen.queryByText('5 out')).toBeNull();
+
+    rerender(<MessageBubble message={message} model={gpt4o} showMetadata={false} />);
+    expect(screen.queryByText('Look up the odds')).toBeNull();
+    expect(screen.queryByText('5 out')).toBeNull();
+  });
+});
+
+describe('ContextMeter', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('shows how full the context is', () => {
+    render(<ContextMeter pathInfo={{ totalTokens: 3000, threshold: 10000 }} />);
+
+    const meter = screen.getByRole('meter');
+    expect(meter.getAttribute('aria-valuenow')).toBe('3000');
+    expect((meter.firstChild as HTMLElement).style.width).toBe('30%');
+    expect(screen.getByText('Context 3K / 10K')).toBeTruthy();
+    expect(screen.queryByText(/summarized/)).toBeNull();
+  });
+
+  it('warns before and while older messages are summarized', () => {
+    const { rerender } = render(<ContextMeter pathInfo={{ totalTokens: 8500, threshold: 10000 }} />);
+    expect(screen.getByText('Older messages will be summarized soon')).toBeTruthy();
+
+    rerender(<ContextMeter pathInfo={{ totalTokens: 12000, threshold: 10000, thresholdReached: true }} />);
+    expect(screen.getByText('Older messages are being summarized')).toBeTruthy();
+    expect((screen.getByRole('meter').firstChild as HTMLElement).style.width).toBe('100%');
+  });
+
+  it('renders nothing before a reply reports its context size', () => {
+    const { container } = render(<ContextMeter />);
+    expect(container.innerHTML).toBe('');
+  });
+});
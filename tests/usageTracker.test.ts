@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, cleanup } from '@testing-library/react';
+
+vi.mock('../src/providers/HustleProvider', () => ({
+  useHustle: () => ({ instanceId: 'usage-hook' }),
+}));
+
+vi.mock('../src/providers/EmblemAuthProvider', () => ({
+  useEmblemAuth: () => ({ session: { user: { identifier: 'vault-a' } } }),
+}));
+
+import {
+  usageTracker,
+  summarizeUsage,
+  getBudgetStatus,
+  usageToCsv,
+  getUsageStorageKey,
+  BudgetExceededError,
+  isBudgetExceededError,
+  compactUsageRecords,
+} from '../src/utils/usageTracker';
+import { useUsage } from '../src/hooks/useUsage';
+import type { UsageRecord } from '../src/types';
+
+function makeRecord(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    id: 'usage-1',
+    timestamp: '2026-03-10T12:00:00',
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    costUsd: 0.01,
+    ...overrides,
+  };
+}
+
+const scopeA = { instanceId: 'usage', ownerId: 'vault-a' };
+const scopeB = { instanceId: 'usage', ownerId: 'vault-b' };
+
+describe('summarizeUsage', () => {
+  it('sums records by message, conversation, model and day', () => {
+    const summary = summarizeUsage([
+      makeRecord({ id: 'a', conversationId: 'c1', messageId: 'm1', model: 'openai/gpt-4o' }),
+      makeRecord({ id: 'b', conversationId: 'c1', messageId: 'm2', costUsd: null }),
+      makeRecord({ id: 'c', conversationId: 'c2', messageId: 'm3', model: 'openai/gpt-4o', timestamp: '2026-03-11T09:00:00' }),
+    ]);
+
+    expect(summary.total).toEqual({
+      requests: 3,
+      promptTokens: 300,
+      completionTokens: 150,
+      totalTokens: 450,
+      costUsd: 0.02,
+      unpricedRequests: 1,
+    });
+    expect(summary.byConversation.c1.requests).toBe(2);
+    expect(summary.byMessage.m3.totalTokens).toBe(150);
+    expect(Object.keys(summary.byModel)).toEqual(['openai/gpt-4o', 'default']);
+    expect(summary.byModel['openai/gpt-4o'].costUsd).toBeCloseTo(0.02);
+    expect(summary.byDay['2026-03-10'].requests).toBe(2);
+    expect(summary.byDay['2026-03-11'].requests).toBe(1);
+  });
+});
+
+describe('compactUsageRecords', () => {
+  it('rolls the oldest records up per day and model, keeping the totals', () => {
+    const records = [
+      makeRecord({ id: 'a', messageId: 'm1', model: 'openai/gpt-4o' }),
+      makeRecord({ id: 'b', messageId: 'm2', model: 'openai/gpt-4o' }),
+      makeRecord({ id: 'c', messageId: 'm3', costUsd: null }),
+      makeRecord({ id: 'd', messageId: 'm4', model: 'openai/gpt-4o', timestamp: '2026-03-11T09:00:00' }),
+      makeRecord({ id: 'e', messageId: 'm5', timestamp: '2026-03-12T09:00:00' }),
+      makeRecord({ id: 'f', messageId: 'm6', timestamp: '2026-03-12T10:00:00' }),
+    ];
+
+    const compacted = compactUsageRecords(records, 5);
+
+    expect(compacted).toHaveLength(5);
+    expect(compacted.slice(3).map(r => r.id)).toEqual(['e', 'f']);
+    expect(compacted[0]).toMatchObject({ model: 'openai/gpt-4o', requests: 2, totalTokens: 300, unpricedRequests: 0 });
+    expect(compacted[0].messageId).toBeUndefined();
+    expect(compacted[1]).toMatchObject({ requests: 1, costUsd: 0, unpricedRequests: 1 });
+    expect(compacted[1].model).toBeUndefined();
+
+    const before = summarizeUsage(records);
+    const after = summarizeUsage(compacted);
+    expect(after.total).toEqual({ ...before.total, costUsd: expect.closeTo(before.total.costUsd) });
+    expect(after.byDay['2026-03-10'].requests).toBe(3);
+    expect(compactUsageRecords(records)).toBe(records);
+  });
+});
+
+describe('getBudgetStatus', () => {
+  const now = new Date('2026-03-11T18:00:00');
+  const records = [
+    makeRecord({ id: 'yesterday', costUsd: 0.5, totalTokens: 1000 }),
+    makeRecord({ id: 'today', timestamp: '2026-03-11T08:00:00', costUsd: 0.25, totalTokens: 400 }),
+  ];
+
+  it('only counts the current day by default', () => {
+    const status = getBudgetStatus(records, { maxCostUsd: 1, maxTokens: 500 }, now);
+
+    expect(status.usage.costUsd).toBe(0.25);
+    expect(status.exceeded).toBe(false);
+    expect(status.remainingCostUsd).toBe(0.75);
+    expect(status.remainingTokens).toBe(100);
+  });
+
+  it('is exceeded once any limit is reached in the period', () => {
+    expect(getBudgetStatus(records, { maxTokens: 400 }, now).exceeded).toBe(true);
+    expect(getBudgetStatus(records, { maxCostUsd: 0.7, period: 'month' }, now).exceeded).toBe(true);
+    expect(getBudgetStatus(records, { maxCostUsd: 0.7, period: 'month' }, new Date('2026-04-01')).exceeded).toBe(false);
+    expect(getBudgetStatus(records, { maxTokens: 1400, period: 'all' }, now).remainingTokens).toBe(0);
+  });
+});
+
+describe('usageToCsv', () => {
+  it('writes a header and one row per record, quoting where needed', () => {
+    const csv = usageToCsv([
+      makeRecord({ conversationId: 'c1', messageId: 'm1', model: 'vendor/model,"beta"' }),
+      makeRecord({ costUsd: null }),
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'timestamp,conversationId,messageId,model,promptTokens,completionTokens,totalTokens,costUsd',
+      '2026-03-10T12:00:00,c1,m1,"vendor/model,""beta""",100,50,150,0.01',
+      '2026-03-10T12:00:00,,,,100,50,150,',
+    ]);
+  });
+});
+
+describe('usageTracker', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    usageTracker.setBudget(undefined, 'usage');
+  });
+
+  it('persists records per instance and vault', () => {
+    const record = usageTracker.record(scopeA, { promptTokens: 10, completionTokens: 5, totalTokens: 15, costUsd: null });
+
+    expect(record.id).toMatch(/^usage-/);
+    expect(usageTracker.getRecords(scopeA)).toEqual([record]);
+    expect(usageTracker.getRecords(scopeB)).toEqual([]);
+    expect(localStorage.getItem(getUsageStorageKey(scopeA))).toContain(record.id);
+
+    usageTracker.clear(scopeA);
+    expect(usageTracker.getRecords(scopeA)).toEqual([]);
+  });
+
+  it('refuses requests with a BudgetExceededError once the budget is used up', () => {
+    usageTracker.setBudget({ maxTokens: 100 }, 'usage');
+    usageTracker.record(scopeA, { promptTokens: 60, completionTokens: 30, totalTokens: 90, costUsd: 0.001 });
+    expect(() => usageTracker.assertWithinBudget(scopeA)).not.toThrow();
+
+    usageTracker.record(scopeA, { promptTokens: 10, completionTokens: 0, totalTokens: 10, costUsd: 0.001 });
+
+    let caught: unknown;
+    try {
+      usageTracker.assertWithinBudget(scopeA);
+    } catch (err) {
+      caught = err;
+    }
+    expect(isBudgetExceededError(caught)).toBe(true);
+    expect(caught).toBeInstanceOf(BudgetExceededError);
+    expect((caught as BudgetExceededError).message).toBe('Usage budget exceeded (100 tokens per day)');
+    expect((caught as BudgetExceededError).usage.totalTokens).toBe(100);
+
+    // Other vaults have their own usage
+    expect(() => usageTracker.assertWithinBudget(scopeB)).not.toThrow();
+  });
+
+  it('notifies listeners of the matching instance', () => {
+    const listener = vi.fn();
+    const other = vi.fn();
+    const unsubscribe = usageTracker.onChange(listener, 'usage');
+    usageTracker.onChange(other, 'elsewhere');
+
+    usageTracker.record(scopeA, { promptTokens: 1, completionTokens: 1, totalTokens: 2, costUsd: 0 });
+    usageTracker.setBudget({ maxCostUsd: 5 }, 'usage');
+    usageTracker.setBudget({ maxCostUsd: 5 }, 'usage');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(other).not.toHaveBeenCalled();
+
+    unsubscribe();
+    usageTracker.clear(scopeA);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('useUsage', () => {
+  const scope = { instanceId: 'usage-hook', ownerId: 'vault-a' };
+
+  beforeEach(() => {
+    localStorage.clear();
+    usageTracker.setBudget(undefined, 'usage-hook');
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('follows recorded usage and the budget of the current vault', () => {
+    const { result } = renderHook(() => useUsage());
+    expect(result.current.records).toEqual([]);
+    expect(result.current.budgetStatus).toBeNull();
+
+    act(() => {
+      usageTracker.record(scope, { conversationId: 'c1', promptTokens: 200, completionTokens: 100, totalTokens: 300, costUsd: 0.02 });
+      result.current.setBudget({ maxCostUsd: 0.02 });
+    });
+
+    expect(result.current.summary.byConversation.c1.totalTokens).toBe(300);
+    expect(result.current.budget).toEqual({ maxCostUsd: 0.02 });
+    expect(result.current.budgetStatus?.exceeded).toBe(true);
+    expect(result.current.exportCsv().split('\n')).toHaveLength(2);
+
+    act(() => {
+      result.current.clear();
+    });
+    expect(result.current.records).toEqual([]);
+    expect(result.current.budgetStatus?.exceeded).toBe(false);
+  });
+});
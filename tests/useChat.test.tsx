@@ -0,0 +1,385 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor, cleanup } from '@testing-library/react';
+import type { ChatResponse, StreamChunk, StreamOptions, StreamWithResponse } from '../src/types';
+
+// Mock state shared with the provider mocks
+const { mockState } = vi.hoisted(() => ({
+  mockState: {
+    streamCalls: [] as StreamOptions[],
+    nextStream: null as null | ((options: StreamOptions) => StreamWithResponse),
+    store: null as unknown,
+    selectedModel: '',
+  },
+}));
+
+vi.mock('../src/providers/HustleProvider', () => ({
+  useHustle: () => ({
+    instanceId: 'chat-test',
+    isReady: true,
+    selectedModel: mockState.selectedModel,
+    chatStream: (options: StreamOptions) => {
+      mockState.streamCalls.push(options);
+      return mockState.nextStream!(options);
+    },
+    uploadFile: async (file: File) => ({ url: `https://files.test/${file.name}`, name: file.name }),
+    conversationStore: mockState.store,
+  }),
+}));
+
+vi.mock('../src/providers/EmblemAuthProvider', () => ({
+  useEmblemAuth: () => ({ session: { user: { identifier: 'user-1' } } }),
+}));
+
+import { useChat } from '../src/hooks/useChat';
+import { MemoryConversationStore } from '../src/utils/conversationStore';
+import { withToolTimeout } from '../src/utils/toolTimeout';
+import { getToolTimeline } from '../src/utils/toolTimeline';
+
+/**
+ * Stream that yields the given chunks, then resolves with the joined text
+ */
+function replyStream(chunks: StreamChunk[]): (options: StreamOptions) => StreamWithResponse {
+  return () => {
+    const content = chunks.map((chunk) => (chunk.type === 'text' ? chunk.value : '')).join('');
+    return {
+      [Symbol.asyncIterator]: async function* () {
+        yield* chunks;
+      },
+      response: Promise.resolve({ content }),
+      abort: () => {},
+    };
+  };
+}
+
+/**
+ * Stream that yields one chunk and then waits until abort() is called
+ */
+function stoppableStream(): (options: StreamOptions) => StreamWithResponse {
+  return () => {
+    let stop!: () => void;
+    const stopped = new Promise<void>((resolve) => { stop = resolve; });
+    let resolveResponse!: (response: ChatResponse) => void;
+    const response = new Promise<ChatResponse>((resolve) => { resolveResponse = resolve; });
+
+    return {
+      [Symbol.asyncIterator]: async function* () {
+        yield { type: 'text', value: 'Half an ans' } as StreamChunk;
+        await stopped;
+      },
+      response,
+      abort: () => {
+        resolveResponse({ content: 'Half an ans', aborted: true });
+        stop();
+      },
+    };
+  };
+}
+
+function ids(messages: { content: string }[]) {
+  return messages.map((message) => message.content);
+}
+
+/**
+ * Render useChat and wait until the conversation has been restored
+ */
+async function renderChat(options?: Parameters<typeof useChat>[0]) {
+  const rendered = renderHook(() => useChat(options));
+  await waitFor(() => expect(rendered.result.current.canSend).toBe(true));
+  return rendered;
+}
+
+describe('useChat', () => {
+  beforeEach(() => {
+    mockState.streamCalls = [];
+    mockState.store = new MemoryConversationStore();
+    mockState.selectedModel = '';
+    mockState.nextStream = replyStream([{ type: 'text', value: 'Hello ' }, { type: 'text', value: 'there' }]);
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('sends a message and streams the reply', async () => {
+    const onResponse = vi.fn();
+    const { result } = await renderChat({ onResponse });
+
+    await act(async () => {
+      await result.current.send('  Hi  ');
+    });
+
+    expect(ids(result.current.messages)).toEqual(['Hi', 'Hello there']);
+    expect(result.current.messages[1]).toMatchObject({ role: 'assistant', isStreaming: false });
+    expect(result.current.isStreaming).toBe(false);
+    expect(mockState.streamCalls[0].messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(onResponse).toHaveBeenCalledWith('Hello there');
+  });
+
+  it('records tool calls on the reply', async () => {
+    const onToolCall = vi.fn();
+    const toolCall = { toolCallId: 'call-1', toolName: 'search_prediction_markets' };
+    mockState.nextStream = replyStream([{ type: 'tool_call', value: toolCall }, { type: 'text', value: 'Found 3' }]);
+    const { result } = await renderChat({ onToolCall });
+
+    await act(async () => {
+      await result.current.send('Find markets');
+    });
+
+    expect(result.current.messages[1].toolCalls).toEqual([toolCall]);
+    expect(onToolCall).toHaveBeenCalledWith(toolCall);
+    expect(result.current.toolCalls).toEqual([]);
+  });
+
+  it('stores tool results on the reply', async () => {
+    const toolCall = { toolCallId: 'call-1', toolName: 'ask_user' };
+    const toolResult = { toolCallId: 'call-1', toolName: 'ask_user', result: { selectedChoices: ['Base'] } };
+    mockState.nextStream = replyStream([
+      { type: 'tool_call', value: toolCall },
+      { type: 'tool_result', value: toolResult },
+      { type: 'text', value: 'Base it is' },
+    ]);
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Pick a chain');
+    });
+
+    expect(result.current.messages[1].toolResults).toEqual([toolResult]);
+  });
+
+  it('keeps the model, usage, reasoning and pathInfo of the response on the reply', async () => {
+    const response: ChatResponse = {
+      content: 'Done',
+      usage: { prompt_tokens: 1200, completion_tokens: 300, total_tokens: 1500 },
+      reasoning: { thinking: 'The user wants markets', categories: ['markets'] },
+      devToolsInfo: { toolCount: 4, qualifiedCategories: ['markets', 'wallet'] },
+      pathInfo: { totalTokens: 9000, threshold: 10000, thresholdReached: false },
+    };
+    mockState.selectedModel = 'openai/gpt-4o';
+    mockState.nextStream = () => ({
+      [Symbol.asyncIterator]: async function* () {
+        yield { type: 'text', value: 'Done' } as StreamChunk;
+      },
+      response: Promise.resolve(response),
+      abort: () => {},
+    });
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Markets?');
+    });
+
+    const { content: _content, ...metadata } = response;
+    expect(result.current.messages[1]).toMatchObject({ model: 'openai/gpt-4o', ...metadata });
+    expect(result.current.messages[0].model).toBeUndefined();
+  });
+
+  it('times tool calls from their executor starting to their result', async () => {
+    const tool = { name: 'get_price', description: 'Get a price', parameters: { type: 'object' as const, properties: {} } };
+    const executor = withToolTimeout(tool, async () => ({ price: 5 }), 'chat-test');
+    mockState.nextStream = () => ({
+      [Symbol.asyncIterator]: async function* () {
+        yield { type: 'tool_call', value: { toolCallId: 'call-1', toolName: 'get_price' } } as StreamChunk;
+        const result = await executor({});
+        yield { type: 'tool_result', value: { toolCallId: 'call-1', result } } as StreamChunk;
+        yield { type: 'tool_call', value: { toolCallId: 'call-2', toolName: 'server_tool' } } as StreamChunk;
+        yield { type: 'text', value: 'Done' } as StreamChunk;
+      },
+      response: Promise.resolve({ content: 'Done' }),
+      abort: () => {},
+    });
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Price?');
+    });
+
+    const { toolTimings } = result.current.messages[1];
+    expect(toolTimings!['call-1'].startedAt).toBeGreaterThanOrEqual(toolTimings!['call-1'].calledAt);
+    expect(toolTimings!['call-1'].completedAt).toBeGreaterThanOrEqual(toolTimings!['call-1'].startedAt!);
+    // Never ran on the client and never answered
+    expect(toolTimings!['call-2']).toEqual({ calledAt: expect.any(Number) });
+    expect(getToolTimeline(result.current.messages[1]).map(entry => entry.status)).toEqual(['succeeded', 'failed']);
+  });
+
+  it('stops a reply and keeps the partial content', async () => {
+    mockState.nextStream = stoppableStream();
+    const { result } = await renderChat();
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.send('Explain');
+    });
+    await waitFor(() => expect(result.current.messages[1]?.content).toBe('Half an ans'));
+    expect(result.current.isStreaming).toBe(true);
+    expect(result.current.canSend).toBe(false);
+
+    await act(async () => {
+      result.current.stop();
+      await sending;
+    });
+
+    expect(result.current.messages[1]).toMatchObject({ content: 'Half an ans', aborted: true, isStreaming: false });
+    expect(result.current.isStreaming).toBe(false);
+  });
+
+  it('regenerates the last reply as a sibling branch', async () => {
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Hi');
+    });
+    mockState.nextStream = replyStream([{ type: 'text', value: 'Another reply' }]);
+    await act(async () => {
+      await result.current.regenerate();
+    });
+
+    const reply = result.current.messages[1];
+    expect(ids(result.current.messages)).toEqual(['Hi', 'Another reply']);
+    expect(result.current.getBranchInfo(reply.id)).toMatchObject({ index: 1, count: 2 });
+    expect(mockState.streamCalls[1].messages).toEqual([{ role: 'user', content: 'Hi' }]);
+
+    act(() => result.current.switchBranch(reply.id, -1));
+    expect(ids(result.current.messages)).toEqual(['Hi', 'Hello there']);
+  });
+
+  it('edits an earlier message and resends from that point', async () => {
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('First');
+    });
+    await act(async () => {
+      await result.current.send('Second');
+    });
+    const first = result.current.messages[0];
+
+    mockState.nextStream = replyStream([{ type: 'text', value: 'Edited reply' }]);
+    await act(async () => {
+      await result.current.editAndResend(first.id, 'First, edited');
+    });
+
+    expect(ids(result.current.messages)).toEqual(['First, edited', 'Edited reply']);
+    expect(mockState.streamCalls[2].messages).toEqual([{ role: 'user', content: 'First, edited' }]);
+    expect(result.current.getBranchInfo(result.current.messages[0].id)).toMatchObject({ index: 1, count: 2 });
+  });
+
+  it('sends uploaded attachments with the next message only', async () => {
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.addAttachments([new File(['x'], 'chart.png')]);
+    });
+    expect(result.current.attachments).toEqual([{ url: 'https://files.test/chart.png', name: 'chart.png' }]);
+
+    await act(async () => {
+      await result.current.send('What is this?');
+    });
+
+    expect(mockState.streamCalls[0].attachments).toHaveLength(1);
+    expect(result.current.attachments).toEqual([]);
+  });
+
+  it('saves every branch to the active conversation', async () => {
+    const store = mockState.store as MemoryConversationStore;
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Hi');
+    });
+    await act(async () => {
+      await result.current.regenerate();
+    });
+
+    await waitFor(async () => {
+      const [conversation] = await store.list({ instanceId: 'chat-test', ownerId: 'user-1' });
+      expect(conversation?.messages).toHaveLength(3);
+      expect(conversation?.selectedBranches).toBeDefined();
+    });
+  });
+
+  it('tells the provider which conversation and message the reply is for', async () => {
+    const store = mockState.store as MemoryConversationStore;
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Hi');
+    });
+
+    const [conversation] = await store.list({ instanceId: 'chat-test', ownerId: 'user-1' });
+    expect(mockState.streamCalls[0].conversationId).toBe(conversation.id);
+    expect(mockState.streamCalls[0].messageId).toBe(result.current.messages[1].id);
+  });
+
+  it('exports the conversation as shown and continues an imported one', async () => {
+    const store = mockState.store as MemoryConversationStore;
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Hi');
+    });
+
+    const exported = result.current.getConversation();
+    expect(exported.title).toBe('Hi');
+    expect(ids(exported.messages)).toEqual(['Hi', 'Hello there']);
+    expect(exported.messages[1]).not.toHaveProperty('isStreaming');
+
+    let importedId = '';
+    await act(async () => {
+      importedId = await result.current.importConversation(exported);
+    });
+
+    // The ID is taken by the original, so the copy gets a new one
+    expect(importedId).not.toBe(exported.id);
+    expect(ids(result.current.messages)).toEqual(['Hi', 'Hello there']);
+    expect(await store.get({ instanceId: 'chat-test', ownerId: 'user-1' }, importedId)).toMatchObject({
+      title: 'Hi',
+      messages: exported.messages,
+    });
+
+    await act(async () => {
+      await result.current.send('And now?');
+    });
+    expect(ids(result.current.messages)).toEqual(['Hi', 'Hello there', 'And now?', 'Hello there']);
+    expect(mockState.streamCalls[1].conversationId).toBe(importedId);
+  });
+
+  it('clears to a new conversation and keeps the old one saved', async () => {
+    const store = mockState.store as MemoryConversationStore;
+    const { result } = await renderChat();
+
+    await act(async () => {
+      await result.current.send('Hi');
+    });
+    act(() => {
+      result.current.clear();
+    });
+
+    await waitFor(() => expect(result.current.messages).toEqual([]));
+    await act(async () => {
+      await result.current.send('Fresh start');
+    });
+
+    await waitFor(async () => {
+      const saved = await store.list({ instanceId: 'chat-test', ownerId: 'user-1' });
+      expect(saved.map((conversation) => conversation.title).sort()).toEqual(['Fresh start', 'Hi']);
+    });
+  });
+
+  it('waits for the conversation to be restored before sending', () => {
+    const { result } = renderHook(() => useChat());
+
+    expect(result.current.canSend).toBe(false);
+  });
+
+  it('does not persist when persist is false', async () => {
+    const store = mockState.store as MemoryConversationStore;
+    const { result } = await renderChat({ persist: false });
+
+    await act(async () => {
+      await result.current.send('Hi');
+    });
+
+    expect(await store.list({ instanceId: 'chat-test', ownerId: 'user-1' })).toEqual([]);
+  });
+});